@@ -7,23 +7,42 @@ import { CartProvider } from '@/context/CartContext';
 import { Toaster } from "@/components/ui/toaster";
 import { Header } from '@/components/Header';
 import { AuthRedirect } from '@/components/AuthRedirect';
+import { MaintenanceGate } from '@/components/MaintenanceGate';
 import Index from '@/pages/Index';
 import ProductPage from '@/pages/ProductPage';
+import SearchPage from '@/pages/SearchPage';
+import CategoryPage from '@/pages/CategoryPage';
 import AdminDashboardPage from '@/pages/AdminDashboardPage';
 import SellerDashboardPage from '@/pages/SellerDashboardPage';
+import SellerOrdersPage from '@/pages/seller/OrdersPage';
+import ProductsPage from '@/pages/seller/ProductsPage';
+import AddProductPage from '@/pages/seller/AddProductPage';
+import EditProductPage from '@/pages/seller/EditProductPage';
+import ImportProductsPage from '@/pages/seller/ImportProductsPage';
 import DeliveryDashboardPage from '@/pages/DeliveryDashboardPage';
 import AccountPage from '@/pages/AccountPage';
 import AdminProductsPage from '@/pages/admin/AdminProductsPage';
+import AdminPromotionsPage from '@/pages/admin/AdminPromotionsPage';
+import AdminCategoriesPage from '@/pages/admin/AdminCategoriesPage';
+import AdminReviewsPage from '@/pages/admin/AdminReviewsPage';
+import AdminApplicationsPage from '@/pages/admin/AdminApplicationsPage';
+import AdminQuestionnairesPage from '@/pages/admin/AdminQuestionnairesPage';
+import AdminSettingsPage from '@/pages/admin/AdminSettingsPage';
+import AdminAnalyticsPage from '@/pages/admin/AdminAnalyticsPage';
 import DeliverySchedulePage from '@/pages/delivery/DeliverySchedulePage';
 import DeliveryAssignmentsPage from '@/pages/delivery/DeliveryAssignmentsPage';
 import DeliveryRoutesPage from '@/pages/delivery/DeliveryRoutesPage';
 import DeliveryEarningsPage from '@/pages/delivery/DeliveryEarningsPage';
 import CartPage from '@/pages/CartPage';
+import CheckoutPage from '@/pages/CheckoutPage';
+import CheckoutSuccessPage from '@/pages/CheckoutSuccessPage';
 import AvailableOrdersPage from '@/pages/delivery/AvailableOrdersPage';
 import LoginPage from '@/pages/LoginPage';
 import RegisterPage from '@/pages/RegisterPage';
 import WelcomePage from '@/pages/WelcomePage';
 import AuthConfirmationPage from '@/pages/AuthConfirmationPage';
+import WishlistPage from '@/pages/WishlistPage';
+import SharedWishlistPage from '@/pages/SharedWishlistPage';
 // Add other imports as needed
 
 // Create a client for React Query with improved settings
@@ -45,7 +64,7 @@ function App() {
       <AuthProvider>
         <CartProvider>
           <Router>
-            <div className="flex flex-col min-h-screen">
+            <MaintenanceGate>
               <Header />
               <main className="flex-grow">
                 <Routes>
@@ -53,6 +72,8 @@ function App() {
                   <Route path="/" element={<Index />} />
                   <Route path="/home" element={<Index />} />
                   <Route path="/product/:id" element={<ProductPage />} />
+                  <Route path="/search" element={<SearchPage />} />
+                  <Route path="/category/:slug" element={<CategoryPage />} />
                   
                   {/* Auth routes */}
                   <Route path="/login" element={
@@ -78,11 +99,24 @@ function App() {
                       <CartPage />
                     </AuthRedirect>
                   } />
+                  <Route path="/checkout" element={
+                    <AuthRedirect requireAuth={true}>
+                      <CheckoutPage />
+                    </AuthRedirect>
+                  } />
+                  <Route path="/checkout-success/:orderId" element={
+                    <AuthRedirect requireAuth={true}>
+                      <CheckoutSuccessPage />
+                    </AuthRedirect>
+                  } />
                   <Route path="/account" element={
                     <AuthRedirect requireAuth={true}>
                       <AccountPage />
                     </AuthRedirect>
                   } />
+                  {/* Shows its own sign-in prompt when logged out */}
+                  <Route path="/wishlist" element={<WishlistPage />} />
+                  <Route path="/wishlist/shared/:token" element={<SharedWishlistPage />} />
                   
                   {/* Role-specific routes */}
                   <Route path="/admin" element={
@@ -95,11 +129,71 @@ function App() {
                       <AdminProductsPage />
                     </AuthRedirect>
                   } />
+                  <Route path="/admin/promotions" element={
+                    <AuthRedirect requireAuth={true} allowedRoles={['admin']}>
+                      <AdminPromotionsPage />
+                    </AuthRedirect>
+                  } />
+                  <Route path="/admin/categories" element={
+                    <AuthRedirect requireAuth={true} allowedRoles={['admin']}>
+                      <AdminCategoriesPage />
+                    </AuthRedirect>
+                  } />
+                  <Route path="/admin/reviews" element={
+                    <AuthRedirect requireAuth={true} allowedRoles={['admin']}>
+                      <AdminReviewsPage />
+                    </AuthRedirect>
+                  } />
+                  <Route path="/admin/applications" element={
+                    <AuthRedirect requireAuth={true} allowedRoles={['admin']}>
+                      <AdminApplicationsPage />
+                    </AuthRedirect>
+                  } />
+                  <Route path="/admin/questionnaires" element={
+                    <AuthRedirect requireAuth={true} allowedRoles={['admin']}>
+                      <AdminQuestionnairesPage />
+                    </AuthRedirect>
+                  } />
+                  <Route path="/admin/settings" element={
+                    <AuthRedirect requireAuth={true} allowedRoles={['admin']}>
+                      <AdminSettingsPage />
+                    </AuthRedirect>
+                  } />
+                  <Route path="/admin/analytics" element={
+                    <AuthRedirect requireAuth={true} allowedRoles={['admin']}>
+                      <AdminAnalyticsPage />
+                    </AuthRedirect>
+                  } />
                   <Route path="/seller" element={
                     <AuthRedirect requireAuth={true} allowedRoles={['seller']}>
                       <SellerDashboardPage />
                     </AuthRedirect>
                   } />
+                  <Route path="/seller/orders" element={
+                    <AuthRedirect requireAuth={true} allowedRoles={['seller']}>
+                      <SellerOrdersPage />
+                    </AuthRedirect>
+                  } />
+                  <Route path="/seller/products" element={
+                    <AuthRedirect requireAuth={true} allowedRoles={['seller']}>
+                      <ProductsPage />
+                    </AuthRedirect>
+                  } />
+                  <Route path="/seller/products/new" element={
+                    <AuthRedirect requireAuth={true} allowedRoles={['seller']}>
+                      <AddProductPage />
+                    </AuthRedirect>
+                  } />
+                  <Route path="/seller/products/edit/:id" element={
+                    <AuthRedirect requireAuth={true} allowedRoles={['seller']}>
+                      <EditProductPage />
+                    </AuthRedirect>
+                  } />
+                  <Route path="/seller/products/import" element={
+                    <AuthRedirect requireAuth={true} allowedRoles={['seller']}>
+                      <ImportProductsPage />
+                    </AuthRedirect>
+                  } />
                   <Route path="/delivery" element={
                     <AuthRedirect requireAuth={true} allowedRoles={['delivery']}>
                       <DeliveryDashboardPage />
@@ -135,7 +229,7 @@ function App() {
                   <Route path="*" element={<Navigate to="/" replace />} />
                 </Routes>
               </main>
-            </div>
+            </MaintenanceGate>
             <Toaster />
           </Router>
         </CartProvider>
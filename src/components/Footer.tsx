@@ -34,22 +34,22 @@ export function Footer() {
             <h3 className="text-sm font-bold uppercase mb-4">Shop</h3>
             <ul className="space-y-2">
               <li>
-                <Link to="/category/Electronics" className="text-sm text-gray-600 hover:text-shop-purple">
+                <Link to="/category/electronics" className="text-sm text-gray-600 hover:text-shop-purple">
                   Electronics
                 </Link>
               </li>
               <li>
-                <Link to="/category/Clothing" className="text-sm text-gray-600 hover:text-shop-purple">
+                <Link to="/category/clothing" className="text-sm text-gray-600 hover:text-shop-purple">
                   Clothing
                 </Link>
               </li>
               <li>
-                <Link to="/category/Home" className="text-sm text-gray-600 hover:text-shop-purple">
+                <Link to="/category/home" className="text-sm text-gray-600 hover:text-shop-purple">
                   Home & Garden
                 </Link>
               </li>
               <li>
-                <Link to="/category/Books" className="text-sm text-gray-600 hover:text-shop-purple">
+                <Link to="/category/books" className="text-sm text-gray-600 hover:text-shop-purple">
                   Books
                 </Link>
               </li>
@@ -5,6 +5,10 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { useAuth } from '@/context/AuthContext';
 import { useCart } from '@/context/CartContext';
+import { useCategories } from '@/hooks/use-categories';
+import { getChildCategories } from '@/lib/categories';
+import { SearchAutocomplete } from '@/components/SearchAutocomplete';
+import { NotificationBell } from '@/components/NotificationBell';
 import { 
   Search, 
   ShoppingCart, 
@@ -17,7 +21,6 @@ import {
   Truck,
   Shield
 } from 'lucide-react';
-import { categories } from '@/lib/data';
 
 export function Header() {
   const { isAuthenticated, user, logout, userRole } = useAuth();
@@ -26,6 +29,9 @@ export function Header() {
   const [searchQuery, setSearchQuery] = useState('');
   const [mobileMenuOpen, setMobileMenuOpen] = useState(false);
   
+  const { data: allCategories = [] } = useCategories();
+  const categories = getChildCategories(allCategories, null);
+  
   const handleSearch = (e: React.FormEvent) => {
     e.preventDefault();
     if (searchQuery.trim()) {
@@ -71,26 +77,7 @@ export function Header() {
         </Link>
 
         {/* Search bar - hide on mobile */}
-        <form 
-          onSubmit={handleSearch} 
-          className="hidden md:flex flex-1 max-w-xl mx-8 relative"
-        >
-          <Input
-            type="text"
-            placeholder="Search for products..."
-            className="pr-10"
-            value={searchQuery}
-            onChange={(e) => setSearchQuery(e.target.value)}
-          />
-          <Button 
-            type="submit" 
-            variant="ghost" 
-            className="absolute right-0 top-0"
-            size="icon"
-          >
-            <Search className="h-4 w-4" />
-          </Button>
-        </form>
+        <SearchAutocomplete className="hidden md:block flex-1 max-w-xl mx-8" />
 
         {/* Actions */}
         <div className="flex items-center space-x-3">
@@ -115,6 +102,9 @@ export function Header() {
             </Link>
           )}
 
+          {/* Notifications - only for signed-in users */}
+          {isAuthenticated && <NotificationBell />}
+
           {/* Auth - show different icon based on role */}
           {isAuthenticated ? (
             <Link to={getDashboardLink()}>
@@ -148,12 +138,12 @@ export function Header() {
           <div className="container mx-auto px-4">
             <ul className="flex flex-wrap">
               {categories.map((category) => (
-                <li key={category}>
+                <li key={category.id}>
                   <Link
-                    to={`/category/${category}`}
+                    to={`/category/${category.slug}`}
                     className="block px-4 py-2 hover:text-shop-purple transition-colors"
                   >
-                    {category}
+                    {category.name}
                   </Link>
                 </li>
               ))}
@@ -261,13 +251,13 @@ export function Header() {
                     <span className="block px-2 text-sm font-semibold text-gray-600">Categories</span>
                   </li>
                   {categories.map((category) => (
-                    <li key={category}>
+                    <li key={category.id}>
                       <Link
-                        to={`/category/${category}`}
+                        to={`/category/${category.slug}`}
                         className="block p-2 hover:bg-gray-50"
                         onClick={() => setMobileMenuOpen(false)}
                       >
-                        {category}
+                        {category.name}
                       </Link>
                     </li>
                   ))}
@@ -0,0 +1,47 @@
+import React from 'react';
+import { useLocation } from 'react-router-dom';
+import { Loader2 } from 'lucide-react';
+import { useAuth } from '@/context/AuthContext';
+import { useStoreSettings } from '@/hooks/use-store-settings';
+import MaintenancePage from '@/pages/MaintenancePage';
+
+// Admins have to be able to sign in to switch maintenance mode off
+const ALWAYS_OPEN_PATHS = ['/login', '/auth-confirmation'];
+
+// The page shell. While maintenance mode is on, everyone but admins gets
+// the maintenance page instead of the header and routes.
+export function MaintenanceGate({ children }: { children: React.ReactNode }) {
+  const { userRole, authState } = useAuth();
+  const location = useLocation();
+  const { data: settings } = useStoreSettings();
+
+  const renderShell = (content: React.ReactNode) => (
+    <div className="flex flex-col min-h-screen">{content}</div>
+  );
+
+  // If settings can't be loaded the store stays open
+  if (!settings?.maintenance_mode || ALWAYS_OPEN_PATHS.includes(location.pathname)) {
+    return renderShell(children);
+  }
+
+  if (authState === 'initializing') {
+    return renderShell(
+      <div className="flex flex-col items-center justify-center min-h-[60vh]">
+        <Loader2 className="h-10 w-10 animate-spin text-shop-purple" />
+      </div>
+    );
+  }
+
+  if (userRole === 'admin') {
+    return renderShell(
+      <>
+        <div className="bg-yellow-100 text-yellow-800 text-sm text-center py-2 px-4">
+          Maintenance mode is on. Only admins can see the store.
+        </div>
+        {children}
+      </>
+    );
+  }
+
+  return renderShell(<MaintenancePage settings={settings} />);
+}
@@ -0,0 +1,109 @@
+import React, { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Bell } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { useAuth } from '@/context/AuthContext';
+import { supabase } from '@/integrations/supabase/client';
+import { AppNotification, NOTIFICATIONS_LIMIT } from '@/lib/wishlists';
+
+// In-app notification feed in the header, e.g. wishlist price-drop alerts
+export function NotificationBell() {
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const [open, setOpen] = useState(false);
+
+  const { data: notifications = [] } = useQuery({
+    queryKey: ['notifications', user?.id],
+    queryFn: async (): Promise<AppNotification[]> => {
+      const { data, error } = await supabase
+        .from('notifications')
+        .select('id, type, title, body, link, read_at, created_at')
+        .eq('user_id', user.id)
+        .order('created_at', { ascending: false })
+        .limit(NOTIFICATIONS_LIMIT);
+
+      if (error) throw error;
+      return data || [];
+    },
+    enabled: !!user?.id,
+  });
+
+  const unreadIds = notifications.filter(n => !n.read_at).map(n => n.id);
+
+  const markReadMutation = useMutation({
+    mutationFn: async (ids: string[]) => {
+      const { error } = await supabase
+        .from('notifications')
+        .update({ read_at: new Date().toISOString() })
+        .in('id', ids);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['notifications'] });
+    },
+  });
+
+  const handleOpen = (notification: AppNotification) => {
+    if (!notification.read_at) {
+      markReadMutation.mutate([notification.id]);
+    }
+    setOpen(false);
+    if (notification.link) {
+      navigate(notification.link);
+    }
+  };
+
+  if (!user) return null;
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button variant="outline" size="icon" className="relative" aria-label="Notifications">
+          <Bell className="h-5 w-5" />
+          {unreadIds.length > 0 && (
+            <span className="absolute -top-2 -right-2 h-5 w-5 text-xs flex items-center justify-center bg-shop-purple text-white rounded-full">
+              {unreadIds.length}
+            </span>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 p-0">
+        <div className="flex items-center justify-between border-b px-4 py-2">
+          <span className="font-medium">Notifications</span>
+          {unreadIds.length > 0 && (
+            <button
+              className="text-xs text-shop-purple hover:underline"
+              disabled={markReadMutation.isPending}
+              onClick={() => markReadMutation.mutate(unreadIds)}
+            >
+              Mark all as read
+            </button>
+          )}
+        </div>
+        {notifications.length === 0 ? (
+          <p className="px-4 py-6 text-center text-sm text-gray-500">
+            No notifications yet. Turn on alerts for items in your wishlist to hear about price drops and restocks.
+          </p>
+        ) : (
+          <ul className="max-h-96 overflow-y-auto divide-y">
+            {notifications.map(notification => (
+              <li key={notification.id}>
+                <button
+                  className={`w-full text-left px-4 py-3 hover:bg-gray-50 ${notification.read_at ? '' : 'bg-purple-50'}`}
+                  onClick={() => handleOpen(notification)}
+                >
+                  <p className="text-sm font-medium">{notification.title}</p>
+                  {notification.body && <p className="text-sm text-gray-600">{notification.body}</p>}
+                  <p className="mt-1 text-xs text-gray-400">{new Date(notification.created_at).toLocaleString()}</p>
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
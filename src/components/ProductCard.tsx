@@ -1,10 +1,13 @@
 
 import React from 'react';
-import { Link } from 'react-router-dom';
+import { Link, useNavigate } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
 import { useCart } from '@/context/CartContext';
 import { Heart, ShoppingCart, Star } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
+import { slugify } from '@/lib/categories';
+import { useAuth } from '@/context/AuthContext';
+import { addToWishlist } from '@/lib/wishlists';
 
 export interface Product {
   id: string;
@@ -25,7 +28,9 @@ interface ProductCardProps {
 
 export function ProductCard({ product }: ProductCardProps) {
   const { addToCart } = useCart();
+  const { isAuthenticated } = useAuth();
   const { toast } = useToast();
+  const navigate = useNavigate();
   
   const {
     id,
@@ -60,14 +65,28 @@ export function ProductCard({ product }: ProductCardProps) {
     }
   };
   
-  const handleAddToWishlist = (e: React.MouseEvent) => {
+  const handleAddToWishlist = async (e: React.MouseEvent) => {
     e.preventDefault();
     e.stopPropagation();
-    
-    toast({
-      title: "Added to wishlist",
-      description: `${name} has been added to your wishlist`,
-    });
+
+    if (!isAuthenticated) {
+      navigate('/login');
+      return;
+    }
+
+    try {
+      await addToWishlist(id);
+      toast({
+        title: "Added to wishlist",
+        description: `${name} has been added to your wishlist`,
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to add item to wishlist",
+        variant: "destructive"
+      });
+    }
   };
 
   return (
@@ -95,7 +114,7 @@ export function ProductCard({ product }: ProductCardProps) {
       </div>
       
       <div className="p-4">
-        <Link to={`/category/${category}`} className="text-xs text-gray-500 hover:underline mb-1 block">
+        <Link to={`/category/${slugify(category)}`} className="text-xs text-gray-500 hover:underline mb-1 block">
           {category}
         </Link>
         
@@ -0,0 +1,185 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useDebounce } from '@/hooks/use-debounce';
+import {
+  Command,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from '@/components/ui/command';
+import { History, Loader2, Search, Tag, X } from 'lucide-react';
+import { clearRecentSearches, getRecentSearches } from '@/lib/search';
+
+const MIN_QUERY_LENGTH = 2;
+
+// Header search box with product, category and recent-search suggestions.
+// Arrow keys move through the suggestions; Enter on the first item searches
+// for exactly what was typed.
+export function SearchAutocomplete({ className }: { className?: string }) {
+  const navigate = useNavigate();
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [term, setTerm] = useState('');
+  const [open, setOpen] = useState(false);
+  const [recentSearches, setRecentSearches] = useState<string[]>([]);
+
+  const trimmed = term.trim();
+  const debouncedTerm = useDebounce(trimmed, 250);
+
+  const { data: suggestions, isFetching } = useQuery({
+    queryKey: ['searchSuggestions', debouncedTerm],
+    queryFn: async () => {
+      const [productsResult, categoriesResult] = await Promise.all([
+        supabase.rpc('search_products', { _query: debouncedTerm, _limit: 5 }),
+        supabase
+          .from('categories')
+          .select('id, name, slug')
+          .ilike('name', `%${debouncedTerm.replace(/[%_]/g, '')}%`)
+          .order('name')
+          .limit(3),
+      ]);
+
+      if (productsResult.error) throw productsResult.error;
+      if (categoriesResult.error) throw categoriesResult.error;
+
+      return {
+        products: productsResult.data || [],
+        categories: categoriesResult.data || [],
+      };
+    },
+    enabled: debouncedTerm.length >= MIN_QUERY_LENGTH,
+    staleTime: 60 * 1000,
+  });
+
+  // Close when clicking anywhere outside the box
+  useEffect(() => {
+    const handleMouseDown = (e: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(e.target as Node)) {
+        setOpen(false);
+      }
+    };
+    document.addEventListener('mousedown', handleMouseDown);
+    return () => document.removeEventListener('mousedown', handleMouseDown);
+  }, []);
+
+  const openSuggestions = () => {
+    setRecentSearches(getRecentSearches());
+    setOpen(true);
+  };
+
+  const goTo = (path: string) => {
+    setOpen(false);
+    setTerm('');
+    navigate(path);
+  };
+
+  const search = (query: string) => {
+    if (!query.trim()) return;
+    setOpen(false);
+    setTerm(query.trim());
+    navigate(`/search?q=${encodeURIComponent(query.trim())}`);
+  };
+
+  const handleClearRecent = () => {
+    clearRecentSearches();
+    setRecentSearches([]);
+  };
+
+  // Suggestions for an older term are hidden until the new ones arrive
+  const showSuggestions = trimmed.length >= MIN_QUERY_LENGTH && debouncedTerm === trimmed;
+  const products = showSuggestions ? suggestions?.products || [] : [];
+  const categories = showSuggestions ? suggestions?.categories || [] : [];
+  const hasItems = trimmed !== '' || recentSearches.length > 0;
+
+  return (
+    <div ref={containerRef} className={`relative ${className || ''}`}>
+      <Command shouldFilter={false} loop className="overflow-visible bg-transparent">
+        <div className="rounded-md border border-input bg-background">
+          <CommandInput
+            placeholder="Search for products..."
+            className="h-10"
+            value={term}
+            onValueChange={(value) => {
+              setTerm(value);
+              if (!open) openSuggestions();
+            }}
+            onFocus={openSuggestions}
+            onKeyDown={(e) => {
+              if (e.key === 'Escape') setOpen(false);
+            }}
+          />
+        </div>
+
+        {open && hasItems && (
+          <div className="absolute top-full left-0 right-0 mt-1 z-50 rounded-md border bg-popover shadow-md">
+            <CommandList>
+              {trimmed !== '' && (
+                <CommandGroup>
+                  <CommandItem value={`search:${trimmed}`} onSelect={() => search(trimmed)}>
+                    <Search className="mr-2 h-4 w-4" />
+                    Search for "{trimmed}"
+                    {isFetching && <Loader2 className="ml-auto h-4 w-4 animate-spin text-gray-400" />}
+                  </CommandItem>
+                </CommandGroup>
+              )}
+
+              {trimmed === '' && recentSearches.length > 0 && (
+                <CommandGroup heading="Recent searches">
+                  {recentSearches.map(recent => (
+                    <CommandItem key={recent} value={`recent:${recent}`} onSelect={() => search(recent)}>
+                      <History className="mr-2 h-4 w-4" />
+                      {recent}
+                    </CommandItem>
+                  ))}
+                  <CommandItem value="recent:clear" onSelect={handleClearRecent} className="text-gray-500">
+                    <X className="mr-2 h-4 w-4" />
+                    Clear recent searches
+                  </CommandItem>
+                </CommandGroup>
+              )}
+
+              {categories.length > 0 && (
+                <CommandGroup heading="Categories">
+                  {categories.map(category => (
+                    <CommandItem
+                      key={category.id}
+                      value={`category:${category.id}`}
+                      onSelect={() => goTo(`/category/${category.slug}`)}
+                    >
+                      <Tag className="mr-2 h-4 w-4" />
+                      {category.name}
+                    </CommandItem>
+                  ))}
+                </CommandGroup>
+              )}
+
+              {products.length > 0 && (
+                <CommandGroup heading="Products">
+                  {products.map(product => (
+                    <CommandItem
+                      key={product.id}
+                      value={`product:${product.id}`}
+                      onSelect={() => goTo(`/product/${product.id}`)}
+                    >
+                      <img
+                        src={product.image_url || '/placeholder.svg'}
+                        alt=""
+                        className="mr-2 h-8 w-8 rounded object-cover"
+                      />
+                      <span className="flex-1 truncate">{product.name}</span>
+                      <span className="ml-2 text-gray-500">
+                        ${Number(product.discounted_price ?? product.price).toFixed(2)}
+                      </span>
+                    </CommandItem>
+                  ))}
+                </CommandGroup>
+              )}
+            </CommandList>
+          </div>
+        )}
+      </Command>
+    </div>
+  );
+}
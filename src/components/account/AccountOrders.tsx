@@ -36,6 +36,25 @@ import {
   AccordionTrigger,
 } from '@/components/ui/accordion';
 import { Badge } from '@/components/ui/badge';
+import ReturnRequestDialog from '@/components/account/ReturnRequestDialog';
+import { Progress } from '@/components/ui/progress';
+import {
+  FULFILMENT_STEPS,
+  fulfilmentStatusColors,
+  fulfilmentStatusLabels,
+  getDeliveryStatusColor,
+  getDeliveryStatusLabel,
+  getOrderStatusColor,
+  getOrderStatusLabel,
+  OrderEvent,
+  OrderFulfilment,
+} from '@/lib/orders';
+import {
+  pickupStatusLabels,
+  ReturnRequest,
+  returnStatusColors,
+  returnStatusLabels,
+} from '@/lib/returns';
 import { 
   Loader2, 
   Package, 
@@ -52,6 +71,7 @@ interface OrderItem {
   product_name: string;
   quantity: number;
   price: number;
+  fulfilment_id: string | null;
 }
 
 interface Order {
@@ -68,27 +88,6 @@ interface Order {
   items: OrderItem[];
 }
 
-const statusColors = {
-  pending: "bg-yellow-100 text-yellow-800",
-  paid: "bg-blue-100 text-blue-800",
-  processing: "bg-purple-100 text-purple-800",
-  shipped: "bg-indigo-100 text-indigo-800",
-  delivered: "bg-green-100 text-green-800",
-  completed: "bg-green-100 text-green-800",
-  canceled: "bg-red-100 text-red-800",
-};
-
-const deliveryStatusColors = {
-  pending: "bg-yellow-100 text-yellow-800",
-  assigned: "bg-blue-100 text-blue-800",
-  in_transit: "bg-purple-100 text-purple-800",
-  delivered: "bg-green-100 text-green-800",
-};
-
-const orderStatuses = [
-  "pending", "paid", "processing", "shipped", "delivered", "completed", "canceled"
-];
-
 export default function AccountOrders() {
   const { user } = useAuth();
   const { toast } = useToast();
@@ -96,6 +95,10 @@ export default function AccountOrders() {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [selectedOrder, setSelectedOrder] = useState<Order | null>(null);
+  const [orderEvents, setOrderEvents] = useState<OrderEvent[]>([]);
+  const [orderFulfilments, setOrderFulfilments] = useState<OrderFulfilment[]>([]);
+  const [orderReturns, setOrderReturns] = useState<ReturnRequest[]>([]);
+  const [eventsLoading, setEventsLoading] = useState(false);
   
   useEffect(() => {
     if (user) {
@@ -129,6 +132,8 @@ export default function AccountOrders() {
               product_id,
               quantity,
               price,
+              fulfilment_id,
+              variant_name,
               products:product_id (name)
             `)
             .eq('order_id', order.id);
@@ -138,9 +143,12 @@ export default function AccountOrders() {
           const items = (itemsData || []).map(item => ({
             id: item.id,
             product_id: item.product_id,
-            product_name: item.products?.name || 'Unknown Product',
+            product_name: item.variant_name
+              ? `${item.products?.name || 'Unknown Product'} (${item.variant_name})`
+              : item.products?.name || 'Unknown Product',
             quantity: item.quantity,
             price: item.price,
+            fulfilment_id: item.fulfilment_id,
           }));
           
           return {
@@ -164,25 +172,82 @@ export default function AccountOrders() {
     }
   };
   
-  const getStatusBadgeClass = (status: string) => {
-    return statusColors[status as keyof typeof statusColors] || "bg-gray-100 text-gray-800";
+  const formatDate = (dateString: string) => {
+    return format(new Date(dateString), 'MMM d, yyyy');
   };
   
-  const getDeliveryStatusBadgeClass = (status: string) => {
-    return deliveryStatusColors[status as keyof typeof deliveryStatusColors] || "bg-gray-100 text-gray-800";
+  const viewOrderDetails = async (order: Order) => {
+    setSelectedOrder(order);
+    setOrderEvents([]);
+    setOrderFulfilments([]);
+    setOrderReturns([]);
+    setEventsLoading(true);
+    
+    try {
+      const [eventsResult, fulfilmentsResult] = await Promise.all([
+        supabase
+          .from('order_events')
+          .select('*')
+          .eq('order_id', order.id)
+          .order('created_at', { ascending: true }),
+        supabase
+          .from('order_fulfilments')
+          .select('*')
+          .eq('order_id', order.id)
+          .order('created_at', { ascending: true }),
+      ]);
+      
+      if (eventsResult.error) throw eventsResult.error;
+      if (fulfilmentsResult.error) throw fulfilmentsResult.error;
+      setOrderEvents((eventsResult.data || []) as OrderEvent[]);
+      setOrderFulfilments((fulfilmentsResult.data || []) as OrderFulfilment[]);
+      await fetchReturns(order.id);
+    } catch (err) {
+      console.error('Error fetching order history:', err);
+    } finally {
+      setEventsLoading(false);
+    }
   };
   
-  const formatDate = (dateString: string) => {
-    return format(new Date(dateString), 'MMM d, yyyy');
+  const fetchReturns = async (orderId: string) => {
+    const { data, error } = await supabase
+      .from('return_requests')
+      .select('*')
+      .eq('order_id', orderId)
+      .order('created_at', { ascending: true });
+    
+    if (error) throw error;
+    setOrderReturns((data || []) as ReturnRequest[]);
   };
   
-  const viewOrderDetails = (order: Order) => {
-    setSelectedOrder(order);
+  // Items can be returned once they have been delivered, less any already
+  // being returned
+  const getReturnableQuantity = (order: Order, item: OrderItem) => {
+    const fulfilment = orderFulfilments.find(f => f.id === item.fulfilment_id);
+    if (order.status !== 'delivered' && fulfilment?.status !== 'delivered') {
+      return 0;
+    }
+    
+    const alreadyReturned = orderReturns
+      .filter(r => r.order_item_id === item.id && r.status !== 'rejected')
+      .reduce((sum, r) => sum + r.quantity, 0);
+    return item.quantity - alreadyReturned;
+  };
+  
+  const describeEvent = (event: OrderEvent) => {
+    return event.field === 'delivery_status'
+      ? getDeliveryStatusLabel(event.to_status)
+      : getOrderStatusLabel(event.to_status);
+  };
+  
+  // How far along a package is, as a percentage of its steps
+  const getFulfilmentProgress = (fulfilment: OrderFulfilment) => {
+    const step = FULFILMENT_STEPS.indexOf(fulfilment.status);
+    return step < 0 ? 0 : (step / (FULFILMENT_STEPS.length - 1)) * 100;
   };
   
   const getOrderStatusIcon = (status: string) => {
     switch (status) {
-      case 'completed':
       case 'delivered':
         return <CheckCircle className="h-5 w-5 text-green-500" />;
       case 'pending':
@@ -192,7 +257,8 @@ export default function AccountOrders() {
       case 'shipped':
       case 'in_transit':
         return <Truck className="h-5 w-5 text-purple-500" />;
-      case 'canceled':
+      case 'cancelled':
+      case 'refunded':
         return <AlertCircle className="h-5 w-5 text-red-500" />;
       default:
         return <Package className="h-5 w-5 text-gray-500" />;
@@ -254,12 +320,12 @@ export default function AccountOrders() {
                   <TableCell>{formatDate(order.created_at)}</TableCell>
                   <TableCell>
                     <div className="flex gap-2">
-                      <Badge className={getStatusBadgeClass(order.status)}>
-                        {order.status.charAt(0).toUpperCase() + order.status.slice(1)}
+                      <Badge className={getOrderStatusColor(order.status)}>
+                        {getOrderStatusLabel(order.status)}
                       </Badge>
                       {order.delivery_status && order.delivery_status !== 'pending' && (
-                        <Badge className={getDeliveryStatusBadgeClass(order.delivery_status)}>
-                          {order.delivery_status.charAt(0).toUpperCase() + order.delivery_status.slice(1)}
+                        <Badge className={getDeliveryStatusColor(order.delivery_status)}>
+                          {getDeliveryStatusLabel(order.delivery_status)}
                         </Badge>
                       )}
                     </div>
@@ -292,37 +358,139 @@ export default function AccountOrders() {
                                 <div className="flex items-center">
                                   {getOrderStatusIcon(selectedOrder.status)}
                                   <span className="ml-2 font-medium">
-                                    Status: {selectedOrder.status.charAt(0).toUpperCase() + selectedOrder.status.slice(1)}
+                                    Status: {getOrderStatusLabel(selectedOrder.status)}
                                   </span>
                                 </div>
-                                <Badge className={getStatusBadgeClass(selectedOrder.status)}>
-                                  {selectedOrder.status.charAt(0).toUpperCase() + selectedOrder.status.slice(1)}
+                                <Badge className={getOrderStatusColor(selectedOrder.status)}>
+                                  {getOrderStatusLabel(selectedOrder.status)}
                                 </Badge>
                               </div>
                               
-                              {selectedOrder.tracking_number && (
+                              {orderFulfilments.length > 0 && (
+                                <div className="mb-4">
+                                  <p className="text-sm font-medium mb-3">
+                                    {orderFulfilments.length > 1
+                                      ? `Shipping in ${orderFulfilments.length} packages`
+                                      : 'Package'}
+                                  </p>
+                                  <div className="space-y-3">
+                                    {orderFulfilments.map((fulfilment, index) => (
+                                      <div key={fulfilment.id} className="p-3 border rounded-md">
+                                        <div className="flex items-center justify-between mb-2">
+                                          <span className="text-sm font-medium">
+                                            Package {index + 1} of {orderFulfilments.length}
+                                          </span>
+                                          <Badge className={fulfilmentStatusColors[fulfilment.status]}>
+                                            {fulfilmentStatusLabels[fulfilment.status]}
+                                          </Badge>
+                                        </div>
+                                        {fulfilment.status !== 'cancelled' && (
+                                          <Progress value={getFulfilmentProgress(fulfilment)} className="h-2 mb-2" />
+                                        )}
+                                        <ul className="text-xs text-gray-600 space-y-0.5">
+                                          {selectedOrder.items
+                                            .filter(item => item.fulfilment_id === fulfilment.id)
+                                            .map(item => (
+                                              <li key={item.id}>{item.quantity} × {item.product_name}</li>
+                                            ))}
+                                        </ul>
+                                        {fulfilment.tracking_number && (
+                                          <p className="text-xs mt-2">
+                                            <span className="font-medium">{fulfilment.carrier}</span> tracking: {fulfilment.tracking_number}
+                                          </p>
+                                        )}
+                                        {fulfilment.delivery_status !== 'pending' && (
+                                          <p className="text-xs mt-1 text-gray-500">
+                                            {getDeliveryStatusLabel(fulfilment.delivery_status)}
+                                          </p>
+                                        )}
+                                      </div>
+                                    ))}
+                                  </div>
+                                </div>
+                              )}
+                              
+                              {selectedOrder.tracking_number && orderFulfilments.length === 0 && (
                                 <div className="mb-4 p-3 bg-blue-50 border border-blue-100 rounded-md">
                                   <p className="text-sm font-medium">Tracking Number:</p>
                                   <p className="text-sm">{selectedOrder.tracking_number}</p>
                                 </div>
                               )}
                               
+                              <div className="mb-4">
+                                <p className="text-sm font-medium mb-3">Order History</p>
+                                {eventsLoading ? (
+                                  <Loader2 className="h-4 w-4 animate-spin text-gray-400" />
+                                ) : orderEvents.length === 0 ? (
+                                  <p className="text-sm text-gray-500">No history recorded yet.</p>
+                                ) : (
+                                  <ol className="relative border-l border-gray-200 ml-2">
+                                    {orderEvents.map((event, index) => (
+                                      <li key={event.id} className="mb-4 ml-4 last:mb-0">
+                                        <div
+                                          className={`absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border border-white ${
+                                            index === orderEvents.length - 1 ? 'bg-shop-purple' : 'bg-gray-300'
+                                          }`}
+                                        />
+                                        <p className="text-sm font-medium">{describeEvent(event)}</p>
+                                        <time className="text-xs text-gray-500">
+                                          {format(new Date(event.created_at), 'MMM d, yyyy h:mm a')}
+                                        </time>
+                                        {event.note && (
+                                          <p className="text-xs text-gray-600 mt-1">{event.note}</p>
+                                        )}
+                                      </li>
+                                    ))}
+                                  </ol>
+                                )}
+                              </div>
+                              
                               <Accordion type="single" collapsible className="mb-4">
                                 <AccordionItem value="items">
                                   <AccordionTrigger>Order Items</AccordionTrigger>
                                   <AccordionContent>
                                     <div className="space-y-2">
                                       {selectedOrder.items.map((item) => (
-                                        <div key={item.id} className="flex justify-between items-center border-b pb-2">
-                                          <div>
-                                            <p className="font-medium">{item.product_name}</p>
-                                            <p className="text-sm text-gray-500">
-                                              {item.quantity} × ${item.price.toFixed(2)}
+                                        <div key={item.id} className="border-b pb-2">
+                                          <div className="flex justify-between items-center">
+                                            <div>
+                                              <p className="font-medium">{item.product_name}</p>
+                                              <p className="text-sm text-gray-500">
+                                                {item.quantity} × ${item.price.toFixed(2)}
+                                              </p>
+                                            </div>
+                                            <p className="font-medium">
+                                              ${(item.price * item.quantity).toFixed(2)}
                                             </p>
                                           </div>
-                                          <p className="font-medium">
-                                            ${(item.price * item.quantity).toFixed(2)}
-                                          </p>
+                                          {orderReturns
+                                            .filter(r => r.order_item_id === item.id)
+                                            .map(r => (
+                                              <div key={r.id} className="mt-2 text-xs">
+                                                <div className="flex items-center gap-2">
+                                                  <Badge className={returnStatusColors[r.status]}>
+                                                    {returnStatusLabels[r.status]}
+                                                  </Badge>
+                                                  <span className="text-gray-500">
+                                                    {r.quantity} item(s)
+                                                    {r.pickup_status && ` · ${pickupStatusLabels[r.pickup_status]}`}
+                                                  </span>
+                                                </div>
+                                                {r.seller_note && (
+                                                  <p className="text-gray-600 mt-1">Seller: {r.seller_note}</p>
+                                                )}
+                                              </div>
+                                            ))}
+                                          {getReturnableQuantity(selectedOrder, item) > 0 && (
+                                            <div className="mt-2">
+                                              <ReturnRequestDialog
+                                                orderItemId={item.id}
+                                                productName={item.product_name}
+                                                returnableQuantity={getReturnableQuantity(selectedOrder, item)}
+                                                onRequested={() => fetchReturns(selectedOrder.id).catch(console.error)}
+                                              />
+                                            </div>
+                                          )}
                                         </div>
                                       ))}
                                       <div className="flex justify-between items-center pt-2">
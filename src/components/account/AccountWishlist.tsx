@@ -6,19 +6,21 @@ import { useAuth } from '@/context/AuthContext';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
 import { useCart } from '@/context/CartContext';
+import { Link } from 'react-router-dom';
 import { Loader2, Heart, AlertCircle, Package, ShoppingCart, Trash2 } from 'lucide-react';
 
 interface WishlistItem {
   id: string;
   product_id: string;
-  product?: {
+  list_name?: string;
+  product: {
     id: string;
     name: string;
     price: number;
     discounted_price: number | null;
     image_url: string | null;
     stock: number;
-  };
+  } | null;
 }
 
 export default function AccountWishlist() {
@@ -36,46 +38,24 @@ export default function AccountWishlist() {
     queryFn: async () => {
       if (!user?.id) return [];
       
-      try {
-        // Get wishlist items for the user
-        const { data: wishlistData, error: wishlistError } = await supabase
-          .from('wishlists')
-          .select('id, product_id')
-          .eq('user_id', user.id);
-          
-        if (wishlistError) throw wishlistError;
-        
-        if (!wishlistData || wishlistData.length === 0) return [];
-        
-        // Get product details for each wishlist item
-        const itemsWithProductDetails = await Promise.all(
-          wishlistData.map(async (item) => {
-            const { data: product, error: productError } = await supabase
-              .from('products')
-              .select('id, name, price, discounted_price, image_url, stock')
-              .eq('id', item.product_id)
-              .single();
-              
-            // If product not found (might have been deleted), return item as is
-            if (productError || !product) {
-              return {
-                ...item,
-                product: null
-              };
-            }
-            
-            return {
-              ...item,
-              product
-            };
-          })
-        );
-        
-        return itemsWithProductDetails;
-      } catch (error) {
+      const { data, error } = await supabase
+        .from('wishlists')
+        .select('id, product_id, wishlist_lists (name), products (id, name, price, discounted_price, image_url, stock)')
+        .eq('user_id', user.id)
+        .order('created_at', { ascending: false });
+
+      if (error) {
         console.error('Error fetching wishlist:', error);
         throw error;
       }
+
+      // A deleted product leaves product null
+      return (data || []).map((item): WishlistItem => ({
+        id: item.id,
+        product_id: item.product_id,
+        list_name: item.wishlist_lists?.name,
+        product: item.products,
+      }));
     },
     enabled: !!user?.id,
   });
@@ -171,6 +151,11 @@ export default function AccountWishlist() {
   
   return (
     <CardContent className="pt-6">
+      <div className="flex justify-end mb-4">
+        <Button variant="outline" size="sm" asChild>
+          <Link to="/wishlist">Manage lists and alerts</Link>
+        </Button>
+      </div>
       <div className="grid grid-cols-1 gap-6">
         {wishlistItems?.map((item) => (
           <div 
@@ -196,6 +181,7 @@ export default function AccountWishlist() {
                 <>
                   <div className="mb-2">
                     <h3 className="font-medium text-lg">{item.product.name}</h3>
+                    {item.list_name && <p className="text-xs text-gray-500">{item.list_name}</p>}
                     <div className="mt-1">
                       {item.product.discounted_price ? (
                         <div className="flex items-center gap-2">
@@ -0,0 +1,218 @@
+
+import React, { useState } from 'react';
+import { FunctionsHttpError } from '@supabase/supabase-js';
+import { useAuth } from '@/context/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Loader2, Undo2 } from 'lucide-react';
+import {
+  MAX_RETURN_PHOTOS,
+  RETURN_PHOTO_BUCKET,
+  ReturnReason,
+  returnReasonLabels,
+} from '@/lib/returns';
+
+interface ReturnRequestDialogProps {
+  orderItemId: string;
+  productName: string;
+  returnableQuantity: number;
+  onRequested: () => void;
+}
+
+export default function ReturnRequestDialog({
+  orderItemId,
+  productName,
+  returnableQuantity,
+  onRequested,
+}: ReturnRequestDialogProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [quantity, setQuantity] = useState(1);
+  const [reason, setReason] = useState<ReturnReason | ''>('');
+  const [details, setDetails] = useState('');
+  const [photos, setPhotos] = useState<File[]>([]);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const resetForm = () => {
+    setQuantity(1);
+    setReason('');
+    setDetails('');
+    setPhotos([]);
+  };
+
+  const handlePhotoChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    if (files.length > MAX_RETURN_PHOTOS) {
+      toast({
+        title: 'Too many photos',
+        description: `You can attach up to ${MAX_RETURN_PHOTOS} photos.`,
+        variant: 'destructive',
+      });
+    }
+    setPhotos(files.slice(0, MAX_RETURN_PHOTOS));
+  };
+
+  // Photos go under the user's own folder, which is all storage lets them write
+  const uploadPhotos = async (): Promise<string[]> => {
+    return Promise.all(photos.map(async (photo, index) => {
+      const path = `${user?.id}/${orderItemId}/${Date.now()}-${index}-${photo.name}`;
+      const { error } = await supabase.storage
+        .from(RETURN_PHOTO_BUCKET)
+        .upload(path, photo, { contentType: photo.type });
+
+      if (error) throw error;
+      return path;
+    }));
+  };
+
+  const handleSubmit = async () => {
+    if (!user || !reason) return;
+
+    setIsSubmitting(true);
+    try {
+      const photoPaths = await uploadPhotos();
+
+      const { error } = await supabase.functions.invoke('returns_functions', {
+        body: {
+          action: 'request_return',
+          order_item_id: orderItemId,
+          quantity,
+          reason,
+          details,
+          photo_paths: photoPaths,
+        },
+      });
+
+      if (error) {
+        const body = error instanceof FunctionsHttpError
+          ? await error.context.json().catch(() => null)
+          : null;
+        throw new Error(body?.error || error.message);
+      }
+
+      toast({
+        title: 'Return requested',
+        description: 'The seller will review your request shortly.',
+      });
+
+      setOpen(false);
+      resetForm();
+      onRequested();
+    } catch (err) {
+      toast({
+        title: 'Could not request return',
+        description: err instanceof Error ? err.message : 'Please try again.',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <>
+      <Button variant="outline" size="sm" onClick={() => setOpen(true)}>
+        <Undo2 className="h-3 w-3 mr-1" />
+        Return
+      </Button>
+
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Return {productName}</DialogTitle>
+            <DialogDescription>
+              Tell the seller what went wrong. You'll be refunded once the return is approved.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="return-quantity">Quantity</Label>
+              <Input
+                id="return-quantity"
+                type="number"
+                min={1}
+                max={returnableQuantity}
+                value={quantity}
+                onChange={(e) => setQuantity(Math.min(returnableQuantity, Math.max(1, parseInt(e.target.value) || 1)))}
+              />
+              <p className="text-xs text-gray-500">Up to {returnableQuantity} can be returned.</p>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Reason</Label>
+              <Select value={reason} onValueChange={(value) => setReason(value as ReturnReason)}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select a reason" />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(returnReasonLabels).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="return-details">Details (optional)</Label>
+              <Textarea
+                id="return-details"
+                rows={3}
+                value={details}
+                onChange={(e) => setDetails(e.target.value)}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="return-photos">Photos (optional)</Label>
+              <Input
+                id="return-photos"
+                type="file"
+                accept="image/*"
+                multiple
+                onChange={handlePhotoChange}
+              />
+              {photos.length > 0 && (
+                <p className="text-xs text-gray-500">{photos.length} photo(s) selected</p>
+              )}
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setOpen(false)}>
+              Cancel
+            </Button>
+            <Button
+              className="bg-shop-purple hover:bg-shop-purple-dark"
+              disabled={!reason || isSubmitting}
+              onClick={handleSubmit}
+            >
+              {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Request Return
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
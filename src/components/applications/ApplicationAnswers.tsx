@@ -0,0 +1,49 @@
+import React from 'react';
+import { Paperclip } from 'lucide-react';
+import { formatAnswer, Question } from '@/lib/questionnaires';
+
+interface ApplicationAnswersProps {
+  // The questionnaire version the applicant answered; null for
+  // applications from before questionnaires were versioned
+  questions: Question[] | null;
+  answers: Record<string, string>;
+  // Signed links to uploaded files, by storage path
+  fileUrls?: Record<string, string>;
+}
+
+export default function ApplicationAnswers({ questions, answers, fileUrls = {} }: ApplicationAnswersProps) {
+  // Older applications stored answers keyed by the question text
+  const rows = questions
+    ? questions.map(question => ({ question, answer: answers[question.id] }))
+    : Object.entries(answers).map(([label, answer]) => ({
+        question: { id: label, label, type: 'text', required: false } as Question,
+        answer: String(answer),
+      }));
+
+  if (rows.length === 0) {
+    return <p className="text-sm text-gray-500">No answers</p>;
+  }
+
+  return (
+    <div className="space-y-3">
+      {rows.map(({ question, answer }) => (
+        <div key={question.id} className="space-y-1">
+          <p className="text-sm font-medium">{question.label}</p>
+          {question.type === 'file' && answer && fileUrls[answer] ? (
+            <a
+              href={fileUrls[answer]}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="text-sm text-shop-purple hover:underline inline-flex items-center"
+            >
+              <Paperclip className="h-3 w-3 mr-1" />
+              {formatAnswer(question, answer)}
+            </a>
+          ) : (
+            <p className="text-sm text-gray-700 whitespace-pre-line">{formatAnswer(question, answer)}</p>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,123 @@
+import React, { useState } from 'react';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Loader2, Paperclip } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import {
+  APPLICATION_FILE_TYPES,
+  formatAnswer,
+  Question,
+  QuestionAnswers,
+  uploadApplicationFile,
+} from '@/lib/questionnaires';
+
+interface QuestionnaireFieldsProps {
+  questions: Question[];
+  answers: QuestionAnswers;
+  onChange: (questionId: string, value: string) => void;
+}
+
+// One input per question, in questionnaire order. Files upload as soon as
+// they are picked and the answer becomes the storage path.
+export default function QuestionnaireFields({ questions, answers, onChange }: QuestionnaireFieldsProps) {
+  const { toast } = useToast();
+  const [uploading, setUploading] = useState<string | null>(null);
+
+  const handleFile = async (question: Question, file: File | undefined) => {
+    if (!file) return;
+    setUploading(question.id);
+    try {
+      onChange(question.id, await uploadApplicationFile(file));
+    } catch (error) {
+      toast({
+        title: 'Upload Failed',
+        description: (error as Error).message,
+        variant: 'destructive',
+      });
+    } finally {
+      setUploading(null);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {questions.map(question => {
+        const fieldId = `question-${question.id}`;
+        const value = answers[question.id] || '';
+
+        return (
+          <div key={question.id} className="space-y-2">
+            <Label htmlFor={fieldId} className="block text-sm font-medium text-gray-700">
+              {question.label}{question.required && <span className="text-red-500">*</span>}
+            </Label>
+
+            {question.type === 'textarea' && (
+              <Textarea id={fieldId} value={value} onChange={(e) => onChange(question.id, e.target.value)} />
+            )}
+
+            {question.type === 'text' && (
+              <Input id={fieldId} type="text" value={value} onChange={(e) => onChange(question.id, e.target.value)} />
+            )}
+
+            {question.type === 'select' && (
+              <Select value={value} onValueChange={(choice) => onChange(question.id, choice)}>
+                <SelectTrigger id={fieldId}>
+                  <SelectValue placeholder="Choose one" />
+                </SelectTrigger>
+                <SelectContent>
+                  {(question.options || []).map(option => (
+                    <SelectItem key={option} value={option}>{option}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+
+            {question.type === 'yes_no' && (
+              <RadioGroup id={fieldId} value={value} onValueChange={(choice) => onChange(question.id, choice)} className="flex gap-6">
+                <div className="flex items-center gap-2">
+                  <RadioGroupItem value="yes" id={`${fieldId}-yes`} />
+                  <Label htmlFor={`${fieldId}-yes`}>Yes</Label>
+                </div>
+                <div className="flex items-center gap-2">
+                  <RadioGroupItem value="no" id={`${fieldId}-no`} />
+                  <Label htmlFor={`${fieldId}-no`}>No</Label>
+                </div>
+              </RadioGroup>
+            )}
+
+            {question.type === 'file' && (
+              <div className="space-y-1">
+                <Input
+                  id={fieldId}
+                  type="file"
+                  accept={APPLICATION_FILE_TYPES.join(',')}
+                  disabled={uploading === question.id}
+                  onChange={(e) => handleFile(question, e.target.files?.[0])}
+                />
+                {uploading === question.id ? (
+                  <p className="text-xs text-gray-500 flex items-center">
+                    <Loader2 className="h-3 w-3 mr-1 animate-spin" /> Uploading...
+                  </p>
+                ) : value && (
+                  <p className="text-xs text-gray-500 flex items-center">
+                    <Paperclip className="h-3 w-3 mr-1" /> {formatAnswer(question, value)}
+                  </p>
+                )}
+                <p className="text-xs text-gray-500">PDF or image, up to 10 MB</p>
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,63 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import {
+  Breadcrumb,
+  BreadcrumbItem,
+  BreadcrumbLink,
+  BreadcrumbList,
+  BreadcrumbPage,
+  BreadcrumbSeparator,
+} from '@/components/ui/breadcrumb';
+import { useCategories } from '@/hooks/use-categories';
+import { getCategoryPath } from '@/lib/categories';
+
+interface CategoryBreadcrumbsProps {
+  categoryId: string | null;
+  // Trailing page title, e.g. the product name; without it the category
+  // itself is the current page
+  current?: string;
+  className?: string;
+}
+
+// Home > Parent > Category [> current], following the category tree
+export default function CategoryBreadcrumbs({ categoryId, current, className }: CategoryBreadcrumbsProps) {
+  const { data: categories = [] } = useCategories();
+  const path = getCategoryPath(categories, categoryId);
+
+  return (
+    <Breadcrumb className={className}>
+      <BreadcrumbList>
+        <BreadcrumbItem>
+          <BreadcrumbLink asChild>
+            <Link to="/">Home</Link>
+          </BreadcrumbLink>
+        </BreadcrumbItem>
+        {path.map((category, index) => {
+          const isCurrent = !current && index === path.length - 1;
+          return (
+            <React.Fragment key={category.id}>
+              <BreadcrumbSeparator />
+              <BreadcrumbItem>
+                {isCurrent ? (
+                  <BreadcrumbPage>{category.name}</BreadcrumbPage>
+                ) : (
+                  <BreadcrumbLink asChild>
+                    <Link to={`/category/${category.slug}`}>{category.name}</Link>
+                  </BreadcrumbLink>
+                )}
+              </BreadcrumbItem>
+            </React.Fragment>
+          );
+        })}
+        {current && (
+          <>
+            <BreadcrumbSeparator />
+            <BreadcrumbItem>
+              <BreadcrumbPage>{current}</BreadcrumbPage>
+            </BreadcrumbItem>
+          </>
+        )}
+      </BreadcrumbList>
+    </Breadcrumb>
+  );
+}
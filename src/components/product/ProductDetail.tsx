@@ -1,9 +1,22 @@
 
-import React, { useState } from 'react';
+import React, { useMemo, useState } from 'react';
 import { Button } from '@/components/ui/button';
 import { useCart } from '@/context/CartContext';
 import { useToast } from '@/hooks/use-toast';
 import { Minus, Plus, Heart, ShoppingCart, Star, CheckCircle, AlertCircle } from 'lucide-react';
+import {
+  findVariant,
+  getDefaultSelection,
+  isOptionValueAvailable,
+  OptionSelection,
+  ProductOption,
+  ProductVariant,
+  selectOptionValue,
+} from '@/lib/variants';
+import ProductGallery from '@/components/product/ProductGallery';
+import { useAuth } from '@/context/AuthContext';
+import { addToWishlist } from '@/lib/wishlists';
+import { useNavigate } from 'react-router-dom';
 
 // Define the type for the product prop
 interface ProductDetailProps {
@@ -18,23 +31,45 @@ interface ProductDetailProps {
     image_url: string | null;
     rating: number;
     reviews_count: number;
-    reviews?: Array<{
+    options?: ProductOption[];
+    variants?: ProductVariant[];
+    images?: Array<{
       id: string;
-      rating: number;
-      comment: string;
-      created_at: string;
-      user: {
-        name: string;
-        avatar_url: string | null;
-      };
+      url: string;
+      thumbnail_url: string;
+      alt_text: string;
     }>;
   };
 }
 
 const ProductDetail: React.FC<ProductDetailProps> = ({ product }) => {
+  const options = product.options || [];
+  const variants = product.variants || [];
+  const hasVariants = variants.length > 0;
+  const images = useMemo(() => {
+    if (product.images?.length) return product.images;
+    return product.image_url
+      ? [{ id: product.id, url: product.image_url, thumbnail_url: product.image_url, alt_text: product.name }]
+      : [];
+  }, [product]);
+
   const [quantity, setQuantity] = useState(1);
+  const [selection, setSelection] = useState<OptionSelection>(() => getDefaultSelection(variants));
   const { addToCart } = useCart();
   const { toast } = useToast();
+  const { isAuthenticated } = useAuth();
+  const navigate = useNavigate();
+
+  // Price, stock and the gallery follow the chosen variant
+  const selectedVariant = hasVariants ? findVariant(variants, options, selection) : undefined;
+  const price = selectedVariant ? selectedVariant.price : product.price;
+  const discountedPrice = selectedVariant ? selectedVariant.discounted_price : product.discounted_price;
+  const stock = hasVariants ? selectedVariant?.stock ?? 0 : product.stock;
+  
+  const handleSelectValue = (optionName: string, value: string) => {
+    setSelection(selectOptionValue(variants, selection, optionName, value));
+    setQuantity(1);
+  };
   
   const handleDecreaseQuantity = () => {
     if (quantity > 1) {
@@ -43,42 +78,65 @@ const ProductDetail: React.FC<ProductDetailProps> = ({ product }) => {
   };
   
   const handleIncreaseQuantity = () => {
-    if (quantity < product.stock) {
+    if (quantity < stock) {
       setQuantity(quantity + 1);
     } else {
       toast({
         title: "Maximum quantity reached",
-        description: `Sorry, only ${product.stock} items available in stock.`,
+        description: `Sorry, only ${stock} items available in stock.`,
         variant: "destructive",
       });
     }
   };
   
   const handleAddToCart = () => {
-    addToCart(product.id);
+    if (hasVariants && !selectedVariant) {
+      toast({
+        title: "Choose options",
+        description: `Please choose ${options.map(option => option.name.toLowerCase()).join(' and ')} first.`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    addToCart(product.id, quantity, selectedVariant?.id ?? null);
     toast({
       title: "Added to cart",
-      description: `${product.name} has been added to your cart`,
+      description: selectedVariant
+        ? `${product.name} (${selectedVariant.name}) has been added to your cart`
+        : `${product.name} has been added to your cart`,
     });
   };
   
-  const handleAddToWishlist = () => {
-    toast({
-      title: "Added to wishlist",
-      description: `${product.name} has been added to your wishlist`,
-    });
+  const handleAddToWishlist = async () => {
+    if (!isAuthenticated) {
+      navigate('/login');
+      return;
+    }
+
+    try {
+      await addToWishlist(product.id);
+      toast({
+        title: "Added to wishlist",
+        description: `${product.name} has been added to your wishlist`,
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to add item to wishlist",
+        variant: "destructive",
+      });
+    }
   };
 
   return (
     <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
-      {/* Product Image */}
-      <div className="bg-white rounded-lg overflow-hidden border border-gray-200">
-        <img 
-          src={product.image_url || '/placeholder.svg'} 
-          alt={product.name}
-          className="w-full h-auto object-contain aspect-square"
-        />
-      </div>
+      {/* Product Images */}
+      <ProductGallery
+        images={images}
+        productName={product.name}
+        activeUrl={selectedVariant?.image_url}
+      />
       
       {/* Product Info */}
       <div>
@@ -99,25 +157,61 @@ const ProductDetail: React.FC<ProductDetailProps> = ({ product }) => {
         </div>
         
         <div className="mt-4">
-          {product.discounted_price ? (
+          {discountedPrice ? (
             <div className="flex items-center">
-              <span className="text-3xl font-bold text-gray-900">${product.discounted_price.toFixed(2)}</span>
-              <span className="ml-2 text-lg text-gray-500 line-through">${product.price.toFixed(2)}</span>
+              <span className="text-3xl font-bold text-gray-900">${discountedPrice.toFixed(2)}</span>
+              <span className="ml-2 text-lg text-gray-500 line-through">${price.toFixed(2)}</span>
               <span className="ml-2 bg-red-100 text-red-800 text-xs px-2 py-1 rounded-full">
-                {Math.round((1 - product.discounted_price / product.price) * 100)}% OFF
+                {Math.round((1 - discountedPrice / price) * 100)}% OFF
               </span>
             </div>
           ) : (
-            <span className="text-3xl font-bold text-gray-900">${product.price.toFixed(2)}</span>
+            <span className="text-3xl font-bold text-gray-900">${price.toFixed(2)}</span>
           )}
         </div>
         
+        {hasVariants && (
+          <div className="mt-6 space-y-4">
+            {options.map(option => (
+              <div key={option.name}>
+                <p className="text-sm font-medium">
+                  {option.name}: <span className="text-gray-600 font-normal">{selection[option.name] || 'Choose one'}</span>
+                </p>
+                <div className="flex flex-wrap gap-2 mt-2">
+                  {option.values.map(value => {
+                    const isSelected = selection[option.name] === value;
+                    const isAvailable = isOptionValueAvailable(variants, selection, option.name, value);
+                    return (
+                      <button
+                        key={value}
+                        type="button"
+                        onClick={() => handleSelectValue(option.name, value)}
+                        aria-pressed={isSelected}
+                        className={`px-3 py-1 rounded-md border text-sm ${
+                          isSelected
+                            ? 'border-shop-purple bg-shop-purple text-white'
+                            : 'border-gray-300 hover:border-shop-purple'
+                        } ${isAvailable ? '' : 'text-gray-400 line-through'}`}
+                      >
+                        {value}
+                      </button>
+                    );
+                  })}
+                </div>
+              </div>
+            ))}
+            {selectedVariant?.sku && (
+              <p className="text-xs text-gray-500">SKU: {selectedVariant.sku}</p>
+            )}
+          </div>
+        )}
+        
         <div className="mt-4">
           <div className="flex items-center">
-            {product.stock > 0 ? (
+            {stock > 0 ? (
               <span className="flex items-center text-green-600">
                 <CheckCircle className="w-4 h-4 mr-1" />
-                In Stock ({product.stock} available)
+                In Stock ({stock} available)
               </span>
             ) : (
               <span className="flex items-center text-red-600">
@@ -134,7 +228,7 @@ const ProductDetail: React.FC<ProductDetailProps> = ({ product }) => {
         </div>
         
         <div className="mt-8 pt-6 border-t border-gray-200">
-          {product.stock > 0 && (
+          {stock > 0 && (
             <div className="flex items-center mb-4">
               <span className="mr-4 font-medium">Quantity:</span>
               <div className="flex items-center border border-gray-300 rounded-md">
@@ -149,7 +243,7 @@ const ProductDetail: React.FC<ProductDetailProps> = ({ product }) => {
                 <button 
                   onClick={handleIncreaseQuantity}
                   className="px-3 py-1 text-gray-600 hover:bg-gray-100"
-                  disabled={quantity >= product.stock}
+                  disabled={quantity >= stock}
                 >
                   <Plus className="w-4 h-4" />
                 </button>
@@ -160,7 +254,7 @@ const ProductDetail: React.FC<ProductDetailProps> = ({ product }) => {
           <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
             <Button 
               onClick={handleAddToCart}
-              disabled={product.stock <= 0}
+              disabled={stock <= 0}
               className="flex items-center justify-center"
               size="lg"
             >
@@ -0,0 +1,118 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Carousel,
+  CarouselApi,
+  CarouselContent,
+  CarouselItem,
+  CarouselNext,
+  CarouselPrevious,
+} from '@/components/ui/carousel';
+import { cn } from '@/lib/utils';
+
+interface GalleryImage {
+  id: string;
+  url: string;
+  thumbnail_url: string;
+  alt_text: string;
+}
+
+interface ProductGalleryProps {
+  images: GalleryImage[];
+  productName: string;
+  // The chosen variant's image; the gallery moves to it when it changes
+  activeUrl?: string | null;
+}
+
+// A variant image that isn't part of the gallery is shown first
+const buildSlides = (images: GalleryImage[], activeUrl?: string | null): GalleryImage[] => {
+  if (!activeUrl || images.some(image => image.url === activeUrl)) return images;
+  return [{ id: activeUrl, url: activeUrl, thumbnail_url: activeUrl, alt_text: '' }, ...images];
+};
+
+// Main image carousel with a strip of thumbnails below it
+const ProductGallery: React.FC<ProductGalleryProps> = ({ images, productName, activeUrl }) => {
+  const [api, setApi] = useState<CarouselApi>();
+  const [current, setCurrent] = useState(0);
+  const slides = buildSlides(images, activeUrl);
+
+  useEffect(() => {
+    if (!api) return;
+
+    const onSelect = () => setCurrent(api.selectedScrollSnap());
+    onSelect();
+    api.on('select', onSelect);
+    api.on('reInit', onSelect);
+    return () => {
+      api.off('select', onSelect);
+      api.off('reInit', onSelect);
+    };
+  }, [api]);
+
+  useEffect(() => {
+    if (!api || !activeUrl) return;
+    const index = buildSlides(images, activeUrl).findIndex(slide => slide.url === activeUrl);
+    if (index >= 0) api.scrollTo(index);
+  }, [api, activeUrl, images]);
+
+  if (slides.length === 0) {
+    return (
+      <div className="bg-white rounded-lg overflow-hidden border border-gray-200">
+        <img
+          src="/placeholder.svg"
+          alt={productName}
+          className="w-full h-auto object-contain aspect-square"
+        />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      <Carousel setApi={setApi} className="bg-white rounded-lg overflow-hidden border border-gray-200">
+        <CarouselContent>
+          {slides.map(slide => (
+            <CarouselItem key={slide.id}>
+              <img
+                src={slide.url}
+                alt={slide.alt_text || productName}
+                className="w-full h-auto object-contain aspect-square"
+              />
+            </CarouselItem>
+          ))}
+        </CarouselContent>
+        {slides.length > 1 && (
+          <>
+            <CarouselPrevious className="left-2" />
+            <CarouselNext className="right-2" />
+          </>
+        )}
+      </Carousel>
+
+      {slides.length > 1 && (
+        <div className="flex gap-2 overflow-x-auto">
+          {slides.map((slide, index) => (
+            <button
+              key={slide.id}
+              type="button"
+              onClick={() => api?.scrollTo(index)}
+              aria-label={`Show image ${index + 1}`}
+              aria-current={index === current}
+              className={cn(
+                'h-16 w-16 flex-shrink-0 overflow-hidden rounded-md border-2',
+                index === current ? 'border-shop-purple' : 'border-transparent'
+              )}
+            >
+              <img
+                src={slide.thumbnail_url}
+                alt={slide.alt_text || productName}
+                className="h-full w-full object-cover"
+              />
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ProductGallery;
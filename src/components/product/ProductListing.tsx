@@ -0,0 +1,307 @@
+import React, { useEffect, useRef } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { keepPreviousData, useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { ProductCard } from '@/components/ProductCard';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { ChevronLeft, ChevronRight, Loader2, Star } from 'lucide-react';
+import {
+  applyProductFilters,
+  hasActiveFilters,
+  parseProductFilters,
+  ProductFacets,
+  ProductFilters,
+  ProductSort,
+  productSortLabels,
+  toCardProduct,
+  toFilterArgs,
+} from '@/lib/products';
+
+const PAGE_SIZE = 24;
+
+interface ProductListingProps {
+  query?: string;
+  category?: string;
+}
+
+const formatPriceRange = (min: number, max: number | null) => {
+  return max === null ? `$${min} & above` : `$${min} – $${max}`;
+};
+
+// Filterable, sortable, paginated product grid for search and category pages.
+// All filter state lives in the URL.
+export default function ProductListing({ query, category }: ProductListingProps) {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const defaultSort: ProductSort = query ? 'relevance' : 'newest';
+  const filters = parseProductFilters(searchParams, defaultSort);
+  const filterArgs = toFilterArgs(filters, query, category);
+
+  const updateFilters = (changes: Partial<ProductFilters>) => {
+    // Any change other than paging starts again from the first page
+    const next = { ...filters, page: 1, ...changes };
+    setSearchParams(applyProductFilters(searchParams, next, defaultSort));
+  };
+
+  const clearFilters = () => {
+    updateFilters({
+      minPrice: null,
+      maxPrice: null,
+      minRating: null,
+      inStock: false,
+      onSale: false,
+      sellerIds: [],
+    });
+  };
+
+  const { data, isLoading, isFetching, isPlaceholderData, error } = useQuery({
+    queryKey: ['productListing', filterArgs, filters.sort, filters.page],
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc('search_products', {
+        ...filterArgs,
+        _sort: filters.sort,
+        _limit: PAGE_SIZE,
+        _offset: (filters.page - 1) * PAGE_SIZE,
+      });
+
+      if (error) throw error;
+
+      return {
+        products: (data || []).map(toCardProduct),
+        total: data?.[0]?.total_count || 0,
+      };
+    },
+    placeholderData: keepPreviousData,
+  });
+
+  // Log each search once, with how many products it found before any
+  // filtering, so admins can see what customers look for
+  const loggedQuery = useRef<string | null>(null);
+  useEffect(() => {
+    if (!query || !data || isPlaceholderData || hasActiveFilters(filters) || loggedQuery.current === query) {
+      return;
+    }
+    loggedQuery.current = query;
+    supabase.rpc('log_search', { _query: query, _result_count: data.total }).then(({ error }) => {
+      if (error) console.error('Error logging search:', error);
+    });
+  }, [query, data, isPlaceholderData, filters]);
+
+  const { data: facets } = useQuery({
+    queryKey: ['productFacets', filterArgs],
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc('search_product_facets', filterArgs);
+
+      if (error) throw error;
+
+      return data as unknown as ProductFacets;
+    },
+    placeholderData: keepPreviousData,
+  });
+
+  const products = data?.products || [];
+  const total = data?.total || 0;
+  const pageCount = Math.ceil(total / PAGE_SIZE);
+  const sortOptions = (Object.keys(productSortLabels) as ProductSort[])
+    .filter(sort => sort !== 'relevance' || query);
+
+  return (
+    <div className="flex flex-col md:flex-row gap-8">
+      {/* Facets */}
+      <aside className="md:w-60 shrink-0 space-y-6">
+        <div className="flex items-center justify-between">
+          <h2 className="font-semibold">Filters</h2>
+          {hasActiveFilters(filters) && (
+            <Button variant="link" size="sm" className="h-auto p-0" onClick={clearFilters}>
+              Clear all
+            </Button>
+          )}
+        </div>
+
+        <div className="space-y-2">
+          <h3 className="text-sm font-medium text-gray-700">Price</h3>
+          {facets?.price_ranges.map(range => {
+            const checked = filters.minPrice === range.min && filters.maxPrice === range.max;
+            return (
+              <div key={range.min} className="flex items-center gap-2">
+                <Checkbox
+                  id={`price-${range.min}`}
+                  checked={checked}
+                  disabled={!checked && range.count === 0}
+                  onCheckedChange={(value) => updateFilters(value
+                    ? { minPrice: range.min, maxPrice: range.max }
+                    : { minPrice: null, maxPrice: null })}
+                />
+                <Label htmlFor={`price-${range.min}`} className="text-sm font-normal flex-1">
+                  {formatPriceRange(range.min, range.max)}
+                </Label>
+                <span className="text-xs text-gray-500">{range.count}</span>
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="space-y-2">
+          <h3 className="text-sm font-medium text-gray-700">Customer Rating</h3>
+          {facets?.ratings.map(rating => {
+            const checked = filters.minRating === rating.min_rating;
+            return (
+              <div key={rating.min_rating} className="flex items-center gap-2">
+                <Checkbox
+                  id={`rating-${rating.min_rating}`}
+                  checked={checked}
+                  disabled={!checked && rating.count === 0}
+                  onCheckedChange={(value) => updateFilters({ minRating: value ? rating.min_rating : null })}
+                />
+                <Label htmlFor={`rating-${rating.min_rating}`} className="text-sm font-normal flex-1 flex items-center gap-1">
+                  {rating.min_rating}
+                  <Star className="h-3 w-3 fill-yellow-400 text-yellow-400" />
+                  & up
+                </Label>
+                <span className="text-xs text-gray-500">{rating.count}</span>
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="space-y-2">
+          <h3 className="text-sm font-medium text-gray-700">Availability</h3>
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id="in-stock"
+              checked={filters.inStock}
+              onCheckedChange={(value) => updateFilters({ inStock: !!value })}
+            />
+            <Label htmlFor="in-stock" className="text-sm font-normal flex-1">In stock only</Label>
+            <span className="text-xs text-gray-500">{facets?.in_stock ?? ''}</span>
+          </div>
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id="on-sale"
+              checked={filters.onSale}
+              onCheckedChange={(value) => updateFilters({ onSale: !!value })}
+            />
+            <Label htmlFor="on-sale" className="text-sm font-normal flex-1">On sale</Label>
+            <span className="text-xs text-gray-500">{facets?.on_sale ?? ''}</span>
+          </div>
+        </div>
+
+        {facets && facets.sellers.length > 0 && (
+          <div className="space-y-2">
+            <h3 className="text-sm font-medium text-gray-700">Seller</h3>
+            {facets.sellers.map(seller => {
+              const checked = filters.sellerIds.includes(seller.id);
+              return (
+                <div key={seller.id} className="flex items-center gap-2">
+                  <Checkbox
+                    id={`seller-${seller.id}`}
+                    checked={checked}
+                    onCheckedChange={(value) => updateFilters({
+                      sellerIds: value
+                        ? [...filters.sellerIds, seller.id]
+                        : filters.sellerIds.filter(id => id !== seller.id),
+                    })}
+                  />
+                  <Label htmlFor={`seller-${seller.id}`} className="text-sm font-normal flex-1 truncate">
+                    {seller.name}
+                  </Label>
+                  <span className="text-xs text-gray-500">{seller.count}</span>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </aside>
+
+      {/* Results */}
+      <div className="flex-1">
+        <div className="flex items-center justify-between mb-6 gap-4">
+          <div className="flex items-center gap-2 text-gray-600">
+            {isLoading ? 'Loading products...' : `${total} ${total === 1 ? 'product' : 'products'}`}
+            {isFetching && !isLoading && <Loader2 className="h-4 w-4 animate-spin text-gray-400" />}
+          </div>
+          <Select value={filters.sort} onValueChange={(value) => updateFilters({ sort: value as ProductSort })}>
+            <SelectTrigger className="w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {sortOptions.map(sort => (
+                <SelectItem key={sort} value={sort}>{productSortLabels[sort]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {isLoading ? (
+          <div className="flex justify-center py-16">
+            <Loader2 className="h-8 w-8 animate-spin text-shop-purple" />
+          </div>
+        ) : error ? (
+          <div className="text-center py-16">
+            <h2 className="text-xl font-medium mb-2">Products are unavailable</h2>
+            <p className="text-gray-600">Something went wrong while loading products. Please try again.</p>
+          </div>
+        ) : products.length > 0 ? (
+          <>
+            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6">
+              {products.map((product) => (
+                <ProductCard key={product.id} product={product} />
+              ))}
+            </div>
+
+            {pageCount > 1 && (
+              <div className="flex items-center justify-center gap-4 mt-8">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={filters.page <= 1 || isFetching}
+                  onClick={() => updateFilters({ page: filters.page - 1 })}
+                >
+                  <ChevronLeft className="h-4 w-4 mr-1" />
+                  Previous
+                </Button>
+                <span className="text-sm text-gray-600">
+                  Page {filters.page} of {pageCount}
+                </span>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={filters.page >= pageCount || isFetching}
+                  onClick={() => updateFilters({ page: filters.page + 1 })}
+                >
+                  Next
+                  <ChevronRight className="h-4 w-4 ml-1" />
+                </Button>
+              </div>
+            )}
+          </>
+        ) : (
+          <div className="text-center py-16">
+            <h2 className="text-xl font-medium mb-2">No products found</h2>
+            {hasActiveFilters(filters) ? (
+              <>
+                <p className="text-gray-600 mb-6">No products match these filters.</p>
+                <Button variant="outline" onClick={clearFilters}>Clear Filters</Button>
+              </>
+            ) : (
+              <>
+                <p className="text-gray-600 mb-6">Try a different search term or browse our categories.</p>
+                <Button asChild>
+                  <Link to="/">Continue Shopping</Link>
+                </Button>
+              </>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
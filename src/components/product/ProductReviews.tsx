@@ -0,0 +1,435 @@
+import React, { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/context/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { BadgeCheck, Flag, Loader2, Star, ThumbsUp } from 'lucide-react';
+import {
+  describeReviewError,
+  ProductReview,
+  REVIEWS_PAGE_SIZE,
+  reviewFlagReasons,
+  ReviewSort,
+  reviewSortLabels,
+} from '@/lib/reviews';
+
+interface ProductReviewsProps {
+  productId: string;
+  sellerId: string | null;
+  rating: number;
+  reviewsCount: number;
+}
+
+const Stars = ({ rating, className = 'w-4 h-4' }: { rating: number; className?: string }) => (
+  <div className="flex items-center">
+    {[1, 2, 3, 4, 5].map(star => (
+      <Star
+        key={star}
+        className={`${className} ${star <= rating ? 'text-yellow-400 fill-yellow-400' : 'text-gray-300'}`}
+      />
+    ))}
+  </div>
+);
+
+const ProductReviews: React.FC<ProductReviewsProps> = ({ productId, sellerId, rating, reviewsCount }) => {
+  const { user, userRole } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const [sort, setSort] = useState<ReviewSort>('recent');
+  const [limit, setLimit] = useState(REVIEWS_PAGE_SIZE);
+  const [formOpen, setFormOpen] = useState(false);
+  const [formRating, setFormRating] = useState(0);
+  const [formComment, setFormComment] = useState('');
+  const [flagging, setFlagging] = useState<ProductReview | null>(null);
+  const [flagReason, setFlagReason] = useState(reviewFlagReasons[0]);
+  const [replyingTo, setReplyingTo] = useState<string | null>(null);
+  const [replyText, setReplyText] = useState('');
+
+  const canReply = !!user && (user.id === sellerId || userRole === 'admin');
+
+  // One query for the page of reviews and their authors
+  const { data: reviews = [], isLoading } = useQuery({
+    queryKey: ['productReviews', productId, sort, limit, user?.id],
+    queryFn: async (): Promise<ProductReview[]> => {
+      const { data, error } = await supabase.rpc('get_product_reviews', {
+        _product_id: productId,
+        _sort: sort,
+        _limit: limit,
+      });
+      if (error) throw error;
+      return (data || []) as ProductReview[];
+    },
+  });
+
+  const { data: eligibility } = useQuery({
+    queryKey: ['reviewEligibility', productId, user?.id],
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc('get_review_eligibility', { _product_id: productId });
+      if (error) throw error;
+      return data?.[0] || null;
+    },
+    enabled: !!user,
+  });
+
+  const totalCount = reviews[0]?.total_count ?? 0;
+  const ownReview = reviews.find(review => review.is_own);
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ['productReviews', productId] });
+    queryClient.invalidateQueries({ queryKey: ['reviewEligibility', productId] });
+    // Rating and count on the product change with its reviews
+    queryClient.invalidateQueries({ queryKey: ['product', productId] });
+  };
+
+  const onError = (error: { message?: string }) => {
+    toast({
+      title: 'Error',
+      description: describeReviewError(error),
+      variant: 'destructive',
+    });
+  };
+
+  const submitMutation = useMutation({
+    mutationFn: async () => {
+      const { error } = await supabase.rpc('submit_review', {
+        _product_id: productId,
+        _rating: formRating,
+        _comment: formComment,
+      });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      refresh();
+      setFormOpen(false);
+      toast({
+        title: ownReview ? 'Review Updated' : 'Review Posted',
+        description: 'Thanks for sharing your experience',
+      });
+    },
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (reviewId: string) => {
+      const { error } = await supabase.from('reviews').delete().eq('id', reviewId);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      refresh();
+      toast({
+        title: 'Review Deleted',
+        description: 'Your review has been removed',
+      });
+    },
+    onError,
+  });
+
+  const voteMutation = useMutation({
+    mutationFn: async (reviewId: string) => {
+      const { error } = await supabase.rpc('toggle_review_vote', { _review_id: reviewId });
+      if (error) throw error;
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['productReviews', productId] }),
+    onError,
+  });
+
+  const flagMutation = useMutation({
+    mutationFn: async ({ reviewId, reason }: { reviewId: string; reason: string }) => {
+      const { error } = await supabase.rpc('flag_review', { _review_id: reviewId, _reason: reason });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      setFlagging(null);
+      toast({
+        title: 'Review Reported',
+        description: 'Thanks, our moderators will take a look',
+      });
+    },
+    onError,
+  });
+
+  const replyMutation = useMutation({
+    mutationFn: async ({ reviewId, reply }: { reviewId: string; reply: string }) => {
+      const { error } = await supabase.rpc('reply_to_review', { _review_id: reviewId, _reply: reply });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      setReplyingTo(null);
+      queryClient.invalidateQueries({ queryKey: ['productReviews', productId] });
+    },
+    onError,
+  });
+
+  const openForm = () => {
+    setFormRating(ownReview?.rating || 0);
+    setFormComment(ownReview?.comment || '');
+    setFormOpen(true);
+  };
+
+  const requireLogin = (action: () => void) => {
+    if (!user) {
+      toast({
+        title: 'Log in required',
+        description: 'Please log in to do that',
+      });
+      return;
+    }
+    action();
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-end sm:justify-between gap-4">
+        <div>
+          <h2 className="text-2xl font-bold">Customer Reviews</h2>
+          <div className="flex items-center gap-2 mt-2">
+            <Stars rating={Math.round(rating)} className="w-5 h-5" />
+            <span className="text-gray-600">
+              {reviewsCount > 0 ? `${rating.toFixed(1)} out of 5 (${reviewsCount} reviews)` : 'No reviews yet'}
+            </span>
+          </div>
+        </div>
+        <div className="flex items-center gap-2">
+          {reviewsCount > 1 && (
+            <Select value={sort} onValueChange={(value) => setSort(value as ReviewSort)}>
+              <SelectTrigger className="w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(reviewSortLabels).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+          {eligibility?.can_review && (
+            <Button onClick={openForm}>{eligibility.review_id ? 'Edit Your Review' : 'Write a Review'}</Button>
+          )}
+        </div>
+      </div>
+
+      {user && eligibility && !eligibility.can_review && !eligibility.review_id && (
+        <p className="text-sm text-gray-500">
+          You can review this product once an order containing it has been delivered.
+        </p>
+      )}
+      {!user && (
+        <p className="text-sm text-gray-500">
+          <Link to="/login" className="text-shop-purple hover:underline">Log in</Link> to review products you've bought.
+        </p>
+      )}
+
+      {isLoading ? (
+        <div className="flex justify-center py-8">
+          <Loader2 className="h-8 w-8 animate-spin text-shop-purple" />
+        </div>
+      ) : reviews.length === 0 ? null : (
+        <div className="divide-y border-t border-b">
+          {reviews.map(review => (
+            <div key={review.id} className="py-5 space-y-2">
+              <div className="flex flex-wrap items-center gap-2">
+                <Stars rating={review.rating} />
+                <span className="font-medium">{review.author_name}</span>
+                {review.verified && (
+                  <span className="flex items-center text-xs text-green-700">
+                    <BadgeCheck className="w-4 h-4 mr-1" />
+                    Verified purchase
+                  </span>
+                )}
+                <span className="text-sm text-gray-500">{new Date(review.created_at).toLocaleDateString()}</span>
+                {review.status === 'hidden' && <Badge variant="outline">Removed by a moderator</Badge>}
+              </div>
+
+              {review.comment && <p className="text-gray-700 whitespace-pre-line">{review.comment}</p>}
+
+              {review.seller_reply && replyingTo !== review.id && (
+                <div className="ml-4 border-l-2 border-shop-purple pl-3 text-sm">
+                  <p className="font-medium">Response from the seller</p>
+                  <p className="text-gray-700 whitespace-pre-line">{review.seller_reply}</p>
+                </div>
+              )}
+
+              {replyingTo === review.id && (
+                <div className="ml-4 space-y-2">
+                  <Textarea
+                    value={replyText}
+                    onChange={(e) => setReplyText(e.target.value)}
+                    rows={3}
+                    placeholder="Reply publicly to this review"
+                  />
+                  <div className="flex gap-2">
+                    <Button
+                      size="sm"
+                      disabled={replyMutation.isPending}
+                      onClick={() => replyMutation.mutate({ reviewId: review.id, reply: replyText })}
+                    >
+                      {replyText.trim() ? 'Post Reply' : 'Remove Reply'}
+                    </Button>
+                    <Button size="sm" variant="ghost" onClick={() => setReplyingTo(null)}>Cancel</Button>
+                  </div>
+                </div>
+              )}
+
+              <div className="flex flex-wrap items-center gap-1 text-sm">
+                {review.is_own ? (
+                  <>
+                    <span className="text-gray-500 mr-2">{review.helpful_count} found this helpful</span>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      disabled={deleteMutation.isPending}
+                      onClick={() => deleteMutation.mutate(review.id)}
+                    >
+                      Delete
+                    </Button>
+                  </>
+                ) : (
+                  <>
+                    <Button
+                      size="sm"
+                      variant={review.voted ? 'secondary' : 'ghost'}
+                      disabled={voteMutation.isPending}
+                      onClick={() => requireLogin(() => voteMutation.mutate(review.id))}
+                    >
+                      <ThumbsUp className="w-4 h-4 mr-1" />
+                      Helpful ({review.helpful_count})
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => requireLogin(() => {
+                        setFlagReason(reviewFlagReasons[0]);
+                        setFlagging(review);
+                      })}
+                    >
+                      <Flag className="w-4 h-4 mr-1" />
+                      Report
+                    </Button>
+                  </>
+                )}
+                {canReply && replyingTo !== review.id && (
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => {
+                      setReplyText(review.seller_reply || '');
+                      setReplyingTo(review.id);
+                    }}
+                  >
+                    {review.seller_reply ? 'Edit Reply' : 'Reply'}
+                  </Button>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {reviews.length < totalCount && (
+        <Button variant="outline" onClick={() => setLimit(limit + REVIEWS_PAGE_SIZE)}>
+          Show More Reviews
+        </Button>
+      )}
+
+      <Dialog open={formOpen} onOpenChange={setFormOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{ownReview ? 'Edit Your Review' : 'Write a Review'}</DialogTitle>
+            <DialogDescription>Tell other shoppers what you thought of this product.</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>Rating *</Label>
+              <div className="flex gap-1">
+                {[1, 2, 3, 4, 5].map(star => (
+                  <button
+                    key={star}
+                    type="button"
+                    onClick={() => setFormRating(star)}
+                    aria-label={`${star} star${star === 1 ? '' : 's'}`}
+                    aria-pressed={formRating === star}
+                  >
+                    <Star
+                      className={`w-7 h-7 ${star <= formRating ? 'text-yellow-400 fill-yellow-400' : 'text-gray-300'}`}
+                    />
+                  </button>
+                ))}
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="review-comment">Review</Label>
+              <Textarea
+                id="review-comment"
+                value={formComment}
+                onChange={(e) => setFormComment(e.target.value)}
+                rows={5}
+                maxLength={2000}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setFormOpen(false)}>Cancel</Button>
+            <Button
+              disabled={formRating === 0 || submitMutation.isPending}
+              onClick={() => submitMutation.mutate()}
+            >
+              {submitMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              {ownReview ? 'Save Review' : 'Post Review'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!flagging} onOpenChange={(open) => !open && setFlagging(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Report Review</DialogTitle>
+            <DialogDescription>Why should our moderators look at this review?</DialogDescription>
+          </DialogHeader>
+          <Select value={flagReason} onValueChange={setFlagReason}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {reviewFlagReasons.map(reason => (
+                <SelectItem key={reason} value={reason}>{reason}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setFlagging(null)}>Cancel</Button>
+            <Button
+              disabled={flagMutation.isPending}
+              onClick={() => flagging && flagMutation.mutate({ reviewId: flagging.id, reason: flagReason })}
+            >
+              Report
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default ProductReviews;
@@ -1,22 +1,21 @@
-
 import React from 'react';
 import { useQuery } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
-import { Link } from 'react-router-dom';
 import { ProductCard } from '@/components/ProductCard';
+import type { Product } from '@/components/ProductCard';
 import { Loader2 } from 'lucide-react';
+import { toCardProduct } from '@/lib/products';
+import {
+  RecommendationKind,
+  recommendationKindLabels,
+  recommendationKinds,
+} from '@/lib/recommendations';
 
-interface Product {
-  id: string;
-  name: string;
-  price: number;
-  discounted_price: number | null;
-  image_url: string | null;
-  rating: number;
-  reviews_count: number;
-  category: string;
-  description: string;
-  stock: number;
+const PRODUCTS_PER_SECTION = 4;
+
+interface RelatedSection {
+  title: string;
+  products: Product[];
 }
 
 interface RelatedProductsProps {
@@ -24,29 +23,48 @@ interface RelatedProductsProps {
   currentProductId: string;
 }
 
+// Precomputed recommendations, falling back to other products in the same
+// category for products nobody has bought, viewed or saved alongside others
 export default function RelatedProducts({ category, currentProductId }: RelatedProductsProps) {
-  // Fetch related products
-  const { data: relatedProducts, isLoading } = useQuery({
+  const { data: sections, isLoading } = useQuery({
     queryKey: ['relatedProducts', category, currentProductId],
-    queryFn: async (): Promise<Product[]> => {
+    queryFn: async (): Promise<RelatedSection[]> => {
       try {
+        const { data: recommended, error: recommendedError } = await supabase.rpc('get_product_recommendations', {
+          _product_id: currentProductId,
+          _limit: PRODUCTS_PER_SECTION,
+        });
+
+        if (recommendedError) throw recommendedError;
+
+        if (recommended && recommended.length > 0) {
+          return recommendationKinds
+            .map(kind => ({
+              title: recommendationKindLabels[kind],
+              products: recommended
+                .filter(row => (row.kind as RecommendationKind) === kind)
+                .map(toCardProduct),
+            }))
+            .filter(section => section.products.length > 0);
+        }
+
         const { data, error } = await supabase
           .from('products')
           .select('id, name, price, discounted_price, image_url, rating, reviews_count, category, description, stock')
           .eq('category', category)
           .neq('id', currentProductId)
-          .limit(4);
-          
+          .limit(PRODUCTS_PER_SECTION);
+
         if (error) throw error;
-        
-        return data || [];
+
+        return [{ title: 'Related Products', products: (data || []).map(toCardProduct) }];
       } catch (error) {
         console.error('Error fetching related products:', error);
         return [];
       }
     },
   });
-  
+
   if (isLoading) {
     return (
       <div className="flex justify-center py-12">
@@ -54,30 +72,24 @@ export default function RelatedProducts({ category, currentProductId }: RelatedP
       </div>
     );
   }
-  
-  if (!relatedProducts || relatedProducts.length === 0) {
+
+  const visibleSections = (sections || []).filter(section => section.products.length > 0);
+
+  if (visibleSections.length === 0) {
     return null;
   }
 
   return (
-    <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-6">
-      {relatedProducts.map((product) => (
-        <Link to={`/product/${product.id}`} key={product.id}>
-          <ProductCard
-            product={{
-              id: product.id,
-              name: product.name,
-              category: product.category,
-              price: product.price,
-              discountedPrice: product.discounted_price,
-              imageUrl: product.image_url || '/placeholder.svg',
-              rating: product.rating,
-              reviews: product.reviews_count,
-              description: product.description || '',
-              stock: product.stock
-            }}
-          />
-        </Link>
+    <div className="space-y-12">
+      {visibleSections.map(section => (
+        <section key={section.title}>
+          <h2 className="text-2xl font-bold mb-6">{section.title}</h2>
+          <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-6">
+            {section.products.map((product) => (
+              <ProductCard key={product.id} product={product} />
+            ))}
+          </div>
+        </section>
       ))}
     </div>
   );
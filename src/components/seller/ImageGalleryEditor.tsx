@@ -0,0 +1,190 @@
+import React, { useRef, useState } from 'react';
+import { useAuth } from '@/context/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { ChevronLeft, ChevronRight, ImagePlus, Loader2, Trash2 } from 'lucide-react';
+import { MAX_PRODUCT_IMAGES, ProductImage, uploadProductImage } from '@/lib/images';
+import { cn } from '@/lib/utils';
+
+interface ImageGalleryEditorProps {
+  images: ProductImage[];
+  onChange: (images: ProductImage[]) => void;
+}
+
+// Upload, order and describe a product's images. Files are uploaded as soon
+// as they're picked; the gallery itself is saved with the product.
+export default function ImageGalleryEditor({ images, onChange }: ImageGalleryEditorProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [uploading, setUploading] = useState(0);
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+
+  // Uploads finish in any order, so add each one to the latest list
+  const latestImages = useRef(images);
+  latestImages.current = images;
+
+  const handleFiles = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    e.target.value = '';
+    if (!user || files.length === 0) return;
+
+    const room = MAX_PRODUCT_IMAGES - images.length - uploading;
+    if (files.length > room) {
+      toast({
+        title: 'Too many images',
+        description: `A product can have up to ${MAX_PRODUCT_IMAGES} images.`,
+        variant: 'destructive',
+      });
+    }
+
+    const accepted = files.slice(0, Math.max(room, 0));
+    setUploading(count => count + accepted.length);
+    await Promise.all(accepted.map(async file => {
+      try {
+        const image = await uploadProductImage(user.id, file);
+        onChange([...latestImages.current, image]);
+      } catch (error) {
+        console.error('Error uploading image:', error);
+        toast({
+          title: 'Upload failed',
+          description: `Could not upload ${file.name}`,
+          variant: 'destructive',
+        });
+      } finally {
+        setUploading(count => count - 1);
+      }
+    }));
+  };
+
+  const moveImage = (from: number, to: number) => {
+    if (to < 0 || to >= images.length || from === to) return;
+    const next = [...images];
+    const [moved] = next.splice(from, 1);
+    next.splice(to, 0, moved);
+    onChange(next);
+  };
+
+  const updateAltText = (index: number, altText: string) => {
+    onChange(images.map((image, i) => (i === index ? { ...image, alt_text: altText } : image)));
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <div>
+          <h3 className="font-medium">Images</h3>
+          <p className="text-sm text-gray-500">
+            Drag to reorder. The first image is shown on product cards.
+          </p>
+        </div>
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          disabled={images.length + uploading >= MAX_PRODUCT_IMAGES}
+          onClick={() => fileInput.current?.click()}
+        >
+          {uploading > 0 ? (
+            <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+          ) : (
+            <ImagePlus className="h-4 w-4 mr-1" />
+          )}
+          Add Images
+        </Button>
+        <input
+          ref={fileInput}
+          type="file"
+          accept="image/*"
+          multiple
+          className="hidden"
+          onChange={handleFiles}
+        />
+      </div>
+
+      {images.length === 0 && uploading === 0 ? (
+        <div className="rounded-md border border-dashed p-6 text-center text-sm text-gray-500">
+          No images yet
+        </div>
+      ) : (
+        <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+          {images.map((image, index) => (
+            <div
+              key={image.id}
+              draggable
+              onDragStart={() => setDragIndex(index)}
+              onDragOver={(e) => {
+                e.preventDefault();
+                if (dragIndex !== null && dragIndex !== index) {
+                  moveImage(dragIndex, index);
+                  setDragIndex(index);
+                }
+              }}
+              onDragEnd={() => setDragIndex(null)}
+              className={cn(
+                'space-y-2 rounded-md border p-2 cursor-move bg-white',
+                dragIndex === index && 'opacity-50'
+              )}
+            >
+              <div className="relative aspect-square overflow-hidden rounded bg-gray-100">
+                <img
+                  src={image.thumbnail_url}
+                  alt={image.alt_text}
+                  className="h-full w-full object-cover"
+                  draggable={false}
+                />
+                {index === 0 && <Badge className="absolute left-1 top-1">Primary</Badge>}
+              </div>
+              <Input
+                value={image.alt_text}
+                onChange={(e) => updateAltText(index, e.target.value)}
+                placeholder="Alt text"
+                aria-label={`Alt text for image ${index + 1}`}
+              />
+              <div className="flex justify-between">
+                <div>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    disabled={index === 0}
+                    onClick={() => moveImage(index, index - 1)}
+                  >
+                    <ChevronLeft className="h-4 w-4" />
+                    <span className="sr-only">Move earlier</span>
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    disabled={index === images.length - 1}
+                    onClick={() => moveImage(index, index + 1)}
+                  >
+                    <ChevronRight className="h-4 w-4" />
+                    <span className="sr-only">Move later</span>
+                  </Button>
+                </div>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => onChange(images.filter((_, i) => i !== index))}
+                >
+                  <Trash2 className="h-4 w-4" />
+                  <span className="sr-only">Remove image</span>
+                </Button>
+              </div>
+            </div>
+          ))}
+          {Array.from({ length: uploading }, (_, i) => (
+            <div key={`uploading-${i}`} className="flex aspect-square items-center justify-center rounded-md border bg-gray-50">
+              <Loader2 className="h-6 w-6 animate-spin text-gray-400" />
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
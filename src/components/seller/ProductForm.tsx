@@ -22,16 +22,26 @@ import {
   CardTitle,
 } from '@/components/ui/card';
 import { Loader2, ArrowLeft } from 'lucide-react';
+import { useCategories } from '@/hooks/use-categories';
+import { flattenCategoryTree } from '@/lib/categories';
+import { OptionDraft, parseOptionDrafts } from '@/lib/variants';
+import VariantEditor, { VariantDraft } from '@/components/seller/VariantEditor';
+import ImageGalleryEditor from '@/components/seller/ImageGalleryEditor';
+import { ProductImage, removeProductImageFiles } from '@/lib/images';
+import { describeIssues, productFieldsSchema, productFormSchema } from '@/lib/catalog';
 
 interface ProductFormProps {
   productId?: string;
   mode: 'create' | 'edit';
 }
 
-interface Category {
-  id: string;
-  name: string;
-}
+// Explain failures from save_product_variants and the variant constraints
+const describeVariantError = (error: { code?: string; message?: string }) => {
+  if (error.code === '23505' && error.message?.includes('products_seller_sku_key')) return 'You already have a product with this SKU.';
+  if (error.code === '23505') return 'Each variant needs a different SKU, and SKUs must not be used by other products.';
+  if (error.message === 'invalid_variant_options') return 'Every variant needs one value for each option. Update the variants and try again.';
+  return null;
+};
 
 const ProductForm: React.FC<ProductFormProps> = ({ productId, mode }) => {
   const navigate = useNavigate();
@@ -39,39 +49,38 @@ const ProductForm: React.FC<ProductFormProps> = ({ productId, mode }) => {
   const { toast } = useToast();
   
   const [loading, setLoading] = useState<boolean>(false);
-  const [categories, setCategories] = useState<Category[]>([]);
+  const { data: categories = [], error: categoriesError } = useCategories();
+  const categoryOptions = flattenCategoryTree(categories);
   
   const [formData, setFormData] = useState({
     name: '',
     description: '',
-    category: '',
+    sku: '',
+    categoryId: '',
     price: '',
     discountedPrice: '',
     stock: '1',
-    image_url: '',
   });
+  const [options, setOptions] = useState<OptionDraft[]>([]);
+  const [variants, setVariants] = useState<VariantDraft[]>([]);
+  const hasVariants = variants.length > 0;
+  const [images, setImages] = useState<ProductImage[]>([]);
+  // Saved or freshly uploaded images taken out of the gallery; their rows and
+  // files are deleted once the product is saved
+  const [removedImages, setRemovedImages] = useState<ProductImage[]>([]);
+  
+  useEffect(() => {
+    if (categoriesError) {
+      console.error('Error fetching categories:', categoriesError);
+      toast({
+        title: 'Error',
+        description: 'Failed to load categories',
+        variant: 'destructive',
+      });
+    }
+  }, [categoriesError, toast]);
   
   useEffect(() => {
-    const fetchCategories = async () => {
-      try {
-        const { data, error } = await supabase
-          .from('categories')
-          .select('id, name');
-          
-        if (error) throw error;
-        setCategories(data || []);
-      } catch (error) {
-        console.error('Error fetching categories:', error);
-        toast({
-          title: 'Error',
-          description: 'Failed to load categories',
-          variant: 'destructive',
-        });
-      }
-    };
-    
-    fetchCategories();
-    
     if (mode === 'edit' && productId) {
       fetchProductDetails(productId);
     }
@@ -83,7 +92,12 @@ const ProductForm: React.FC<ProductFormProps> = ({ productId, mode }) => {
     try {
       const { data, error } = await supabase
         .from('products')
-        .select('*')
+        .select(`
+          *,
+          product_options (name, values, position),
+          product_variants (id, sku, options, price, discounted_price, stock, image_url, position),
+          product_images (id, path, thumbnail_path, url, thumbnail_url, alt_text, width, height, position)
+        `)
         .eq('id', id)
         .single();
         
@@ -93,12 +107,29 @@ const ProductForm: React.FC<ProductFormProps> = ({ productId, mode }) => {
         setFormData({
           name: data.name,
           description: data.description || '',
-          category: data.category,
+          sku: data.sku || '',
+          categoryId: data.category_id || '',
           price: data.price.toString(),
           discountedPrice: data.discounted_price ? data.discounted_price.toString() : '',
           stock: data.stock.toString(),
-          image_url: data.image_url || '',
         });
+        setOptions([...(data.product_options || [])]
+          .sort((a, b) => a.position - b.position)
+          .map(option => ({ name: option.name, values: option.values.join(', ') })));
+        setVariants([...(data.product_variants || [])]
+          .sort((a, b) => a.position - b.position)
+          .map(variant => ({
+            id: variant.id,
+            sku: variant.sku || '',
+            options: variant.options as Record<string, string>,
+            price: variant.price.toString(),
+            discounted_price: variant.discounted_price ? variant.discounted_price.toString() : '',
+            stock: variant.stock.toString(),
+            image_url: variant.image_url || '',
+          })));
+        setImages([...(data.product_images || [])]
+          .sort((a, b) => a.position - b.position)
+          .map(({ position: _position, ...image }) => image));
       }
     } catch (error) {
       console.error('Error fetching product details:', error);
@@ -121,6 +152,37 @@ const ProductForm: React.FC<ProductFormProps> = ({ productId, mode }) => {
     setFormData(prev => ({ ...prev, [name]: value }));
   };
   
+  const handleImagesChange = (next: ProductImage[]) => {
+    const kept = new Set(next.map(image => image.id));
+    setRemovedImages(prev => [...prev, ...images.filter(image => !kept.has(image.id))]);
+    setImages(next);
+  };
+  
+  // The primary image is copied to products.image_url by the database
+  const saveImages = async (id: string) => {
+    if (images.length > 0) {
+      const { error } = await supabase.from('product_images').upsert(
+        images.map((image, position) => ({ ...image, product_id: id, position }))
+      );
+      if (error) throw error;
+    }
+    
+    if (removedImages.length > 0) {
+      const { error } = await supabase
+        .from('product_images')
+        .delete()
+        .in('id', removedImages.map(image => image.id));
+      if (error) throw error;
+      
+      // The product is saved by now, so leftover files aren't worth failing over
+      try {
+        await removeProductImageFiles(removedImages);
+      } catch (error) {
+        console.error('Error removing image files:', error);
+      }
+    }
+  };
+  
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
@@ -133,32 +195,87 @@ const ProductForm: React.FC<ProductFormProps> = ({ productId, mode }) => {
       return;
     }
     
+    // With variants, price and stock are checked per variant below
+    const parsed = hasVariants
+      ? productFieldsSchema.pick({ name: true, description: true, sku: true, categoryId: true }).safeParse(formData)
+      : productFormSchema.safeParse(formData);
+    if (!parsed.success) {
+      toast({
+        title: 'Check the product details',
+        description: describeIssues(parsed.error).join(' '),
+        variant: 'destructive',
+      });
+      return;
+    }
+    
+    const parsedOptions = parseOptionDrafts(options);
+    if (parsedOptions.length > 0 && !hasVariants) {
+      toast({
+        title: 'Variants missing',
+        description: 'Generate variants for your options, or remove the options.',
+        variant: 'destructive',
+      });
+      return;
+    }
+    
+    const variantData = variants.map(variant => ({
+      id: variant.id,
+      sku: variant.sku.trim() || null,
+      options: variant.options,
+      price: parseFloat(variant.price),
+      discounted_price: variant.discounted_price ? parseFloat(variant.discounted_price) : null,
+      stock: parseInt(variant.stock, 10),
+      image_url: variant.image_url.trim() || null,
+    }));
+    
+    if (variantData.some(variant => isNaN(variant.price) || isNaN(variant.stock) || variant.stock < 0)) {
+      toast({
+        title: 'Invalid variants',
+        description: 'Every variant needs a price and a stock quantity.',
+        variant: 'destructive',
+      });
+      return;
+    }
+    
     setLoading(true);
     
     try {
+      // With variants, the product's price and stock are rolled up from them
       const productData = {
         name: formData.name,
         description: formData.description,
-        category: formData.category,
-        price: parseFloat(formData.price),
-        discounted_price: formData.discountedPrice ? parseFloat(formData.discountedPrice) : null,
-        stock: parseInt(formData.stock, 10),
-        image_url: formData.image_url,
+        sku: formData.sku.trim() || null,
+        category_id: formData.categoryId,
+        category: categories.find(c => c.id === formData.categoryId)?.name || '',
+        price: hasVariants ? Math.min(...variantData.map(v => v.price)) : parseFloat(formData.price),
+        discounted_price: formData.discountedPrice && !hasVariants ? parseFloat(formData.discountedPrice) : null,
+        stock: hasVariants ? variantData.reduce((sum, v) => sum + v.stock, 0) : parseInt(formData.stock, 10),
         seller_id: user.id,
       };
       
-      let result;
+      const saveVariants = async (id: string) => {
+        const { error } = await supabase.rpc('save_product_variants', {
+          _product_id: id,
+          _options: parsedOptions.map(option => ({ name: option.name, values: option.values })),
+          _variants: variantData,
+        });
+        if (error) throw error;
+      };
       
       if (mode === 'create') {
-        result = await supabase.from('products').insert([productData]);
+        const { data, error } = await supabase.from('products').insert([productData]).select('id').single();
+        if (error) throw error;
+        if (hasVariants) await saveVariants(data.id);
+        await saveImages(data.id);
       } else {
-        result = await supabase.from('products').update(productData).eq('id', productId);
+        // Variants first, so a product that drops its variants takes the
+        // price and stock entered here
+        await saveVariants(productId);
+        const { error } = await supabase.from('products').update(productData).eq('id', productId);
+        if (error) throw error;
+        await saveImages(productId);
       }
       
-      const { error } = result;
-      
-      if (error) throw error;
-      
       toast({
         title: 'Success',
         description: `Product ${mode === 'create' ? 'created' : 'updated'} successfully`,
@@ -169,7 +286,8 @@ const ProductForm: React.FC<ProductFormProps> = ({ productId, mode }) => {
       console.error(`Error ${mode === 'create' ? 'creating' : 'updating'} product:`, error);
       toast({
         title: 'Error',
-        description: `Failed to ${mode === 'create' ? 'create' : 'update'} product`,
+        description: describeVariantError(error as { code?: string; message?: string })
+          || `Failed to ${mode === 'create' ? 'create' : 'update'} product`,
         variant: 'destructive',
       });
     } finally {
@@ -219,81 +337,99 @@ const ProductForm: React.FC<ProductFormProps> = ({ productId, mode }) => {
                 />
               </div>
               
+              <div className="space-y-2">
+                <Label htmlFor="sku">SKU</Label>
+                <Input
+                  id="sku"
+                  name="sku"
+                  value={formData.sku}
+                  onChange={handleInputChange}
+                  className="font-mono"
+                />
+                <p className="text-xs text-gray-500">Your own product code. Imports use it to update existing products.</p>
+              </div>
+              
               <div className="space-y-2">
                 <Label htmlFor="category">Category *</Label>
                 <Select
-                  value={formData.category}
-                  onValueChange={(value) => handleSelectChange('category', value)}
+                  value={formData.categoryId}
+                  onValueChange={(value) => handleSelectChange('categoryId', value)}
                   required
                 >
                   <SelectTrigger>
                     <SelectValue placeholder="Select a category" />
                   </SelectTrigger>
                   <SelectContent>
-                    {categories.map((category) => (
-                      <SelectItem key={category.id} value={category.name}>
-                        {category.name}
+                    {categoryOptions.map(({ category, depth }) => (
+                      <SelectItem key={category.id} value={category.id}>
+                        <span style={{ paddingLeft: `${depth}rem` }}>{category.name}</span>
                       </SelectItem>
                     ))}
                   </SelectContent>
                 </Select>
               </div>
               
-              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                <div className="space-y-2">
-                  <Label htmlFor="price">Price ($) *</Label>
-                  <Input
-                    id="price"
-                    name="price"
-                    type="number"
-                    step="0.01"
-                    min="0"
-                    value={formData.price}
-                    onChange={handleInputChange}
-                    required
-                  />
-                </div>
-                
-                <div className="space-y-2">
-                  <Label htmlFor="discountedPrice">Discounted Price ($)</Label>
-                  <Input
-                    id="discountedPrice"
-                    name="discountedPrice"
-                    type="number"
-                    step="0.01"
-                    min="0"
-                    value={formData.discountedPrice}
-                    onChange={handleInputChange}
-                  />
+              {hasVariants ? (
+                <p className="text-sm text-gray-500">Price and stock are set for each variant below.</p>
+              ) : (
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="price">Price ($) *</Label>
+                    <Input
+                      id="price"
+                      name="price"
+                      type="number"
+                      step="0.01"
+                      min="0"
+                      value={formData.price}
+                      onChange={handleInputChange}
+                      required
+                    />
+                  </div>
+                  
+                  <div className="space-y-2">
+                    <Label htmlFor="discountedPrice">Discounted Price ($)</Label>
+                    <Input
+                      id="discountedPrice"
+                      name="discountedPrice"
+                      type="number"
+                      step="0.01"
+                      min="0"
+                      value={formData.discountedPrice}
+                      onChange={handleInputChange}
+                    />
+                  </div>
                 </div>
-              </div>
+              )}
               
               <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                <div className="space-y-2">
-                  <Label htmlFor="stock">Stock Quantity *</Label>
-                  <Input
-                    id="stock"
-                    name="stock"
-                    type="number"
-                    min="0"
-                    value={formData.stock}
-                    onChange={handleInputChange}
-                    required
-                  />
-                </div>
-                
-                <div className="space-y-2">
-                  <Label htmlFor="image_url">Image URL</Label>
-                  <Input
-                    id="image_url"
-                    name="image_url"
-                    type="url"
-                    value={formData.image_url}
-                    onChange={handleInputChange}
-                  />
-                </div>
+                {!hasVariants && (
+                  <div className="space-y-2">
+                    <Label htmlFor="stock">Stock Quantity *</Label>
+                    <Input
+                      id="stock"
+                      name="stock"
+                      type="number"
+                      min="0"
+                      value={formData.stock}
+                      onChange={handleInputChange}
+                      required
+                    />
+                  </div>
+                )}
               </div>
               
+              <ImageGalleryEditor images={images} onChange={handleImagesChange} />
+              
+              <VariantEditor
+                options={options}
+                variants={variants}
+                onOptionsChange={setOptions}
+                onVariantsChange={setVariants}
+                defaultPrice={formData.price}
+                images={images}
+              />
+              
               <Button 
                 type="submit" 
                 className="w-full"
@@ -0,0 +1,366 @@
+
+import React, { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { FunctionsHttpError } from '@supabase/supabase-js';
+import { useAuth } from '@/context/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { supabase } from '@/integrations/supabase/client';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Check, Loader2, RefreshCw, Truck, Undo2, X } from 'lucide-react';
+import {
+  pickupStatusLabels,
+  ReturnRequest,
+  returnReasonLabels,
+  returnStatusColors,
+  returnStatusLabels,
+} from '@/lib/returns';
+
+interface SellerReturn extends ReturnRequest {
+  product_name?: string;
+  unit_price: number | null;
+  photo_urls: string[];
+}
+
+interface ReturnsResponse {
+  returns: SellerReturn[];
+}
+
+interface Courier {
+  id: string;
+  name: string | null;
+  open_jobs: number;
+}
+
+interface CouriersResponse {
+  couriers: Courier[];
+}
+
+// Select value for letting the server pick the least busy courier
+const LEAST_BUSY = 'least_busy';
+
+type ReturnAction =
+  | { action: 'review_return'; decision: 'approve' | 'reject'; note?: string }
+  | { action: 'retry_refund' }
+  | { action: 'assign_pickup'; courier_id?: string };
+
+export default function SellerReturns() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [reviewing, setReviewing] = useState<SellerReturn | null>(null);
+  const [note, setNote] = useState('');
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [arranging, setArranging] = useState<SellerReturn | null>(null);
+  const [courierId, setCourierId] = useState(LEAST_BUSY);
+
+  const { data: returns, isLoading, refetch } = useQuery({
+    queryKey: ['sellerReturns', user?.id],
+    queryFn: async () => {
+      const { data, error } = await supabase.functions.invoke<ReturnsResponse>('returns_functions', {
+        body: { action: 'get_seller_returns' }
+      });
+
+      if (error) throw error;
+
+      return data?.returns || [];
+    },
+    enabled: !!user?.id,
+  });
+
+  const { data: couriers, isLoading: couriersLoading } = useQuery({
+    queryKey: ['returnCouriers'],
+    queryFn: async () => {
+      const { data, error } = await supabase.functions.invoke<CouriersResponse>('returns_functions', {
+        body: { action: 'get_couriers' }
+      });
+
+      if (error) throw error;
+
+      return data?.couriers || [];
+    },
+    enabled: !!arranging,
+  });
+
+  const runAction = async (request: SellerReturn, body: ReturnAction, successMessage: string): Promise<boolean> => {
+    setBusyId(request.id);
+    try {
+      const { error } = await supabase.functions.invoke('returns_functions', {
+        body: { ...body, return_id: request.id }
+      });
+
+      if (error) {
+        const errorBody = error instanceof FunctionsHttpError
+          ? await error.context.json().catch(() => null)
+          : null;
+        throw new Error(errorBody?.error || error.message);
+      }
+
+      toast({ title: 'Return Updated', description: successMessage });
+      refetch();
+      return true;
+    } catch (error) {
+      toast({
+        title: 'Update Failed',
+        description: error instanceof Error ? error.message : 'There was an error updating the return',
+        variant: 'destructive',
+      });
+      refetch();
+      return false;
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const openReview = (request: SellerReturn) => {
+    setNote('');
+    setReviewing(request);
+  };
+
+  const handleReview = async (decision: 'approve' | 'reject') => {
+    if (!reviewing) return;
+
+    const done = await runAction(
+      reviewing,
+      { action: 'review_return', decision, note },
+      decision === 'approve' ? 'Return approved and refund issued' : 'Return rejected'
+    );
+    if (done) setReviewing(null);
+  };
+
+  const openPickup = (request: SellerReturn) => {
+    setCourierId(LEAST_BUSY);
+    setArranging(request);
+  };
+
+  const handleArrangePickup = async () => {
+    if (!arranging) return;
+
+    const done = await runAction(
+      arranging,
+      { action: 'assign_pickup', ...(courierId !== LEAST_BUSY ? { courier_id: courierId } : {}) },
+      'Pickup arranged with a courier'
+    );
+    if (done) setArranging(null);
+  };
+
+  return (
+    <Card className="mt-8">
+      <CardHeader className="flex flex-row items-center justify-between">
+        <div>
+          <CardTitle className="flex items-center gap-2">
+            <Undo2 className="h-5 w-5" />
+            Returns
+          </CardTitle>
+          <CardDescription>Review customer return requests for your products</CardDescription>
+        </div>
+        <Button variant="outline" size="sm" onClick={() => refetch()}>
+          <RefreshCw className="h-4 w-4" />
+        </Button>
+      </CardHeader>
+      <CardContent className="p-0">
+        {isLoading ? (
+          <div className="p-8 text-center">
+            <Loader2 className="h-6 w-6 animate-spin mx-auto" />
+          </div>
+        ) : returns?.length ? (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Order</TableHead>
+                <TableHead>Product</TableHead>
+                <TableHead>Reason</TableHead>
+                <TableHead>Refund</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {returns.map(request => (
+                <TableRow key={request.id}>
+                  <TableCell className="font-medium">
+                    {request.order_id.substring(0, 8)}
+                    <div className="text-xs text-gray-500">
+                      {new Date(request.created_at).toLocaleDateString()}
+                    </div>
+                  </TableCell>
+                  <TableCell>
+                    {request.quantity}x {request.product_name || 'Unknown product'}
+                  </TableCell>
+                  <TableCell>{returnReasonLabels[request.reason]}</TableCell>
+                  <TableCell>
+                    ${(request.refund_amount ?? (request.unit_price || 0) * request.quantity).toFixed(2)}
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex flex-col items-start gap-1">
+                      <Badge variant="outline" className={`border-0 ${returnStatusColors[request.status]}`}>
+                        {returnStatusLabels[request.status]}
+                      </Badge>
+                      {request.pickup_status && (
+                        <span className="text-xs text-gray-500">{pickupStatusLabels[request.pickup_status]}</span>
+                      )}
+                      {request.refund_error && (
+                        <span className="text-xs text-red-600">Refund failed: {request.refund_error}</span>
+                      )}
+                    </div>
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <div className="flex justify-end gap-2">
+                      {request.status === 'requested' && (
+                        <Button size="sm" variant="outline" onClick={() => openReview(request)}>
+                          Review
+                        </Button>
+                      )}
+                      {request.status === 'approved' && request.refund_error && (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          disabled={busyId === request.id}
+                          onClick={() => runAction(request, { action: 'retry_refund' }, 'Refund issued')}
+                        >
+                          Retry Refund
+                        </Button>
+                      )}
+                      {['approved', 'refunded'].includes(request.status) && !request.pickup_status && (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          disabled={busyId === request.id}
+                          onClick={() => openPickup(request)}
+                        >
+                          <Truck className="mr-2 h-4 w-4" />
+                          Arrange Pickup
+                        </Button>
+                      )}
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        ) : (
+          <p className="p-8 text-center text-gray-500">No return requests yet.</p>
+        )}
+      </CardContent>
+
+      <Dialog open={!!reviewing} onOpenChange={(open) => !open && setReviewing(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Review Return</DialogTitle>
+            <DialogDescription>
+              {reviewing?.quantity}x {reviewing?.product_name} · {reviewing && returnReasonLabels[reviewing.reason]}
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            {reviewing?.details && (
+              <p className="text-sm whitespace-pre-line">{reviewing.details}</p>
+            )}
+            {reviewing?.photo_urls.length ? (
+              <div className="flex flex-wrap gap-2">
+                {reviewing.photo_urls.map(url => (
+                  <a key={url} href={url} target="_blank" rel="noreferrer">
+                    <img src={url} alt="Return photo" className="h-20 w-20 rounded object-cover" />
+                  </a>
+                ))}
+              </div>
+            ) : null}
+            <div className="space-y-2">
+              <Label htmlFor="return-note">Note to customer</Label>
+              <Textarea
+                id="return-note"
+                rows={3}
+                placeholder="Required when rejecting"
+                value={note}
+                onChange={(e) => setNote(e.target.value)}
+              />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button
+              variant="outline"
+              disabled={busyId !== null || !note.trim()}
+              onClick={() => handleReview('reject')}
+            >
+              <X className="mr-2 h-4 w-4" />
+              Reject
+            </Button>
+            <Button
+              className="bg-shop-purple hover:bg-shop-purple-dark"
+              disabled={busyId !== null}
+              onClick={() => handleReview('approve')}
+            >
+              {busyId ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Check className="mr-2 h-4 w-4" />}
+              Approve &amp; Refund
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!arranging} onOpenChange={(open) => !open && setArranging(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Arrange Pickup</DialogTitle>
+            <DialogDescription>
+              {arranging?.quantity}x {arranging?.product_name} · Order {arranging?.order_id.substring(0, 8)}
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-2">
+            <Label>Courier</Label>
+            <Select value={courierId} onValueChange={setCourierId} disabled={couriersLoading}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={LEAST_BUSY}>Least busy courier</SelectItem>
+                {couriers?.map(courier => (
+                  <SelectItem key={courier.id} value={courier.id}>
+                    {courier.name || courier.id.substring(0, 8)} ({courier.open_jobs} open)
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <DialogFooter>
+            <Button
+              className="bg-shop-purple hover:bg-shop-purple-dark"
+              disabled={busyId !== null}
+              onClick={handleArrangePickup}
+            >
+              {busyId ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Truck className="mr-2 h-4 w-4" />}
+              Arrange Pickup
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
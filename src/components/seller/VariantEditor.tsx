@@ -0,0 +1,265 @@
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Plus, RefreshCw, Trash2 } from 'lucide-react';
+import {
+  buildVariantCombinations,
+  getVariantName,
+  OptionDraft,
+  OptionSelection,
+  parseOptionDrafts,
+} from '@/lib/variants';
+import { ProductImage } from '@/lib/images';
+
+const MAX_OPTIONS = 3;
+
+// Form fields for one variant; id is set once it has been saved
+export interface VariantDraft {
+  id?: string;
+  sku: string;
+  options: OptionSelection;
+  price: string;
+  discounted_price: string;
+  stock: string;
+  image_url: string;
+}
+
+interface VariantEditorProps {
+  options: OptionDraft[];
+  variants: VariantDraft[];
+  onOptionsChange: (options: OptionDraft[]) => void;
+  onVariantsChange: (variants: VariantDraft[]) => void;
+  // Starting price for newly generated variants
+  defaultPrice: string;
+  // Gallery images a variant can be shown with
+  images: ProductImage[];
+}
+
+// Options (Size, Colour, ...) and one row per combination of their values
+export default function VariantEditor({
+  options,
+  variants,
+  onOptionsChange,
+  onVariantsChange,
+  defaultPrice,
+  images,
+}: VariantEditorProps) {
+  const parsedOptions = parseOptionDrafts(options);
+
+  const updateOption = (index: number, field: keyof OptionDraft, value: string) => {
+    onOptionsChange(options.map((option, i) => (i === index ? { ...option, [field]: value } : option)));
+  };
+
+  const updateVariant = (index: number, field: keyof Omit<VariantDraft, 'id' | 'options'>, value: string) => {
+    onVariantsChange(variants.map((variant, i) => (i === index ? { ...variant, [field]: value } : variant)));
+  };
+
+  // Rebuild the rows from the options, keeping what was entered for
+  // combinations that still exist
+  const generateVariants = () => {
+    const existing = new Map(variants.map(variant => [getVariantName(variant.options, parsedOptions), variant]));
+
+    onVariantsChange(buildVariantCombinations(parsedOptions).map(combination => {
+      const match = existing.get(getVariantName(combination, parsedOptions));
+      return match
+        ? { ...match, options: combination }
+        : {
+            sku: '',
+            options: combination,
+            price: defaultPrice,
+            discounted_price: '',
+            stock: '0',
+            image_url: '',
+          };
+    }));
+  };
+
+  return (
+    <div className="space-y-4 rounded-md border p-4">
+      <div>
+        <h3 className="font-medium">Options & Variants</h3>
+        <p className="text-sm text-gray-500">
+          Sell this product in several versions, like sizes or colours. Each variant has its own SKU, price and stock.
+        </p>
+      </div>
+
+      {options.map((option, index) => (
+        <div key={index} className="grid grid-cols-1 md:grid-cols-[1fr_2fr_auto] gap-2 items-end">
+          <div className="space-y-1">
+            <Label htmlFor={`option-name-${index}`}>Option</Label>
+            <Input
+              id={`option-name-${index}`}
+              value={option.name}
+              onChange={(e) => updateOption(index, 'name', e.target.value)}
+              placeholder="Size"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor={`option-values-${index}`}>Values (comma separated)</Label>
+            <Input
+              id={`option-values-${index}`}
+              value={option.values}
+              onChange={(e) => updateOption(index, 'values', e.target.value)}
+              placeholder="S, M, L"
+            />
+          </div>
+          <Button
+            type="button"
+            variant="ghost"
+            size="icon"
+            onClick={() => onOptionsChange(options.filter((_, i) => i !== index))}
+          >
+            <Trash2 className="h-4 w-4" />
+            <span className="sr-only">Remove option</span>
+          </Button>
+        </div>
+      ))}
+
+      <div className="flex flex-wrap gap-2">
+        {options.length < MAX_OPTIONS && (
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => onOptionsChange([...options, { name: '', values: '' }])}
+          >
+            <Plus className="h-4 w-4 mr-1" />
+            Add Option
+          </Button>
+        )}
+        {parsedOptions.length > 0 && (
+          <Button type="button" variant="outline" size="sm" onClick={generateVariants}>
+            <RefreshCw className="h-4 w-4 mr-1" />
+            {variants.length > 0 ? 'Update Variants' : 'Generate Variants'}
+          </Button>
+        )}
+        {variants.length > 0 && (
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            onClick={() => {
+              onOptionsChange([]);
+              onVariantsChange([]);
+            }}
+          >
+            Remove All Variants
+          </Button>
+        )}
+      </div>
+
+      {variants.length > 0 && (
+        <div className="overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Variant</TableHead>
+                <TableHead>SKU</TableHead>
+                <TableHead>Price ($)</TableHead>
+                <TableHead>Sale ($)</TableHead>
+                <TableHead>Stock</TableHead>
+                <TableHead>Image</TableHead>
+                <TableHead></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {variants.map((variant, index) => (
+                <TableRow key={variant.id || getVariantName(variant.options, parsedOptions)}>
+                  <TableCell className="whitespace-nowrap font-medium">
+                    {getVariantName(variant.options, parsedOptions) || Object.values(variant.options).join(' / ')}
+                  </TableCell>
+                  <TableCell>
+                    <Input
+                      value={variant.sku}
+                      onChange={(e) => updateVariant(index, 'sku', e.target.value)}
+                      className="w-28 font-mono"
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Input
+                      type="number"
+                      step="0.01"
+                      min="0"
+                      value={variant.price}
+                      onChange={(e) => updateVariant(index, 'price', e.target.value)}
+                      className="w-24"
+                      required
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Input
+                      type="number"
+                      step="0.01"
+                      min="0"
+                      value={variant.discounted_price}
+                      onChange={(e) => updateVariant(index, 'discounted_price', e.target.value)}
+                      className="w-24"
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Input
+                      type="number"
+                      min="0"
+                      value={variant.stock}
+                      onChange={(e) => updateVariant(index, 'stock', e.target.value)}
+                      className="w-20"
+                      required
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Select
+                      value={variant.image_url || 'none'}
+                      onValueChange={(value) => updateVariant(index, 'image_url', value === 'none' ? '' : value)}
+                    >
+                      <SelectTrigger className="w-40">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="none">Product images</SelectItem>
+                        {variant.image_url && !images.some(image => image.url === variant.image_url) && (
+                          <SelectItem value={variant.image_url}>Current image</SelectItem>
+                        )}
+                        {images.map((image, imageIndex) => (
+                          <SelectItem key={image.id} value={image.url}>
+                            {image.alt_text || `Image ${imageIndex + 1}`}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </TableCell>
+                  <TableCell>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => onVariantsChange(variants.filter((_, i) => i !== index))}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                      <span className="sr-only">Remove variant</span>
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+    </div>
+  );
+}
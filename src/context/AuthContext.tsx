@@ -4,6 +4,8 @@ import { supabase } from "@/integrations/supabase/client";
 import { Session, User as AuthUser } from "@supabase/supabase-js";
 import { Database } from "@/integrations/supabase/types";
 import { useNavigate } from "react-router-dom";
+import { isApplicationRole } from "@/lib/applications";
+import type { QuestionAnswers } from "@/lib/questionnaires";
 
 // Define our own User type to match what we get from Supabase
 interface User {
@@ -15,6 +17,12 @@ interface User {
 // Extract the user_role type from Database type definition
 type UserRole = Database["public"]["Enums"]["user_role"];
 
+// Answers to the role questionnaire, for seller and delivery sign-ups
+interface RoleApplicationAnswers {
+  questionnaireId: string | null;
+  answers: QuestionAnswers;
+}
+
 // Define the states for the authentication process
 type AuthState = 
   | 'initializing' 
@@ -26,7 +34,7 @@ interface AuthContextType {
   user: User | null;
   session: Session | null;
   login: (email: string, password: string) => Promise<boolean>;
-  register: (name: string, email: string, password: string, role?: UserRole, roleQuestions?: any) => Promise<boolean>;
+  register: (name: string, email: string, password: string, role?: UserRole, application?: RoleApplicationAnswers) => Promise<boolean>;
   logout: () => Promise<void>;
   isAuthenticated: boolean;
   loading: boolean;
@@ -326,7 +334,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     email: string, 
     password: string, 
     role: UserRole = 'customer',
-    roleQuestions?: any
+    application?: RoleApplicationAnswers
   ): Promise<boolean> => {
     try {
       setLoading(true);
@@ -340,6 +348,9 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
           data: {
             name,
             role_request: role, // Store requested role in metadata
+            // Seller and delivery sign-ups open a role application from these
+            questionnaire_id: application?.questionnaireId || null,
+            question_responses: application?.answers || {},
           },
           emailRedirectTo: window.location.origin + '/auth-confirmation',
         },
@@ -357,6 +368,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
 
       if (authData.user) {
         // Store role-specific questions if provided
+        const roleQuestions = application?.answers;
         if (roleQuestions && Object.keys(roleQuestions).length > 0) {
           try {
             const { error: profileError } = await supabase
@@ -376,13 +388,18 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
           }
         }
 
+        // Seller and delivery accounts shop as customers until an admin
+        // approves their application
+        const applying = isApplicationRole(role);
         toast({
           title: "Registration Successful",
-          description: `Welcome, ${name}! Your account has been created with ${role} role.`,
+          description: applying
+            ? `Welcome, ${name}! We'll review your ${role} application and let you know.`
+            : `Welcome, ${name}! Your account has been created with ${role} role.`,
         });
         
         // Set the user role immediately for a better user experience
-        setUserRole(role);
+        setUserRole(applying ? 'customer' : role);
         return true;
       }
 
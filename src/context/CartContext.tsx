@@ -1,12 +1,17 @@
 
-import React, { createContext, useContext, useState, useEffect } from 'react';
+import React, { createContext, useContext, useState, useEffect, useRef } from 'react';
+import { FunctionsHttpError } from '@supabase/supabase-js';
 import { supabase } from '@/integrations/supabase/client';
+import { recordAddToCart } from '@/lib/analytics';
 import { useAuth } from '@/context/AuthContext';
 import { useToast } from '@/hooks/use-toast';
 
+// One line per product, or per variant for products with variants
 interface CartItem {
   id: string;
   product_id: string;
+  variant_id: string | null;
+  variant_name: string | null;
   quantity: number;
   name: string;
   price: number;
@@ -14,70 +19,348 @@ interface CartItem {
   image_url: string | null;
 }
 
+// A difference between a cart line and the product as it is now
+export interface CartChange {
+  product_id: string;
+  variant_id: string | null;
+  name: string;
+  type: 'price_changed' | 'out_of_stock' | 'quantity_reduced' | 'removed';
+  old_price?: number;
+  new_price?: number;
+  old_quantity?: number;
+  available?: number;
+}
+
+// A promotion code the server has accepted for the current cart
+export interface AppliedPromotion {
+  code: string;
+  name: string;
+  description: string | null;
+  type: 'percentage' | 'fixed_amount' | 'free_shipping' | 'buy_x_get_y';
+  discount: number;
+  shipping_discount: number;
+}
+
 interface CartContextType {
   cartItems: CartItem[];
   cartCount: number;
-  addToCart: (productId: string, quantity?: number) => void;
-  removeFromCart: (productId: string) => void;
-  updateQuantity: (productId: string, quantity: number) => void;
+  addToCart: (productId: string, quantity?: number, variantId?: string | null) => void;
+  removeFromCart: (productId: string, variantId?: string | null) => void;
+  updateQuantity: (productId: string, quantity: number, variantId?: string | null) => void;
   clearCart: () => void;
   isLoading: boolean;
+  cartChanges: CartChange[];
+  isRevalidating: boolean;
+  revalidateCart: () => Promise<CartChange[]>;
+  acknowledgeCartChanges: () => void;
+  appliedPromotion: AppliedPromotion | null;
+  isApplyingPromotion: boolean;
+  applyPromotion: (code: string) => Promise<boolean>;
+  removePromotion: () => void;
+}
+
+// What a cart line would cost and how many can be bought right now
+interface LineSnapshot {
+  name: string;
+  variant_name: string | null;
+  price: number;
+  discounted_price: number | null;
+  image_url: string | null;
+  stock: number;
 }
 
 const CartContext = createContext<CartContextType | undefined>(undefined);
 
+// Pull the error message out of a failed edge function call
+const readFunctionError = async (error: Error): Promise<string> => {
+  if (error instanceof FunctionsHttpError) {
+    const body = await error.context.json().catch(() => null);
+    if (body?.error) return body.error;
+  }
+  return error.message;
+};
+
+const lineKey = (productId: string, variantId: string | null) => `${productId}:${variantId || ''}`;
+
+const isLine = (item: CartItem, productId: string, variantId: string | null) => {
+  return item.product_id === productId && item.variant_id === variantId;
+};
+
+// Read the guest cart kept in localStorage
+const readGuestCart = (): CartItem[] => {
+  const storedCart = localStorage.getItem('cart');
+  if (!storedCart) return [];
+
+  try {
+    // Carts saved before variants existed have no variant fields
+    return JSON.parse(storedCart).map((item: CartItem) => ({
+      ...item,
+      variant_id: item.variant_id ?? null,
+      variant_name: item.variant_name ?? null,
+    }));
+  } catch (error) {
+    console.error('Error parsing cart from localStorage:', error);
+    localStorage.removeItem('cart');
+    return [];
+  }
+};
+
+// Current price and stock for the products (and their variants) behind
+// the given lines, keyed by lineKey. A line for a product that now has
+// variants, or for a variant that's gone, gets no snapshot.
+const fetchLineSnapshots = async (productIds: string[]): Promise<Map<string, LineSnapshot>> => {
+  const [productsResult, variantsResult] = await Promise.all([
+    supabase
+      .from('products')
+      .select('id, name, price, discounted_price, image_url, stock')
+      .in('id', productIds),
+    supabase
+      .from('product_variants')
+      .select('id, product_id, name, price, discounted_price, image_url, stock')
+      .in('product_id', productIds),
+  ]);
+
+  if (productsResult.error) throw productsResult.error;
+  if (variantsResult.error) throw variantsResult.error;
+
+  const snapshots = new Map<string, LineSnapshot>();
+  const variants = variantsResult.data || [];
+
+  for (const product of productsResult.data || []) {
+    const productVariants = variants.filter(variant => variant.product_id === product.id);
+
+    if (productVariants.length === 0) {
+      snapshots.set(lineKey(product.id, null), { ...product, variant_name: null });
+      continue;
+    }
+
+    for (const variant of productVariants) {
+      snapshots.set(lineKey(product.id, variant.id), {
+        name: product.name,
+        variant_name: variant.name,
+        price: variant.price,
+        discounted_price: variant.discounted_price,
+        image_url: variant.image_url || product.image_url,
+        stock: variant.stock,
+      });
+    }
+  }
+
+  return snapshots;
+};
+
+// Compare cart lines against current prices and stock
+const diffCart = (items: CartItem[], snapshots: Map<string, LineSnapshot>): CartChange[] => {
+  const changes: CartChange[] = [];
+
+  for (const item of items) {
+    const product = snapshots.get(lineKey(item.product_id, item.variant_id));
+    const line = { product_id: item.product_id, variant_id: item.variant_id };
+
+    if (!product) {
+      changes.push({ ...line, name: item.name, type: 'removed' });
+      continue;
+    }
+
+    if (product.stock <= 0) {
+      changes.push({ ...line, name: product.name, type: 'out_of_stock' });
+      continue;
+    }
+
+    if (product.stock < item.quantity) {
+      changes.push({
+        ...line,
+        name: product.name,
+        type: 'quantity_reduced',
+        old_quantity: item.quantity,
+        available: product.stock,
+      });
+    }
+
+    const oldPrice = item.discounted_price || item.price;
+    const newPrice = product.discounted_price || product.price;
+    if (oldPrice !== newPrice) {
+      changes.push({
+        ...line,
+        name: product.name,
+        type: 'price_changed',
+        old_price: oldPrice,
+        new_price: newPrice,
+      });
+    }
+  }
+
+  return changes;
+};
+
 export function CartProvider({ children }: { children: React.ReactNode }) {
   const [cartItems, setCartItems] = useState<CartItem[]>([]);
   const [cartCount, setCartCount] = useState(0);
   const [isLoading, setIsLoading] = useState(false);
+  const [cartId, setCartId] = useState<string | null>(null);
+  const [cartChanges, setCartChanges] = useState<CartChange[]>([]);
+  const [latestSnapshots, setLatestSnapshots] = useState<Map<string, LineSnapshot>>(new Map());
+  const [isRevalidating, setIsRevalidating] = useState(false);
+  const [appliedPromotion, setAppliedPromotion] = useState<AppliedPromotion | null>(null);
+  const [isApplyingPromotion, setIsApplyingPromotion] = useState(false);
   const { user } = useAuth();
   const { toast } = useToast();
+  const syncedUserId = useRef<string | null>(null);
 
   // Load cart from local storage on initial load
   useEffect(() => {
-    const storedCart = localStorage.getItem('cart');
-    if (storedCart) {
+    const guestCart = readGuestCart();
+    if (guestCart.length > 0) {
+      setCartItems(guestCart);
+      setCartCount(guestCart.reduce((total, item) => total + item.quantity, 0));
+    }
+  }, []);
+
+  // Switch to the stored cart when a user signs in, merging in the guest cart
+  useEffect(() => {
+    const userId = user?.id ?? null;
+    if (userId === syncedUserId.current) return;
+    syncedUserId.current = userId;
+
+    if (!userId) {
+      // Signed out: the stored cart stays on the server for next time
+      setCartId(null);
+      setCartItems([]);
+      setAppliedPromotion(null);
+      return;
+    }
+
+    const syncCart = async () => {
+      setIsLoading(true);
       try {
-        const parsedCart = JSON.parse(storedCart);
-        setCartItems(parsedCart);
-        setCartCount(parsedCart.reduce((total: number, item: CartItem) => total + item.quantity, 0));
-      } catch (error) {
-        console.error('Error parsing cart from localStorage:', error);
+        const guestCart = readGuestCart();
+
+        const { data: mergedCartId, error: mergeError } = await supabase.rpc('merge_cart', {
+          _items: guestCart.map(item => ({
+            product_id: item.product_id,
+            variant_id: item.variant_id,
+            quantity: item.quantity,
+          })),
+        });
+
+        if (mergeError) throw mergeError;
+
+        const { data: lines, error: linesError } = await supabase
+          .from('cart_items')
+          .select(`
+            id,
+            product_id,
+            variant_id,
+            quantity,
+            products:product_id (name, price, discounted_price, image_url),
+            product_variants:variant_id (name, price, discounted_price, image_url)
+          `)
+          .eq('cart_id', mergedCartId)
+          .order('created_at', { ascending: true });
+
+        if (linesError) throw linesError;
+
+        // Ignore the result if the user changed while we were loading
+        if (syncedUserId.current !== userId) return;
+
         localStorage.removeItem('cart');
+        setCartId(mergedCartId);
+        setCartItems((lines || []).map(line => {
+          const variant = line.product_variants;
+          return {
+            id: line.id,
+            product_id: line.product_id,
+            variant_id: line.variant_id,
+            variant_name: variant?.name ?? null,
+            quantity: line.quantity,
+            name: line.products?.name || 'Unknown Product',
+            price: (variant ?? line.products)?.price ?? 0,
+            discounted_price: (variant ?? line.products)?.discounted_price ?? null,
+            image_url: variant?.image_url || line.products?.image_url || null,
+          };
+        }));
+      } catch (error) {
+        console.error('Error syncing cart:', error);
+        toast({
+          title: "Cart not synced",
+          description: "We couldn't load your saved cart. Changes will only be kept on this device.",
+          variant: "destructive",
+        });
+      } finally {
+        setIsLoading(false);
       }
-    }
-  }, []);
+    };
+
+    syncCart();
+  }, [user?.id, toast]);
 
-  // Save cart to localStorage when it changes
+  // Save guest carts to localStorage when they change
   useEffect(() => {
-    if (cartItems.length > 0) {
-      localStorage.setItem('cart', JSON.stringify(cartItems));
-    } else {
-      localStorage.removeItem('cart');
+    if (!cartId) {
+      if (cartItems.length > 0) {
+        localStorage.setItem('cart', JSON.stringify(cartItems));
+      } else {
+        localStorage.removeItem('cart');
+      }
     }
     
     // Update cart count
     setCartCount(cartItems.reduce((total, item) => total + item.quantity, 0));
-  }, [cartItems]);
+  }, [cartItems, cartId]);
+
+  // Mirror a line change to the stored cart for signed-in users
+  const persistLine = async (productId: string, variantId: string | null, quantity: number) => {
+    if (!cartId) return;
+
+    if (quantity > 0) {
+      const { error } = await supabase
+        .from('cart_items')
+        .upsert(
+          {
+            cart_id: cartId,
+            product_id: productId,
+            variant_id: variantId,
+            quantity,
+            updated_at: new Date().toISOString(),
+          },
+          { onConflict: 'cart_id,product_id,variant_id' }
+        );
 
-  const addToCart = async (productId: string, quantity: number = 1) => {
-    setIsLoading(true);
-    try {
-      // Fetch product details
-      const { data: product, error } = await supabase
-        .from('products')
-        .select('id, name, price, discounted_price, image_url, stock')
-        .eq('id', productId)
-        .single();
-      
       if (error) {
-        throw error;
+        console.error('Error saving cart line:', error);
       }
+      return;
+    }
+
+    const query = supabase
+      .from('cart_items')
+      .delete()
+      .eq('cart_id', cartId)
+      .eq('product_id', productId);
+
+    const { error } = variantId
+      ? await query.eq('variant_id', variantId)
+      : await query.is('variant_id', null);
+
+    if (error) {
+      console.error('Error saving cart line:', error);
+    }
+  };
+
+  const addToCart = async (productId: string, quantity: number = 1, variantId: string | null = null) => {
+    setIsLoading(true);
+    try {
+      // Current price and stock for this product and its variants
+      const snapshots = await fetchLineSnapshots([productId]);
+      const product = snapshots.get(lineKey(productId, variantId));
       
       if (!product) {
+        const needsVariant = !variantId && [...snapshots.keys()].some(key => key.startsWith(`${productId}:`));
         toast({
-          title: "Product not found",
-          description: "The product you're trying to add to cart doesn't exist.",
+          title: needsVariant ? "Choose options" : "Product not found",
+          description: needsVariant
+            ? "Please choose options for this product on its page before adding it to your cart."
+            : "The product you're trying to add to cart doesn't exist.",
           variant: "destructive",
         });
         return;
@@ -94,20 +377,25 @@ export function CartProvider({ children }: { children: React.ReactNode }) {
       }
       
       // Check if product already in cart
-      const existingItem = cartItems.find(item => item.product_id === productId);
+      const existingItem = cartItems.find(item => isLine(item, productId, variantId));
+      // Units actually added once the quantity is capped at the stock
+      let added: number;
       
       if (existingItem) {
         // Ensure we don't exceed available stock
         const newQuantity = Math.min(existingItem.quantity + quantity, product.stock);
+        added = newQuantity - existingItem.quantity;
         
         setCartItems(prevItems => 
           prevItems.map(item => 
-            item.product_id === productId 
+            isLine(item, productId, variantId) 
               ? { ...item, quantity: newQuantity } 
               : item
           )
         );
         
+        persistLine(productId, variantId, newQuantity);
+        
         if (newQuantity === product.stock) {
           toast({
             title: "Maximum stock reached",
@@ -118,7 +406,9 @@ export function CartProvider({ children }: { children: React.ReactNode }) {
         // Add new item to cart
         const newItem: CartItem = {
           id: `cart-${Date.now()}`,
-          product_id: product.id,
+          product_id: productId,
+          variant_id: variantId,
+          variant_name: product.variant_name,
           quantity: Math.min(quantity, product.stock),
           name: product.name,
           price: product.price,
@@ -127,8 +417,11 @@ export function CartProvider({ children }: { children: React.ReactNode }) {
         };
         
         setCartItems(prevItems => [...prevItems, newItem]);
+        persistLine(productId, variantId, newItem.quantity);
+        added = newItem.quantity;
       }
       
+      if (added > 0) recordAddToCart(productId, added, variantId);
     } catch (error) {
       console.error('Error adding to cart:', error);
       toast({
@@ -141,27 +434,34 @@ export function CartProvider({ children }: { children: React.ReactNode }) {
     }
   };
 
-  const removeFromCart = (productId: string) => {
-    setCartItems(prevItems => prevItems.filter(item => item.product_id !== productId));
+  const removeFromCart = (productId: string, variantId: string | null = null) => {
+    setCartItems(prevItems => prevItems.filter(item => !isLine(item, productId, variantId)));
+    persistLine(productId, variantId, 0);
     toast({
       title: "Item removed",
       description: "Item has been removed from your cart.",
     });
   };
 
-  const updateQuantity = async (productId: string, quantity: number) => {
+  const updateQuantity = async (productId: string, quantity: number, variantId: string | null = null) => {
     if (quantity <= 0) {
-      removeFromCart(productId);
+      removeFromCart(productId, variantId);
       return;
     }
     
     try {
-      // Check product stock before updating
-      const { data: product, error } = await supabase
-        .from('products')
-        .select('stock')
-        .eq('id', productId)
-        .single();
+      // Check stock before updating
+      const { data: product, error } = variantId
+        ? await supabase
+            .from('product_variants')
+            .select('stock')
+            .eq('id', variantId)
+            .maybeSingle()
+        : await supabase
+            .from('products')
+            .select('stock')
+            .eq('id', productId)
+            .maybeSingle();
       
       if (error) throw error;
       
@@ -171,7 +471,7 @@ export function CartProvider({ children }: { children: React.ReactNode }) {
           description: "The product you're trying to update doesn't exist anymore.",
           variant: "destructive",
         });
-        removeFromCart(productId);
+        removeFromCart(productId, variantId);
         return;
       }
       
@@ -180,11 +480,12 @@ export function CartProvider({ children }: { children: React.ReactNode }) {
       
       setCartItems(prevItems => 
         prevItems.map(item => 
-          item.product_id === productId 
+          isLine(item, productId, variantId) 
             ? { ...item, quantity: safeQuantity } 
             : item
         )
       );
+      persistLine(productId, variantId, safeQuantity);
       
       if (safeQuantity !== quantity) {
         toast({
@@ -204,13 +505,167 @@ export function CartProvider({ children }: { children: React.ReactNode }) {
 
   const clearCart = () => {
     setCartItems([]);
+    setAppliedPromotion(null);
     localStorage.removeItem('cart');
+    if (cartId) {
+      supabase
+        .from('cart_items')
+        .delete()
+        .eq('cart_id', cartId)
+        .then(({ error }) => {
+          if (error) console.error('Error clearing stored cart:', error);
+        });
+    }
     toast({
       title: "Cart cleared",
       description: "All items have been removed from your cart.",
     });
   };
 
+  // Check every line against current products and variants. Differences are kept in
+  // cartChanges until the customer acknowledges them.
+  const revalidateCart = async (): Promise<CartChange[]> => {
+    if (cartItems.length === 0) {
+      setCartChanges([]);
+      return [];
+    }
+
+    setIsRevalidating(true);
+    try {
+      const snapshots = await fetchLineSnapshots(cartItems.map(item => item.product_id));
+
+      const changes = diffCart(cartItems, snapshots);
+      setLatestSnapshots(snapshots);
+      setCartChanges(changes);
+      return changes;
+    } catch (error) {
+      console.error('Error revalidating cart:', error);
+      toast({
+        title: "Error",
+        description: "We couldn't check your cart against current prices and stock.",
+        variant: "destructive",
+      });
+      throw error;
+    } finally {
+      setIsRevalidating(false);
+    }
+  };
+
+  // Apply the pending changes: refresh prices, cap quantities and drop lines
+  // that can no longer be bought
+  const acknowledgeCartChanges = () => {
+    const updatedItems: CartItem[] = [];
+
+    for (const item of cartItems) {
+      const product = latestSnapshots.get(lineKey(item.product_id, item.variant_id));
+
+      if (!product || product.stock <= 0) {
+        persistLine(item.product_id, item.variant_id, 0);
+        continue;
+      }
+
+      const quantity = Math.min(item.quantity, product.stock);
+      if (quantity !== item.quantity) {
+        persistLine(item.product_id, item.variant_id, quantity);
+      }
+
+      updatedItems.push({
+        ...item,
+        quantity,
+        name: product.name,
+        variant_name: product.variant_name,
+        price: product.price,
+        discounted_price: product.discounted_price,
+        image_url: product.image_url,
+      });
+    }
+
+    setCartItems(updatedItems);
+    setCartChanges([]);
+  };
+
+  // Ask the checkout function what a code is worth for the current lines
+  const validatePromotion = async (code: string, items: CartItem[]): Promise<AppliedPromotion> => {
+    const { data, error } = await supabase.functions.invoke('checkout_functions', {
+      body: {
+        action: 'validate_promotion',
+        code,
+        items: items.map(item => ({
+          product_id: item.product_id,
+          variant_id: item.variant_id,
+          quantity: item.quantity,
+        })),
+      },
+    });
+
+    if (error) throw new Error(await readFunctionError(error));
+
+    return {
+      ...data.promotion,
+      discount: data.discount,
+      shipping_discount: data.shipping_discount,
+    };
+  };
+
+  const applyPromotion = async (code: string): Promise<boolean> => {
+    const trimmedCode = code.trim().toUpperCase();
+    if (!trimmedCode || cartItems.length === 0) return false;
+
+    setIsApplyingPromotion(true);
+    try {
+      const promotion = await validatePromotion(trimmedCode, cartItems);
+      setAppliedPromotion(promotion);
+      toast({
+        title: "Promotion applied",
+        description: promotion.name,
+      });
+      return true;
+    } catch (error) {
+      toast({
+        title: "Promotion not applied",
+        description: error instanceof Error ? error.message : "This promotion code could not be applied.",
+        variant: "destructive",
+      });
+      return false;
+    } finally {
+      setIsApplyingPromotion(false);
+    }
+  };
+
+  const removePromotion = () => {
+    setAppliedPromotion(null);
+  };
+
+  // Re-price the applied promotion whenever the cart lines change
+  const appliedCode = appliedPromotion?.code;
+  useEffect(() => {
+    if (!appliedCode) return;
+
+    if (cartItems.length === 0) {
+      setAppliedPromotion(null);
+      return;
+    }
+
+    let cancelled = false;
+    validatePromotion(appliedCode, cartItems)
+      .then(promotion => {
+        if (!cancelled) setAppliedPromotion(promotion);
+      })
+      .catch(error => {
+        if (cancelled) return;
+        setAppliedPromotion(null);
+        toast({
+          title: "Promotion removed",
+          description: error instanceof Error ? error.message : "Your promotion no longer applies to this cart.",
+          variant: "destructive",
+        });
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [cartItems, appliedCode, toast]);
+
   return (
     <CartContext.Provider value={{
       cartItems,
@@ -219,7 +674,15 @@ export function CartProvider({ children }: { children: React.ReactNode }) {
       removeFromCart,
       updateQuantity,
       clearCart,
-      isLoading
+      isLoading,
+      cartChanges,
+      isRevalidating,
+      revalidateCart,
+      acknowledgeCartChanges,
+      appliedPromotion,
+      isApplyingPromotion,
+      applyPromotion,
+      removePromotion
     }}>
       {children}
     </CartContext.Provider>
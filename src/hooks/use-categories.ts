@@ -0,0 +1,22 @@
+import { useQuery } from "@tanstack/react-query"
+import { supabase } from "@/integrations/supabase/client"
+import type { Category } from "@/lib/categories"
+
+// Every category, cached for the session; see src/lib/categories.ts for
+// building trees and breadcrumbs from the list
+export function useCategories() {
+  return useQuery({
+    queryKey: ["categories"],
+    queryFn: async (): Promise<Category[]> => {
+      const { data, error } = await supabase
+        .from("categories")
+        .select("id, name, slug, parent_id, description, image_url, sort_order")
+        .order("sort_order")
+        .order("name")
+
+      if (error) throw error
+      return data || []
+    },
+    staleTime: 5 * 60 * 1000,
+  })
+}
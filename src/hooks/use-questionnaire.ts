@@ -0,0 +1,31 @@
+import { useQuery } from "@tanstack/react-query"
+import { supabase } from "@/integrations/supabase/client"
+import type { ApplicationRole } from "@/lib/applications"
+import type { Question, Questionnaire } from "@/lib/questionnaires"
+
+// The current (latest) questionnaire version for a role, or null when none
+// has been published
+export function useQuestionnaire(role: ApplicationRole | null) {
+  return useQuery({
+    queryKey: ["questionnaire", role],
+    queryFn: async (): Promise<Questionnaire | null> => {
+      const { data, error } = await supabase
+        .from("application_questionnaires")
+        .select("id, role, version, questions, created_at")
+        .eq("role", role)
+        .order("version", { ascending: false })
+        .limit(1)
+        .maybeSingle()
+
+      if (error) throw error
+      if (!data) return null
+
+      return {
+        ...data,
+        role: data.role as ApplicationRole,
+        questions: data.questions as unknown as Question[],
+      }
+    },
+    enabled: !!role,
+  })
+}
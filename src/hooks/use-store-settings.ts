@@ -0,0 +1,21 @@
+import { useQuery } from "@tanstack/react-query"
+import { supabase } from "@/integrations/supabase/client"
+import type { StoreSettings } from "@/lib/settings"
+
+// The single store_settings row. Readable without signing in, since the
+// maintenance gate and sign-up depend on it.
+export function useStoreSettings() {
+  return useQuery({
+    queryKey: ["storeSettings"],
+    queryFn: async (): Promise<StoreSettings> => {
+      const { data, error } = await supabase
+        .from("store_settings")
+        .select("*")
+        .single()
+
+      if (error) throw error
+      return data
+    },
+    staleTime: 60 * 1000,
+  })
+}
@@ -9,6 +9,151 @@ export type Json =
 export type Database = {
   public: {
     Tables: {
+      application_questionnaires: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          id: string
+          questions: Json
+          role: Database["public"]["Enums"]["user_role"]
+          version: number
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          questions: Json
+          role: Database["public"]["Enums"]["user_role"]
+          version: number
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          questions?: Json
+          role?: Database["public"]["Enums"]["user_role"]
+          version?: number
+        }
+        Relationships: []
+      }
+      cart_events: {
+        Row: {
+          created_at: string
+          id: string
+          product_id: string
+          quantity: number
+          session_id: string
+          user_id: string | null
+          variant_id: string | null
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          product_id: string
+          quantity: number
+          session_id: string
+          user_id?: string | null
+          variant_id?: string | null
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          product_id?: string
+          quantity?: number
+          session_id?: string
+          user_id?: string | null
+          variant_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "cart_events_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "cart_events_variant_id_fkey"
+            columns: ["variant_id"]
+            isOneToOne: false
+            referencedRelation: "product_variants"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      cart_items: {
+        Row: {
+          cart_id: string
+          created_at: string
+          id: string
+          product_id: string
+          quantity: number
+          updated_at: string
+          variant_id: string | null
+        }
+        Insert: {
+          cart_id: string
+          created_at?: string
+          id?: string
+          product_id: string
+          quantity: number
+          updated_at?: string
+          variant_id?: string | null
+        }
+        Update: {
+          cart_id?: string
+          created_at?: string
+          id?: string
+          product_id?: string
+          quantity?: number
+          updated_at?: string
+          variant_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "cart_items_cart_id_fkey"
+            columns: ["cart_id"]
+            isOneToOne: false
+            referencedRelation: "carts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "cart_items_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "cart_items_variant_id_fkey"
+            columns: ["variant_id"]
+            isOneToOne: false
+            referencedRelation: "product_variants"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      carts: {
+        Row: {
+          created_at: string
+          id: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       categories: {
         Row: {
           created_at: string
@@ -16,6 +161,9 @@ export type Database = {
           id: string
           image_url: string | null
           name: string
+          parent_id: string | null
+          slug: string
+          sort_order: number
           updated_at: string
         }
         Insert: {
@@ -24,6 +172,9 @@ export type Database = {
           id?: string
           image_url?: string | null
           name: string
+          parent_id?: string | null
+          slug: string
+          sort_order?: number
           updated_at?: string
         }
         Update: {
@@ -32,15 +183,27 @@ export type Database = {
           id?: string
           image_url?: string | null
           name?: string
+          parent_id?: string | null
+          slug?: string
+          sort_order?: number
           updated_at?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "categories_parent_id_fkey"
+            columns: ["parent_id"]
+            isOneToOne: false
+            referencedRelation: "categories"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       delivery_assignments: {
         Row: {
           assigned_at: string | null
           delivered_at: string | null
           delivery_person_id: string
+          fulfilment_id: string | null
           id: string
           notes: string | null
           order_id: string
@@ -50,6 +213,7 @@ export type Database = {
           assigned_at?: string | null
           delivered_at?: string | null
           delivery_person_id: string
+          fulfilment_id?: string | null
           id?: string
           notes?: string | null
           order_id: string
@@ -59,16 +223,24 @@ export type Database = {
           assigned_at?: string | null
           delivered_at?: string | null
           delivery_person_id?: string
+          fulfilment_id?: string | null
           id?: string
           notes?: string | null
           order_id?: string
           status?: string
         }
         Relationships: [
+          {
+            foreignKeyName: "delivery_assignments_fulfilment_id_fkey"
+            columns: ["fulfilment_id"]
+            isOneToOne: true
+            referencedRelation: "order_fulfilments"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "delivery_assignments_order_id_fkey"
             columns: ["order_id"]
-            isOneToOne: true
+            isOneToOne: false
             referencedRelation: "orders"
             referencedColumns: ["id"]
           },
@@ -104,32 +276,192 @@ export type Database = {
         }
         Relationships: []
       }
+      notifications: {
+        Row: {
+          body: string | null
+          created_at: string
+          id: string
+          link: string | null
+          product_id: string | null
+          read_at: string | null
+          title: string
+          type: string
+          user_id: string
+        }
+        Insert: {
+          body?: string | null
+          created_at?: string
+          id?: string
+          link?: string | null
+          product_id?: string | null
+          read_at?: string | null
+          title: string
+          type: string
+          user_id: string
+        }
+        Update: {
+          body?: string | null
+          created_at?: string
+          id?: string
+          link?: string | null
+          product_id?: string | null
+          read_at?: string | null
+          title?: string
+          type?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "notifications_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      order_events: {
+        Row: {
+          actor_id: string | null
+          created_at: string
+          field: string
+          from_status: string | null
+          id: string
+          note: string | null
+          order_id: string
+          to_status: string
+        }
+        Insert: {
+          actor_id?: string | null
+          created_at?: string
+          field: string
+          from_status?: string | null
+          id?: string
+          note?: string | null
+          order_id: string
+          to_status: string
+        }
+        Update: {
+          actor_id?: string | null
+          created_at?: string
+          field?: string
+          from_status?: string | null
+          id?: string
+          note?: string | null
+          order_id?: string
+          to_status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "order_events_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      order_fulfilments: {
+        Row: {
+          carrier: string | null
+          created_at: string
+          delivered_at: string | null
+          delivery_status: string
+          id: string
+          order_id: string
+          packed_at: string | null
+          seller_id: string | null
+          shipped_at: string | null
+          status: string
+          tracking_number: string | null
+          updated_at: string
+        }
+        Insert: {
+          carrier?: string | null
+          created_at?: string
+          delivered_at?: string | null
+          delivery_status?: string
+          id?: string
+          order_id: string
+          packed_at?: string | null
+          seller_id?: string | null
+          shipped_at?: string | null
+          status?: string
+          tracking_number?: string | null
+          updated_at?: string
+        }
+        Update: {
+          carrier?: string | null
+          created_at?: string
+          delivered_at?: string | null
+          delivery_status?: string
+          id?: string
+          order_id?: string
+          packed_at?: string | null
+          seller_id?: string | null
+          shipped_at?: string | null
+          status?: string
+          tracking_number?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "order_fulfilments_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       order_items: {
         Row: {
           created_at: string
+          fulfilment_id: string | null
           id: string
           order_id: string
           price: number
           product_id: string
           quantity: number
+          seller_id: string | null
+          sku: string | null
+          variant_id: string | null
+          variant_name: string | null
         }
         Insert: {
           created_at?: string
+          fulfilment_id?: string | null
           id?: string
           order_id: string
           price: number
           product_id: string
           quantity: number
+          seller_id?: string | null
+          sku?: string | null
+          variant_id?: string | null
+          variant_name?: string | null
         }
         Update: {
           created_at?: string
+          fulfilment_id?: string | null
           id?: string
           order_id?: string
           price?: number
           product_id?: string
           quantity?: number
+          seller_id?: string | null
+          sku?: string | null
+          variant_id?: string | null
+          variant_name?: string | null
         }
         Relationships: [
+          {
+            foreignKeyName: "order_items_fulfilment_id_fkey"
+            columns: ["fulfilment_id"]
+            isOneToOne: false
+            referencedRelation: "order_fulfilments"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "order_items_order_id_fkey"
             columns: ["order_id"]
@@ -144,20 +476,33 @@ export type Database = {
             referencedRelation: "products"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "order_items_variant_id_fkey"
+            columns: ["variant_id"]
+            isOneToOne: false
+            referencedRelation: "product_variants"
+            referencedColumns: ["id"]
+          },
         ]
       }
       orders: {
         Row: {
           created_at: string
           delivery_status: string | null
+          discount_total: number
           id: string
+          paid_at: string | null
           payment_method: string | null
+          promotion_code: string | null
           shipping_address: string
           shipping_city: string
           shipping_country: string
           shipping_postal_code: string
           shipping_state: string
+          shipping_total: number
           status: string
+          stock_restored_at: string | null
+          subtotal: number | null
           total: number
           tracking_number: string | null
           updated_at: string
@@ -166,14 +511,20 @@ export type Database = {
         Insert: {
           created_at?: string
           delivery_status?: string | null
+          discount_total?: number
           id?: string
+          paid_at?: string | null
           payment_method?: string | null
+          promotion_code?: string | null
           shipping_address: string
           shipping_city: string
           shipping_country: string
           shipping_postal_code: string
           shipping_state: string
+          shipping_total?: number
           status?: string
+          stock_restored_at?: string | null
+          subtotal?: number | null
           total: number
           tracking_number?: string | null
           updated_at?: string
@@ -182,14 +533,20 @@ export type Database = {
         Update: {
           created_at?: string
           delivery_status?: string | null
+          discount_total?: number
           id?: string
+          paid_at?: string | null
           payment_method?: string | null
+          promotion_code?: string | null
           shipping_address?: string
           shipping_city?: string
           shipping_country?: string
           shipping_postal_code?: string
           shipping_state?: string
+          shipping_total?: number
           status?: string
+          stock_restored_at?: string | null
+          subtotal?: number | null
           total?: number
           tracking_number?: string | null
           updated_at?: string
@@ -197,140 +554,1003 @@ export type Database = {
         }
         Relationships: []
       }
-      products: {
+      payment_refunds: {
         Row: {
-          category: string
+          amount: number
           created_at: string
-          description: string | null
-          discounted_price: number | null
+          created_by: string | null
+          failure_reason: string | null
           id: string
-          image_url: string | null
-          name: string
-          price: number
-          rating: number | null
-          reviews_count: number | null
-          seller_id: string | null
-          stock: number
-          updated_at: string
+          payment_id: string
+          provider_refund_id: string | null
+          reason: string | null
+          status: string
         }
         Insert: {
-          category: string
+          amount: number
           created_at?: string
-          description?: string | null
-          discounted_price?: number | null
+          created_by?: string | null
+          failure_reason?: string | null
           id?: string
-          image_url?: string | null
-          name: string
-          price: number
-          rating?: number | null
-          reviews_count?: number | null
-          seller_id?: string | null
-          stock?: number
-          updated_at?: string
+          payment_id: string
+          provider_refund_id?: string | null
+          reason?: string | null
+          status?: string
         }
         Update: {
-          category?: string
+          amount?: number
           created_at?: string
-          description?: string | null
-          discounted_price?: number | null
+          created_by?: string | null
+          failure_reason?: string | null
           id?: string
-          image_url?: string | null
-          name?: string
-          price?: number
-          rating?: number | null
-          reviews_count?: number | null
-          seller_id?: string | null
-          stock?: number
-          updated_at?: string
+          payment_id?: string
+          provider_refund_id?: string | null
+          reason?: string | null
+          status?: string
         }
-        Relationships: []
-      }
+        Relationships: [
+          {
+            foreignKeyName: "payment_refunds_payment_id_fkey"
+            columns: ["payment_id"]
+            isOneToOne: false
+            referencedRelation: "payments"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      payment_webhook_events: {
+        Row: {
+          created_at: string
+          event_id: string
+          id: string
+          payload: Json
+          processed_at: string | null
+          provider: string
+          type: string
+        }
+        Insert: {
+          created_at?: string
+          event_id: string
+          id?: string
+          payload: Json
+          processed_at?: string | null
+          provider: string
+          type: string
+        }
+        Update: {
+          created_at?: string
+          event_id?: string
+          id?: string
+          payload?: Json
+          processed_at?: string | null
+          provider?: string
+          type?: string
+        }
+        Relationships: []
+      }
+      payments: {
+        Row: {
+          amount: number
+          amount_refunded: number
+          authorized_at: string | null
+          captured_at: string | null
+          created_at: string
+          currency: string
+          failure_reason: string | null
+          id: string
+          method: string
+          order_id: string
+          provider: string
+          provider_payment_id: string | null
+          status: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          amount: number
+          amount_refunded?: number
+          authorized_at?: string | null
+          captured_at?: string | null
+          created_at?: string
+          currency?: string
+          failure_reason?: string | null
+          id?: string
+          method: string
+          order_id: string
+          provider: string
+          provider_payment_id?: string | null
+          status?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          amount?: number
+          amount_refunded?: number
+          authorized_at?: string | null
+          captured_at?: string | null
+          created_at?: string
+          currency?: string
+          failure_reason?: string | null
+          id?: string
+          method?: string
+          order_id?: string
+          provider?: string
+          provider_payment_id?: string | null
+          status?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "payments_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      product_images: {
+        Row: {
+          alt_text: string
+          created_at: string
+          height: number | null
+          id: string
+          path: string | null
+          position: number
+          product_id: string
+          thumbnail_path: string | null
+          thumbnail_url: string
+          url: string
+          width: number | null
+        }
+        Insert: {
+          alt_text?: string
+          created_at?: string
+          height?: number | null
+          id?: string
+          path?: string | null
+          position?: number
+          product_id: string
+          thumbnail_path?: string | null
+          thumbnail_url: string
+          url: string
+          width?: number | null
+        }
+        Update: {
+          alt_text?: string
+          created_at?: string
+          height?: number | null
+          id?: string
+          path?: string | null
+          position?: number
+          product_id?: string
+          thumbnail_path?: string | null
+          thumbnail_url?: string
+          url?: string
+          width?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "product_images_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      product_options: {
+        Row: {
+          created_at: string
+          id: string
+          name: string
+          position: number
+          product_id: string
+          values: string[]
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          name: string
+          position?: number
+          product_id: string
+          values?: string[]
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          name?: string
+          position?: number
+          product_id?: string
+          values?: string[]
+        }
+        Relationships: [
+          {
+            foreignKeyName: "product_options_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      product_recommendations: {
+        Row: {
+          computed_at: string
+          kind: string
+          product_id: string
+          recommended_product_id: string
+          score: number
+        }
+        Insert: {
+          computed_at?: string
+          kind: string
+          product_id: string
+          recommended_product_id: string
+          score: number
+        }
+        Update: {
+          computed_at?: string
+          kind?: string
+          product_id?: string
+          recommended_product_id?: string
+          score?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "product_recommendations_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "product_recommendations_recommended_product_id_fkey"
+            columns: ["recommended_product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      product_variants: {
+        Row: {
+          created_at: string
+          discounted_price: number | null
+          id: string
+          image_url: string | null
+          name: string
+          options: Json
+          position: number
+          price: number
+          product_id: string
+          sku: string | null
+          stock: number
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          discounted_price?: number | null
+          id?: string
+          image_url?: string | null
+          name?: string
+          options?: Json
+          position?: number
+          price: number
+          product_id: string
+          sku?: string | null
+          stock?: number
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          discounted_price?: number | null
+          id?: string
+          image_url?: string | null
+          name?: string
+          options?: Json
+          position?: number
+          price?: number
+          product_id?: string
+          sku?: string | null
+          stock?: number
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "product_variants_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      product_views: {
+        Row: {
+          id: string
+          product_id: string
+          session_id: string
+          user_id: string | null
+          viewed_at: string
+        }
+        Insert: {
+          id?: string
+          product_id: string
+          session_id: string
+          user_id?: string | null
+          viewed_at?: string
+        }
+        Update: {
+          id?: string
+          product_id?: string
+          session_id?: string
+          user_id?: string | null
+          viewed_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "product_views_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      products: {
+        Row: {
+          category: string
+          category_id: string | null
+          created_at: string
+          description: string | null
+          discounted_price: number | null
+          id: string
+          image_url: string | null
+          name: string
+          price: number
+          rating: number | null
+          reviews_count: number | null
+          search_vector: unknown | null
+          seller_id: string | null
+          sku: string | null
+          stock: number
+          updated_at: string
+        }
+        Insert: {
+          category: string
+          category_id?: string | null
+          created_at?: string
+          description?: string | null
+          discounted_price?: number | null
+          id?: string
+          image_url?: string | null
+          name: string
+          price: number
+          rating?: number | null
+          reviews_count?: number | null
+          search_vector?: never
+          seller_id?: string | null
+          sku?: string | null
+          stock?: number
+          updated_at?: string
+        }
+        Update: {
+          category?: string
+          category_id?: string | null
+          created_at?: string
+          description?: string | null
+          discounted_price?: number | null
+          id?: string
+          image_url?: string | null
+          name?: string
+          price?: number
+          rating?: number | null
+          reviews_count?: number | null
+          search_vector?: never
+          seller_id?: string | null
+          sku?: string | null
+          stock?: number
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "products_category_id_fkey"
+            columns: ["category_id"]
+            isOneToOne: false
+            referencedRelation: "categories"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       profiles: {
         Row: {
-          address: string | null
-          avatar_url: string | null
-          city: string | null
-          country: string | null
+          address: string | null
+          avatar_url: string | null
+          city: string | null
+          country: string | null
+          created_at: string
+          first_name: string | null
+          id: string
+          last_name: string | null
+          phone: string | null
+          postal_code: string | null
+          question_responses: Json | null
+          state: string | null
+          updated_at: string
+        }
+        Insert: {
+          address?: string | null
+          avatar_url?: string | null
+          city?: string | null
+          country?: string | null
+          created_at?: string
+          first_name?: string | null
+          id: string
+          last_name?: string | null
+          phone?: string | null
+          postal_code?: string | null
+          question_responses?: Json | null
+          state?: string | null
+          updated_at?: string
+        }
+        Update: {
+          address?: string | null
+          avatar_url?: string | null
+          city?: string | null
+          country?: string | null
+          created_at?: string
+          first_name?: string | null
+          id?: string
+          last_name?: string | null
+          phone?: string | null
+          postal_code?: string | null
+          question_responses?: Json | null
+          state?: string | null
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      promotion_redemptions: {
+        Row: {
+          created_at: string
+          discount_amount: number
+          id: string
+          order_id: string
+          promotion_id: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          discount_amount: number
+          id?: string
+          order_id: string
+          promotion_id: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          discount_amount?: number
+          id?: string
+          order_id?: string
+          promotion_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "promotion_redemptions_promotion_id_fkey"
+            columns: ["promotion_id"]
+            isOneToOne: false
+            referencedRelation: "promotions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "promotion_redemptions_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      promotions: {
+        Row: {
+          active: boolean
+          buy_quantity: number | null
+          category: string | null
+          code: string
+          created_at: string
+          description: string | null
+          expires_at: string | null
+          get_quantity: number | null
+          id: string
+          min_subtotal: number
+          name: string
+          per_user_limit: number | null
+          seller_id: string | null
+          starts_at: string | null
+          type: string
+          updated_at: string
+          usage_count: number
+          usage_limit: number | null
+          value: number
+        }
+        Insert: {
+          active?: boolean
+          buy_quantity?: number | null
+          category?: string | null
+          code: string
+          created_at?: string
+          description?: string | null
+          expires_at?: string | null
+          get_quantity?: number | null
+          id?: string
+          min_subtotal?: number
+          name: string
+          per_user_limit?: number | null
+          seller_id?: string | null
+          starts_at?: string | null
+          type: string
+          updated_at?: string
+          usage_count?: number
+          usage_limit?: number | null
+          value?: number
+        }
+        Update: {
+          active?: boolean
+          buy_quantity?: number | null
+          category?: string | null
+          code?: string
+          created_at?: string
+          description?: string | null
+          expires_at?: string | null
+          get_quantity?: number | null
+          id?: string
+          min_subtotal?: number
+          name?: string
+          per_user_limit?: number | null
+          seller_id?: string | null
+          starts_at?: string | null
+          type?: string
+          updated_at?: string
+          usage_count?: number
+          usage_limit?: number | null
+          value?: number
+        }
+        Relationships: []
+      }
+      return_requests: {
+        Row: {
+          created_at: string
+          details: string | null
+          id: string
+          order_id: string
+          order_item_id: string
+          payment_refund_id: string | null
+          photo_paths: string[]
+          picked_up_at: string | null
+          pickup_assigned_at: string | null
+          pickup_person_id: string | null
+          pickup_status: string | null
+          quantity: number
+          reason: string
+          refund_amount: number | null
+          refund_error: string | null
+          restocked_at: string | null
+          reviewed_at: string | null
+          reviewed_by: string | null
+          seller_id: string | null
+          seller_note: string | null
+          status: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          details?: string | null
+          id?: string
+          order_id: string
+          order_item_id: string
+          payment_refund_id?: string | null
+          photo_paths?: string[]
+          picked_up_at?: string | null
+          pickup_assigned_at?: string | null
+          pickup_person_id?: string | null
+          pickup_status?: string | null
+          quantity: number
+          reason: string
+          refund_amount?: number | null
+          refund_error?: string | null
+          restocked_at?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          seller_id?: string | null
+          seller_note?: string | null
+          status?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          details?: string | null
+          id?: string
+          order_id?: string
+          order_item_id?: string
+          payment_refund_id?: string | null
+          photo_paths?: string[]
+          picked_up_at?: string | null
+          pickup_assigned_at?: string | null
+          pickup_person_id?: string | null
+          pickup_status?: string | null
+          quantity?: number
+          reason?: string
+          refund_amount?: number | null
+          refund_error?: string | null
+          restocked_at?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          seller_id?: string | null
+          seller_note?: string | null
+          status?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "return_requests_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "return_requests_order_item_id_fkey"
+            columns: ["order_item_id"]
+            isOneToOne: false
+            referencedRelation: "order_items"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "return_requests_payment_refund_id_fkey"
+            columns: ["payment_refund_id"]
+            isOneToOne: false
+            referencedRelation: "payment_refunds"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      review_flags: {
+        Row: {
+          created_at: string
+          id: string
+          reason: string
+          resolution: string | null
+          resolved_at: string | null
+          resolved_by: string | null
+          review_id: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          reason: string
+          resolution?: string | null
+          resolved_at?: string | null
+          resolved_by?: string | null
+          review_id: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          reason?: string
+          resolution?: string | null
+          resolved_at?: string | null
+          resolved_by?: string | null
+          review_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "review_flags_review_id_fkey"
+            columns: ["review_id"]
+            isOneToOne: false
+            referencedRelation: "reviews"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      review_votes: {
+        Row: {
+          created_at: string
+          review_id: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          review_id: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          review_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "review_votes_review_id_fkey"
+            columns: ["review_id"]
+            isOneToOne: false
+            referencedRelation: "reviews"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      reviews: {
+        Row: {
+          comment: string | null
+          created_at: string
+          flag_count: number
+          helpful_count: number
+          id: string
+          order_item_id: string | null
+          product_id: string
+          rating: number
+          seller_replied_at: string | null
+          seller_reply: string | null
+          status: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          comment?: string | null
+          created_at?: string
+          flag_count?: number
+          helpful_count?: number
+          id?: string
+          order_item_id?: string | null
+          product_id: string
+          rating: number
+          seller_replied_at?: string | null
+          seller_reply?: string | null
+          status?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          comment?: string | null
+          created_at?: string
+          flag_count?: number
+          helpful_count?: number
+          id?: string
+          order_item_id?: string | null
+          product_id?: string
+          rating?: number
+          seller_replied_at?: string | null
+          seller_reply?: string | null
+          status?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "reviews_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "reviews_order_item_id_fkey"
+            columns: ["order_item_id"]
+            isOneToOne: false
+            referencedRelation: "order_items"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      role_applications: {
+        Row: {
+          created_at: string
+          id: string
+          question_responses: Json
+          questionnaire_id: string | null
+          rejection_reason: string | null
+          reviewed_at: string | null
+          reviewed_by: string | null
+          role: Database["public"]["Enums"]["user_role"]
+          status: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          question_responses?: Json
+          questionnaire_id?: string | null
+          rejection_reason?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          role: Database["public"]["Enums"]["user_role"]
+          status?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          question_responses?: Json
+          questionnaire_id?: string | null
+          rejection_reason?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          role?: Database["public"]["Enums"]["user_role"]
+          status?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "role_applications_questionnaire_id_fkey"
+            columns: ["questionnaire_id"]
+            isOneToOne: false
+            referencedRelation: "application_questionnaires"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      search_queries: {
+        Row: {
           created_at: string
-          first_name: string | null
           id: string
-          last_name: string | null
-          phone: string | null
-          postal_code: string | null
-          question_responses: Json | null
-          state: string | null
-          updated_at: string
+          normalized_query: string
+          query: string
+          result_count: number
+          user_id: string | null
         }
         Insert: {
-          address?: string | null
-          avatar_url?: string | null
-          city?: string | null
-          country?: string | null
           created_at?: string
-          first_name?: string | null
-          id: string
-          last_name?: string | null
-          phone?: string | null
-          postal_code?: string | null
-          question_responses?: Json | null
-          state?: string | null
-          updated_at?: string
+          id?: string
+          normalized_query: string
+          query: string
+          result_count: number
+          user_id?: string | null
         }
         Update: {
-          address?: string | null
-          avatar_url?: string | null
-          city?: string | null
-          country?: string | null
           created_at?: string
-          first_name?: string | null
           id?: string
-          last_name?: string | null
-          phone?: string | null
-          postal_code?: string | null
-          question_responses?: Json | null
-          state?: string | null
-          updated_at?: string
+          normalized_query?: string
+          query?: string
+          result_count?: number
+          user_id?: string | null
         }
         Relationships: []
       }
-      reviews: {
+      stock_reservations: {
         Row: {
-          comment: string | null
           created_at: string
+          expires_at: string
           id: string
+          order_id: string | null
           product_id: string
-          rating: number
-          updated_at: string
+          quantity: number
           user_id: string
+          variant_id: string | null
         }
         Insert: {
-          comment?: string | null
           created_at?: string
+          expires_at: string
           id?: string
+          order_id?: string | null
           product_id: string
-          rating: number
-          updated_at?: string
+          quantity: number
           user_id: string
+          variant_id?: string | null
         }
         Update: {
-          comment?: string | null
           created_at?: string
+          expires_at?: string
           id?: string
+          order_id?: string | null
           product_id?: string
-          rating?: number
-          updated_at?: string
+          quantity?: number
           user_id?: string
+          variant_id?: string | null
         }
         Relationships: [
           {
-            foreignKeyName: "reviews_product_id_fkey"
+            foreignKeyName: "stock_reservations_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stock_reservations_product_id_fkey"
             columns: ["product_id"]
             isOneToOne: false
             referencedRelation: "products"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "stock_reservations_variant_id_fkey"
+            columns: ["variant_id"]
+            isOneToOne: false
+            referencedRelation: "product_variants"
+            referencedColumns: ["id"]
+          },
         ]
       }
+      store_settings: {
+        Row: {
+          address: string
+          contact_email: string
+          enable_delivery_applications: boolean
+          enable_seller_applications: boolean
+          id: boolean
+          maintenance_mode: boolean
+          privacy_policy: string
+          return_policy: string
+          shipping_policy: string
+          store_name: string
+          support_phone: string
+          terms_conditions: string
+          updated_at: string
+          updated_by: string | null
+        }
+        Insert: {
+          address?: string
+          contact_email?: string
+          enable_delivery_applications?: boolean
+          enable_seller_applications?: boolean
+          id?: boolean
+          maintenance_mode?: boolean
+          privacy_policy?: string
+          return_policy?: string
+          shipping_policy?: string
+          store_name?: string
+          support_phone?: string
+          terms_conditions?: string
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Update: {
+          address?: string
+          contact_email?: string
+          enable_delivery_applications?: boolean
+          enable_seller_applications?: boolean
+          id?: boolean
+          maintenance_mode?: boolean
+          privacy_policy?: string
+          return_policy?: string
+          shipping_policy?: string
+          store_name?: string
+          support_phone?: string
+          terms_conditions?: string
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Relationships: []
+      }
+      store_settings_history: {
+        Row: {
+          changed_at: string
+          changed_by: string | null
+          changes: Json
+          id: string
+        }
+        Insert: {
+          changed_at?: string
+          changed_by?: string | null
+          changes: Json
+          id?: string
+        }
+        Update: {
+          changed_at?: string
+          changed_by?: string | null
+          changes?: Json
+          id?: string
+        }
+        Relationships: []
+      }
       user_roles: {
         Row: {
           created_at: string
@@ -352,22 +1572,64 @@ export type Database = {
         }
         Relationships: []
       }
+      wishlist_lists: {
+        Row: {
+          created_at: string
+          id: string
+          is_default: boolean
+          is_public: boolean
+          name: string
+          share_token: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          is_default?: boolean
+          is_public?: boolean
+          name: string
+          share_token?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          is_default?: boolean
+          is_public?: boolean
+          name?: string
+          share_token?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       wishlists: {
         Row: {
           created_at: string
           id: string
+          list_id: string
+          notify_back_in_stock: boolean
+          notify_price_drop: boolean
           product_id: string
           user_id: string
         }
         Insert: {
           created_at?: string
           id?: string
+          list_id: string
+          notify_back_in_stock?: boolean
+          notify_price_drop?: boolean
           product_id: string
           user_id: string
         }
         Update: {
           created_at?: string
           id?: string
+          list_id?: string
+          notify_back_in_stock?: boolean
+          notify_price_drop?: boolean
           product_id?: string
           user_id?: string
         }
@@ -379,13 +1641,272 @@ export type Database = {
             referencedRelation: "products"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "wishlists_list_id_fkey"
+            columns: ["list_id"]
+            isOneToOne: false
+            referencedRelation: "wishlist_lists"
+            referencedColumns: ["id"]
+          },
         ]
       }
     }
     Views: {
-      [_ in never]: never
+      analytics_order_lines: {
+        Row: {
+          category_id: string | null
+          category_name: string | null
+          order_id: string | null
+          ordered_at: string | null
+          product_id: string | null
+          product_name: string | null
+          quantity: number | null
+          revenue: number | null
+          user_id: string | null
+        }
+        Relationships: []
+      }
     }
     Functions: {
+      accept_fulfilment: {
+        Args: { _courier_id: string; _fulfilment_id: string }
+        Returns: Database["public"]["Tables"]["delivery_assignments"]["Row"]
+      }
+      add_to_wishlist: {
+        Args: { _list_id?: string; _product_id: string }
+        Returns: string
+      }
+      advance_fulfilment: {
+        Args: {
+          _actor_id?: string
+          _carrier?: string
+          _delivery_status?: string
+          _fulfilment_id: string
+          _note?: string
+          _status?: string
+          _tracking_number?: string
+        }
+        Returns: Database["public"]["Tables"]["order_fulfilments"]["Row"]
+      }
+      analytics_category_order_values: {
+        Args: {
+          _end: string
+          _limit?: number
+          _start: string
+        }
+        Returns: {
+          average_order_value: number
+          name: string
+          orders: number
+        }[]
+      }
+      analytics_category_sales: {
+        Args: {
+          _end: string
+          _limit?: number
+          _start: string
+        }
+        Returns: {
+          name: string
+          revenue: number
+          units: number
+        }[]
+      }
+      analytics_cohort_retention: {
+        Args: { _months?: number }
+        Returns: {
+          cohort_month: string
+          customers: number
+          months_since: number
+        }[]
+      }
+      analytics_funnel: {
+        Args: { _end: string; _start: string }
+        Returns: {
+          buyers: number
+          cart_adders: number
+          checkouts: number
+          viewers: number
+        }[]
+      }
+      analytics_repeat_purchases: {
+        Args: { _end: string; _start: string }
+        Returns: {
+          customers: number
+          orders_per_customer: number
+        }[]
+      }
+      analytics_sales_series: {
+        Args: {
+          _bucket?: string
+          _end: string
+          _start: string
+        }
+        Returns: {
+          bucket_start: string
+          orders: number
+          revenue: number
+        }[]
+      }
+      analytics_summary: {
+        Args: { _end: string; _start: string }
+        Returns: {
+          customers: number
+          orders: number
+          products: number
+          revenue: number
+        }[]
+      }
+      analytics_top_products: {
+        Args: {
+          _end: string
+          _limit?: number
+          _start: string
+        }
+        Returns: {
+          name: string
+          product_id: string
+          revenue: number
+          units: number
+        }[]
+      }
+      approve_return_request: {
+        Args: {
+          _note?: string
+          _return_id: string
+          _reviewer_id: string
+        }
+        Returns: Database["public"]["Tables"]["return_requests"]["Row"]
+      }
+      available_stock: {
+        Args: { _product_id: string; _exclude_user_id?: string }
+        Returns: number
+      }
+      available_variant_stock: {
+        Args: { _variant_id: string; _exclude_user_id?: string }
+        Returns: number
+      }
+      cancel_unpaid_orders: {
+        Args: { _older_than_minutes?: number }
+        Returns: number
+      }
+      commit_stock_reservations: {
+        Args: { _user_id: string; _order_id: string }
+        Returns: undefined
+      }
+      create_return_request: {
+        Args: {
+          _details?: string
+          _order_item_id: string
+          _photo_paths?: string[]
+          _quantity: number
+          _reason: string
+          _user_id: string
+        }
+        Returns: Database["public"]["Tables"]["return_requests"]["Row"]
+      }
+      delivered_order_item: {
+        Args: { _product_id: string; _user_id: string }
+        Returns: string
+      }
+      delivery_status_transition_allowed: {
+        Args: { _from: string; _to: string }
+        Returns: boolean
+      }
+      filter_products: {
+        Args: {
+          _category?: string
+          _in_stock?: boolean
+          _max_price?: number
+          _min_price?: number
+          _min_rating?: number
+          _on_sale?: boolean
+          _query?: string
+          _seller_ids?: string[]
+        }
+        Returns: {
+          effective_price: number
+          price_ok: boolean
+          product_id: string
+          rating_ok: boolean
+          sale_ok: boolean
+          score: number
+          seller_ok: boolean
+          stock_ok: boolean
+        }[]
+      }
+      flag_review: {
+        Args: { _reason: string; _review_id: string }
+        Returns: undefined
+      }
+      fulfilment_status_transition_allowed: {
+        Args: { _from: string; _to: string }
+        Returns: boolean
+      }
+      get_product_recommendations: {
+        Args: { _limit?: number; _product_id: string }
+        Returns: {
+          category: string
+          description: string
+          discounted_price: number
+          id: string
+          image_url: string
+          kind: string
+          name: string
+          price: number
+          rating: number
+          reviews_count: number
+          stock: number
+        }[]
+      }
+      get_product_reviews: {
+        Args: {
+          _limit?: number
+          _offset?: number
+          _product_id: string
+          _sort?: string
+        }
+        Returns: {
+          author_name: string
+          avatar_url: string
+          comment: string
+          created_at: string
+          helpful_count: number
+          id: string
+          is_own: boolean
+          rating: number
+          seller_replied_at: string
+          seller_reply: string
+          status: string
+          total_count: number
+          verified: boolean
+          voted: boolean
+        }[]
+      }
+      get_review_eligibility: {
+        Args: { _product_id: string }
+        Returns: {
+          can_review: boolean
+          review_id: string
+        }[]
+      }
+      get_shared_wishlist: {
+        Args: { _share_token: string }
+        Returns: {
+          category: string
+          description: string
+          discounted_price: number
+          image_url: string
+          list_name: string
+          name: string
+          owner_name: string
+          price: number
+          product_id: string
+          rating: number
+          reviews_count: number
+          stock: number
+        }[]
+      }
       has_role: {
         Args: {
           _user_id: string
@@ -393,10 +1914,188 @@ export type Database = {
         }
         Returns: boolean
       }
+      log_search: {
+        Args: { _query: string; _result_count: number }
+        Returns: undefined
+      }
+      merge_cart: {
+        Args: { _items?: Json }
+        Returns: string
+      }
+      moderate_review: {
+        Args: { _remove: boolean; _review_id: string }
+        Returns: Database["public"]["Tables"]["reviews"]["Row"]
+      }
+      order_status_transition_allowed: {
+        Args: { _from: string; _to: string }
+        Returns: boolean
+      }
+      purge_expired_stock_reservations: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      record_cart_event: {
+        Args: {
+          _product_id: string
+          _quantity?: number
+          _session_id: string
+          _variant_id?: string
+        }
+        Returns: undefined
+      }
+      record_product_view: {
+        Args: { _product_id: string; _session_id: string }
+        Returns: undefined
+      }
+      redeem_promotion: {
+        Args: {
+          _discount: number
+          _order_id: string
+          _promotion_id: string
+          _user_id: string
+        }
+        Returns: undefined
+      }
+      refresh_product_rating: {
+        Args: { _product_id: string }
+        Returns: undefined
+      }
+      refresh_product_recommendations: {
+        Args: { _per_product?: number; _view_days?: number }
+        Returns: undefined
+      }
+      release_stock_reservations: {
+        Args: { _user_id: string }
+        Returns: undefined
+      }
       repair_user_entries: {
         Args: { user_id: string }
         Returns: boolean
       }
+      reply_to_review: {
+        Args: { _reply: string; _review_id: string }
+        Returns: Database["public"]["Tables"]["reviews"]["Row"]
+      }
+      reserve_payment_refund: {
+        Args: {
+          _amount: number
+          _created_by: string
+          _order_id: string
+          _reason: string
+        }
+        Returns: Database["public"]["Tables"]["payment_refunds"]["Row"]
+      }
+      reserve_stock: {
+        Args: { _user_id: string; _items: Json; _hold_minutes?: number }
+        Returns: string
+      }
+      review_role_application: {
+        Args: { _actor_id: string; _application_id: string; _approve: boolean; _reason?: string }
+        Returns: Database["public"]["Tables"]["role_applications"]["Row"]
+      }
+      save_product_variants: {
+        Args: { _product_id: string; _options?: Json; _variants?: Json }
+        Returns: undefined
+      }
+      search_product_facets: {
+        Args: {
+          _category?: string
+          _in_stock?: boolean
+          _max_price?: number
+          _min_price?: number
+          _min_rating?: number
+          _on_sale?: boolean
+          _query?: string
+          _seller_ids?: string[]
+        }
+        Returns: Json
+      }
+      search_products: {
+        Args: {
+          _category?: string
+          _in_stock?: boolean
+          _max_price?: number
+          _min_price?: number
+          _min_rating?: number
+          _on_sale?: boolean
+          _query?: string
+          _seller_ids?: string[]
+          _limit?: number
+          _offset?: number
+          _sort?: string
+        }
+        Returns: {
+          category: string
+          created_at: string
+          description: string
+          discounted_price: number
+          id: string
+          image_url: string
+          name: string
+          price: number
+          rank: number
+          rating: number
+          reviews_count: number
+          seller_id: string
+          stock: number
+          total_count: number
+          units_sold: number
+        }[]
+      }
+      search_query_stats: {
+        Args: {
+          _limit?: number
+          _since: string
+          _zero_results_only?: boolean
+        }
+        Returns: {
+          last_result_count: number
+          last_searched_at: string
+          query: string
+          searchers: number
+          searches: number
+          zero_result_searches: number
+        }[]
+      }
+      settle_payment_refund: {
+        Args: {
+          _failure_reason: string
+          _provider_refund_id: string
+          _refund_id: string
+          _status: string
+        }
+        Returns: Database["public"]["Tables"]["payment_refunds"]["Row"]
+      }
+      slugify: {
+        Args: { _value: string }
+        Returns: string
+      }
+      store_in_maintenance: {
+        Args: Record<PropertyKey, never>
+        Returns: boolean
+      }
+      submit_review: {
+        Args: {
+          _comment?: string
+          _product_id: string
+          _rating: number
+        }
+        Returns: Database["public"]["Tables"]["reviews"]["Row"]
+      }
+      toggle_review_vote: {
+        Args: { _review_id: string }
+        Returns: boolean
+      }
+      transition_order: {
+        Args: {
+          _actor_id?: string
+          _delivery_status?: string
+          _note?: string
+          _order_id: string
+          _status?: string
+        }
+        Returns: Database["public"]["Tables"]["orders"]["Row"]
+      }
     }
     Enums: {
       user_role: "admin" | "customer" | "seller" | "delivery"
@@ -0,0 +1,88 @@
+// Customer reports and the shopper events behind them. Keep in sync with
+// supabase/migrations/20250623_customer_reports.sql
+import { supabase } from '@/integrations/supabase/client';
+import { getSessionId } from '@/lib/recommendations';
+
+export interface FunnelStep {
+  step: string;
+  shoppers: number;
+}
+
+export interface CohortRow {
+  cohort_month: string;
+  months_since: number;
+  customers: number;
+}
+
+export interface RepeatPurchaseRow {
+  // 4 stands for four or more
+  orders_per_customer: number;
+  customers: number;
+}
+
+export interface CategoryOrderValue {
+  name: string;
+  orders: number;
+  average_order_value: number;
+}
+
+export interface CustomerReportsData {
+  funnel: FunnelStep[];
+  cohorts: CohortRow[];
+  repeatPurchases: RepeatPurchaseRow[];
+  categoryOrderValues: CategoryOrderValue[];
+}
+
+// One retention table row per cohort: its size and the share of it that
+// ordered again in each following month
+export interface CohortRetention {
+  month: string;
+  size: number;
+  retention: (number | null)[];
+}
+
+// Whole months from a cohort's first month to the current month
+const monthsSince = (cohortMonth: string): number => {
+  const [year, month] = cohortMonth.split('-').map(Number);
+  const now = new Date();
+  return (now.getFullYear() - year) * 12 + (now.getMonth() + 1 - month);
+};
+
+export const buildCohortTable = (rows: CohortRow[]): CohortRetention[] => {
+  const cohorts = new Map<string, CohortRow[]>();
+  rows.forEach(row => {
+    cohorts.set(row.cohort_month, [...(cohorts.get(row.cohort_month) || []), row]);
+  });
+
+  const columns = Math.max(0, ...[...cohorts.keys()].map(monthsSince)) + 1;
+
+  return [...cohorts.entries()].map(([month, cohortRows]) => {
+    const size = cohortRows.find(row => row.months_since === 0)?.customers || 0;
+    const elapsed = monthsSince(month);
+    // Months that haven't happened yet for this cohort stay empty
+    const retention = Array.from({ length: columns }, (_, offset) => {
+      if (offset > elapsed) return null;
+      const customers = cohortRows.find(row => row.months_since === offset)?.customers || 0;
+      return size ? (customers / size) * 100 : 0;
+    });
+    return { month, size, retention };
+  });
+};
+
+// Customers who ordered more than once, as a percentage of all customers
+export const getRepeatPurchaseRate = (rows: RepeatPurchaseRow[]): number => {
+  const total = rows.reduce((sum, row) => sum + row.customers, 0);
+  const repeat = rows.filter(row => row.orders_per_customer > 1).reduce((sum, row) => sum + row.customers, 0);
+  return total ? (repeat / total) * 100 : 0;
+};
+
+// Fire and forget, like recordProductView
+export const recordAddToCart = async (productId: string, quantity: number, variantId: string | null) => {
+  const { error } = await supabase.rpc('record_cart_event', {
+    _product_id: productId,
+    _session_id: getSessionId(),
+    _quantity: quantity,
+    _variant_id: variantId || undefined,
+  });
+  if (error) console.error('Error recording add to cart:', error);
+};
@@ -0,0 +1,38 @@
+// Seller and delivery role applications. Keep in sync with
+// supabase/migrations/20250615_role_applications.sql
+
+export type ApplicationRole = 'seller' | 'delivery';
+
+export type ApplicationStatus = 'pending' | 'approved' | 'rejected';
+
+export interface RoleApplication {
+  id: string;
+  user_id: string;
+  role: ApplicationRole;
+  status: ApplicationStatus;
+  question_responses: Record<string, string>;
+  rejection_reason: string | null;
+  reviewed_at: string | null;
+  created_at: string;
+}
+
+// Roles that need an admin's approval at sign-up
+export const isApplicationRole = (role: string): role is ApplicationRole =>
+  role === 'seller' || role === 'delivery';
+
+export const applicationRoleLabels: Record<ApplicationRole, string> = {
+  seller: 'Seller',
+  delivery: 'Delivery partner',
+};
+
+export const applicationStatusLabels: Record<ApplicationStatus, string> = {
+  pending: 'Under review',
+  approved: 'Approved',
+  rejected: 'Not approved',
+};
+
+export const applicationStatusColors: Record<ApplicationStatus, string> = {
+  pending: 'bg-yellow-100 text-yellow-800',
+  approved: 'bg-green-100 text-green-800',
+  rejected: 'bg-red-100 text-red-800',
+};
@@ -0,0 +1,264 @@
+// Seller catalogue: the rules for a product's own fields, shared by
+// ProductForm and bulk import, and the CSV/JSON format used to import and
+// export products. Rows are matched to existing products by SKU; see
+// supabase/migrations/20250607_product_sku.sql
+import { z } from 'zod';
+import { Category } from '@/lib/categories';
+import { parseCsv } from '@/lib/csv';
+
+const blankToNull = (value: unknown) => {
+  if (value === null || value === undefined) return null;
+  if (typeof value === 'string') return value.trim() === '' ? null : Number(value);
+  return value;
+};
+
+const requiredNumber = (label: string) => z.number({
+  required_error: `${label} is required`,
+  invalid_type_error: `${label} must be a number`,
+});
+
+const blankToUndefined = (value: unknown) => blankToNull(value) ?? undefined;
+
+export const productFieldsSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(200, 'Name must be 200 characters or fewer'),
+  description: z.string().trim().max(5000, 'Description must be 5000 characters or fewer'),
+  sku: z.string().trim().max(64, 'SKU must be 64 characters or fewer'),
+  categoryId: z.string().min(1, 'Category is required'),
+  price: z.preprocess(blankToUndefined, requiredNumber('Price').min(0, "Price can't be negative")),
+  discountedPrice: z.preprocess(
+    blankToNull,
+    z.number({ invalid_type_error: 'Discounted price must be a number' })
+      .min(0, "Discounted price can't be negative")
+      .nullable()
+  ),
+  stock: z.preprocess(
+    blankToUndefined,
+    requiredNumber('Stock').int('Stock must be a whole number').min(0, "Stock can't be negative")
+  ),
+});
+
+export const productFormSchema = productFieldsSchema.refine(
+  product => product.discountedPrice === null || product.discountedPrice < product.price,
+  { message: 'Discounted price must be lower than the price', path: ['discountedPrice'] }
+);
+
+export type ProductFormValues = z.infer<typeof productFormSchema>;
+
+// One message per problem, for toasts and the import report
+export const describeIssues = (error: z.ZodError): string[] => {
+  return [...new Set(error.issues.map(issue => issue.message))];
+};
+
+// Import/export columns, in file order
+export const CATALOG_COLUMNS = [
+  'sku',
+  'name',
+  'description',
+  'category',
+  'price',
+  'discounted_price',
+  'stock',
+  'image_url',
+] as const;
+
+export type CatalogColumn = typeof CATALOG_COLUMNS[number];
+
+export const catalogColumnLabels: Record<CatalogColumn, string> = {
+  sku: 'SKU',
+  name: 'Name',
+  description: 'Description',
+  category: 'Category',
+  price: 'Price',
+  discounted_price: 'Discounted price',
+  stock: 'Stock',
+  image_url: 'Image URL',
+};
+
+export const requiredCatalogColumns: CatalogColumn[] = ['sku', 'name', 'category', 'price', 'stock'];
+
+// Other headings spreadsheets commonly use for each column
+const columnAliases: Record<CatalogColumn, string[]> = {
+  sku: ['sku', 'code', 'productcode', 'itemcode'],
+  name: ['name', 'title', 'productname'],
+  description: ['description', 'details'],
+  category: ['category', 'categoryname', 'type'],
+  price: ['price', 'regularprice', 'listprice'],
+  discounted_price: ['discountedprice', 'saleprice', 'discountprice'],
+  stock: ['stock', 'quantity', 'qty', 'inventory'],
+  image_url: ['imageurl', 'image', 'imagelink', 'picture'],
+};
+
+// Which heading in the file feeds each column; null when not imported
+export type ColumnMapping = Record<CatalogColumn, string | null>;
+
+export interface CatalogFile {
+  headers: string[];
+  rows: Record<string, string>[];
+  // Where the first row sits: line 2 of a CSV, item 1 of a JSON array
+  firstRow: number;
+}
+
+// CSV with a header row, or a JSON array of objects
+export const parseCatalogFile = (fileName: string, text: string): CatalogFile => {
+  if (fileName.toLowerCase().endsWith('.json')) {
+    let data: unknown;
+    try {
+      data = JSON.parse(text);
+    } catch {
+      throw new Error('The file is not valid JSON.');
+    }
+    if (!Array.isArray(data) || data.some(item => !item || typeof item !== 'object' || Array.isArray(item))) {
+      throw new Error('The JSON file must contain an array of products.');
+    }
+
+    const headers = [...new Set(data.flatMap(item => Object.keys(item)))];
+    const rows = data.map(item => Object.fromEntries(
+      headers.map(header => [header, item[header] === null || item[header] === undefined ? '' : String(item[header])])
+    ));
+    return { headers, rows, firstRow: 1 };
+  }
+
+  const [headerRow, ...records] = parseCsv(text);
+  if (!headerRow) throw new Error('The file is empty.');
+
+  const headers = headerRow.map(header => header.trim());
+  const rows = records.map(record => Object.fromEntries(headers.map((header, i) => [header, record[i] ?? ''])));
+  return { headers, rows, firstRow: 2 };
+};
+
+export const guessColumnMapping = (headers: string[]): ColumnMapping => {
+  const normalized = headers.map(header => header.toLowerCase().replace(/[^a-z0-9]/g, ''));
+  return Object.fromEntries(CATALOG_COLUMNS.map(column => {
+    const index = normalized.findIndex(header => columnAliases[column].includes(header));
+    return [column, index >= 0 ? headers[index] : null];
+  })) as ColumnMapping;
+};
+
+// Categories can be given by slug or by name
+export const findCategory = (categories: Category[], value: string): Category | undefined => {
+  const wanted = value.trim().toLowerCase();
+  if (!wanted) return undefined;
+  return categories.find(category => category.slug === wanted)
+    || categories.find(category => category.name.toLowerCase() === wanted);
+};
+
+// The seller's product with a given SKU, as far as import needs to know
+export interface ExistingProduct {
+  id: string;
+  sku: string;
+  description: string | null;
+  discounted_price: number | null;
+  image_url: string | null;
+  has_variants: boolean;
+}
+
+export interface ImportRow {
+  // CSV line or JSON array position, as the seller would count it
+  line: number;
+  sku: string;
+  name: string;
+  action: 'create' | 'update';
+  // Null when the row has errors and won't be imported
+  values: ProductFormValues | null;
+  imageUrl: string | null;
+  errors: string[];
+  warnings: string[];
+}
+
+const imageUrlSchema = z.string().url('Image URL must be a full web address');
+
+// The dry run: check every row as ProductForm would, without saving
+export const validateCatalogRows = (
+  file: CatalogFile,
+  mapping: ColumnMapping,
+  categories: Category[],
+  existing: Map<string, ExistingProduct>
+): ImportRow[] => {
+  const seen = new Set<string>();
+
+  return file.rows.map((row, index) => {
+    const get = (column: CatalogColumn) => (mapping[column] ? (row[mapping[column]] ?? '').trim() : undefined);
+    const errors: string[] = [];
+    const warnings: string[] = [];
+
+    const sku = get('sku') ?? '';
+    const match = existing.get(sku);
+    if (!sku) {
+      errors.push('SKU is required to import');
+    } else if (seen.has(sku)) {
+      errors.push('SKU appears more than once in the file');
+    }
+    seen.add(sku);
+
+    const categoryName = get('category') ?? '';
+    const category = findCategory(categories, categoryName);
+    if (categoryName && !category) errors.push(`Unknown category "${categoryName}"`);
+
+    // Columns left out of the mapping keep the product's current value
+    const parsed = productFormSchema.safeParse({
+      name: get('name') ?? '',
+      description: get('description') ?? match?.description ?? '',
+      sku,
+      categoryId: category?.id ?? '',
+      price: get('price'),
+      discountedPrice: get('discounted_price') ?? match?.discounted_price ?? null,
+      stock: get('stock'),
+    });
+    if (!parsed.success) {
+      errors.push(...describeIssues(parsed.error).filter(message => !(categoryName && message === 'Category is required')));
+    }
+
+    const imageUrl = get('image_url') || null;
+    if (imageUrl) {
+      const checked = imageUrlSchema.safeParse(imageUrl);
+      if (!checked.success) errors.push(...describeIssues(checked.error));
+    }
+
+    if (match?.has_variants) {
+      warnings.push('Has variants, so its price and stock stay as set on the variants');
+    }
+    if (match && imageUrl && imageUrl !== match.image_url) {
+      warnings.push('Image not changed; manage images of existing products from the product page');
+    }
+
+    return {
+      line: file.firstRow + index,
+      sku,
+      name: get('name') ?? '',
+      action: match ? 'update' : 'create',
+      values: errors.length === 0 && parsed.success ? parsed.data : null,
+      imageUrl,
+      errors,
+      warnings,
+    };
+  });
+};
+
+// Columns written to products for a valid row
+export const toProductRow = (values: ProductFormValues, categories: Category[], sellerId: string) => ({
+  seller_id: sellerId,
+  sku: values.sku,
+  name: values.name,
+  description: values.description,
+  category_id: values.categoryId,
+  category: categories.find(category => category.id === values.categoryId)?.name || '',
+  price: values.price,
+  discounted_price: values.discountedPrice,
+  stock: values.stock,
+});
+
+// A product as written to an export file
+export interface CatalogRecord {
+  sku: string;
+  name: string;
+  description: string;
+  category: string;
+  price: number;
+  discounted_price: number | null;
+  stock: number;
+  image_url: string;
+}
+
+export const toCatalogCells = (record: CatalogRecord): string[] => {
+  return CATALOG_COLUMNS.map(column => (record[column] === null ? '' : String(record[column])));
+};
@@ -0,0 +1,64 @@
+// Category tree helpers. Categories are few, so pages load them all once
+// (see useCategories) and work out trees and breadcrumbs client-side.
+// Keep slugify in sync with supabase/migrations/20250601_category_tree.sql
+export interface Category {
+  id: string;
+  name: string;
+  slug: string;
+  parent_id: string | null;
+  description: string | null;
+  image_url: string | null;
+  sort_order: number;
+}
+
+export interface CategoryOption {
+  category: Category;
+  depth: number;
+}
+
+export const slugify = (value: string): string => {
+  return value.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+};
+
+const bySortOrder = (a: Category, b: Category) => {
+  return a.sort_order - b.sort_order || a.name.localeCompare(b.name);
+};
+
+export const getChildCategories = (categories: Category[], parentId: string | null): Category[] => {
+  return categories.filter(category => category.parent_id === parentId).sort(bySortOrder);
+};
+
+// Depth-first, children after their parent, for indented selects and lists
+export const flattenCategoryTree = (categories: Category[]): CategoryOption[] => {
+  const options: CategoryOption[] = [];
+  const visit = (parentId: string | null, depth: number) => {
+    getChildCategories(categories, parentId).forEach(category => {
+      options.push({ category, depth });
+      visit(category.id, depth + 1);
+    });
+  };
+  visit(null, 0);
+  return options;
+};
+
+// From the top-level category down to the given one
+export const getCategoryPath = (categories: Category[], categoryId: string | null): Category[] => {
+  const path: Category[] = [];
+  let current = categories.find(category => category.id === categoryId);
+  while (current && !path.includes(current)) {
+    path.unshift(current);
+    current = categories.find(category => category.id === current?.parent_id);
+  }
+  return path;
+};
+
+// The category itself and everything below it
+export const getCategorySubtreeIds = (categories: Category[], categoryId: string): string[] => {
+  const ids = [categoryId];
+  for (let i = 0; i < ids.length; i++) {
+    categories
+      .filter(category => category.parent_id === ids[i])
+      .forEach(category => ids.push(category.id));
+  }
+  return ids;
+};
@@ -0,0 +1,45 @@
+// Shipping rules shared by the cart and checkout pages.
+// Keep these in sync with supabase/functions/checkout_functions/index.ts
+export const FREE_SHIPPING_THRESHOLD = 50;
+export const SHIPPING_FEE = 4.99;
+
+export type PaymentMethod = 'credit_card' | 'paypal' | 'cash_on_delivery';
+
+export const paymentMethodLabels: Record<PaymentMethod, string> = {
+  credit_card: 'Credit Card',
+  paypal: 'PayPal',
+  cash_on_delivery: 'Cash on Delivery',
+};
+
+// Methods charged through the payment gateway when the order is placed;
+// everything else is collected on delivery
+export const isGatewayPayment = (method: PaymentMethod): boolean => {
+  return method === 'credit_card' || method === 'paypal';
+};
+
+// Card fields collected at checkout and passed to the payment provider
+export interface CardDetails {
+  number: string;
+  name: string;
+  expiry: string;
+  cvc: string;
+}
+
+export interface ShippingAddress {
+  first_name: string;
+  last_name: string;
+  phone?: string;
+  address: string;
+  city: string;
+  state: string;
+  postal_code: string;
+  country: string;
+}
+
+export const calculateShipping = (subtotal: number): number => {
+  return subtotal >= FREE_SHIPPING_THRESHOLD ? 0 : SHIPPING_FEE;
+};
+
+export const getItemPrice = (item: { price: number; discounted_price: number | null }): number => {
+  return item.discounted_price || item.price;
+};
@@ -0,0 +1,95 @@
+// Product gallery images. Files are resized in the browser and uploaded to
+// the product-images bucket; see supabase/migrations/20250605_product_images.sql
+import { supabase } from '@/integrations/supabase/client';
+
+export const PRODUCT_IMAGE_BUCKET = 'product-images';
+export const MAX_PRODUCT_IMAGES = 10;
+
+// Longest side, in pixels
+const FULL_SIZE = 1600;
+const THUMBNAIL_SIZE = 400;
+
+export interface ProductImage {
+  id: string;
+  // Storage paths; null for images linked by URL before uploads existed
+  path: string | null;
+  thumbnail_path: string | null;
+  url: string;
+  thumbnail_url: string;
+  alt_text: string;
+  width: number | null;
+  height: number | null;
+}
+
+interface ResizedImage {
+  blob: Blob;
+  width: number;
+  height: number;
+}
+
+const canvasToBlob = (canvas: HTMLCanvasElement, type: string, quality: number) => {
+  return new Promise<Blob | null>(resolve => canvas.toBlob(resolve, type, quality));
+};
+
+// Scale down so the longest side fits, never up. WebP where the browser can
+// encode it, JPEG otherwise.
+export const resizeImage = async (file: File, maxSize: number): Promise<ResizedImage> => {
+  const bitmap = await createImageBitmap(file);
+  const scale = Math.min(1, maxSize / Math.max(bitmap.width, bitmap.height));
+  const width = Math.round(bitmap.width * scale);
+  const height = Math.round(bitmap.height * scale);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  canvas.getContext('2d')?.drawImage(bitmap, 0, 0, width, height);
+  bitmap.close();
+
+  let blob = await canvasToBlob(canvas, 'image/webp', 0.85);
+  if (!blob || blob.type !== 'image/webp') {
+    blob = await canvasToBlob(canvas, 'image/jpeg', 0.85);
+  }
+  if (!blob) throw new Error(`Could not read ${file.name}`);
+
+  return { blob, width, height };
+};
+
+// Upload a full-size copy and a thumbnail under the seller's own folder,
+// which is all storage lets them write. The row is saved with the product.
+export const uploadProductImage = async (userId: string, file: File): Promise<ProductImage> => {
+  const [full, thumbnail] = await Promise.all([
+    resizeImage(file, FULL_SIZE),
+    resizeImage(file, THUMBNAIL_SIZE),
+  ]);
+
+  const id = crypto.randomUUID();
+  const extension = full.blob.type === 'image/webp' ? 'webp' : 'jpg';
+  const path = `${userId}/${id}.${extension}`;
+  const thumbnailPath = `${userId}/${id}-thumb.${extension}`;
+
+  const bucket = supabase.storage.from(PRODUCT_IMAGE_BUCKET);
+  for (const [objectPath, image] of [[path, full], [thumbnailPath, thumbnail]] as const) {
+    const { error } = await bucket.upload(objectPath, image.blob, { contentType: image.blob.type });
+    if (error) throw error;
+  }
+
+  return {
+    id,
+    path,
+    thumbnail_path: thumbnailPath,
+    url: bucket.getPublicUrl(path).data.publicUrl,
+    thumbnail_url: bucket.getPublicUrl(thumbnailPath).data.publicUrl,
+    alt_text: file.name.replace(/\.[^.]+$/, '').replace(/[-_]+/g, ' '),
+    width: full.width,
+    height: full.height,
+  };
+};
+
+// Remove uploaded files; linked images have nothing to delete
+export const removeProductImageFiles = async (images: ProductImage[]) => {
+  const paths = images.flatMap(image => [image.path, image.thumbnail_path]).filter(Boolean);
+  if (paths.length === 0) return;
+
+  const { error } = await supabase.storage.from(PRODUCT_IMAGE_BUCKET).remove(paths);
+  if (error) throw error;
+};
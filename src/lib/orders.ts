@@ -0,0 +1,153 @@
+// Canonical order lifecycle shared by every page that shows or changes an
+// order. The database enforces the same rules; keep this in sync with
+// supabase/migrations/20250518_order_state_machine.sql
+
+export type OrderStatus =
+  | 'pending'
+  | 'paid'
+  | 'processing'
+  | 'shipped'
+  | 'delivered'
+  | 'cancelled'
+  | 'refunded';
+
+export type DeliveryStatus = 'pending' | 'assigned' | 'in_transit' | 'delivered';
+
+// Each order is split into one package (fulfilment) per seller
+export type FulfilmentStatus = 'pending' | 'packed' | 'shipped' | 'delivered' | 'cancelled';
+
+// The steps a package goes through, for progress displays
+export const FULFILMENT_STEPS: FulfilmentStatus[] = ['pending', 'packed', 'shipped', 'delivered'];
+
+export const ORDER_STATUSES: OrderStatus[] = [
+  'pending', 'paid', 'processing', 'shipped', 'delivered', 'cancelled', 'refunded',
+];
+
+export const orderStatusTransitions: Record<OrderStatus, OrderStatus[]> = {
+  // pending -> processing is only allowed for cash on delivery orders
+  pending: ['paid', 'processing', 'cancelled'],
+  paid: ['processing', 'shipped', 'delivered', 'cancelled', 'refunded'],
+  processing: ['shipped', 'delivered', 'cancelled', 'refunded'],
+  shipped: ['delivered', 'refunded'],
+  delivered: ['refunded'],
+  cancelled: [],
+  refunded: [],
+};
+
+export const deliveryStatusTransitions: Record<DeliveryStatus, DeliveryStatus[]> = {
+  pending: ['assigned'],
+  assigned: ['pending', 'in_transit', 'delivered'],
+  in_transit: ['delivered'],
+  delivered: [],
+};
+
+export const orderStatusLabels: Record<OrderStatus, string> = {
+  pending: 'Awaiting payment',
+  paid: 'Paid',
+  processing: 'Processing',
+  shipped: 'Shipped',
+  delivered: 'Delivered',
+  cancelled: 'Cancelled',
+  refunded: 'Refunded',
+};
+
+export const deliveryStatusLabels: Record<DeliveryStatus, string> = {
+  pending: 'Awaiting courier',
+  assigned: 'Courier assigned',
+  in_transit: 'In transit',
+  delivered: 'Delivered',
+};
+
+export const fulfilmentStatusLabels: Record<FulfilmentStatus, string> = {
+  pending: 'Preparing',
+  packed: 'Packed',
+  shipped: 'Shipped',
+  delivered: 'Delivered',
+  cancelled: 'Cancelled',
+};
+
+export const orderStatusColors: Record<OrderStatus, string> = {
+  pending: 'bg-yellow-100 text-yellow-800',
+  paid: 'bg-blue-100 text-blue-800',
+  processing: 'bg-purple-100 text-purple-800',
+  shipped: 'bg-indigo-100 text-indigo-800',
+  delivered: 'bg-green-100 text-green-800',
+  cancelled: 'bg-red-100 text-red-800',
+  refunded: 'bg-gray-100 text-gray-800',
+};
+
+export const deliveryStatusColors: Record<DeliveryStatus, string> = {
+  pending: 'bg-yellow-100 text-yellow-800',
+  assigned: 'bg-blue-100 text-blue-800',
+  in_transit: 'bg-purple-100 text-purple-800',
+  delivered: 'bg-green-100 text-green-800',
+};
+
+export const fulfilmentStatusColors: Record<FulfilmentStatus, string> = {
+  pending: 'bg-yellow-100 text-yellow-800',
+  packed: 'bg-purple-100 text-purple-800',
+  shipped: 'bg-indigo-100 text-indigo-800',
+  delivered: 'bg-green-100 text-green-800',
+  cancelled: 'bg-red-100 text-red-800',
+};
+
+// Whether sellers may start packing: paid orders, or cash on delivery ones
+export const isOrderFulfillable = (status: string, paymentMethod?: string | null): boolean => {
+  return ['paid', 'processing', 'shipped'].includes(status) ||
+    (status === 'pending' && paymentMethod === 'cash_on_delivery');
+};
+
+export const canTransitionOrder = (
+  from: OrderStatus,
+  to: OrderStatus,
+  paymentMethod?: string | null
+): boolean => {
+  if (from === 'pending' && to === 'processing' && paymentMethod !== 'cash_on_delivery') {
+    return false;
+  }
+  return orderStatusTransitions[from]?.includes(to) ?? false;
+};
+
+export const getOrderStatusLabel = (status: string): string => {
+  return orderStatusLabels[status as OrderStatus] || status;
+};
+
+export const getDeliveryStatusLabel = (status: string): string => {
+  return deliveryStatusLabels[status as DeliveryStatus] || status;
+};
+
+export const getOrderStatusColor = (status: string): string => {
+  return orderStatusColors[status as OrderStatus] || 'bg-gray-100 text-gray-800';
+};
+
+export const getDeliveryStatusColor = (status: string): string => {
+  return deliveryStatusColors[status as DeliveryStatus] || 'bg-gray-100 text-gray-800';
+};
+
+// A row from order_events
+export interface OrderEvent {
+  id: string;
+  order_id: string;
+  field: 'status' | 'delivery_status';
+  from_status: string | null;
+  to_status: string;
+  actor_id: string | null;
+  note: string | null;
+  created_at: string;
+}
+
+// A row from order_fulfilments
+export interface OrderFulfilment {
+  id: string;
+  order_id: string;
+  seller_id: string | null;
+  status: FulfilmentStatus;
+  delivery_status: DeliveryStatus;
+  carrier: string | null;
+  tracking_number: string | null;
+  packed_at: string | null;
+  shipped_at: string | null;
+  delivered_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
@@ -0,0 +1,119 @@
+import type { Product } from '@/components/ProductCard';
+
+// Columns needed to render a product card
+export interface ProductListing {
+  id: string;
+  name: string;
+  price: number;
+  discounted_price: number | null;
+  // Primary gallery image, kept in sync by the database
+  image_url: string | null;
+  rating: number | null;
+  reviews_count: number | null;
+  category: string;
+  description: string | null;
+  stock: number;
+}
+
+export const toCardProduct = (product: ProductListing): Product => ({
+  id: product.id,
+  name: product.name,
+  category: product.category,
+  price: Number(product.price),
+  discountedPrice: product.discounted_price === null ? null : Number(product.discounted_price),
+  imageUrl: product.image_url || '/placeholder.svg',
+  rating: Number(product.rating) || 0,
+  reviews: product.reviews_count || 0,
+  description: product.description || '',
+  stock: product.stock,
+});
+
+// Listing filters and sorting, encoded in the URL so filtered views can be
+// shared. Keep in sync with supabase/migrations/20250528_product_facets.sql
+export type ProductSort = 'relevance' | 'price_asc' | 'price_desc' | 'rating' | 'newest' | 'best_selling';
+
+export const productSortLabels: Record<ProductSort, string> = {
+  relevance: 'Most relevant',
+  price_asc: 'Price: low to high',
+  price_desc: 'Price: high to low',
+  rating: 'Highest rated',
+  newest: 'Newest',
+  best_selling: 'Best selling',
+};
+
+export interface ProductFilters {
+  minPrice: number | null;
+  maxPrice: number | null;
+  minRating: number | null;
+  inStock: boolean;
+  onSale: boolean;
+  sellerIds: string[];
+  sort: ProductSort;
+  page: number;
+}
+
+export interface ProductFacets {
+  price_ranges: { min: number; max: number | null; count: number }[];
+  ratings: { min_rating: number; count: number }[];
+  in_stock: number;
+  on_sale: number;
+  sellers: { id: string; name: string; count: number }[];
+}
+
+const parseNumber = (value: string | null): number | null => {
+  if (value === null || value === '') return null;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : null;
+};
+
+export const parseProductFilters = (params: URLSearchParams, defaultSort: ProductSort): ProductFilters => {
+  const sort = params.get('sort') as ProductSort;
+  return {
+    minPrice: parseNumber(params.get('min_price')),
+    maxPrice: parseNumber(params.get('max_price')),
+    minRating: parseNumber(params.get('rating')),
+    inStock: params.get('in_stock') === '1',
+    onSale: params.get('on_sale') === '1',
+    sellerIds: params.getAll('seller'),
+    sort: sort && sort in productSortLabels ? sort : defaultSort,
+    page: Math.max(1, parseInt(params.get('page') || '1') || 1),
+  };
+};
+
+// Writes filters back onto the params, leaving others (like the search
+// query) alone. Defaults are left out to keep URLs short.
+export const applyProductFilters = (
+  params: URLSearchParams,
+  filters: ProductFilters,
+  defaultSort: ProductSort
+): URLSearchParams => {
+  const next = new URLSearchParams(params);
+  ['min_price', 'max_price', 'rating', 'in_stock', 'on_sale', 'seller', 'sort', 'page'].forEach(key => next.delete(key));
+
+  if (filters.minPrice !== null) next.set('min_price', String(filters.minPrice));
+  if (filters.maxPrice !== null) next.set('max_price', String(filters.maxPrice));
+  if (filters.minRating !== null) next.set('rating', String(filters.minRating));
+  if (filters.inStock) next.set('in_stock', '1');
+  if (filters.onSale) next.set('on_sale', '1');
+  filters.sellerIds.forEach(id => next.append('seller', id));
+  if (filters.sort !== defaultSort) next.set('sort', filters.sort);
+  if (filters.page > 1) next.set('page', String(filters.page));
+  return next;
+};
+
+export const hasActiveFilters = (filters: ProductFilters): boolean => {
+  return filters.minPrice !== null || filters.maxPrice !== null || filters.minRating !== null ||
+    filters.inStock || filters.onSale || filters.sellerIds.length > 0;
+};
+
+// Arguments shared by search_products and search_product_facets
+export const toFilterArgs = (filters: ProductFilters, query?: string, category?: string) => ({
+  _query: query || undefined,
+  _category: category || undefined,
+  _min_price: filters.minPrice ?? undefined,
+  _max_price: filters.maxPrice ?? undefined,
+  _min_rating: filters.minRating ?? undefined,
+  _in_stock: filters.inStock,
+  _on_sale: filters.onSale,
+  _seller_ids: filters.sellerIds.length ? filters.sellerIds : undefined,
+});
@@ -0,0 +1,89 @@
+// Application questionnaires. Keep in sync with
+// supabase/migrations/20250617_application_questionnaires.sql
+import { supabase } from '@/integrations/supabase/client';
+import type { ApplicationRole } from '@/lib/applications';
+
+export type QuestionType = 'text' | 'textarea' | 'select' | 'yes_no' | 'file';
+
+export interface Question {
+  // Stable across versions; answers are keyed by it
+  id: string;
+  label: string;
+  type: QuestionType;
+  required: boolean;
+  // Choices for select questions
+  options?: string[];
+}
+
+export interface Questionnaire {
+  id: string;
+  role: ApplicationRole;
+  version: number;
+  questions: Question[];
+  created_at: string;
+}
+
+// Answers keyed by question id. yes_no answers are 'yes' or 'no', file
+// answers are storage paths.
+export type QuestionAnswers = Record<string, string>;
+
+export const APPLICATION_FILE_BUCKET = 'application-files';
+export const MAX_APPLICATION_FILE_SIZE = 10 * 1024 * 1024;
+export const APPLICATION_FILE_TYPES = ['application/pdf', 'image/jpeg', 'image/png', 'image/webp'];
+
+export const questionTypeLabels: Record<QuestionType, string> = {
+  text: 'Short answer',
+  textarea: 'Long answer',
+  select: 'Dropdown',
+  yes_no: 'Yes / No',
+  file: 'File upload',
+};
+
+export const newQuestion = (): Question => ({
+  id: crypto.randomUUID().slice(0, 8),
+  label: '',
+  type: 'text',
+  required: false,
+});
+
+// A message naming the first unanswered required question, or null when
+// the answers are complete
+export const validateAnswers = (questions: Question[], answers: QuestionAnswers): string | null => {
+  const missing = questions.find(question => question.required && !answers[question.id]?.trim());
+  return missing ? `Please answer the required question: ${missing.label}` : null;
+};
+
+// Problems that would stop a questionnaire from being published
+export const validateQuestionnaire = (questions: Question[]): string | null => {
+  if (questions.length === 0) return 'Add at least one question.';
+  if (questions.some(question => !question.label.trim())) return 'Every question needs a label.';
+  if (questions.some(question => question.type === 'select' && !(question.options || []).length)) {
+    return 'Dropdown questions need at least one choice.';
+  }
+  return null;
+};
+
+export const formatAnswer = (question: Question, answer: string | undefined): string => {
+  if (!answer) return '—';
+  if (question.type === 'yes_no') return answer === 'yes' ? 'Yes' : 'No';
+  if (question.type === 'file') return answer.split('/').pop() || answer;
+  return answer;
+};
+
+// Uploaded before the account exists, so files go under pending/
+export const uploadApplicationFile = async (file: File): Promise<string> => {
+  if (!APPLICATION_FILE_TYPES.includes(file.type)) {
+    throw new Error('Upload a PDF or an image.');
+  }
+  if (file.size > MAX_APPLICATION_FILE_SIZE) {
+    throw new Error('Files can be up to 10 MB.');
+  }
+
+  const path = `pending/${crypto.randomUUID()}/${file.name}`;
+  const { error } = await supabase.storage
+    .from(APPLICATION_FILE_BUCKET)
+    .upload(path, file, { contentType: file.type });
+
+  if (error) throw error;
+  return path;
+};
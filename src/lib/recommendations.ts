@@ -0,0 +1,35 @@
+// Product recommendations. Keep in sync with
+// supabase/migrations/20250613_product_recommendations.sql
+import { supabase } from '@/integrations/supabase/client';
+
+export type RecommendationKind = 'bought_together' | 'viewed_together' | 'also_wishlisted';
+
+// Display order on the product page
+export const recommendationKinds: RecommendationKind[] = ['bought_together', 'viewed_together', 'also_wishlisted'];
+
+export const recommendationKindLabels: Record<RecommendationKind, string> = {
+  bought_together: 'Frequently Bought Together',
+  viewed_together: 'Customers Also Viewed',
+  also_wishlisted: 'Customers Also Wishlisted',
+};
+
+// Random id that ties a browser's views together, like the guest cart
+const SESSION_ID_KEY = 'browsingSessionId';
+
+export const getSessionId = (): string => {
+  let sessionId = localStorage.getItem(SESSION_ID_KEY);
+  if (!sessionId) {
+    sessionId = crypto.randomUUID();
+    localStorage.setItem(SESSION_ID_KEY, sessionId);
+  }
+  return sessionId;
+};
+
+// Fire and forget; a lost view only makes recommendations slightly staler
+export const recordProductView = async (productId: string) => {
+  const { error } = await supabase.rpc('record_product_view', {
+    _product_id: productId,
+    _session_id: getSessionId(),
+  });
+  if (error) console.error('Error recording product view:', error);
+};
@@ -0,0 +1,64 @@
+// Return requests (RMA). Keep in sync with
+// supabase/migrations/20250524_returns.sql
+
+export type ReturnReason =
+  | 'damaged'
+  | 'defective'
+  | 'wrong_item'
+  | 'not_as_described'
+  | 'no_longer_needed'
+  | 'other';
+
+export type ReturnStatus = 'requested' | 'approved' | 'rejected' | 'refunded';
+
+export type PickupStatus = 'assigned' | 'picked_up';
+
+export const RETURN_PHOTO_BUCKET = 'return-photos';
+export const MAX_RETURN_PHOTOS = 5;
+
+export const returnReasonLabels: Record<ReturnReason, string> = {
+  damaged: 'Arrived damaged',
+  defective: 'Defective or not working',
+  wrong_item: 'Wrong item sent',
+  not_as_described: 'Not as described',
+  no_longer_needed: 'No longer needed',
+  other: 'Other',
+};
+
+export const returnStatusLabels: Record<ReturnStatus, string> = {
+  requested: 'Return requested',
+  approved: 'Approved, refund pending',
+  rejected: 'Return rejected',
+  refunded: 'Refunded',
+};
+
+export const returnStatusColors: Record<ReturnStatus, string> = {
+  requested: 'bg-yellow-100 text-yellow-800',
+  approved: 'bg-blue-100 text-blue-800',
+  rejected: 'bg-red-100 text-red-800',
+  refunded: 'bg-green-100 text-green-800',
+};
+
+export const pickupStatusLabels: Record<PickupStatus, string> = {
+  assigned: 'Pickup scheduled',
+  picked_up: 'Picked up',
+};
+
+// A row from return_requests
+export interface ReturnRequest {
+  id: string;
+  order_id: string;
+  order_item_id: string;
+  user_id: string;
+  seller_id: string | null;
+  quantity: number;
+  reason: ReturnReason;
+  details: string | null;
+  photo_paths: string[];
+  status: ReturnStatus;
+  seller_note: string | null;
+  refund_amount: number | null;
+  refund_error: string | null;
+  pickup_status: PickupStatus | null;
+  created_at: string;
+}
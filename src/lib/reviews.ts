@@ -0,0 +1,56 @@
+// Product reviews. Keep in sync with supabase/migrations/20250609_reviews.sql
+
+export type ReviewSort = 'recent' | 'helpful' | 'highest' | 'lowest';
+
+export type ReviewStatus = 'published' | 'hidden';
+
+export const REVIEWS_PAGE_SIZE = 10;
+
+export const reviewSortLabels: Record<ReviewSort, string> = {
+  recent: 'Most recent',
+  helpful: 'Most helpful',
+  highest: 'Highest rated',
+  lowest: 'Lowest rated',
+};
+
+export const reviewFlagReasons = [
+  'Spam or advertising',
+  'Offensive or abusive',
+  'Not about this product',
+  'Contains personal information',
+  'Other',
+];
+
+// A row from get_product_reviews
+export interface ProductReview {
+  id: string;
+  rating: number;
+  comment: string | null;
+  created_at: string;
+  author_name: string;
+  avatar_url: string | null;
+  verified: boolean;
+  status: ReviewStatus;
+  helpful_count: number;
+  voted: boolean;
+  is_own: boolean;
+  seller_reply: string | null;
+  seller_replied_at: string | null;
+  total_count: number;
+}
+
+// Messages for the exceptions raised by the review functions
+export const describeReviewError = (error: { message?: string }): string => {
+  switch (error.message) {
+    case 'review_not_allowed':
+      return 'Only customers who have received this product can review it.';
+    case 'invalid_rating':
+      return 'Choose a rating from 1 to 5 stars.';
+    case 'cannot_vote_own_review':
+      return "You can't vote on your own review.";
+    case 'not_authorized':
+      return "You don't have permission to do that.";
+    default:
+      return 'Something went wrong. Please try again.';
+  }
+};
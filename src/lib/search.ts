@@ -0,0 +1,27 @@
+// Recent searches are kept per browser, like the guest cart
+const RECENT_SEARCHES_KEY = 'recentSearches';
+const MAX_RECENT_SEARCHES = 5;
+
+export const getRecentSearches = (): string[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(RECENT_SEARCHES_KEY) || '[]');
+    return Array.isArray(stored) ? stored.filter(item => typeof item === 'string') : [];
+  } catch {
+    return [];
+  }
+};
+
+export const addRecentSearch = (query: string) => {
+  const trimmed = query.trim();
+  if (!trimmed) return;
+
+  const recent = getRecentSearches().filter(item => item.toLowerCase() !== trimmed.toLowerCase());
+  localStorage.setItem(
+    RECENT_SEARCHES_KEY,
+    JSON.stringify([trimmed, ...recent].slice(0, MAX_RECENT_SEARCHES))
+  );
+};
+
+export const clearRecentSearches = () => {
+  localStorage.removeItem(RECENT_SEARCHES_KEY);
+};
@@ -0,0 +1,52 @@
+// Store settings. Keep in sync with
+// supabase/migrations/20250619_store_settings.sql
+import type { ApplicationRole } from '@/lib/applications';
+
+export interface StoreSettings {
+  store_name: string;
+  contact_email: string;
+  support_phone: string;
+  address: string;
+  shipping_policy: string;
+  return_policy: string;
+  terms_conditions: string;
+  privacy_policy: string;
+  maintenance_mode: boolean;
+  enable_seller_applications: boolean;
+  enable_delivery_applications: boolean;
+}
+
+export const storeSettingLabels: Record<keyof StoreSettings, string> = {
+  store_name: 'Store name',
+  contact_email: 'Contact email',
+  support_phone: 'Support phone',
+  address: 'Business address',
+  shipping_policy: 'Shipping policy',
+  return_policy: 'Return policy',
+  terms_conditions: 'Terms & conditions',
+  privacy_policy: 'Privacy policy',
+  maintenance_mode: 'Maintenance mode',
+  enable_seller_applications: 'Seller applications',
+  enable_delivery_applications: 'Delivery applications',
+};
+
+// One entry of store_settings_history
+export interface StoreSettingsChange {
+  id: string;
+  changes: Partial<Record<keyof StoreSettings, { from: string | boolean; to: string | boolean }>>;
+  changed_by: string | null;
+  changed_by_name: string | null;
+  changed_at: string;
+}
+
+export const isApplicationOpen = (settings: StoreSettings | undefined, role: ApplicationRole): boolean => {
+  if (!settings) return true;
+  return role === 'seller' ? settings.enable_seller_applications : settings.enable_delivery_applications;
+};
+
+// Short text for one side of a history entry; long policy texts are cut
+export const formatSettingValue = (value: string | boolean | undefined): string => {
+  if (typeof value === 'boolean') return value ? 'On' : 'Off';
+  if (!value) return '(empty)';
+  return value.length > 60 ? `${value.slice(0, 60)}…` : value;
+};
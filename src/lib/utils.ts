@@ -4,3 +4,8 @@ import { twMerge } from "tailwind-merge"
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
+
+// "First Last" from a profile row, or an empty string when neither is set
+export function profileName(profile?: { first_name: string | null; last_name: string | null } | null) {
+  return [profile?.first_name, profile?.last_name].filter(Boolean).join(' ').trim()
+}
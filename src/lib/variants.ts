@@ -0,0 +1,102 @@
+// Product options (Size, Colour, ...) and the variants built from them.
+// A product with variants is always bought as one of its variants; see
+// supabase/migrations/20250603_product_variants.sql
+export interface ProductOption {
+  name: string;
+  values: string[];
+}
+
+export interface ProductVariant {
+  id: string;
+  sku: string | null;
+  options: Record<string, string>;
+  name: string;
+  price: number;
+  discounted_price: number | null;
+  stock: number;
+  image_url: string | null;
+}
+
+export type OptionSelection = Record<string, string>;
+
+// An option as sellers type it, with values as a comma-separated list
+export interface OptionDraft {
+  name: string;
+  values: string;
+}
+
+const matches = (variant: ProductVariant, selection: OptionSelection, except?: string) => {
+  return Object.entries(selection).every(([name, value]) => name === except || variant.options[name] === value);
+};
+
+// The variant with exactly the selected values, if every option is chosen
+export const findVariant = (
+  variants: ProductVariant[],
+  options: ProductOption[],
+  selection: OptionSelection
+): ProductVariant | undefined => {
+  if (options.some(option => !selection[option.name])) return undefined;
+  return variants.find(variant => options.every(option => variant.options[option.name] === selection[option.name]));
+};
+
+// Whether picking this value, keeping the other choices, leads to something in stock
+export const isOptionValueAvailable = (
+  variants: ProductVariant[],
+  selection: OptionSelection,
+  optionName: string,
+  value: string
+): boolean => {
+  return variants.some(variant =>
+    variant.options[optionName] === value && variant.stock > 0 && matches(variant, selection, optionName)
+  );
+};
+
+// Pick a value. When no variant has that combination the other choices jump
+// to the closest one that does, preferring variants in stock.
+export const selectOptionValue = (
+  variants: ProductVariant[],
+  selection: OptionSelection,
+  optionName: string,
+  value: string
+): OptionSelection => {
+  const next = { ...selection, [optionName]: value };
+  const candidates = variants.filter(variant => variant.options[optionName] === value);
+  const exact = candidates.find(variant => matches(variant, next));
+  if (exact || candidates.length === 0) return next;
+
+  const fallback = candidates.find(variant => variant.stock > 0) || candidates[0];
+  return { ...fallback.options };
+};
+
+// Start on the first variant that can be bought
+export const getDefaultSelection = (variants: ProductVariant[]): OptionSelection => {
+  const variant = variants.find(v => v.stock > 0) || variants[0];
+  return variant ? { ...variant.options } : {};
+};
+
+// Every combination of option values, in option order
+export const buildVariantCombinations = (options: ProductOption[]): OptionSelection[] => {
+  return options
+    .filter(option => option.name && option.values.length > 0)
+    .reduce<OptionSelection[]>(
+      (combinations, option) => combinations.flatMap(combination =>
+        option.values.map(value => ({ ...combination, [option.name]: value }))
+      ),
+      [{}]
+    );
+};
+
+// "M / Red", matching product_variants.name
+export const getVariantName = (selection: OptionSelection, options: ProductOption[]): string => {
+  return options.map(option => selection[option.name]).filter(Boolean).join(' / ');
+};
+
+// Drop blank options and duplicate values
+export const parseOptionDrafts = (options: OptionDraft[]): ProductOption[] => {
+  return options
+    .map(option => ({
+      name: option.name.trim(),
+      values: [...new Set(option.values.split(',').map(value => value.trim()).filter(Boolean))],
+    }))
+    .filter(option => option.name && option.values.length > 0);
+};
@@ -0,0 +1,53 @@
+// Named wishlists, sharing and alerts. Keep in sync with
+// supabase/migrations/20250611_wishlist_lists.sql
+import { supabase } from '@/integrations/supabase/client';
+
+export type NotificationType = 'price_drop' | 'back_in_stock';
+
+export interface WishlistList {
+  id: string;
+  name: string;
+  is_default: boolean;
+  is_public: boolean;
+  share_token: string;
+}
+
+export interface AppNotification {
+  id: string;
+  type: NotificationType | string;
+  title: string;
+  body: string | null;
+  link: string | null;
+  read_at: string | null;
+  created_at: string;
+}
+
+export const NOTIFICATIONS_LIMIT = 20;
+
+export const getShareUrl = (shareToken: string) =>
+  `${window.location.origin}/wishlist/shared/${shareToken}`;
+
+// Adds to the given list, or to the default list (created on first use).
+// Resolves to the id of the list the product landed in.
+export const addToWishlist = async (productId: string, listId?: string): Promise<string> => {
+  const { data, error } = await supabase.rpc('add_to_wishlist', {
+    _product_id: productId,
+    _list_id: listId,
+  });
+  if (error) throw error;
+  return data;
+};
+
+// Messages for constraint violations on wishlist_lists
+export const describeWishlistError = (error: { message?: string }): string => {
+  if (error.message?.includes('wishlist_lists_user_id_name_key')) {
+    return 'You already have a list with that name.';
+  }
+  if (error.message?.includes('wishlist_lists_name_check')) {
+    return 'Give the list a name.';
+  }
+  if (error.message === 'not_authorized') {
+    return "You don't have permission to do that.";
+  }
+  return 'Something went wrong. Please try again.';
+};
@@ -12,7 +12,10 @@ import {
   BarChart3,
   UserPlus,
   FileCheck,
-  LogOut
+  LogOut,
+  Tag,
+  FolderTree,
+  MessageSquare
 } from 'lucide-react';
 
 export default function AdminDashboardPage() {
@@ -43,12 +46,30 @@ export default function AdminDashboardPage() {
       link: '/admin/products',
       description: 'Add, edit, and remove products'
     },
+    {
+      title: 'Categories',
+      icon: <FolderTree className="h-5 w-5" />,
+      link: '/admin/categories',
+      description: 'Organize categories and subcategories'
+    },
+    {
+      title: 'Reviews',
+      icon: <MessageSquare className="h-5 w-5" />,
+      link: '/admin/reviews',
+      description: 'Moderate reported product reviews'
+    },
     {
       title: 'Order Management',
       icon: <ShoppingBag className="h-5 w-5" />,
       link: '/admin/orders',
       description: 'View and manage customer orders'
     },
+    {
+      title: 'Promotions',
+      icon: <Tag className="h-5 w-5" />,
+      link: '/admin/promotions',
+      description: 'Create coupon codes and discounts'
+    },
     {
       title: 'Analytics',
       icon: <BarChart3 className="h-5 w-5" />,
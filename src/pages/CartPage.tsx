@@ -1,18 +1,45 @@
 
-import React from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import { Link, useNavigate } from 'react-router-dom';
-import { useCart } from '@/context/CartContext';
+import { useCart, CartChange } from '@/context/CartContext';
 import { useAuth } from '@/context/AuthContext';
 import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 import { 
   Trash2, 
   Plus, 
   Minus, 
   ShoppingCart, 
   ArrowRight,
-  RefreshCw
+  RefreshCw,
+  AlertTriangle,
+  Loader2,
+  Tag,
+  X
 } from 'lucide-react';
 import { toast } from '@/hooks/use-toast';
+import { calculateShipping, FREE_SHIPPING_THRESHOLD, getItemPrice } from '@/lib/checkout';
+
+// Describe a cart change in words for the review panel
+const describeCartChange = (change: CartChange): string => {
+  switch (change.type) {
+    case 'price_changed':
+      return `Price changed from $${change.old_price?.toFixed(2)} to $${change.new_price?.toFixed(2)}`;
+    case 'quantity_reduced':
+      return `Only ${change.available} left, quantity will be reduced from ${change.old_quantity}`;
+    case 'out_of_stock':
+      return 'Now out of stock and will be removed';
+    case 'removed':
+      return 'No longer available and will be removed';
+    default:
+      return 'Changed';
+  }
+};
+
+const isSameLine = (item: { product_id: string; variant_id: string | null }, change: CartChange) => {
+  return item.product_id === change.product_id && item.variant_id === change.variant_id;
+};
 
 export default function CartPage() {
   const { 
@@ -20,18 +47,54 @@ export default function CartPage() {
     cartCount, 
     removeFromCart,
     updateQuantity,
-    clearCart 
+    clearCart,
+    isLoading,
+    cartChanges,
+    isRevalidating,
+    revalidateCart,
+    acknowledgeCartChanges,
+    appliedPromotion,
+    isApplyingPromotion,
+    applyPromotion,
+    removePromotion
   } = useCart();
   const { isAuthenticated } = useAuth();
   const navigate = useNavigate();
+  const hasRevalidated = useRef(false);
+  const [promotionCode, setPromotionCode] = useState('');
+  
+  // Check the cart against current prices and stock once it has loaded
+  useEffect(() => {
+    if (!isLoading && !hasRevalidated.current && cartItems.length > 0) {
+      hasRevalidated.current = true;
+      revalidateCart().catch(() => {
+        // Already reported by the cart context
+      });
+    }
+  }, [isLoading, cartItems.length, revalidateCart]);
+  
+  // Only show changes for lines still in the cart
+  const pendingChanges = cartChanges.filter(change =>
+    cartItems.some(item => isSameLine(item, change))
+  );
   
   // Calculate cart total from cartItems
   const cartTotal = cartItems.reduce((total, item) => {
-    const itemPrice = item.discounted_price || item.price;
-    return total + (itemPrice * item.quantity);
+    return total + (getItemPrice(item) * item.quantity);
   }, 0);
+  const shippingCost = calculateShipping(cartTotal);
+  const discount = appliedPromotion?.discount ?? 0;
+  const shippingDiscount = appliedPromotion?.shipping_discount ?? 0;
+  const orderTotal = Math.max(cartTotal - discount, 0) + shippingCost - shippingDiscount;
 
-  const handleCheckout = () => {
+  const handleApplyPromotion = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (await applyPromotion(promotionCode)) {
+      setPromotionCode('');
+    }
+  };
+
+  const handleCheckout = async () => {
     if (!isAuthenticated) {
       toast({
         title: "Login required",
@@ -42,14 +105,22 @@ export default function CartPage() {
       return;
     }
 
-    // In a real implementation, this would redirect to a checkout page
-    toast({
-      title: "Checkout initiated",
-      description: "Processing your order...",
-    });
-    // Clear cart after simulated checkout
-    clearCart();
-    navigate('/checkout-success');
+    // Make sure the customer sees any price or stock changes before paying
+    try {
+      const changes = await revalidateCart();
+      if (changes.length > 0) {
+        toast({
+          title: "Your cart has changed",
+          description: "Please review the updated items before checking out.",
+          variant: "destructive",
+        });
+        return;
+      }
+    } catch (error) {
+      return;
+    }
+
+    navigate('/checkout');
   };
 
   return (
@@ -69,6 +140,25 @@ export default function CartPage() {
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
           {/* Cart items */}
           <div className="lg:col-span-2">
+            {pendingChanges.length > 0 && (
+              <Alert variant="destructive" className="mb-6 bg-white">
+                <AlertTriangle className="h-4 w-4" />
+                <AlertTitle>Some items in your cart have changed</AlertTitle>
+                <AlertDescription>
+                  <ul className="mt-2 space-y-1">
+                    {pendingChanges.map(change => (
+                      <li key={`${change.product_id}-${change.variant_id}-${change.type}`}>
+                        <span className="font-medium">{change.name}:</span> {describeCartChange(change)}
+                      </li>
+                    ))}
+                  </ul>
+                  <Button size="sm" className="mt-4" onClick={acknowledgeCartChanges}>
+                    Accept Changes
+                  </Button>
+                </AlertDescription>
+              </Alert>
+            )}
+            
             <div className="bg-white rounded-lg shadow-sm overflow-hidden">
               <div className="divide-y divide-gray-200">
                 {cartItems.map((item) => (
@@ -91,6 +181,16 @@ export default function CartPage() {
                               {item.name}
                             </Link>
                           </h3>
+                          {item.variant_name && (
+                            <p className="text-sm text-gray-500">{item.variant_name}</p>
+                          )}
+                          {pendingChanges
+                            .filter(change => isSameLine(item, change))
+                            .map(change => (
+                              <p key={change.type} className="mt-1 text-sm text-red-600">
+                                {describeCartChange(change)}
+                              </p>
+                            ))}
                         </div>
                         <div className="mt-2 sm:mt-0 font-medium text-gray-900">
                           ${((item.discounted_price || item.price) * item.quantity).toFixed(2)}
@@ -104,7 +204,7 @@ export default function CartPage() {
                             variant="outline" 
                             size="icon" 
                             className="h-8 w-8 rounded-r-none"
-                            onClick={() => updateQuantity(item.product_id, item.quantity - 1)}
+                            onClick={() => updateQuantity(item.product_id, item.quantity - 1, item.variant_id)}
                           >
                             <Minus className="h-3 w-3" />
                           </Button>
@@ -115,7 +215,7 @@ export default function CartPage() {
                             variant="outline" 
                             size="icon" 
                             className="h-8 w-8 rounded-l-none"
-                            onClick={() => updateQuantity(item.product_id, item.quantity + 1)}
+                            onClick={() => updateQuantity(item.product_id, item.quantity + 1, item.variant_id)}
                           >
                             <Plus className="h-3 w-3" />
                           </Button>
@@ -125,7 +225,7 @@ export default function CartPage() {
                         <Button 
                           variant="ghost" 
                           size="sm" 
-                          onClick={() => removeFromCart(item.product_id)}
+                          onClick={() => removeFromCart(item.product_id, item.variant_id)}
                           className="text-gray-600 hover:text-red-600"
                         >
                           <Trash2 className="h-4 w-4 mr-1" />
@@ -173,32 +273,91 @@ export default function CartPage() {
                   <span className="font-medium">${cartTotal.toFixed(2)}</span>
                 </div>
                 
+                {discount > 0 && (
+                  <div className="flex justify-between text-green-600">
+                    <span>Discount ({appliedPromotion?.code})</span>
+                    <span className="font-medium">-${discount.toFixed(2)}</span>
+                  </div>
+                )}
+                
                 <div className="flex justify-between">
                   <span className="text-gray-600">Shipping</span>
                   <span className="font-medium">
-                    {cartTotal >= 50 ? 'Free' : '$4.99'}
+                    {shippingCost - shippingDiscount === 0 ? 'Free' : `$${shippingCost.toFixed(2)}`}
                   </span>
                 </div>
                 
                 <div className="border-t border-gray-200 pt-4 flex justify-between">
                   <span className="text-lg font-semibold">Total</span>
                   <span className="text-lg font-semibold">
-                    ${(cartTotal + (cartTotal >= 50 ? 0 : 4.99)).toFixed(2)}
+                    ${orderTotal.toFixed(2)}
                   </span>
                 </div>
               </div>
               
+              {/* Promotion code */}
+              <div className="mt-6">
+                {appliedPromotion ? (
+                  <div className="flex items-center justify-between rounded-md border border-green-200 bg-green-50 px-3 py-2 text-sm">
+                    <div className="flex items-center text-green-700">
+                      <Tag className="mr-2 h-4 w-4" />
+                      <span>
+                        <span className="font-medium">{appliedPromotion.code}</span> &middot; {appliedPromotion.name}
+                      </span>
+                    </div>
+                    <button
+                      onClick={removePromotion}
+                      className="text-gray-500 hover:text-red-500"
+                      aria-label="Remove promotion"
+                    >
+                      <X className="h-4 w-4" />
+                    </button>
+                  </div>
+                ) : isAuthenticated ? (
+                  <form onSubmit={handleApplyPromotion} className="flex space-x-2">
+                    <Input
+                      value={promotionCode}
+                      onChange={(e) => setPromotionCode(e.target.value)}
+                      placeholder="Promotion code"
+                      className="uppercase"
+                    />
+                    <Button
+                      type="submit"
+                      variant="outline"
+                      disabled={!promotionCode.trim() || isApplyingPromotion}
+                    >
+                      {isApplyingPromotion ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Apply'}
+                    </Button>
+                  </form>
+                ) : (
+                  <p className="text-sm text-gray-500">
+                    <Link to="/login" state={{ from: '/cart' }} className="text-shop-purple hover:underline">Sign in</Link> to use a promotion code.
+                  </p>
+                )}
+              </div>
+              
               <Button
                 className="w-full mt-6 bg-shop-purple hover:bg-shop-purple-dark"
                 onClick={handleCheckout}
+                disabled={isRevalidating || pendingChanges.length > 0}
               >
-                <ShoppingCart className="mr-2 h-5 w-5" />
+                {isRevalidating ? (
+                  <Loader2 className="mr-2 h-5 w-5 animate-spin" />
+                ) : (
+                  <ShoppingCart className="mr-2 h-5 w-5" />
+                )}
                 Proceed to Checkout
               </Button>
               
+              {pendingChanges.length > 0 && (
+                <p className="mt-2 text-sm text-red-600 text-center">
+                  Review the changes to your cart to continue.
+                </p>
+              )}
+              
               <div className="mt-6 text-sm text-gray-500">
                 <p className="mb-2">
-                  Free shipping on orders over $50.
+                  Free shipping on orders over ${FREE_SHIPPING_THRESHOLD}.
                 </p>
                 <p>
                   Need help? <Link to="/contact" className="text-shop-purple hover:underline">Contact us</Link>
@@ -1,20 +1,28 @@
-
 import React from 'react';
 import { useParams, Link } from 'react-router-dom';
-import { getProductsByCategory, categories } from '@/lib/data';
-import { ProductCard } from '@/components/ProductCard';
+import ProductListing from '@/components/product/ProductListing';
+import CategoryBreadcrumbs from '@/components/product/CategoryBreadcrumbs';
 import { Button } from '@/components/ui/button';
+import { Loader2 } from 'lucide-react';
+import { useCategories } from '@/hooks/use-categories';
+import { getChildCategories } from '@/lib/categories';
 
 export default function CategoryPage() {
-  const { category } = useParams<{ category: string }>();
-  
-  // Get products in this category
-  const products = category ? getProductsByCategory(category) : [];
-  
-  // Check if category exists
-  const categoryExists = category && categories.includes(category);
+  const { slug } = useParams<{ slug: string }>();
+  const { data: categories = [], isLoading } = useCategories();
+
+  const category = categories.find(c => c.slug === slug);
+  const subcategories = category ? getChildCategories(categories, category.id) : [];
+
+  if (isLoading) {
+    return (
+      <div className="container mx-auto px-4 py-16 flex justify-center">
+        <Loader2 className="h-8 w-8 animate-spin text-shop-purple" />
+      </div>
+    );
+  }
 
-  if (!categoryExists) {
+  if (!category) {
     return (
       <div className="container mx-auto px-4 py-16 text-center">
         <h1 className="text-2xl font-bold mb-4">Category Not Found</h1>
@@ -28,38 +36,26 @@ export default function CategoryPage() {
 
   return (
     <div className="container mx-auto px-4 py-8">
-      {/* Breadcrumbs */}
-      <nav className="flex mb-6 text-sm text-gray-500">
-        <ol className="flex items-center space-x-1">
-          <li><Link to="/" className="hover:text-shop-purple">Home</Link></li>
-          <li><span>&gt;</span></li>
-          <li className="text-gray-900 font-medium">{category}</li>
-        </ol>
-      </nav>
-      
+      <CategoryBreadcrumbs categoryId={category.id} className="mb-6" />
+
       <div className="mb-8">
-        <h1 className="text-3xl font-bold text-gray-900">{category}</h1>
+        <h1 className="text-3xl font-bold text-gray-900">{category.name}</h1>
         <p className="text-gray-600 mt-2">
-          Browse our selection of {products.length} products in the {category} category.
+          {category.description || `Browse our selection of products in the ${category.name} category.`}
         </p>
+
+        {subcategories.length > 0 && (
+          <div className="flex flex-wrap gap-2 mt-4">
+            {subcategories.map(subcategory => (
+              <Button key={subcategory.id} variant="outline" size="sm" asChild>
+                <Link to={`/category/${subcategory.slug}`}>{subcategory.name}</Link>
+              </Button>
+            ))}
+          </div>
+        )}
       </div>
-      
-      {/* Products grid */}
-      {products.length > 0 ? (
-        <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-6">
-          {products.map((product) => (
-            <ProductCard key={product.id} product={product} />
-          ))}
-        </div>
-      ) : (
-        <div className="text-center py-16">
-          <h2 className="text-xl font-medium mb-2">No products found</h2>
-          <p className="text-gray-600 mb-6">There are no products available in this category yet.</p>
-          <Button asChild>
-            <Link to="/">Continue Shopping</Link>
-          </Button>
-        </div>
-      )}
+
+      <ProductListing category={category.slug} />
     </div>
   );
 }
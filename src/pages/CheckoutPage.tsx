@@ -0,0 +1,853 @@
+
+import React, { useEffect, useRef, useState } from 'react';
+import { Link, Navigate, useNavigate } from 'react-router-dom';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { FunctionsHttpError } from '@supabase/supabase-js';
+import { useCart } from '@/context/CartContext';
+import { useAuth } from '@/context/AuthContext';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form';
+import {
+  calculateShipping,
+  CardDetails,
+  getItemPrice,
+  isGatewayPayment,
+  paymentMethodLabels,
+  PaymentMethod,
+  ShippingAddress,
+} from '@/lib/checkout';
+import {
+  AlertCircle,
+  ArrowLeft,
+  ArrowRight,
+  Banknote,
+  CheckCircle,
+  CreditCard,
+  Loader2,
+  Lock,
+  MapPin,
+  Timer,
+  Wallet,
+} from 'lucide-react';
+
+const shippingSchema = z.object({
+  first_name: z.string().min(1, 'First name is required'),
+  last_name: z.string().min(1, 'Last name is required'),
+  phone: z.string().optional(),
+  address: z.string().min(3, 'Street address is required'),
+  city: z.string().min(1, 'City is required'),
+  state: z.string().min(1, 'State is required'),
+  postal_code: z.string().min(3, 'Postal code is required'),
+  country: z.string().min(2, 'Country is required'),
+});
+
+type CheckoutStep = 'shipping' | 'payment' | 'review';
+
+const steps: { id: CheckoutStep; label: string }[] = [
+  { id: 'shipping', label: 'Shipping' },
+  { id: 'payment', label: 'Payment' },
+  { id: 'review', label: 'Review' },
+];
+
+const paymentMethodIcons: Record<PaymentMethod, React.ReactNode> = {
+  credit_card: <CreditCard className="h-5 w-5" />,
+  paypal: <Wallet className="h-5 w-5" />,
+  cash_on_delivery: <Banknote className="h-5 w-5" />,
+};
+
+interface CheckoutProblem {
+  product_id: string;
+  variant_id?: string | null;
+  name?: string;
+  reason: string;
+  available?: number;
+}
+
+interface PaymentChallenge {
+  payment_id: string;
+  message: string;
+  hint?: string;
+}
+
+// Edge functions answer non-2xx requests with a JSON body describing the problem
+const readFunctionError = async (error: unknown): Promise<{ error?: string; problems?: CheckoutProblem[] } | null> => {
+  if (error instanceof FunctionsHttpError) {
+    return await error.context.json().catch(() => null);
+  }
+  return null;
+};
+
+export default function CheckoutPage() {
+  const { cartItems, cartCount, clearCart, appliedPromotion } = useCart();
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const navigate = useNavigate();
+
+  const [step, setStep] = useState<CheckoutStep>('shipping');
+  const [shippingAddress, setShippingAddress] = useState<ShippingAddress | null>(null);
+  const [paymentMethod, setPaymentMethod] = useState<PaymentMethod>('credit_card');
+  const [isPlacingOrder, setIsPlacingOrder] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [problems, setProblems] = useState<CheckoutProblem[]>([]);
+  const [reservedUntil, setReservedUntil] = useState<Date | null>(null);
+  const [isReserving, setIsReserving] = useState(false);
+  const [cardDetails, setCardDetails] = useState<CardDetails>({ number: '', name: '', expiry: '', cvc: '' });
+  const [paypalEmail, setPaypalEmail] = useState('');
+  // Set once the order exists, so a declined payment can be retried without re-ordering
+  const [pendingOrderId, setPendingOrderId] = useState<string | null>(null);
+  const [challenge, setChallenge] = useState<PaymentChallenge | null>(null);
+  const [challengeResponse, setChallengeResponse] = useState('');
+  const orderPlaced = useRef(false);
+
+  const form = useForm<ShippingAddress>({
+    resolver: zodResolver(shippingSchema),
+    defaultValues: {
+      first_name: '',
+      last_name: '',
+      phone: '',
+      address: '',
+      city: '',
+      state: '',
+      postal_code: '',
+      country: '',
+    },
+  });
+
+  // Prefill the shipping form from the customer's profile
+  useEffect(() => {
+    if (!user?.id) return;
+
+    const loadProfile = async () => {
+      const { data: profile, error } = await supabase
+        .from('profiles')
+        .select('first_name, last_name, phone, address, city, state, postal_code, country')
+        .eq('id', user.id)
+        .maybeSingle();
+
+      if (error) {
+        console.error('Error loading profile for checkout:', error);
+        return;
+      }
+
+      if (profile) {
+        form.reset({
+          first_name: profile.first_name || '',
+          last_name: profile.last_name || '',
+          phone: profile.phone || '',
+          address: profile.address || '',
+          city: profile.city || '',
+          state: profile.state || '',
+          postal_code: profile.postal_code || '',
+          country: profile.country || '',
+        });
+      }
+    };
+
+    loadProfile();
+  }, [user?.id, form]);
+
+  const subtotal = cartItems.reduce((total, item) => total + getItemPrice(item) * item.quantity, 0);
+  const shippingCost = calculateShipping(subtotal);
+  const discount = appliedPromotion?.discount ?? 0;
+  const shippingDiscount = appliedPromotion?.shipping_discount ?? 0;
+  const orderTotal = Math.max(subtotal - discount, 0) + shippingCost - shippingDiscount;
+
+  // Release any held stock if the customer leaves without ordering
+  useEffect(() => {
+    return () => {
+      if (!orderPlaced.current) {
+        supabase.functions.invoke('checkout_functions', { body: { action: 'release_stock' } })
+          .catch(err => console.error('Error releasing stock:', err));
+      }
+    };
+  }, []);
+
+  const onShippingSubmit = (values: ShippingAddress) => {
+    setShippingAddress(values);
+    setStep('payment');
+  };
+
+  const paymentDetailsMissing = paymentMethod === 'credit_card'
+    ? !cardDetails.number.trim() || !cardDetails.name.trim() || !/^\d{2}\/\d{2}$/.test(cardDetails.expiry) || !/^\d{3,4}$/.test(cardDetails.cvc)
+    : paymentMethod === 'paypal' && !paypalEmail.trim();
+
+  // Hold the cart's stock while the customer reviews the order
+  const goToReview = async () => {
+    setError(null);
+    setProblems([]);
+
+    // The stock was already taken when the order was created
+    if (pendingOrderId) {
+      setStep('review');
+      return;
+    }
+
+    setIsReserving(true);
+
+    try {
+      const { data, error } = await supabase.functions.invoke('checkout_functions', {
+        body: {
+          action: 'reserve_stock',
+          items: cartItems.map(item => ({
+            product_id: item.product_id,
+            variant_id: item.variant_id,
+            quantity: item.quantity,
+          })),
+        },
+      });
+
+      if (error) {
+        const body = await readFunctionError(error);
+        setProblems(body?.problems || []);
+        throw new Error(body?.error || error.message);
+      }
+
+      setReservedUntil(data?.expires_at ? new Date(data.expires_at) : null);
+      setStep('review');
+    } catch (err) {
+      console.error('Error reserving stock:', err);
+      setError(err instanceof Error ? err.message : 'We could not reserve your items.');
+    } finally {
+      setIsReserving(false);
+    }
+  };
+
+  const finishCheckout = (orderId: string) => {
+    clearCart();
+    navigate(`/checkout-success/${orderId}`, { replace: true });
+  };
+
+  // Handle the payment function's answer; returns true when the order is paid
+  const handlePaymentResult = async (
+    data: { payment?: { id: string; status: string }; challenge?: Omit<PaymentChallenge, 'payment_id'> } | null,
+    error: unknown,
+    orderId: string
+  ) => {
+    if (error) {
+      const body = await readFunctionError(error);
+      throw new Error(body?.error || (error instanceof Error ? error.message : 'Payment failed'));
+    }
+
+    if (data?.payment?.status === 'requires_action' && data.challenge) {
+      setChallengeResponse('');
+      setChallenge({ payment_id: data.payment.id, ...data.challenge });
+      return false;
+    }
+
+    if (data?.payment?.status === 'captured' || data?.payment?.status === 'authorized') {
+      setChallenge(null);
+      finishCheckout(orderId);
+      return true;
+    }
+
+    throw new Error('Your payment could not be completed. Please try again.');
+  };
+
+  const placeOrder = async () => {
+    if (!shippingAddress || isPlacingOrder) return;
+
+    setIsPlacingOrder(true);
+    setError(null);
+    setProblems([]);
+
+    try {
+      let orderId = pendingOrderId;
+
+      if (!orderId) {
+        const { data, error } = await supabase.functions.invoke('checkout_functions', {
+          body: {
+            action: 'create_order',
+            items: cartItems.map(item => ({
+              product_id: item.product_id,
+              variant_id: item.variant_id,
+              quantity: item.quantity,
+            })),
+            shipping: shippingAddress,
+            payment_method: paymentMethod,
+            promotion_code: appliedPromotion?.code,
+          },
+        });
+
+        if (error) {
+          const body = await readFunctionError(error);
+          setProblems(body?.problems || []);
+          throw new Error(body?.error || error.message);
+        }
+
+        orderId = data?.order?.id;
+        if (!orderId) {
+          throw new Error('The order was not created. Please try again.');
+        }
+
+        orderPlaced.current = true;
+        setPendingOrderId(orderId);
+      }
+
+      // Cash on delivery is collected by the courier
+      if (!isGatewayPayment(paymentMethod)) {
+        finishCheckout(orderId);
+        return;
+      }
+
+      const { data, error } = await supabase.functions.invoke('payment_functions', {
+        body: {
+          action: 'authorize_payment',
+          order_id: orderId,
+          payment_method: paymentMethod,
+          source: paymentMethod === 'credit_card'
+            ? { card_number: cardDetails.number, name: cardDetails.name, expiry: cardDetails.expiry, cvc: cardDetails.cvc }
+            : { email: paypalEmail },
+        },
+      });
+
+      await handlePaymentResult(data, error, orderId);
+    } catch (err) {
+      console.error('Error placing order:', err);
+      const message = err instanceof Error ? err.message : 'There was a problem placing your order.';
+      setError(message);
+      toast({
+        title: "Checkout failed",
+        description: message,
+        variant: "destructive",
+      });
+    } finally {
+      setIsPlacingOrder(false);
+    }
+  };
+
+  // Send the customer's answer to the bank's challenge
+  const confirmChallenge = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!challenge || !pendingOrderId || isPlacingOrder) return;
+
+    setIsPlacingOrder(true);
+    try {
+      const { data, error } = await supabase.functions.invoke('payment_functions', {
+        body: {
+          action: 'confirm_payment',
+          payment_id: challenge.payment_id,
+          challenge_response: challengeResponse,
+        },
+      });
+
+      await handlePaymentResult(data, error, pendingOrderId);
+    } catch (err) {
+      setChallenge(null);
+      const message = err instanceof Error ? err.message : 'Your bank could not verify this payment.';
+      setError(message);
+      toast({
+        title: "Payment not confirmed",
+        description: message,
+        variant: "destructive",
+      });
+    } finally {
+      setIsPlacingOrder(false);
+    }
+  };
+
+  if (cartCount === 0 && !isPlacingOrder) {
+    return <Navigate to="/cart" replace />;
+  }
+
+  const currentStepIndex = steps.findIndex(s => s.id === step);
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      {/* Breadcrumbs */}
+      <nav className="flex mb-6 text-sm text-gray-500">
+        <ol className="flex items-center space-x-1">
+          <li><Link to="/" className="hover:text-shop-purple">Home</Link></li>
+          <li><span>&gt;</span></li>
+          <li><Link to="/cart" className="hover:text-shop-purple">Shopping Cart</Link></li>
+          <li><span>&gt;</span></li>
+          <li className="text-gray-900 font-medium">Checkout</li>
+        </ol>
+      </nav>
+
+      <h1 className="text-3xl font-bold text-gray-900 mb-8">Checkout</h1>
+
+      {/* Step indicator */}
+      <div className="flex items-center mb-8">
+        {steps.map((s, index) => (
+          <React.Fragment key={s.id}>
+            <div className="flex items-center">
+              <div
+                className={`w-8 h-8 flex items-center justify-center rounded-full text-sm font-medium ${
+                  index <= currentStepIndex ? 'bg-shop-purple text-white' : 'bg-gray-100 text-gray-500'
+                }`}
+              >
+                {index < currentStepIndex ? <CheckCircle className="h-4 w-4" /> : index + 1}
+              </div>
+              <span className={`ml-2 text-sm ${index === currentStepIndex ? 'font-medium text-gray-900' : 'text-gray-500'}`}>
+                {s.label}
+              </span>
+            </div>
+            {index < steps.length - 1 && <div className="flex-1 h-0.5 mx-4 bg-gray-200" />}
+          </React.Fragment>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+        <div className="lg:col-span-2">
+          <div className="bg-white rounded-lg shadow-sm p-6">
+            {error && (
+              <Alert variant="destructive" className="mb-6">
+                <AlertCircle className="h-4 w-4" />
+                <AlertTitle>Could not place order</AlertTitle>
+                <AlertDescription>
+                  {error}
+                  {problems.length > 0 && (
+                    <ul className="mt-2 list-disc pl-5">
+                      {problems.map(problem => (
+                        <li key={`${problem.product_id}-${problem.variant_id}`}>
+                          {problem.name || 'A product'}:{' '}
+                          {problem.reason === 'insufficient_stock'
+                            ? `only ${problem.available} left in stock`
+                            : problem.reason === 'variant_required'
+                              ? 'choose options on the product page'
+                              : 'no longer available'}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                  {problems.length > 0 && (
+                    <Button variant="outline" size="sm" className="mt-3" asChild>
+                      <Link to="/cart">Update Cart</Link>
+                    </Button>
+                  )}
+                </AlertDescription>
+              </Alert>
+            )}
+
+            {step === 'shipping' && (
+              <Form {...form}>
+                <form onSubmit={form.handleSubmit(onShippingSubmit)} className="space-y-4">
+                  <h2 className="text-lg font-semibold text-gray-900 mb-2">Shipping Address</h2>
+
+                  <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                    <FormField
+                      control={form.control}
+                      name="first_name"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>First Name</FormLabel>
+                          <FormControl>
+                            <Input autoComplete="given-name" {...field} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name="last_name"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Last Name</FormLabel>
+                          <FormControl>
+                            <Input autoComplete="family-name" {...field} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  </div>
+
+                  <FormField
+                    control={form.control}
+                    name="phone"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Phone</FormLabel>
+                        <FormControl>
+                          <Input type="tel" autoComplete="tel" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="address"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Street Address</FormLabel>
+                        <FormControl>
+                          <Input autoComplete="street-address" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                    <FormField
+                      control={form.control}
+                      name="city"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>City</FormLabel>
+                          <FormControl>
+                            <Input autoComplete="address-level2" {...field} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name="state"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>State / Province</FormLabel>
+                          <FormControl>
+                            <Input autoComplete="address-level1" {...field} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name="postal_code"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Postal Code</FormLabel>
+                          <FormControl>
+                            <Input autoComplete="postal-code" {...field} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name="country"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Country</FormLabel>
+                          <FormControl>
+                            <Input autoComplete="country-name" {...field} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  </div>
+
+                  <div className="flex justify-between pt-4">
+                    <Button type="button" variant="outline" asChild>
+                      <Link to="/cart">
+                        <ArrowLeft className="mr-2 h-4 w-4" />
+                        Back to Cart
+                      </Link>
+                    </Button>
+                    <Button type="submit" className="bg-shop-purple hover:bg-shop-purple-dark">
+                      Continue to Payment
+                      <ArrowRight className="ml-2 h-4 w-4" />
+                    </Button>
+                  </div>
+                </form>
+              </Form>
+            )}
+
+            {step === 'payment' && (
+              <div className="space-y-4">
+                <h2 className="text-lg font-semibold text-gray-900 mb-2">Payment Method</h2>
+
+                <RadioGroup
+                  value={paymentMethod}
+                  onValueChange={(value) => setPaymentMethod(value as PaymentMethod)}
+                  className="gap-3"
+                >
+                  {(Object.keys(paymentMethodLabels) as PaymentMethod[])
+                    .filter(method => !pendingOrderId || isGatewayPayment(method))
+                    .map(method => (
+                      <Label
+                        key={method}
+                        htmlFor={`payment-${method}`}
+                        className={`flex items-center gap-3 p-4 border rounded-md cursor-pointer ${
+                          paymentMethod === method ? 'border-shop-purple bg-shop-purple-light' : 'border-gray-200'
+                        }`}
+                      >
+                        <RadioGroupItem value={method} id={`payment-${method}`} />
+                        {paymentMethodIcons[method]}
+                        <span className="font-medium">{paymentMethodLabels[method]}</span>
+                      </Label>
+                    ))}
+                </RadioGroup>
+
+                {paymentMethod === 'credit_card' && (
+                  <div className="grid grid-cols-2 gap-4 pt-2">
+                    <div className="col-span-2 space-y-2">
+                      <Label htmlFor="card-number">Card number</Label>
+                      <Input
+                        id="card-number"
+                        inputMode="numeric"
+                        autoComplete="cc-number"
+                        placeholder="4242 4242 4242 4242"
+                        value={cardDetails.number}
+                        onChange={(e) => setCardDetails(prev => ({ ...prev, number: e.target.value }))}
+                      />
+                    </div>
+                    <div className="col-span-2 space-y-2">
+                      <Label htmlFor="card-name">Name on card</Label>
+                      <Input
+                        id="card-name"
+                        autoComplete="cc-name"
+                        value={cardDetails.name}
+                        onChange={(e) => setCardDetails(prev => ({ ...prev, name: e.target.value }))}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="card-expiry">Expiry (MM/YY)</Label>
+                      <Input
+                        id="card-expiry"
+                        autoComplete="cc-exp"
+                        placeholder="12/30"
+                        value={cardDetails.expiry}
+                        onChange={(e) => setCardDetails(prev => ({ ...prev, expiry: e.target.value }))}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="card-cvc">CVC</Label>
+                      <Input
+                        id="card-cvc"
+                        inputMode="numeric"
+                        autoComplete="cc-csc"
+                        value={cardDetails.cvc}
+                        onChange={(e) => setCardDetails(prev => ({ ...prev, cvc: e.target.value }))}
+                      />
+                    </div>
+                  </div>
+                )}
+
+                {paymentMethod === 'paypal' && (
+                  <div className="space-y-2 pt-2">
+                    <Label htmlFor="paypal-email">PayPal email</Label>
+                    <Input
+                      id="paypal-email"
+                      type="email"
+                      value={paypalEmail}
+                      onChange={(e) => setPaypalEmail(e.target.value)}
+                    />
+                  </div>
+                )}
+
+                {pendingOrderId && (
+                  <p className="text-sm text-gray-500">
+                    Your order has been created. Choose another payment method or card to finish paying for it.
+                  </p>
+                )}
+
+                <div className="flex justify-between pt-4">
+                  <Button variant="outline" onClick={() => setStep('shipping')} disabled={!!pendingOrderId}>
+                    <ArrowLeft className="mr-2 h-4 w-4" />
+                    Back
+                  </Button>
+                  <Button
+                    className="bg-shop-purple hover:bg-shop-purple-dark"
+                    onClick={goToReview}
+                    disabled={isReserving || paymentDetailsMissing}
+                  >
+                    {isReserving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                    Review Order
+                    <ArrowRight className="ml-2 h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            )}
+
+            {step === 'review' && shippingAddress && (
+              <div className="space-y-6">
+                <h2 className="text-lg font-semibold text-gray-900">Review Your Order</h2>
+
+                {reservedUntil && (
+                  <div className="flex items-center p-3 bg-blue-50 border border-blue-100 rounded-md text-sm">
+                    <Timer className="h-4 w-4 mr-2 text-blue-600" />
+                    Your items are reserved until {reservedUntil.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}.
+                  </div>
+                )}
+
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                  <div className="p-4 border rounded-md">
+                    <div className="flex items-center justify-between mb-2">
+                      <p className="font-medium flex items-center">
+                        <MapPin className="h-4 w-4 mr-2" />
+                        Ship to
+                      </p>
+                      {!pendingOrderId && (
+                        <Button variant="link" size="sm" className="h-auto p-0" onClick={() => setStep('shipping')}>
+                          Edit
+                        </Button>
+                      )}
+                    </div>
+                    <p className="text-sm text-gray-700">{shippingAddress.first_name} {shippingAddress.last_name}</p>
+                    <p className="text-sm text-gray-700">{shippingAddress.address}</p>
+                    <p className="text-sm text-gray-700">
+                      {shippingAddress.city}, {shippingAddress.state} {shippingAddress.postal_code}
+                    </p>
+                    <p className="text-sm text-gray-700">{shippingAddress.country}</p>
+                  </div>
+
+                  <div className="p-4 border rounded-md">
+                    <div className="flex items-center justify-between mb-2">
+                      <p className="font-medium flex items-center">
+                        <CreditCard className="h-4 w-4 mr-2" />
+                        Payment
+                      </p>
+                      <Button variant="link" size="sm" className="h-auto p-0" onClick={() => setStep('payment')}>
+                        Edit
+                      </Button>
+                    </div>
+                    <p className="text-sm text-gray-700">{paymentMethodLabels[paymentMethod]}</p>
+                    {paymentMethod === 'credit_card' && cardDetails.number && (
+                      <p className="text-sm text-gray-500">Card ending in {cardDetails.number.replace(/\D/g, '').slice(-4)}</p>
+                    )}
+                    {paymentMethod === 'paypal' && paypalEmail && (
+                      <p className="text-sm text-gray-500">{paypalEmail}</p>
+                    )}
+                  </div>
+                </div>
+
+                <div className="divide-y divide-gray-200 border rounded-md">
+                  {cartItems.map(item => (
+                    <div key={item.id} className="p-4 flex items-center">
+                      <img
+                        src={item.image_url || '/placeholder.svg'}
+                        alt={item.name}
+                        className="w-16 h-16 object-cover rounded-md"
+                      />
+                      <div className="flex-1 ml-4">
+                        <p className="font-medium text-gray-900">{item.name}</p>
+                        {item.variant_name && (
+                          <p className="text-sm text-gray-500">{item.variant_name}</p>
+                        )}
+                        <p className="text-sm text-gray-500">
+                          {item.quantity} × ${getItemPrice(item).toFixed(2)}
+                        </p>
+                      </div>
+                      <p className="font-medium">${(getItemPrice(item) * item.quantity).toFixed(2)}</p>
+                    </div>
+                  ))}
+                </div>
+
+                <div className="flex justify-between pt-2">
+                  <Button variant="outline" onClick={() => setStep('payment')} disabled={isPlacingOrder}>
+                    <ArrowLeft className="mr-2 h-4 w-4" />
+                    Back
+                  </Button>
+                  <Button
+                    className="bg-shop-purple hover:bg-shop-purple-dark"
+                    onClick={placeOrder}
+                    disabled={isPlacingOrder}
+                  >
+                    {isPlacingOrder && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                    {pendingOrderId ? 'Pay Now' : 'Place Order'}
+                  </Button>
+                </div>
+              </div>
+            )}
+          </div>
+        </div>
+
+        {/* Order summary */}
+        <div>
+          <div className="bg-white rounded-lg shadow-sm p-6 sticky top-24">
+            <h2 className="text-lg font-semibold text-gray-900 mb-4">Order Summary</h2>
+
+            <div className="space-y-4">
+              <div className="flex justify-between">
+                <span className="text-gray-600">Subtotal ({cartCount} items)</span>
+                <span className="font-medium">${subtotal.toFixed(2)}</span>
+              </div>
+
+              {discount > 0 && (
+                <div className="flex justify-between text-green-600">
+                  <span>Discount ({appliedPromotion?.code})</span>
+                  <span className="font-medium">-${discount.toFixed(2)}</span>
+                </div>
+              )}
+
+              <div className="flex justify-between">
+                <span className="text-gray-600">Shipping</span>
+                <span className="font-medium">
+                  {shippingCost - shippingDiscount === 0 ? 'Free' : `$${shippingCost.toFixed(2)}`}
+                </span>
+              </div>
+
+              <div className="border-t border-gray-200 pt-4 flex justify-between">
+                <span className="text-lg font-semibold">Total</span>
+                <span className="text-lg font-semibold">${orderTotal.toFixed(2)}</span>
+              </div>
+            </div>
+
+            <p className="mt-6 text-xs text-gray-500">
+              Prices and stock are confirmed when you place the order.
+            </p>
+          </div>
+        </div>
+      </div>
+
+      {/* Bank authentication (3-D Secure) */}
+      <Dialog open={!!challenge} onOpenChange={(open) => !open && !isPlacingOrder && setChallenge(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle className="flex items-center">
+              <Lock className="h-5 w-5 mr-2" />
+              Confirm your payment
+            </DialogTitle>
+            <DialogDescription>{challenge?.message}</DialogDescription>
+          </DialogHeader>
+          <form onSubmit={confirmChallenge} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="challenge-response">Verification code</Label>
+              <Input
+                id="challenge-response"
+                inputMode="numeric"
+                autoComplete="one-time-code"
+                value={challengeResponse}
+                onChange={(e) => setChallengeResponse(e.target.value)}
+              />
+              {challenge?.hint && <p className="text-xs text-gray-500">{challenge.hint}</p>}
+            </div>
+            <DialogFooter>
+              <Button
+                type="submit"
+                className="bg-shop-purple hover:bg-shop-purple-dark"
+                disabled={!challengeResponse.trim() || isPlacingOrder}
+              >
+                {isPlacingOrder && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Confirm
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
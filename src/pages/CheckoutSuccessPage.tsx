@@ -1,13 +1,106 @@
 
-import React from 'react';
-import { Link } from 'react-router-dom';
+import React, { useEffect, useState } from 'react';
+import { Link, useLocation, useParams } from 'react-router-dom';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/context/AuthContext';
 import { Button } from '@/components/ui/button';
-import { CheckCircle, ShoppingBag, Home, Truck } from 'lucide-react';
+import { paymentMethodLabels, PaymentMethod } from '@/lib/checkout';
+import { CheckCircle, ShoppingBag, Home, Truck, Loader2, AlertCircle } from 'lucide-react';
+
+interface ConfirmedOrder {
+  id: string;
+  created_at: string;
+  total: number;
+  discount_total: number;
+  promotion_code: string | null;
+  payment_method: string | null;
+  shipping_address: string;
+  shipping_city: string;
+  shipping_state: string;
+  shipping_postal_code: string;
+}
 
 export default function CheckoutSuccessPage() {
-  // Generate a random order number
-  const orderNumber = `OR${Math.floor(100000 + Math.random() * 900000)}`;
-  
+  const { orderId } = useParams<{ orderId: string }>();
+  const { user, authState } = useAuth();
+  const location = useLocation();
+  const [order, setOrder] = useState<ConfirmedOrder | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    // Wait for auth to settle; a signed-out visitor gets the sign-in prompt below
+    if (authState === 'initializing') return;
+
+    if (!orderId || !user?.id) {
+      setOrder(null);
+      setLoading(false);
+      return;
+    }
+
+    const fetchOrder = async () => {
+      setLoading(true);
+      const { data, error } = await supabase
+        .from('orders')
+        .select('id, created_at, total, discount_total, promotion_code, payment_method, shipping_address, shipping_city, shipping_state, shipping_postal_code')
+        .eq('id', orderId)
+        .eq('user_id', user.id)
+        .maybeSingle();
+
+      if (error) {
+        console.error('Error fetching confirmed order:', error);
+      }
+
+      setOrder(data);
+      setLoading(false);
+    };
+
+    fetchOrder();
+  }, [orderId, user?.id, authState]);
+
+  if (loading) {
+    return (
+      <div className="container mx-auto px-4 py-12 flex justify-center">
+        <Loader2 className="h-8 w-8 animate-spin text-shop-purple" />
+      </div>
+    );
+  }
+
+  if (!user) {
+    return (
+      <div className="container mx-auto px-4 py-12">
+        <div className="max-w-lg mx-auto text-center bg-white rounded-lg shadow-sm p-8">
+          <ShoppingBag className="h-12 w-12 text-shop-purple mx-auto mb-4" />
+          <h1 className="text-2xl font-bold text-gray-900 mb-2">Sign in to view your order</h1>
+          <p className="text-gray-600 mb-6">
+            Your session has ended. Sign in again to see your order confirmation.
+          </p>
+          <Button asChild>
+            <Link to="/login" state={{ from: location.pathname }}>Sign In</Link>
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  if (!order) {
+    return (
+      <div className="container mx-auto px-4 py-12">
+        <div className="max-w-lg mx-auto text-center bg-white rounded-lg shadow-sm p-8">
+          <AlertCircle className="h-12 w-12 text-red-500 mx-auto mb-4" />
+          <h1 className="text-2xl font-bold text-gray-900 mb-2">Order not found</h1>
+          <p className="text-gray-600 mb-6">
+            We couldn't find this order. It may belong to a different account.
+          </p>
+          <Button asChild>
+            <Link to="/account">Go to My Account</Link>
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  const orderNumber = order.id.substring(0, 8).toUpperCase();
+
   return (
     <div className="container mx-auto px-4 py-12">
       <div className="max-w-lg mx-auto">
@@ -29,13 +122,29 @@ export default function CheckoutSuccessPage() {
               <div className="text-gray-900 font-medium">{orderNumber}</div>
               
               <div className="text-gray-600">Order Date:</div>
-              <div className="text-gray-900 font-medium">{new Date().toLocaleDateString()}</div>
+              <div className="text-gray-900 font-medium">{new Date(order.created_at).toLocaleDateString()}</div>
               
               <div className="text-gray-600">Payment Method:</div>
-              <div className="text-gray-900 font-medium">Credit Card</div>
+              <div className="text-gray-900 font-medium">
+                {paymentMethodLabels[order.payment_method as PaymentMethod] || order.payment_method || 'Not specified'}
+              </div>
               
-              <div className="text-gray-600">Shipping:</div>
-              <div className="text-gray-900 font-medium">Free Shipping</div>
+              {order.discount_total > 0 && (
+                <>
+                  <div className="text-gray-600">Discount:</div>
+                  <div className="text-green-600 font-medium">
+                    -${order.discount_total.toFixed(2)}{order.promotion_code && ` (${order.promotion_code})`}
+                  </div>
+                </>
+              )}
+              
+              <div className="text-gray-600">Total:</div>
+              <div className="text-gray-900 font-medium">${order.total.toFixed(2)}</div>
+              
+              <div className="text-gray-600">Ship To:</div>
+              <div className="text-gray-900 font-medium">
+                {order.shipping_address}, {order.shipping_city}, {order.shipping_state} {order.shipping_postal_code}
+              </div>
             </div>
           </div>
           
@@ -6,6 +6,7 @@ import { Link } from 'react-router-dom';
 import { UserRoleDebug } from '@/components/UserRoleDebug';
 import { Card, CardContent } from '@/components/ui/card';
 import { Loader2 } from 'lucide-react';
+import { slugify } from '@/lib/categories';
 
 const Home = () => {
   const { isAuthenticated, userRole, loading, user } = useAuth();
@@ -120,7 +121,7 @@ const Home = () => {
           <h2 className="text-2xl font-semibold mb-6 text-center">Featured Categories</h2>
           <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
             {categories.map((category, index) => (
-              <Link key={index} to={`/category/${category.name}`} className="block group">
+              <Link key={index} to={`/category/${slugify(category.name)}`} className="block group">
                 <Card className="overflow-hidden hover:shadow-md transition-shadow">
                   <div className="aspect-square relative">
                     <img 
@@ -0,0 +1,35 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { Card } from '@/components/ui/card';
+import { Wrench } from 'lucide-react';
+import type { StoreSettings } from '@/lib/settings';
+
+interface MaintenancePageProps {
+  settings: StoreSettings;
+}
+
+// Shown instead of the store to everyone but admins while maintenance mode is on
+export default function MaintenancePage({ settings }: MaintenancePageProps) {
+  return (
+    <div className="container mx-auto px-4 py-16 flex justify-center">
+      <Card className="max-w-lg w-full p-8 text-center">
+        <Wrench className="h-12 w-12 text-shop-purple mx-auto mb-4" />
+        <h1 className="text-2xl font-bold mb-2">{settings.store_name} is down for maintenance</h1>
+        <p className="text-gray-600 mb-6">
+          We're making some improvements and will be back shortly. Thanks for your patience.
+        </p>
+        {settings.contact_email && (
+          <p className="text-sm text-gray-500 mb-6">
+            Need help in the meantime? Email{' '}
+            <a href={`mailto:${settings.contact_email}`} className="text-shop-purple hover:underline">
+              {settings.contact_email}
+            </a>
+          </p>
+        )}
+        <Link to="/login" className="text-sm text-gray-500 hover:text-shop-purple">
+          Admin sign in
+        </Link>
+      </Card>
+    </div>
+  );
+}
@@ -6,32 +6,34 @@ import { supabase } from '@/integrations/supabase/client';
 import { HelmetProvider, Helmet } from 'react-helmet-async';
 import ProductDetail from '@/components/product/ProductDetail';
 import RelatedProducts from '@/components/product/RelatedProducts';
+import ProductReviews from '@/components/product/ProductReviews';
+import CategoryBreadcrumbs from '@/components/product/CategoryBreadcrumbs';
 import { Button } from '@/components/ui/button';
 import { ArrowLeft, Loader2, AlertCircle } from 'lucide-react';
-
-interface Review {
-  id: string;
-  rating: number;
-  comment: string;
-  created_at: string;
-  user: {
-    name: string;
-    avatar_url: string | null;
-  };
-}
+import type { ProductOption, ProductVariant } from '@/lib/variants';
+import { recordProductView } from '@/lib/recommendations';
 
 interface Product {
   id: string;
   name: string;
   description: string;
   category: string;
+  category_id: string | null;
   price: number;
   discounted_price: number | null;
   stock: number;
   image_url: string | null;
   rating: number;
   reviews_count: number;
-  reviews?: Review[];
+  options: ProductOption[];
+  variants: ProductVariant[];
+  images: Array<{
+    id: string;
+    url: string;
+    thumbnail_url: string;
+    alt_text: string;
+  }>;
+  seller_id: string | null;
 }
 
 export default function ProductPage() {
@@ -43,10 +45,15 @@ export default function ProductPage() {
       try {
         if (!id) return null;
         
-        // Fetch product details
+        // Fetch product details with its options, variants and images
         const { data, error } = await supabase
           .from('products')
-          .select('*')
+          .select(`
+            *,
+            product_options (name, values, position),
+            product_variants (id, sku, options, name, price, discounted_price, stock, image_url, position),
+            product_images (id, url, thumbnail_url, alt_text, position)
+          `)
           .eq('id', id)
           .single();
           
@@ -54,48 +61,15 @@ export default function ProductPage() {
         
         if (!data) return null;
         
-        // Fetch reviews separately
-        const { data: reviewsData, error: reviewsError } = await supabase
-          .from('reviews')
-          .select('id, rating, comment, created_at, user_id')
-          .eq('product_id', id)
-          .order('created_at', { ascending: false })
-          .limit(10);
-          
-        if (reviewsError) throw reviewsError;
-        
-        // For each review, fetch the user profile
-        let processedReviews: Review[] = [];
-        
-        if (reviewsData && reviewsData.length > 0) {
-          // Create an array of promises to fetch user profiles
-          const profilePromises = reviewsData.map(async (review) => {
-            const { data: profileData } = await supabase
-              .from('profiles')
-              .select('first_name, last_name, avatar_url')
-              .eq('id', review.user_id)
-              .single();
-              
-            // Return a processed review with user info
-            return {
-              id: review.id,
-              rating: review.rating,
-              comment: review.comment,
-              created_at: review.created_at,
-              user: {
-                name: profileData ? `${profileData.first_name || ''} ${profileData.last_name || ''}`.trim() || 'Anonymous' : 'Anonymous',
-                avatar_url: profileData?.avatar_url || null
-              }
-            };
-          });
-          
-          // Wait for all profile fetches to complete
-          processedReviews = await Promise.all(profilePromises);
-        }
-        
+        const { product_options, product_variants, product_images, ...productData } = data;
+
         return {
-          ...data,
-          reviews: processedReviews || [],
+          ...productData,
+          options: [...(product_options || [])].sort((a, b) => a.position - b.position),
+          variants: [...(product_variants || [])]
+            .sort((a, b) => a.position - b.position)
+            .map(variant => ({ ...variant, options: variant.options as Record<string, string> })),
+          images: [...(product_images || [])].sort((a, b) => a.position - b.position),
         };
       } catch (error) {
         console.error('Error fetching product:', error);
@@ -104,6 +78,12 @@ export default function ProductPage() {
     },
     enabled: !!id,
   });
+
+  // Feeds the "Customers Also Viewed" recommendations
+  const productId = product?.id;
+  useEffect(() => {
+    if (productId) recordProductView(productId);
+  }, [productId]);
   
   if (isLoading) {
     return (
@@ -138,20 +118,7 @@ export default function ProductPage() {
       </Helmet>
       
       <div className="container mx-auto px-4 py-8">
-        {/* Breadcrumbs */}
-        <nav className="flex mb-8 text-sm text-gray-500">
-          <ol className="flex items-center space-x-1">
-            <li><Link to="/" className="hover:text-shop-purple">Home</Link></li>
-            <li><span>&gt;</span></li>
-            <li>
-              <Link to={`/category/${product.category}`} className="hover:text-shop-purple">
-                {product.category}
-              </Link>
-            </li>
-            <li><span>&gt;</span></li>
-            <li className="text-gray-900 font-medium">{product.name}</li>
-          </ol>
-        </nav>
+        <CategoryBreadcrumbs categoryId={product.category_id} current={product.name} className="mb-8" />
         
         <div className="mb-8">
           <Button variant="outline" size="sm" asChild>
@@ -162,7 +129,15 @@ export default function ProductPage() {
         <ProductDetail product={product} />
         
         <div className="mt-16">
-          <h2 className="text-2xl font-bold mb-6">Related Products</h2>
+          <ProductReviews
+            productId={product.id}
+            sellerId={product.seller_id}
+            rating={Number(product.rating) || 0}
+            reviewsCount={product.reviews_count || 0}
+          />
+        </div>
+        
+        <div className="mt-16">
           <RelatedProducts category={product.category} currentProductId={product.id} />
         </div>
       </div>
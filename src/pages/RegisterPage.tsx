@@ -14,6 +14,12 @@ import { Database } from '@/integrations/supabase/types';
 import LoginTroubleshooting from '@/components/LoginTroubleshooting';
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 import { AlertCircle, Loader2 } from 'lucide-react';
+import { applicationRoleLabels, isApplicationRole } from '@/lib/applications';
+import { isApplicationOpen } from '@/lib/settings';
+import { useStoreSettings } from '@/hooks/use-store-settings';
+import { QuestionAnswers, validateAnswers } from '@/lib/questionnaires';
+import { useQuestionnaire } from '@/hooks/use-questionnaire';
+import QuestionnaireFields from '@/components/applications/QuestionnaireFields';
 
 // Define type for roles from database
 type UserRole = Database["public"]["Enums"]["user_role"];
@@ -31,45 +37,17 @@ const registerSchema = z.object({
 
 type RegisterFormValues = z.infer<typeof registerSchema>;
 
-interface RoleQuestion {
-  question: string;
-  type: 'text' | 'textarea';
-  required?: boolean;
-}
-
-const roleQuestions: Record<string, RoleQuestion[]> = {
-  seller: [
-    { 
-      question: "What products do you plan to sell?", 
-      type: "textarea", 
-      required: true 
-    },
-    { 
-      question: "Do you have an existing business?", 
-      type: "text" 
-    },
-  ],
-  delivery: [
-    { 
-      question: "What areas can you deliver to?", 
-      type: "textarea", 
-      required: true 
-    },
-    { 
-      question: "Do you have your own transportation?", 
-      type: "text", 
-      required: true 
-    },
-  ],
-};
-
 export default function RegisterPage() {
   const { register: registerAuth, authState, clearAuthErrors } = useAuth();
   const [isRegistering, setIsRegistering] = useState(false);
   const [error, setError] = useState('');
   const [selectedRole, setSelectedRole] = useState<UserRole>('customer');
-  const [questionResponses, setQuestionResponses] = useState<Record<string, string>>({});
+  const [questionResponses, setQuestionResponses] = useState<QuestionAnswers>({});
   const [registrationSuccess, setRegistrationSuccess] = useState(false);
+  const { data: questionnaire, isLoading: questionnaireLoading } = useQuestionnaire(
+    isApplicationRole(selectedRole) ? selectedRole : null
+  );
+  const { data: storeSettings } = useStoreSettings();
   
   const form = useForm<RegisterFormValues>({
     resolver: zodResolver(registerSchema),
@@ -84,17 +62,15 @@ export default function RegisterPage() {
   
   const handleRoleChange = (role: UserRole) => {
     setSelectedRole(role);
+    setQuestionResponses({});
     form.setValue('role', role);
   };
   
-  const handleQuestionChange = (questionIndex: number, value: string) => {
-    const questions = roleQuestions[selectedRole];
-    if (questions && questions[questionIndex]) {
-      setQuestionResponses(prev => ({
-        ...prev,
-        [questions[questionIndex].question]: value
-      }));
-    }
+  const handleQuestionChange = (questionId: string, value: string) => {
+    setQuestionResponses(prev => ({
+      ...prev,
+      [questionId]: value
+    }));
   };
   
   const handleRetry = () => {
@@ -110,16 +86,21 @@ export default function RegisterPage() {
     setError('');
     clearAuthErrors();
     
+    // Applications may have been closed since the page loaded
+    if (isApplicationRole(data.role) && !isApplicationOpen(storeSettings, data.role)) {
+      setError(`${applicationRoleLabels[data.role]} applications are closed at the moment. Choose another account type.`);
+      setIsRegistering(false);
+      return;
+    }
+    
     // Validate role-specific questions
-    const questions = roleQuestions[selectedRole] || [];
-    const requiredQuestions = questions.filter(q => q.required);
+    const questions = questionnaire?.questions || [];
+    const answersError = validateAnswers(questions, questionResponses);
     
-    for (const q of requiredQuestions) {
-      if (!questionResponses[q.question]) {
-        setError(`Please answer the required question: ${q.question}`);
-        setIsRegistering(false);
-        return;
-      }
+    if (answersError) {
+      setError(answersError);
+      setIsRegistering(false);
+      return;
     }
     
     try {
@@ -132,7 +113,9 @@ export default function RegisterPage() {
         data.email, 
         data.password,
         userRole,
-        questionResponses
+        isApplicationRole(userRole)
+          ? { questionnaireId: questionnaire?.id || null, answers: questionResponses }
+          : undefined
       );
       
       if (success) {
@@ -167,6 +150,11 @@ export default function RegisterPage() {
               <p className="text-gray-600 mb-4">
                 Check your email for a verification link. After confirming your email, you'll be ready to use your account.
               </p>
+              {isApplicationRole(selectedRole) && (
+                <p className="text-gray-600 mb-4">
+                  We'll review your {selectedRole} application and let you know. Until then you can shop as a customer.
+                </p>
+              )}
               <Link to="/login">
                 <Button className="w-full mt-4">
                   Go to Login
@@ -314,8 +302,12 @@ export default function RegisterPage() {
                         </FormControl>
                         <SelectContent>
                           <SelectItem value="customer">Customer</SelectItem>
-                          <SelectItem value="seller">Seller</SelectItem>
-                          <SelectItem value="delivery">Delivery</SelectItem>
+                          {isApplicationOpen(storeSettings, 'seller') && (
+                            <SelectItem value="seller">Seller</SelectItem>
+                          )}
+                          {isApplicationOpen(storeSettings, 'delivery') && (
+                            <SelectItem value="delivery">Delivery</SelectItem>
+                          )}
                         </SelectContent>
                       </Select>
                       <FormMessage />
@@ -324,29 +316,20 @@ export default function RegisterPage() {
                 />
                 
                 {/* Role-specific questions */}
-                {selectedRole !== 'customer' && roleQuestions[selectedRole] && (
+                {isApplicationRole(selectedRole) && (questionnaireLoading || (questionnaire?.questions.length ?? 0) > 0) && (
                   <div className="space-y-6 border-t pt-6">
                     <h3 className="text-lg font-medium">Additional Information</h3>
-                    {roleQuestions[selectedRole].map((q, index) => (
-                      <div key={index} className="space-y-2">
-                        <label className="block text-sm font-medium text-gray-700">
-                          {q.question}{q.required && <span className="text-red-500">*</span>}
-                        </label>
-                        {q.type === 'textarea' ? (
-                          <Textarea 
-                            value={questionResponses[q.question] || ''} 
-                            onChange={(e) => handleQuestionChange(index, e.target.value)}
-                            className="w-full"
-                          />
-                        ) : (
-                          <Input 
-                            type="text" 
-                            value={questionResponses[q.question] || ''} 
-                            onChange={(e) => handleQuestionChange(index, e.target.value)}
-                          />
-                        )}
+                    {questionnaireLoading ? (
+                      <div className="flex justify-center">
+                        <Loader2 className="h-5 w-5 animate-spin text-shop-purple" />
                       </div>
-                    ))}
+                    ) : (
+                      <QuestionnaireFields
+                        questions={questionnaire.questions}
+                        answers={questionResponses}
+                        onChange={handleQuestionChange}
+                      />
+                    )}
                   </div>
                 )}
                 
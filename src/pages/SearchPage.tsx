@@ -1,34 +1,27 @@
-
 import React, { useState, useEffect } from 'react';
-import { useLocation, Link } from 'react-router-dom';
-import { searchProducts } from '@/lib/data';
-import { ProductCard } from '@/components/ProductCard';
+import { useSearchParams, Link } from 'react-router-dom';
+import ProductListing from '@/components/product/ProductListing';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Search } from 'lucide-react';
+import { addRecentSearch } from '@/lib/search';
 
 export default function SearchPage() {
-  const location = useLocation();
-  const queryParams = new URLSearchParams(location.search);
-  const initialQuery = queryParams.get('q') || '';
-  
-  const [searchQuery, setSearchQuery] = useState(initialQuery);
-  const [results, setResults] = useState(searchProducts(initialQuery));
+  const [searchParams, setSearchParams] = useSearchParams();
+  const query = searchParams.get('q')?.trim() || '';
+
+  const [searchQuery, setSearchQuery] = useState(query);
 
-  // Update results when URL query changes
+  // Keep the input in sync when the URL changes (e.g. searching from the header)
   useEffect(() => {
-    const newQuery = queryParams.get('q') || '';
-    setSearchQuery(newQuery);
-    setResults(searchProducts(newQuery));
-  }, [location.search]);
+    setSearchQuery(query);
+    addRecentSearch(query);
+  }, [query]);
 
   const handleSearch = (e: React.FormEvent) => {
     e.preventDefault();
     if (searchQuery.trim()) {
-      setResults(searchProducts(searchQuery));
-      // Update URL without reloading
-      const newUrl = `/search?q=${encodeURIComponent(searchQuery)}`;
-      window.history.pushState({ path: newUrl }, '', newUrl);
+      setSearchParams({ q: searchQuery.trim() });
     }
   };
 
@@ -67,35 +60,11 @@ export default function SearchPage() {
         </form>
       </div>
 
-      {/* Results info */}
-      <div className="mb-6">
-        <p className="text-gray-600">
-          {initialQuery ? (
-            <>
-              Found {results.length} results for <span className="font-semibold">"{initialQuery}"</span>
-            </>
-          ) : (
-            'Enter a search term to find products.'
-          )}
-        </p>
-      </div>
-
-      {/* Results grid */}
-      {initialQuery && results.length > 0 ? (
-        <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-6">
-          {results.map((product) => (
-            <ProductCard key={product.id} product={product} />
-          ))}
-        </div>
-      ) : initialQuery ? (
-        <div className="text-center py-16">
-          <h2 className="text-xl font-medium mb-2">No products found</h2>
-          <p className="text-gray-600 mb-6">Try a different search term or browse our categories.</p>
-          <Button asChild>
-            <Link to="/">Continue Shopping</Link>
-          </Button>
-        </div>
-      ) : null}
+      {query ? (
+        <ProductListing query={query} />
+      ) : (
+        <p className="text-gray-600">Enter a search term to find products.</p>
+      )}
     </div>
   );
 }
@@ -0,0 +1,79 @@
+import React from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { useQuery } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Heart } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { ProductCard } from '@/components/ProductCard';
+import { toCardProduct } from '@/lib/products';
+
+export default function SharedWishlistPage() {
+  const { token } = useParams<{ token: string }>();
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['sharedWishlist', token],
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc('get_shared_wishlist', { _share_token: token });
+      if (error) throw error;
+      if (!data || data.length === 0) return null;
+
+      return {
+        listName: data[0].list_name,
+        ownerName: data[0].owner_name,
+        // An empty list comes back as a single row without a product
+        products: data
+          .filter(row => row.product_id)
+          .map(row => toCardProduct({ ...row, id: row.product_id })),
+      };
+    },
+    enabled: !!token,
+  });
+
+  if (isLoading) {
+    return (
+      <div className="container mx-auto px-4 py-16 flex justify-center">
+        <div className="w-8 h-8 border-4 border-shop-purple border-t-transparent rounded-full animate-spin"></div>
+      </div>
+    );
+  }
+
+  if (!data) {
+    return (
+      <div className="container mx-auto px-4 py-12">
+        <div className="max-w-lg mx-auto text-center">
+          <div className="mx-auto w-16 h-16 flex items-center justify-center bg-gray-100 rounded-full mb-6">
+            <Heart className="h-8 w-8 text-gray-400" />
+          </div>
+          <h1 className="text-2xl font-bold text-gray-900 mb-4">Wishlist not available</h1>
+          <p className="text-gray-600 mb-8">
+            This link is no longer shared, or the list has been deleted.
+          </p>
+          <Button asChild>
+            <Link to="/">Start Shopping</Link>
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold text-gray-900">{data.listName}</h1>
+        <p className="text-gray-600 mt-1">Shared by {data.ownerName}</p>
+      </div>
+
+      {data.products.length === 0 ? (
+        <div className="text-center py-16 bg-white rounded-lg shadow-sm">
+          <p className="text-gray-600">Nothing has been added to this list yet.</p>
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6">
+          {data.products.map(product => (
+            <ProductCard key={product.id} product={product} />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -7,6 +7,14 @@ import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle }
 import { Loader2, ShoppingBag, Package, Truck, LayoutDashboard, RefreshCw } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import LoginTroubleshooting from "@/components/LoginTroubleshooting";
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import {
+  RoleApplication,
+  applicationRoleLabels,
+  applicationStatusColors,
+  applicationStatusLabels,
+} from "@/lib/applications";
 
 export default function WelcomePage() {
   const { isAuthenticated, userRole, authState, user, fetchUserRole } = useAuth();
@@ -15,6 +23,27 @@ export default function WelcomePage() {
   const [isRedirecting, setIsRedirecting] = useState(false);
   const [refreshingRole, setRefreshingRole] = useState(false);
   const [showDebug, setShowDebug] = useState(false);
+
+  // The latest seller or delivery application, if the user made one
+  const { data: application } = useQuery({
+    queryKey: ["roleApplication", user?.id],
+    queryFn: async (): Promise<RoleApplication | null> => {
+      const { data, error } = await supabase
+        .from("role_applications")
+        .select("id, user_id, role, status, question_responses, rejection_reason, reviewed_at, created_at")
+        .eq("user_id", user.id)
+        .order("created_at", { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      if (error) throw error;
+      return data as RoleApplication | null;
+    },
+    enabled: !!user?.id,
+  });
+
+  // Approved since the role was last loaded
+  const roleOutdated = application?.status === "approved" && userRole !== application.role;
   
   // Handle role refresh
   const handleRefreshRole = async () => {
@@ -140,8 +169,27 @@ export default function WelcomePage() {
             </div>
           </div>
           
+          {application && (
+            <div className="p-4 border rounded-lg space-y-2">
+              <div className="flex items-center justify-between">
+                <h4 className="font-medium">{applicationRoleLabels[application.role]} application</h4>
+                <span className={`text-xs font-medium px-2 py-1 rounded-full ${applicationStatusColors[application.status]}`}>
+                  {applicationStatusLabels[application.status]}
+                </span>
+              </div>
+              <p className="text-sm text-gray-600">
+                {application.status === "pending" && "We're reviewing your application. You can shop as a customer in the meantime."}
+                {application.status === "approved" && `Approved on ${new Date(application.reviewed_at).toLocaleDateString()}.`}
+                {application.status === "rejected" && "Your application wasn't approved."}
+              </p>
+              {application.status === "rejected" && application.rejection_reason && (
+                <p className="text-sm bg-gray-50 rounded p-2 whitespace-pre-line">{application.rejection_reason}</p>
+              )}
+            </div>
+          )}
+
           {/* Role refresh option */}
-          {!userRole && (
+          {(!userRole || roleOutdated) && (
             <Button 
               onClick={handleRefreshRole} 
               disabled={refreshingRole}
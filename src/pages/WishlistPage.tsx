@@ -1,69 +1,189 @@
-import React, { useEffect, useState } from 'react';
+import React, { useState } from 'react';
 import { Link } from 'react-router-dom';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
 import { Button } from '@/components/ui/button';
-import { Heart, ShoppingCart, Trash2 } from 'lucide-react';
+import { Card } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Copy, Heart, Pencil, Plus, ShoppingCart, Trash2 } from 'lucide-react';
 import { useAuth } from '@/context/AuthContext';
 import { useToast } from '@/hooks/use-toast';
 import { supabase } from '@/integrations/supabase/client';
 import { ProductCard } from '@/components/ProductCard';
-import { Product } from '@/lib/data';
+import type { Product } from '@/components/ProductCard';
+import { ProductListing, toCardProduct } from '@/lib/products';
+import { describeWishlistError, getShareUrl, WishlistList } from '@/lib/wishlists';
 import { useCart } from '@/context/CartContext';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
 
 interface WishlistItem {
   id: string;
+  notify_price_drop: boolean;
+  notify_back_in_stock: boolean;
   product: Product;
 }
 
+type AlertField = 'notify_price_drop' | 'notify_back_in_stock';
+
 export default function WishlistPage() {
   const { isAuthenticated, user } = useAuth();
   const { addToCart } = useCart();
   const { toast } = useToast();
-  const [wishlistItems, setWishlistItems] = useState<WishlistItem[]>([]);
-  const [loading, setLoading] = useState(true);
-
-  useEffect(() => {
-    if (isAuthenticated && user) {
-      fetchWishlistItems();
-    } else {
-      setLoading(false);
-    }
-  }, [isAuthenticated, user]);
+  const queryClient = useQueryClient();
+  const [selectedListId, setSelectedListId] = useState<string | null>(null);
+  // null when closed; the list being renamed, or 'new' when creating
+  const [editing, setEditing] = useState<WishlistList | 'new' | null>(null);
+  const [listName, setListName] = useState('');
+  const [deleteOpen, setDeleteOpen] = useState(false);
 
-  const fetchWishlistItems = async () => {
-    try {
-      setLoading(true);
-      
+  const { data: lists = [], isLoading: listsLoading } = useQuery({
+    queryKey: ['wishlistLists', user?.id],
+    queryFn: async (): Promise<WishlistList[]> => {
+      const { data, error } = await supabase
+        .from('wishlist_lists')
+        .select('id, name, is_default, is_public, share_token')
+        .eq('user_id', user.id)
+        .order('is_default', { ascending: false })
+        .order('created_at');
+
+      if (error) throw error;
+      return data || [];
+    },
+    enabled: !!user?.id,
+  });
+
+  const currentList = lists.find(list => list.id === selectedListId) || lists[0];
+
+  const { data: wishlistItems = [], isLoading: itemsLoading } = useQuery({
+    queryKey: ['wishlistItems', currentList?.id],
+    queryFn: async (): Promise<WishlistItem[]> => {
       const { data, error } = await supabase
         .from('wishlists')
-        .select(`
-          id,
-          product_id,
-          products (*)
-        `)
-        .eq('user_id', user?.id);
+        .select('id, notify_price_drop, notify_back_in_stock, products (*)')
+        .eq('list_id', currentList.id)
+        .order('created_at', { ascending: false });
 
-      if (error) {
-        throw error;
-      }
+      if (error) throw error;
 
-      if (data) {
-        const formattedItems: WishlistItem[] = data.map((item: any) => ({
+      return (data || [])
+        .filter(item => item.products)
+        .map(item => ({
           id: item.id,
-          product: item.products,
+          notify_price_drop: item.notify_price_drop,
+          notify_back_in_stock: item.notify_back_in_stock,
+          product: toCardProduct(item.products as ProductListing),
         }));
-        setWishlistItems(formattedItems);
+    },
+    enabled: !!currentList,
+  });
+
+  const invalidateLists = () => {
+    queryClient.invalidateQueries({ queryKey: ['wishlistLists'] });
+  };
+
+  const onMutationError = (error: { message?: string }) => {
+    toast({
+      title: 'Error',
+      description: describeWishlistError(error),
+      variant: 'destructive',
+    });
+  };
+
+  const saveListMutation = useMutation({
+    mutationFn: async () => {
+      const name = listName.trim();
+      if (editing === 'new') {
+        const { data, error } = await supabase
+          .from('wishlist_lists')
+          .insert({ user_id: user.id, name })
+          .select('id')
+          .single();
+        if (error) throw error;
+        return data.id;
       }
-    } catch (error) {
-      console.error('Error fetching wishlist:', error);
+
+      const { error } = await supabase
+        .from('wishlist_lists')
+        .update({ name, updated_at: new Date().toISOString() })
+        .eq('id', (editing as WishlistList).id);
+      if (error) throw error;
+      return (editing as WishlistList).id;
+    },
+    onSuccess: (listId) => {
+      invalidateLists();
+      setSelectedListId(listId);
+      setEditing(null);
+    },
+    onError: onMutationError,
+  });
+
+  const deleteListMutation = useMutation({
+    mutationFn: async (listId: string) => {
+      const { error } = await supabase.from('wishlist_lists').delete().eq('id', listId);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      invalidateLists();
+      queryClient.invalidateQueries({ queryKey: ['wishlist'] });
+      setSelectedListId(null);
       toast({
-        title: 'Error',
-        description: 'Failed to fetch wishlist items',
-        variant: 'destructive',
+        title: 'List Deleted',
+        description: 'The list and everything on it has been removed',
       });
-    } finally {
-      setLoading(false);
-    }
-  };
+    },
+    onError: onMutationError,
+  });
+
+  const sharingMutation = useMutation({
+    mutationFn: async ({ listId, isPublic }: { listId: string; isPublic: boolean }) => {
+      const { error } = await supabase
+        .from('wishlist_lists')
+        .update({ is_public: isPublic, updated_at: new Date().toISOString() })
+        .eq('id', listId);
+      if (error) throw error;
+    },
+    onSuccess: invalidateLists,
+    onError: onMutationError,
+  });
+
+  const alertMutation = useMutation({
+    mutationFn: async ({ itemId, field, value }: { itemId: string; field: AlertField; value: boolean }) => {
+      const { error } = await supabase
+        .from('wishlists')
+        .update({ [field]: value })
+        .eq('id', itemId);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['wishlistItems'] });
+    },
+    onError: onMutationError,
+  });
 
   const removeFromWishlist = async (wishlistId: string) => {
     try {
@@ -76,7 +196,8 @@ export default function WishlistPage() {
         throw error;
       }
 
-      setWishlistItems(prevItems => prevItems.filter(item => item.id !== wishlistId));
+      queryClient.invalidateQueries({ queryKey: ['wishlistItems'] });
+      queryClient.invalidateQueries({ queryKey: ['wishlist'] });
       toast({
         title: 'Removed from wishlist',
         description: 'Item has been removed from your wishlist',
@@ -91,6 +212,27 @@ export default function WishlistPage() {
     }
   };
 
+  const copyShareLink = async (list: WishlistList) => {
+    try {
+      await navigator.clipboard.writeText(getShareUrl(list.share_token));
+      toast({
+        title: 'Link Copied',
+        description: 'Anyone with the link can view this list',
+      });
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: 'Could not copy the link. Copy it from the box instead.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const openListDialog = (list: WishlistList | 'new') => {
+    setListName(list === 'new' ? '' : list.name);
+    setEditing(list);
+  };
+
   if (!isAuthenticated) {
     return (
       <div className="container mx-auto px-4 py-12">
@@ -115,6 +257,8 @@ export default function WishlistPage() {
     );
   }
 
+  const loading = listsLoading || (!!currentList && itemsLoading);
+
   return (
     <div className="container mx-auto px-4 py-8">
       {/* Breadcrumbs */}
@@ -126,7 +270,62 @@ export default function WishlistPage() {
         </ol>
       </nav>
 
-      <h1 className="text-3xl font-bold text-gray-900 mb-8">My Wishlist</h1>
+      <div className="mb-8 flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+        <h1 className="text-3xl font-bold text-gray-900">My Wishlist</h1>
+        <div className="flex flex-wrap items-center gap-2">
+          {lists.length > 0 && (
+            <Select value={currentList?.id} onValueChange={setSelectedListId}>
+              <SelectTrigger className="w-52">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {lists.map(list => (
+                  <SelectItem key={list.id} value={list.id}>{list.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+          {currentList && (
+            <>
+              <Button variant="outline" size="icon" aria-label="Rename list" onClick={() => openListDialog(currentList)}>
+                <Pencil className="h-4 w-4" />
+              </Button>
+              {!currentList.is_default && (
+                <Button variant="outline" size="icon" aria-label="Delete list" onClick={() => setDeleteOpen(true)}>
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              )}
+            </>
+          )}
+          <Button variant="outline" onClick={() => openListDialog('new')}>
+            <Plus className="mr-2 h-4 w-4" />
+            New List
+          </Button>
+        </div>
+      </div>
+
+      {currentList && (
+        <Card className="p-4 mb-6 flex flex-col md:flex-row md:items-center gap-4">
+          <div className="flex items-center gap-3">
+            <Switch
+              id="list-public"
+              checked={currentList.is_public}
+              disabled={sharingMutation.isPending}
+              onCheckedChange={(checked) => sharingMutation.mutate({ listId: currentList.id, isPublic: checked })}
+            />
+            <Label htmlFor="list-public">Anyone with the link can view this list</Label>
+          </div>
+          {currentList.is_public && (
+            <div className="flex flex-1 items-center gap-2">
+              <Input readOnly value={getShareUrl(currentList.share_token)} onFocus={(e) => e.target.select()} />
+              <Button variant="outline" onClick={() => copyShareLink(currentList)}>
+                <Copy className="mr-2 h-4 w-4" />
+                Copy Link
+              </Button>
+            </div>
+          )}
+        </Card>
+      )}
 
       {loading ? (
         <div className="text-center py-16">
@@ -138,7 +337,9 @@ export default function WishlistPage() {
           <div className="mx-auto w-24 h-24 mb-4 flex items-center justify-center rounded-full bg-gray-100">
             <Heart className="h-12 w-12 text-gray-400" />
           </div>
-          <h2 className="text-xl font-medium mb-2">Your wishlist is empty</h2>
+          <h2 className="text-xl font-medium mb-2">
+            {currentList && !currentList.is_default ? 'This list is empty' : 'Your wishlist is empty'}
+          </h2>
           <p className="text-gray-600 mb-8 max-w-md mx-auto">
             Browse our shop and add products to your wishlist.
             Items in your wishlist will be saved for future reference.
@@ -157,28 +358,89 @@ export default function WishlistPage() {
               <div key={item.id} className="relative">
                 <ProductCard product={item.product} />
                 <div className="absolute top-2 right-2 z-10 flex space-x-2">
-                  <Button 
-                    size="icon" 
-                    variant="destructive" 
+                  <Button
+                    size="icon"
+                    variant="destructive"
                     className="h-8 w-8 rounded-full bg-white text-red-500 border border-gray-200 hover:bg-red-50"
                     onClick={() => removeFromWishlist(item.id)}
                   >
                     <Trash2 className="h-4 w-4" />
                   </Button>
                 </div>
-                <div className="mt-2">
-                  <Button 
-                    onClick={() => addToCart(item.product.id)} 
+                <div className="mt-2 space-y-2">
+                  <Button
+                    onClick={() => addToCart(item.product.id)}
                     className="w-full bg-shop-purple hover:bg-shop-purple-dark"
                   >
                     Add to Cart
                   </Button>
+                  <div className="flex items-center justify-between text-sm">
+                    <Label htmlFor={`price-drop-${item.id}`}>Alert me on price drops</Label>
+                    <Switch
+                      id={`price-drop-${item.id}`}
+                      checked={item.notify_price_drop}
+                      onCheckedChange={(checked) => alertMutation.mutate({ itemId: item.id, field: 'notify_price_drop', value: checked })}
+                    />
+                  </div>
+                  <div className="flex items-center justify-between text-sm">
+                    <Label htmlFor={`back-in-stock-${item.id}`}>Alert me when back in stock</Label>
+                    <Switch
+                      id={`back-in-stock-${item.id}`}
+                      checked={item.notify_back_in_stock}
+                      onCheckedChange={(checked) => alertMutation.mutate({ itemId: item.id, field: 'notify_back_in_stock', value: checked })}
+                    />
+                  </div>
                 </div>
               </div>
             ))}
           </div>
         </>
       )}
+
+      <Dialog open={!!editing} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editing === 'new' ? 'New List' : 'Rename List'}</DialogTitle>
+            <DialogDescription>Group saved products, for example by occasion or by person.</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="list-name">Name</Label>
+            <Input
+              id="list-name"
+              value={listName}
+              onChange={(e) => setListName(e.target.value)}
+              maxLength={100}
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditing(null)}>Cancel</Button>
+            <Button
+              disabled={!listName.trim() || saveListMutation.isPending}
+              onClick={() => saveListMutation.mutate()}
+            >
+              {editing === 'new' ? 'Create List' : 'Save'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={deleteOpen} onOpenChange={setDeleteOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete List?</AlertDialogTitle>
+            <AlertDialogDescription>
+              This will permanently delete {currentList?.name} and the products saved on it.
+              Anyone you shared it with will no longer be able to open it.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={() => currentList && deleteListMutation.mutate(currentList.id)} className="bg-red-600">
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </div>
   );
 }
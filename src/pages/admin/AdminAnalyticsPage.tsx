@@ -27,7 +27,9 @@ import {
   DollarSign,
   ShoppingBag,
   Users,
-  Package
+  Package,
+  Search,
+  SearchX
 } from 'lucide-react';
 import {
   Tabs,
@@ -42,6 +44,25 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  ChartConfig,
+  ChartContainer,
+  ChartTooltip,
+  ChartTooltipContent,
+} from "@/components/ui/chart";
+import {
+  buildCohortTable,
+  CustomerReportsData,
+  getRepeatPurchaseRate,
+} from '@/lib/analytics';
 
 interface AnalyticsData {
   salesData: {
@@ -53,10 +74,12 @@ interface AnalyticsData {
     name: string;
     value: number;
   }[];
+  // sales is units sold
   topProducts: {
     id: string;
     name: string;
     sales: number;
+    revenue: number;
   }[];
   metrics: {
     totalRevenue: number;
@@ -70,6 +93,22 @@ interface AnalyticsData {
   };
 }
 
+interface SearchQueryStat {
+  query: string;
+  searches: number;
+  searchers: number;
+  zero_result_searches: number;
+  last_result_count: number;
+  last_searched_at: string;
+}
+
+interface SearchInsightsData {
+  totalSearches: number;
+  zeroResultSearches: number;
+  popular: SearchQueryStat[];
+  noResults: SearchQueryStat[];
+}
+
 const COLORS = ['#8884d8', '#83a6ed', '#8dd1e1', '#82ca9d', '#a4de6c', '#d0ed57'];
 
 export default function AdminAnalyticsPage() {
@@ -277,6 +316,11 @@ export default function AdminAnalyticsPage() {
           <TabsTrigger value="sales">Sales</TabsTrigger>
           <TabsTrigger value="products">Products</TabsTrigger>
           <TabsTrigger value="categories">Categories</TabsTrigger>
+          <TabsTrigger value="funnel">Funnel</TabsTrigger>
+          <TabsTrigger value="cohorts">Cohorts</TabsTrigger>
+          <TabsTrigger value="repeat">Repeat Purchases</TabsTrigger>
+          <TabsTrigger value="order-value">Order Value</TabsTrigger>
+          <TabsTrigger value="searches">Searches</TabsTrigger>
         </TabsList>
         
         <TabsContent value="sales" className="mt-4">
@@ -292,7 +336,7 @@ export default function AdminAnalyticsPage() {
                   <XAxis dataKey="day" />
                   <YAxis yAxisId="left" />
                   <YAxis yAxisId="right" orientation="right" />
-                  <Tooltip />
+                  <Tooltip formatter={(value: number, name: string) => name === 'Orders' ? value : `$${value.toFixed(2)}`} />
                   <Legend />
                   <Line yAxisId="left" type="monotone" dataKey="amount" name="Revenue ($)" stroke="#8884d8" activeDot={{ r: 8 }} />
                   <Line yAxisId="right" type="monotone" dataKey="orders" name="Orders" stroke="#82ca9d" />
@@ -317,7 +361,7 @@ export default function AdminAnalyticsPage() {
                   <YAxis dataKey="name" type="category" width={150} />
                   <Tooltip />
                   <Legend />
-                  <Bar dataKey="sales" name="Sales" fill="#8884d8" />
+                  <Bar dataKey="sales" name="Units Sold" fill="#8884d8" />
                 </BarChart>
               </ResponsiveContainer>
             </div>
@@ -351,7 +395,315 @@ export default function AdminAnalyticsPage() {
             </div>
           </Card>
         </TabsContent>
+        
+        <TabsContent value="funnel" className="mt-4">
+          <CustomerReports timeRange={timeRange} report="funnel" />
+        </TabsContent>
+        
+        <TabsContent value="cohorts" className="mt-4">
+          <CustomerReports timeRange={timeRange} report="cohorts" />
+        </TabsContent>
+        
+        <TabsContent value="repeat" className="mt-4">
+          <CustomerReports timeRange={timeRange} report="repeat" />
+        </TabsContent>
+        
+        <TabsContent value="order-value" className="mt-4">
+          <CustomerReports timeRange={timeRange} report="order-value" />
+        </TabsContent>
+        
+        <TabsContent value="searches" className="mt-4">
+          <SearchInsights timeRange={timeRange} />
+        </TabsContent>
       </Tabs>
     </div>
   );
 }
+
+// What customers search for, and the searches that found nothing
+function SearchInsights({ timeRange }: { timeRange: string }) {
+  const { data, isLoading, error } = useQuery<SearchInsightsData>({
+    queryKey: ['adminSearchInsights', timeRange],
+    queryFn: async () => {
+      const { data, error } = await supabase.functions.invoke('admin_functions', {
+        body: {
+          action: 'get_search_insights',
+          timeRange
+        }
+      });
+      
+      if (error) throw error;
+      return data;
+    },
+  });
+  
+  if (isLoading) {
+    return (
+      <Card className="p-6 flex justify-center">
+        <div className="w-8 h-8 border-4 border-shop-purple border-t-transparent rounded-full animate-spin"></div>
+      </Card>
+    );
+  }
+  
+  if (error || !data) {
+    return (
+      <Card className="p-6">
+        <p className="text-red-500">Failed to load search insights{error ? `: ${(error as Error).message}` : ''}</p>
+      </Card>
+    );
+  }
+  
+  const zeroResultRate = data.totalSearches
+    ? (data.zeroResultSearches / data.totalSearches) * 100
+    : 0;
+  
+  const renderTable = (rows: SearchQueryStat[], emptyMessage: string, showZeroResults: boolean) => (
+    rows.length ? (
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Query</TableHead>
+            <TableHead className="text-right">Searches</TableHead>
+            <TableHead className="text-right">{showZeroResults ? 'No results' : 'Last results'}</TableHead>
+            <TableHead className="text-right">Last searched</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {rows.map(row => (
+            <TableRow key={row.query}>
+              <TableCell className="font-medium">{row.query}</TableCell>
+              <TableCell className="text-right">{row.searches}</TableCell>
+              <TableCell className="text-right">
+                {showZeroResults ? row.zero_result_searches : row.last_result_count}
+              </TableCell>
+              <TableCell className="text-right">{new Date(row.last_searched_at).toLocaleDateString()}</TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    ) : (
+      <p className="text-gray-500 text-sm">{emptyMessage}</p>
+    )
+  );
+  
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <Card className="p-6">
+          <p className="text-sm text-gray-500">Total Searches</p>
+          <h3 className="text-2xl font-bold mt-1">{data.totalSearches}</h3>
+        </Card>
+        <Card className="p-6">
+          <p className="text-sm text-gray-500">Searches With No Results</p>
+          <h3 className="text-2xl font-bold mt-1">
+            {data.zeroResultSearches}
+            <span className="text-sm font-normal text-gray-500 ml-2">({zeroResultRate.toFixed(1)}%)</span>
+          </h3>
+        </Card>
+      </div>
+      
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <Card className="p-6">
+          <h3 className="text-lg font-medium mb-4 flex items-center gap-2">
+            <Search className="h-5 w-5" />
+            Popular Searches
+          </h3>
+          {renderTable(data.popular, 'No searches in this period.', false)}
+        </Card>
+        <Card className="p-6">
+          <h3 className="text-lg font-medium mb-4 flex items-center gap-2">
+            <SearchX className="h-5 w-5" />
+            Searches With No Results
+          </h3>
+          {renderTable(data.noResults, 'Every search found something.', true)}
+        </Card>
+      </div>
+    </div>
+  );
+}
+
+const funnelChartConfig = {
+  shoppers: { label: "Shoppers", color: "#8884d8" },
+} satisfies ChartConfig;
+
+const repeatChartConfig = {
+  customers: { label: "Customers", color: "#82ca9d" },
+} satisfies ChartConfig;
+
+const orderValueChartConfig = {
+  average_order_value: { label: "Average order ($)", color: "#83a6ed" },
+} satisfies ChartConfig;
+
+// Tinted by retention so strong and weak months stand out
+const retentionCellStyle = (percent: number | null) => (
+  percent === null ? {} : { backgroundColor: `rgba(136, 132, 216, ${Math.min(percent, 100) / 100})` }
+);
+
+// Conversion funnel, cohort retention, repeat purchases and average order
+// value by category. The tabs share one request per time range.
+function CustomerReports({ timeRange, report }: { timeRange: string; report: 'funnel' | 'cohorts' | 'repeat' | 'order-value' }) {
+  const { data, isLoading, error } = useQuery<CustomerReportsData>({
+    queryKey: ['adminCustomerReports', timeRange],
+    queryFn: async () => {
+      const { data, error } = await supabase.functions.invoke('admin_functions', {
+        body: {
+          action: 'get_customer_reports',
+          timeRange
+        }
+      });
+      
+      if (error) throw error;
+      return data;
+    },
+  });
+  
+  if (isLoading) {
+    return (
+      <Card className="p-6 flex justify-center">
+        <div className="w-8 h-8 border-4 border-shop-purple border-t-transparent rounded-full animate-spin"></div>
+      </Card>
+    );
+  }
+  
+  if (error || !data) {
+    return (
+      <Card className="p-6">
+        <p className="text-red-500">Failed to load customer reports{error ? `: ${(error as Error).message}` : ''}</p>
+      </Card>
+    );
+  }
+  
+  if (report === 'funnel') {
+    return (
+      <Card className="p-6">
+        <h3 className="text-lg font-medium mb-1">Conversion Funnel</h3>
+        <p className="text-sm text-gray-500 mb-4">
+          Distinct shoppers reaching each step. Guests are counted by browser until they sign in.
+        </p>
+        <ChartContainer config={funnelChartConfig} className="h-80 w-full aspect-auto">
+          <BarChart data={data.funnel} margin={{ top: 5, right: 30, left: 20, bottom: 5 }}>
+            <CartesianGrid vertical={false} />
+            <XAxis dataKey="step" tickLine={false} axisLine={false} />
+            <YAxis allowDecimals={false} />
+            <ChartTooltip content={<ChartTooltipContent />} />
+            <Bar dataKey="shoppers" fill="var(--color-shoppers)" radius={4} />
+          </BarChart>
+        </ChartContainer>
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mt-6">
+          {data.funnel.map((step, index) => {
+            const previous = index > 0 ? data.funnel[index - 1].shoppers : null;
+            return (
+              <div key={step.step}>
+                <p className="text-sm text-gray-500">{step.step}</p>
+                <p className="text-xl font-bold">{step.shoppers}</p>
+                {previous !== null && (
+                  <p className="text-xs text-gray-500">
+                    {previous ? ((step.shoppers / previous) * 100).toFixed(1) : '0.0'}% of previous step
+                  </p>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </Card>
+    );
+  }
+  
+  if (report === 'cohorts') {
+    const cohorts = buildCohortTable(data.cohorts);
+    const columns = cohorts[0]?.retention.length || 0;
+    
+    return (
+      <Card className="p-6">
+        <h3 className="text-lg font-medium mb-1">Cohort Retention</h3>
+        <p className="text-sm text-gray-500 mb-4">
+          Customers grouped by the month of their first order, and the share who ordered again in each later month. Always covers the last 12 months.
+        </p>
+        {cohorts.length ? (
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>First order</TableHead>
+                  <TableHead className="text-right">Customers</TableHead>
+                  {Array.from({ length: columns - 1 }, (_, offset) => (
+                    <TableHead key={offset} className="text-center">Month {offset + 1}</TableHead>
+                  ))}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {cohorts.map(cohort => (
+                  <TableRow key={cohort.month}>
+                    <TableCell className="font-medium whitespace-nowrap">
+                      {new Date(`${cohort.month}T00:00:00`).toLocaleDateString('en-US', { month: 'short', year: 'numeric' })}
+                    </TableCell>
+                    <TableCell className="text-right">{cohort.size}</TableCell>
+                    {cohort.retention.slice(1).map((percent, offset) => (
+                      <TableCell key={offset} className="text-center" style={retentionCellStyle(percent)}>
+                        {percent === null ? '' : `${percent.toFixed(0)}%`}
+                      </TableCell>
+                    ))}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        ) : (
+          <p className="text-gray-500 text-sm">No paid orders in the last 12 months.</p>
+        )}
+      </Card>
+    );
+  }
+  
+  if (report === 'repeat') {
+    const repeatRate = getRepeatPurchaseRate(data.repeatPurchases);
+    const chartData = [1, 2, 3, 4].map(orders => ({
+      label: orders === 4 ? '4+ orders' : `${orders} order${orders > 1 ? 's' : ''}`,
+      customers: data.repeatPurchases.find(row => row.orders_per_customer === orders)?.customers || 0,
+    }));
+    
+    return (
+      <div className="space-y-6">
+        <Card className="p-6">
+          <p className="text-sm text-gray-500">Repeat Purchase Rate</p>
+          <h3 className="text-2xl font-bold mt-1">{repeatRate.toFixed(1)}%</h3>
+          <p className="text-xs text-gray-500 mt-1">Customers who paid for more than one order in this period</p>
+        </Card>
+        <Card className="p-6">
+          <h3 className="text-lg font-medium mb-4">Orders per Customer</h3>
+          <ChartContainer config={repeatChartConfig} className="h-80 w-full aspect-auto">
+            <BarChart data={chartData} margin={{ top: 5, right: 30, left: 20, bottom: 5 }}>
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="label" tickLine={false} axisLine={false} />
+              <YAxis allowDecimals={false} />
+              <ChartTooltip content={<ChartTooltipContent />} />
+              <Bar dataKey="customers" fill="var(--color-customers)" radius={4} />
+            </BarChart>
+          </ChartContainer>
+        </Card>
+      </div>
+    );
+  }
+  
+  return (
+    <Card className="p-6">
+      <h3 className="text-lg font-medium mb-1">Average Order Value by Category</h3>
+      <p className="text-sm text-gray-500 mb-4">
+        Average total of the paid orders that included each category.
+      </p>
+      {data.categoryOrderValues.length ? (
+        <ChartContainer config={orderValueChartConfig} className="h-80 w-full aspect-auto">
+          <BarChart data={data.categoryOrderValues} layout="vertical" margin={{ top: 5, right: 30, left: 20, bottom: 5 }}>
+            <CartesianGrid horizontal={false} />
+            <XAxis type="number" />
+            <YAxis dataKey="name" type="category" width={150} tickLine={false} axisLine={false} />
+            <ChartTooltip content={<ChartTooltipContent />} />
+            <Bar dataKey="average_order_value" fill="var(--color-average_order_value)" radius={4} />
+          </BarChart>
+        </ChartContainer>
+      ) : (
+        <p className="text-gray-500 text-sm">No paid orders in this period.</p>
+      )}
+    </Card>
+  );
+}
@@ -1,12 +1,13 @@
-
 import React, { useState } from 'react';
 import { supabase } from '@/integrations/supabase/client';
+import { FunctionsHttpError } from '@supabase/supabase-js';
 import { useAuth } from '@/context/AuthContext';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
-import { useNavigate } from 'react-router-dom';
 import { Card } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
 import { useToast } from '@/hooks/use-toast';
 import {
   Table,
@@ -28,133 +29,107 @@ import {
   DialogDescription,
   DialogHeader,
   DialogTitle,
-  DialogTrigger,
   DialogFooter,
-  DialogClose,
 } from "@/components/ui/dialog";
-import { 
-  CheckCircle, 
-  XCircle, 
-  User, 
-  Truck, 
-  Calendar,
-  MapPin,
+import {
+  CheckCircle,
+  XCircle,
+  Truck,
   UserCheck,
-  Clock
 } from 'lucide-react';
+import { Link } from 'react-router-dom';
+import { ApplicationStatus, RoleApplication, applicationRoleLabels } from '@/lib/applications';
+import type { Question } from '@/lib/questionnaires';
+import ApplicationAnswers from '@/components/applications/ApplicationAnswers';
 
-interface Application {
-  id: string;
-  user_id: string;
+interface Application extends RoleApplication {
   user_email: string;
-  role: string;
-  status: string;
-  created_at: string;
-  question_responses: Record<string, any>;
+  questionnaire: { id: string; version: number; questions: Question[] } | null;
+  file_urls: Record<string, string>;
 }
 
+// Edge functions answer non-2xx requests with a JSON body describing the problem
+const invokeAdmin = async (body: Record<string, unknown>) => {
+  const { data, error } = await supabase.functions.invoke('admin_functions', { body });
+  if (error) {
+    const errorBody = error instanceof FunctionsHttpError
+      ? await error.context.json().catch(() => null)
+      : null;
+    throw new Error(errorBody?.error || error.message);
+  }
+  return data;
+};
+
+const RoleCell = ({ role }: { role: Application['role'] }) => (
+  <div className="flex items-center">
+    {role === 'seller' ? (
+      <UserCheck className="h-4 w-4 mr-2 text-blue-500" />
+    ) : (
+      <Truck className="h-4 w-4 mr-2 text-green-500" />
+    )}
+    {applicationRoleLabels[role] || role}
+  </div>
+);
+
 export default function AdminApplicationsPage() {
   const { user, userRole } = useAuth();
-  const navigate = useNavigate();
   const { toast } = useToast();
   const queryClient = useQueryClient();
   const [selectedApplication, setSelectedApplication] = useState<Application | null>(null);
-  
+  const [rejecting, setRejecting] = useState<Application | null>(null);
+  const [rejectionReason, setRejectionReason] = useState('');
+
   const { data: applications, isLoading, error } = useQuery<Application[]>({
     queryKey: ['adminApplications'],
     queryFn: async () => {
-      const { data, error } = await supabase.functions.invoke('admin_functions', {
-        body: {
-          action: 'get_role_applications'
-        }
-      });
-      
-      if (error) throw error;
+      const data = await invokeAdmin({ action: 'get_role_applications' });
       return data || [];
     },
     enabled: !!user && userRole === 'admin',
   });
 
-  const approveApplicationMutation = useMutation({
-    mutationFn: async (applicationId: string) => {
-      const { data, error } = await supabase.functions.invoke('admin_functions', {
-        body: {
-          action: 'approve_application',
-          application_id: applicationId
-        }
+  const reviewMutation = useMutation({
+    mutationFn: async ({ application, approve, reason }: { application: Application; approve: boolean; reason?: string }) => {
+      await invokeAdmin({
+        action: approve ? 'approve_application' : 'reject_application',
+        application_id: application.id,
+        reason,
       });
-      
-      if (error) throw error;
-      return data;
+      return approve;
     },
-    onSuccess: () => {
+    onSuccess: (approved) => {
       queryClient.invalidateQueries({ queryKey: ['adminApplications'] });
+      setSelectedApplication(null);
+      setRejecting(null);
       toast({
-        title: "Application Approved",
-        description: "The user's application has been approved",
+        title: approved ? "Application Approved" : "Application Rejected",
+        description: approved
+          ? "The user now has the role they applied for"
+          : "The applicant will see your reason when they sign in",
       });
     },
-    onError: (error: any) => {
+    onError: (error: Error) => {
       toast({
         title: "Error",
-        description: error.message || "Failed to approve application",
+        description: error.message || "Failed to review application",
         variant: "destructive",
       });
     }
   });
 
-  const rejectApplicationMutation = useMutation({
-    mutationFn: async (applicationId: string) => {
-      const { data, error } = await supabase.functions.invoke('admin_functions', {
-        body: {
-          action: 'reject_application',
-          application_id: applicationId
-        }
-      });
-      
-      if (error) throw error;
-      return data;
-    },
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['adminApplications'] });
-      toast({
-        title: "Application Rejected",
-        description: "The user's application has been rejected",
-      });
-    },
-    onError: (error: any) => {
-      toast({
-        title: "Error",
-        description: error.message || "Failed to reject application",
-        variant: "destructive",
-      });
-    }
-  });
-  
   const handleApprove = (application: Application) => {
-    approveApplicationMutation.mutate(application.id);
+    reviewMutation.mutate({ application, approve: true });
   };
-  
+
   const handleReject = (application: Application) => {
-    rejectApplicationMutation.mutate(application.id);
-  };
-  
-  const handleViewDetails = (application: Application) => {
-    setSelectedApplication(application);
-  };
-  
-  const getPendingApplications = () => {
-    return applications?.filter(app => app.status === 'pending') || [];
-  };
-  
-  const getApprovedApplications = () => {
-    return applications?.filter(app => app.status === 'approved') || [];
+    setRejectionReason('');
+    setRejecting(application);
   };
-  
-  const getRejectedApplications = () => {
-    return applications?.filter(app => app.status === 'rejected') || [];
+
+  const getApplications = (status: ApplicationStatus) => {
+    return applications?.filter(app => app.status === status) || [];
   };
-  
+
   if (!user || userRole !== 'admin') {
     return null;
   }
@@ -187,25 +162,34 @@ export default function AdminApplicationsPage() {
     );
   }
 
+  const pendingApplications = getApplications('pending');
+  const approvedApplications = getApplications('approved');
+  const rejectedApplications = getApplications('rejected');
+
   return (
     <div className="container mx-auto px-4 py-8">
-      <div className="mb-8">
-        <h1 className="text-3xl font-bold">Role Applications</h1>
-        <p className="text-gray-600 mt-1">Review seller and delivery applications</p>
+      <div className="mb-8 flex flex-col md:flex-row md:items-center md:justify-between">
+        <div className="mb-4 md:mb-0">
+          <h1 className="text-3xl font-bold">Role Applications</h1>
+          <p className="text-gray-600 mt-1">Review seller and delivery applications</p>
+        </div>
+        <Button variant="outline" asChild>
+          <Link to="/admin/questionnaires">Edit Questionnaires</Link>
+        </Button>
       </div>
-      
+
       <Tabs defaultValue="pending" className="mb-8">
         <TabsList>
           <TabsTrigger value="pending">
             Pending
-            {getPendingApplications().length > 0 && (
-              <Badge variant="secondary" className="ml-2">{getPendingApplications().length}</Badge>
+            {pendingApplications.length > 0 && (
+              <Badge variant="secondary" className="ml-2">{pendingApplications.length}</Badge>
             )}
           </TabsTrigger>
           <TabsTrigger value="approved">Approved</TabsTrigger>
           <TabsTrigger value="rejected">Rejected</TabsTrigger>
         </TabsList>
-        
+
         <TabsContent value="pending" className="mt-4">
           <Card>
             <Table>
@@ -218,94 +202,29 @@ export default function AdminApplicationsPage() {
                 </TableRow>
               </TableHeader>
               <TableBody>
-                {getPendingApplications().length > 0 ? (
-                  getPendingApplications().map(app => (
+                {pendingApplications.length > 0 ? (
+                  pendingApplications.map(app => (
                     <TableRow key={app.id}>
                       <TableCell>{app.user_email}</TableCell>
-                      <TableCell>
-                        <div className="flex items-center">
-                          {app.role === 'seller' ? (
-                            <UserCheck className="h-4 w-4 mr-2 text-blue-500" />
-                          ) : (
-                            <Truck className="h-4 w-4 mr-2 text-green-500" />
-                          )}
-                          {app.role.charAt(0).toUpperCase() + app.role.slice(1)}
-                        </div>
-                      </TableCell>
+                      <TableCell><RoleCell role={app.role} /></TableCell>
                       <TableCell>{new Date(app.created_at).toLocaleDateString()}</TableCell>
                       <TableCell className="text-right">
                         <div className="flex justify-end gap-2">
-                          <Dialog>
-                            <DialogTrigger asChild>
-                              <Button variant="outline" size="sm" onClick={() => handleViewDetails(app)}>
-                                View Details
-                              </Button>
-                            </DialogTrigger>
-                            {selectedApplication && (
-                              <DialogContent className="sm:max-w-[500px]">
-                                <DialogHeader>
-                                  <DialogTitle>Application Details</DialogTitle>
-                                  <DialogDescription>
-                                    Review the application information below.
-                                  </DialogDescription>
-                                </DialogHeader>
-                                <div className="grid gap-4 py-4">
-                                  <div className="grid grid-cols-4 items-center gap-4">
-                                    <span className="text-right text-sm font-medium">Email:</span>
-                                    <span className="col-span-3">{selectedApplication.user_email}</span>
-                                  </div>
-                                  <div className="grid grid-cols-4 items-center gap-4">
-                                    <span className="text-right text-sm font-medium">Role:</span>
-                                    <span className="col-span-3 capitalize">{selectedApplication.role}</span>
-                                  </div>
-                                  <div className="grid grid-cols-4 items-center gap-4">
-                                    <span className="text-right text-sm font-medium">Applied:</span>
-                                    <span className="col-span-3">{new Date(selectedApplication.created_at).toLocaleString()}</span>
-                                  </div>
-                                  
-                                  {selectedApplication.question_responses && Object.entries(selectedApplication.question_responses).map(([key, value]) => (
-                                    <div key={key} className="grid grid-cols-4 items-center gap-4">
-                                      <span className="text-right text-sm font-medium">{key.replace(/([A-Z])/g, ' $1').replace(/^./, (str) => str.toUpperCase())}:</span>
-                                      <span className="col-span-3">{value}</span>
-                                    </div>
-                                  ))}
-                                </div>
-                                <DialogFooter>
-                                  <Button 
-                                    variant="destructive"
-                                    onClick={() => {
-                                      handleReject(selectedApplication);
-                                    }}
-                                    disabled={rejectApplicationMutation.isPending}
-                                  >
-                                    <XCircle className="mr-2 h-4 w-4" />
-                                    Reject
-                                  </Button>
-                                  <Button 
-                                    onClick={() => {
-                                      handleApprove(selectedApplication);
-                                    }}
-                                    disabled={approveApplicationMutation.isPending}
-                                  >
-                                    <CheckCircle className="mr-2 h-4 w-4" />
-                                    Approve
-                                  </Button>
-                                </DialogFooter>
-                              </DialogContent>
-                            )}
-                          </Dialog>
-                          <Button 
-                            variant="destructive" 
+                          <Button variant="outline" size="sm" onClick={() => setSelectedApplication(app)}>
+                            View Details
+                          </Button>
+                          <Button
+                            variant="destructive"
                             size="sm"
                             onClick={() => handleReject(app)}
-                            disabled={rejectApplicationMutation.isPending}
+                            disabled={reviewMutation.isPending}
                           >
                             <XCircle className="h-4 w-4" />
                           </Button>
-                          <Button 
+                          <Button
                             size="sm"
                             onClick={() => handleApprove(app)}
-                            disabled={approveApplicationMutation.isPending}
+                            disabled={reviewMutation.isPending}
                           >
                             <CheckCircle className="h-4 w-4" />
                           </Button>
@@ -324,7 +243,7 @@ export default function AdminApplicationsPage() {
             </Table>
           </Card>
         </TabsContent>
-        
+
         <TabsContent value="approved" className="mt-4">
           <Card>
             <Table>
@@ -337,22 +256,13 @@ export default function AdminApplicationsPage() {
                 </TableRow>
               </TableHeader>
               <TableBody>
-                {getApprovedApplications().length > 0 ? (
-                  getApprovedApplications().map(app => (
+                {approvedApplications.length > 0 ? (
+                  approvedApplications.map(app => (
                     <TableRow key={app.id}>
                       <TableCell>{app.user_email}</TableCell>
-                      <TableCell>
-                        <div className="flex items-center">
-                          {app.role === 'seller' ? (
-                            <UserCheck className="h-4 w-4 mr-2 text-blue-500" />
-                          ) : (
-                            <Truck className="h-4 w-4 mr-2 text-green-500" />
-                          )}
-                          {app.role.charAt(0).toUpperCase() + app.role.slice(1)}
-                        </div>
-                      </TableCell>
-                      <TableCell>{new Date(app.created_at).toLocaleDateString()}</TableCell>
+                      <TableCell><RoleCell role={app.role} /></TableCell>
                       <TableCell>{new Date(app.created_at).toLocaleDateString()}</TableCell>
+                      <TableCell>{app.reviewed_at ? new Date(app.reviewed_at).toLocaleDateString() : '—'}</TableCell>
                     </TableRow>
                   ))
                 ) : (
@@ -366,7 +276,7 @@ export default function AdminApplicationsPage() {
             </Table>
           </Card>
         </TabsContent>
-        
+
         <TabsContent value="rejected" className="mt-4">
           <Card>
             <Table>
@@ -376,30 +286,23 @@ export default function AdminApplicationsPage() {
                   <TableHead>Role</TableHead>
                   <TableHead>Applied On</TableHead>
                   <TableHead>Rejected On</TableHead>
+                  <TableHead>Reason</TableHead>
                 </TableRow>
               </TableHeader>
               <TableBody>
-                {getRejectedApplications().length > 0 ? (
-                  getRejectedApplications().map(app => (
+                {rejectedApplications.length > 0 ? (
+                  rejectedApplications.map(app => (
                     <TableRow key={app.id}>
                       <TableCell>{app.user_email}</TableCell>
-                      <TableCell>
-                        <div className="flex items-center">
-                          {app.role === 'seller' ? (
-                            <UserCheck className="h-4 w-4 mr-2 text-blue-500" />
-                          ) : (
-                            <Truck className="h-4 w-4 mr-2 text-green-500" />
-                          )}
-                          {app.role.charAt(0).toUpperCase() + app.role.slice(1)}
-                        </div>
-                      </TableCell>
-                      <TableCell>{new Date(app.created_at).toLocaleDateString()}</TableCell>
+                      <TableCell><RoleCell role={app.role} /></TableCell>
                       <TableCell>{new Date(app.created_at).toLocaleDateString()}</TableCell>
+                      <TableCell>{app.reviewed_at ? new Date(app.reviewed_at).toLocaleDateString() : '—'}</TableCell>
+                      <TableCell className="max-w-xs whitespace-pre-line">{app.rejection_reason}</TableCell>
                     </TableRow>
                   ))
                 ) : (
                   <TableRow>
-                    <TableCell colSpan={4} className="text-center py-6 text-gray-500">
+                    <TableCell colSpan={5} className="text-center py-6 text-gray-500">
                       No rejected applications
                     </TableCell>
                   </TableRow>
@@ -409,6 +312,98 @@ export default function AdminApplicationsPage() {
           </Card>
         </TabsContent>
       </Tabs>
+
+      <Dialog open={!!selectedApplication} onOpenChange={(open) => !open && setSelectedApplication(null)}>
+        {selectedApplication && (
+          <DialogContent className="sm:max-w-[500px]">
+            <DialogHeader>
+              <DialogTitle>Application Details</DialogTitle>
+              <DialogDescription>
+                Review the application information below.
+              </DialogDescription>
+            </DialogHeader>
+            <div className="grid gap-4 py-4">
+              <div className="grid grid-cols-4 items-center gap-4">
+                <span className="text-right text-sm font-medium">Email:</span>
+                <span className="col-span-3">{selectedApplication.user_email}</span>
+              </div>
+              <div className="grid grid-cols-4 items-center gap-4">
+                <span className="text-right text-sm font-medium">Role:</span>
+                <span className="col-span-3">{applicationRoleLabels[selectedApplication.role]}</span>
+              </div>
+              <div className="grid grid-cols-4 items-center gap-4">
+                <span className="text-right text-sm font-medium">Applied:</span>
+                <span className="col-span-3">{new Date(selectedApplication.created_at).toLocaleString()}</span>
+              </div>
+
+              {selectedApplication.questionnaire && (
+                <div className="grid grid-cols-4 items-center gap-4">
+                  <span className="text-right text-sm font-medium">Questions:</span>
+                  <span className="col-span-3">Version {selectedApplication.questionnaire.version}</span>
+                </div>
+              )}
+
+              <div className="border-t pt-4">
+                <ApplicationAnswers
+                  questions={selectedApplication.questionnaire?.questions || null}
+                  answers={selectedApplication.question_responses || {}}
+                  fileUrls={selectedApplication.file_urls}
+                />
+              </div>
+            </div>
+            {selectedApplication.status === 'pending' && (
+              <DialogFooter>
+                <Button
+                  variant="destructive"
+                  onClick={() => handleReject(selectedApplication)}
+                  disabled={reviewMutation.isPending}
+                >
+                  <XCircle className="mr-2 h-4 w-4" />
+                  Reject
+                </Button>
+                <Button
+                  onClick={() => handleApprove(selectedApplication)}
+                  disabled={reviewMutation.isPending}
+                >
+                  <CheckCircle className="mr-2 h-4 w-4" />
+                  Approve
+                </Button>
+              </DialogFooter>
+            )}
+          </DialogContent>
+        )}
+      </Dialog>
+
+      <Dialog open={!!rejecting} onOpenChange={(open) => !open && setRejecting(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Reject Application</DialogTitle>
+            <DialogDescription>
+              {rejecting?.user_email} will see this reason when they sign in.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="rejection-reason">Reason *</Label>
+            <Textarea
+              id="rejection-reason"
+              value={rejectionReason}
+              onChange={(e) => setRejectionReason(e.target.value)}
+              rows={4}
+              maxLength={1000}
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setRejecting(null)}>Cancel</Button>
+            <Button
+              variant="destructive"
+              disabled={!rejectionReason.trim() || reviewMutation.isPending}
+              onClick={() => rejecting && reviewMutation.mutate({ application: rejecting, approve: false, reason: rejectionReason.trim() })}
+            >
+              Reject Application
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
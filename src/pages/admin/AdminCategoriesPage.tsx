@@ -0,0 +1,446 @@
+import React, { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { supabase } from '@/integrations/supabase/client';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { useAuth } from '@/context/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { useCategories } from '@/hooks/use-categories';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Loader2, Plus, Edit, Trash2, MoreHorizontal, FolderPlus } from 'lucide-react';
+import {
+  Category,
+  flattenCategoryTree,
+  getCategoryPath,
+  getCategorySubtreeIds,
+  slugify,
+} from '@/lib/categories';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+
+const TOP_LEVEL = 'none';
+
+const emptyForm = {
+  name: '',
+  slug: '',
+  parent_id: TOP_LEVEL,
+  description: '',
+  image_url: '',
+  sort_order: '0',
+};
+
+// Turns database errors from the category constraints and triggers into
+// something an admin can act on
+const describeError = (error: { code?: string; message?: string }, fallback: string) => {
+  if (error.code === '23505') return 'Another category already uses this slug.';
+  if (error.code === '23503') return 'This category still has subcategories or products. Move them first.';
+  if (error.message?.includes('category_cycle')) return 'A category cannot be moved under one of its own subcategories.';
+  if (error.message?.includes('categories_slug_format')) return 'Slugs may only contain lowercase letters, numbers and single hyphens.';
+  return error.message || fallback;
+};
+
+export default function AdminCategoriesPage() {
+  const { user, userRole } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [formData, setFormData] = useState(emptyForm);
+  const [slugEdited, setSlugEdited] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [categoryToDelete, setCategoryToDelete] = useState<Category | null>(null);
+
+  const { data: categories = [], isLoading, error, refetch } = useCategories();
+
+  // Products directly in each category, so admins know what a delete or
+  // move affects
+  const { data: productCounts } = useQuery({
+    queryKey: ['adminCategoryProductCounts'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('products')
+        .select('category_id');
+
+      if (error) throw error;
+
+      const counts: Record<string, number> = {};
+      (data || []).forEach(product => {
+        if (product.category_id) {
+          counts[product.category_id] = (counts[product.category_id] || 0) + 1;
+        }
+      });
+      return counts;
+    },
+    enabled: !!user && userRole === 'admin',
+  });
+
+  const tree = flattenCategoryTree(categories);
+
+  // A category can't become its own descendant
+  const excludedParents = editingId ? getCategorySubtreeIds(categories, editingId) : [];
+  const parentOptions = tree.filter(({ category }) => !excludedParents.includes(category.id));
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ['categories'] });
+    queryClient.invalidateQueries({ queryKey: ['adminCategoryProductCounts'] });
+  };
+
+  const handleChange = (field: keyof typeof emptyForm, value: string) => {
+    setFormData(prev => ({ ...prev, [field]: value }));
+  };
+
+  const handleNameChange = (value: string) => {
+    setFormData(prev => ({
+      ...prev,
+      name: value,
+      slug: slugEdited ? prev.slug : slugify(value),
+    }));
+  };
+
+  const openCreateDialog = (parentId: string | null = null) => {
+    setEditingId(null);
+    setFormData({ ...emptyForm, parent_id: parentId || TOP_LEVEL });
+    setSlugEdited(false);
+    setDialogOpen(true);
+  };
+
+  const openEditDialog = (category: Category) => {
+    setEditingId(category.id);
+    setFormData({
+      name: category.name,
+      slug: category.slug,
+      parent_id: category.parent_id || TOP_LEVEL,
+      description: category.description || '',
+      image_url: category.image_url || '',
+      sort_order: String(category.sort_order),
+    });
+    setSlugEdited(true);
+    setDialogOpen(true);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const name = formData.name.trim();
+    const slug = slugify(formData.slug || name);
+    if (!name || !slug) {
+      toast({
+        title: "Missing details",
+        description: "A category needs a name and a slug.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const categoryData = {
+      name,
+      slug,
+      parent_id: formData.parent_id === TOP_LEVEL ? null : formData.parent_id,
+      description: formData.description.trim() || null,
+      image_url: formData.image_url.trim() || null,
+      sort_order: parseInt(formData.sort_order) || 0,
+    };
+
+    setSaving(true);
+    try {
+      const { error } = editingId
+        ? await supabase.from('categories').update(categoryData).eq('id', editingId)
+        : await supabase.from('categories').insert(categoryData);
+
+      if (error) throw error;
+
+      toast({
+        title: editingId ? "Category Updated" : "Category Created",
+        description: `${name} has been saved.`,
+      });
+
+      setDialogOpen(false);
+      refresh();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: describeError(error as { code?: string; message?: string }, "Failed to save category"),
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDeleteCategory = async () => {
+    if (!categoryToDelete) return;
+
+    const { error } = await supabase
+      .from('categories')
+      .delete()
+      .eq('id', categoryToDelete.id);
+
+    if (error) {
+      toast({
+        title: "Error",
+        description: describeError(error, "Failed to delete category"),
+        variant: "destructive",
+      });
+    } else {
+      toast({
+        title: "Category Deleted",
+        description: `${categoryToDelete.name} has been deleted.`,
+      });
+      refresh();
+    }
+
+    setCategoryToDelete(null);
+  };
+
+  if (!user || userRole !== 'admin') {
+    return null;
+  }
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <div className="mb-8 flex flex-col md:flex-row md:items-center md:justify-between">
+        <div className="mb-4 md:mb-0">
+          <h1 className="text-3xl font-bold">Categories</h1>
+          <p className="text-gray-600 mt-1">Organize the catalog into categories and subcategories</p>
+        </div>
+        <Button onClick={() => openCreateDialog()} className="bg-shop-purple hover:bg-shop-purple-dark">
+          <Plus className="mr-2 h-4 w-4" />
+          New Category
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center">
+          <div className="w-8 h-8 border-4 border-shop-purple border-t-transparent rounded-full animate-spin"></div>
+        </div>
+      ) : error ? (
+        <Card className="p-6">
+          <p className="text-red-500">Failed to load categories: {(error as Error).message}</p>
+          <Button onClick={() => refetch()} className="mt-4">Retry</Button>
+        </Card>
+      ) : (
+        <Card>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead>Slug</TableHead>
+                <TableHead>Products</TableHead>
+                <TableHead>Order</TableHead>
+                <TableHead>Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {tree.length > 0 ? (
+                tree.map(({ category, depth }) => (
+                  <TableRow key={category.id}>
+                    <TableCell>
+                      <div className="font-medium" style={{ paddingLeft: `${depth * 1.5}rem` }}>
+                        {depth > 0 && <span className="text-gray-400 mr-2">└</span>}
+                        {category.name}
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      <Link to={`/category/${category.slug}`} className="font-mono text-sm text-shop-purple hover:underline">
+                        {category.slug}
+                      </Link>
+                    </TableCell>
+                    <TableCell>{productCounts?.[category.id] || 0}</TableCell>
+                    <TableCell>{category.sort_order}</TableCell>
+                    <TableCell>
+                      <DropdownMenu>
+                        <DropdownMenuTrigger asChild>
+                          <Button variant="ghost" className="h-8 w-8 p-0">
+                            <span className="sr-only">Open menu</span>
+                            <MoreHorizontal className="h-4 w-4" />
+                          </Button>
+                        </DropdownMenuTrigger>
+                        <DropdownMenuContent align="end">
+                          <DropdownMenuLabel>Actions</DropdownMenuLabel>
+                          <DropdownMenuSeparator />
+                          <DropdownMenuItem onClick={() => openEditDialog(category)}>
+                            <Edit className="mr-2 h-4 w-4" />
+                            <span>Edit Category</span>
+                          </DropdownMenuItem>
+                          <DropdownMenuItem onClick={() => openCreateDialog(category.id)}>
+                            <FolderPlus className="mr-2 h-4 w-4" />
+                            <span>Add Subcategory</span>
+                          </DropdownMenuItem>
+                          <DropdownMenuItem onClick={() => setCategoryToDelete(category)}>
+                            <Trash2 className="mr-2 h-4 w-4" />
+                            <span>Delete Category</span>
+                          </DropdownMenuItem>
+                        </DropdownMenuContent>
+                      </DropdownMenu>
+                    </TableCell>
+                  </TableRow>
+                ))
+              ) : (
+                <TableRow>
+                  <TableCell colSpan={5} className="text-center py-6 text-gray-500">
+                    No categories yet
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </Card>
+      )}
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editingId ? 'Edit Category' : 'New Category'}</DialogTitle>
+          </DialogHeader>
+
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="name">Name *</Label>
+                <Input
+                  id="name"
+                  value={formData.name}
+                  onChange={(e) => handleNameChange(e.target.value)}
+                  placeholder="Running Shoes"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="slug">Slug *</Label>
+                <Input
+                  id="slug"
+                  value={formData.slug}
+                  onChange={(e) => {
+                    setSlugEdited(true);
+                    handleChange('slug', e.target.value.toLowerCase());
+                  }}
+                  placeholder="running-shoes"
+                  className="font-mono"
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Parent</Label>
+                <Select
+                  value={formData.parent_id}
+                  onValueChange={(value) => handleChange('parent_id', value)}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={TOP_LEVEL}>None (top level)</SelectItem>
+                    {parentOptions.map(({ category, depth }) => (
+                      <SelectItem key={category.id} value={category.id}>
+                        <span style={{ paddingLeft: `${depth}rem` }}>{category.name}</span>
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="sort_order">Sort order</Label>
+                <Input
+                  id="sort_order"
+                  type="number"
+                  value={formData.sort_order}
+                  onChange={(e) => handleChange('sort_order', e.target.value)}
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="description">Description</Label>
+              <Textarea
+                id="description"
+                value={formData.description}
+                onChange={(e) => handleChange('description', e.target.value)}
+                rows={2}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="image_url">Image URL</Label>
+              <Input
+                id="image_url"
+                value={formData.image_url}
+                onChange={(e) => handleChange('image_url', e.target.value)}
+                placeholder="https://"
+              />
+            </div>
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setDialogOpen(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={saving} className="bg-shop-purple hover:bg-shop-purple-dark">
+                {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                {editingId ? 'Save Changes' : 'Create Category'}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!categoryToDelete} onOpenChange={(open) => !open && setCategoryToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete Category?</AlertDialogTitle>
+            <AlertDialogDescription>
+              This will permanently delete {categoryToDelete && getCategoryPath(categories, categoryToDelete.id).map(c => c.name).join(' › ')}.
+              Categories that still have subcategories or products can't be deleted.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDeleteCategory} className="bg-red-600">
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -1,6 +1,7 @@
 
 import React, { useState } from 'react';
 import { useNavigate } from 'react-router-dom';
+import { FunctionsHttpError } from '@supabase/supabase-js';
 import { supabase } from '@/integrations/supabase/client';
 import { useQuery } from '@tanstack/react-query';
 import { useAuth } from '@/context/AuthContext';
@@ -9,7 +10,7 @@ import { Card } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { 
-  MoreHorizontal, TruckIcon, PackageCheck, Ban, Clock, CheckCircle 
+  MoreHorizontal, TruckIcon, PackageCheck, Ban, Clock, CheckCircle, CreditCard, RotateCcw 
 } from 'lucide-react';
 import {
   Table,
@@ -34,6 +35,14 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
+import {
+  canTransitionOrder,
+  getOrderStatusColor,
+  getOrderStatusLabel,
+  ORDER_STATUSES,
+  OrderStatus,
+  orderStatusLabels,
+} from '@/lib/orders';
 
 interface Order {
   id: string;
@@ -41,6 +50,8 @@ interface Order {
   user_email?: string;
   total: number;
   status: string;
+  payment_method: string | null;
+  delivery_status: string | null;
   created_at: string;
   shipping_address: string;
   shipping_city: string;
@@ -48,6 +59,15 @@ interface Order {
   tracking_number: string | null;
 }
 
+// The edge function's own error message, when it sent one
+async function readFunctionError(error: Error): Promise<string> {
+  if (error instanceof FunctionsHttpError) {
+    const body = await error.context.json().catch(() => null);
+    if (body?.error) return body.error;
+  }
+  return error.message;
+}
+
 export default function AdminOrdersPage() {
   const { user, userRole } = useAuth();
   const navigate = useNavigate();
@@ -70,18 +90,21 @@ export default function AdminOrdersPage() {
     enabled: !!user && userRole === 'admin',
   });
 
-  const updateOrderStatus = async (orderId: string, newStatus: string) => {
+  const updateOrderStatus = async (orderId: string, newStatus: OrderStatus) => {
     try {
-      const { error } = await supabase
-        .from('orders')
-        .update({ status: newStatus })
-        .eq('id', orderId);
+      const { error } = await supabase.functions.invoke('admin_functions', {
+        body: {
+          action: 'update_order_status',
+          order_id: orderId,
+          status: newStatus
+        }
+      });
       
-      if (error) throw error;
+      if (error) throw new Error(await readFunctionError(error));
       
       toast({
         title: "Order Updated",
-        description: `Order status changed to ${newStatus}`,
+        description: `Order status changed to ${orderStatusLabels[newStatus]}`,
       });
       
       refetch();
@@ -104,7 +127,7 @@ export default function AdminOrdersPage() {
         }
       });
       
-      if (error) throw error;
+      if (error) throw new Error(await readFunctionError(error));
       
       toast({
         title: "Delivery Assigned",
@@ -121,28 +144,27 @@ export default function AdminOrdersPage() {
     }
   };
   
-  const getStatusColor = (status: string) => {
-    switch(status) {
-      case 'pending': return 'bg-yellow-100 text-yellow-800';
-      case 'processing': return 'bg-blue-100 text-blue-800';
-      case 'shipped': return 'bg-purple-100 text-purple-800';
-      case 'delivered': return 'bg-green-100 text-green-800';
-      case 'cancelled': return 'bg-red-100 text-red-800';
-      default: return 'bg-gray-100 text-gray-800';
-    }
-  };
-  
   const getStatusIcon = (status: string) => {
     switch(status) {
       case 'pending': return <Clock className="h-4 w-4" />;
+      case 'paid': return <CreditCard className="h-4 w-4" />;
       case 'processing': return <PackageCheck className="h-4 w-4" />;
       case 'shipped': return <TruckIcon className="h-4 w-4" />;
       case 'delivered': return <CheckCircle className="h-4 w-4" />;
       case 'cancelled': return <Ban className="h-4 w-4" />;
+      case 'refunded': return <RotateCcw className="h-4 w-4" />;
       default: return <Clock className="h-4 w-4" />;
     }
   };
   
+  // Actions offered for each target status
+  const statusActions: { status: OrderStatus; label: string; icon: React.ReactNode }[] = [
+    { status: 'processing', label: 'Mark as Processing', icon: <PackageCheck className="mr-2 h-4 w-4" /> },
+    { status: 'shipped', label: 'Mark as Shipped', icon: <TruckIcon className="mr-2 h-4 w-4" /> },
+    { status: 'delivered', label: 'Mark as Delivered', icon: <CheckCircle className="mr-2 h-4 w-4" /> },
+    { status: 'cancelled', label: 'Cancel Order', icon: <Ban className="mr-2 h-4 w-4" /> },
+  ];
+  
   const filteredOrders = orders?.filter(order => {
     // Apply status filter if selected
     if (statusFilter && order.status !== statusFilter) {
@@ -210,11 +232,9 @@ export default function AdminOrdersPage() {
             </SelectTrigger>
             <SelectContent>
               <SelectItem value="">All Statuses</SelectItem>
-              <SelectItem value="pending">Pending</SelectItem>
-              <SelectItem value="processing">Processing</SelectItem>
-              <SelectItem value="shipped">Shipped</SelectItem>
-              <SelectItem value="delivered">Delivered</SelectItem>
-              <SelectItem value="cancelled">Cancelled</SelectItem>
+              {ORDER_STATUSES.map(status => (
+                <SelectItem key={status} value={status}>{orderStatusLabels[status]}</SelectItem>
+              ))}
             </SelectContent>
           </Select>
         </div>
@@ -240,9 +260,9 @@ export default function AdminOrdersPage() {
                     <TableCell>{order.user_email || 'Unknown'}</TableCell>
                     <TableCell>${order.total.toFixed(2)}</TableCell>
                     <TableCell>
-                      <div className={`px-2 py-1 rounded-full text-xs inline-flex items-center gap-1 ${getStatusColor(order.status)}`}>
+                      <div className={`px-2 py-1 rounded-full text-xs inline-flex items-center gap-1 ${getOrderStatusColor(order.status)}`}>
                         {getStatusIcon(order.status)}
-                        <span>{order.status}</span>
+                        <span>{getOrderStatusLabel(order.status)}</span>
                       </div>
                     </TableCell>
                     <TableCell>{new Date(order.created_at).toLocaleDateString()}</TableCell>
@@ -258,24 +278,21 @@ export default function AdminOrdersPage() {
                         <DropdownMenuContent align="end">
                           <DropdownMenuLabel>Actions</DropdownMenuLabel>
                           <DropdownMenuSeparator />
-                          <DropdownMenuItem onClick={() => updateOrderStatus(order.id, 'processing')}>
-                            <PackageCheck className="mr-2 h-4 w-4" />
-                            <span>Mark as Processing</span>
-                          </DropdownMenuItem>
-                          <DropdownMenuItem onClick={() => updateOrderStatus(order.id, 'shipped')}>
-                            <TruckIcon className="mr-2 h-4 w-4" />
-                            <span>Mark as Shipped</span>
-                          </DropdownMenuItem>
-                          <DropdownMenuItem onClick={() => updateOrderStatus(order.id, 'delivered')}>
-                            <CheckCircle className="mr-2 h-4 w-4" />
-                            <span>Mark as Delivered</span>
-                          </DropdownMenuItem>
-                          <DropdownMenuItem onClick={() => updateOrderStatus(order.id, 'cancelled')}>
-                            <Ban className="mr-2 h-4 w-4" />
-                            <span>Cancel Order</span>
-                          </DropdownMenuItem>
+                          {statusActions.map(action => (
+                            <DropdownMenuItem
+                              key={action.status}
+                              disabled={!canTransitionOrder(order.status as OrderStatus, action.status, order.payment_method)}
+                              onClick={() => updateOrderStatus(order.id, action.status)}
+                            >
+                              {action.icon}
+                              <span>{action.label}</span>
+                            </DropdownMenuItem>
+                          ))}
                           <DropdownMenuSeparator />
-                          <DropdownMenuItem onClick={() => assignDelivery(order.id)}>
+                          <DropdownMenuItem
+                            disabled={order.status !== 'processing'}
+                            onClick={() => assignDelivery(order.id)}
+                          >
                             <TruckIcon className="mr-2 h-4 w-4" />
                             <span>Assign Delivery</span>
                           </DropdownMenuItem>
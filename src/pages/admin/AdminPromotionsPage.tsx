@@ -0,0 +1,701 @@
+
+import React, { useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useQuery } from '@tanstack/react-query';
+import { useAuth } from '@/context/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { profileName } from '@/lib/utils';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Switch } from '@/components/ui/switch';
+import { Badge } from '@/components/ui/badge';
+import { Loader2, Plus, Edit, Trash2, MoreHorizontal } from 'lucide-react';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+
+type PromotionType = 'percentage' | 'fixed_amount' | 'free_shipping' | 'buy_x_get_y';
+
+interface Promotion {
+  id: string;
+  code: string;
+  name: string;
+  description: string | null;
+  type: string;
+  value: number;
+  buy_quantity: number | null;
+  get_quantity: number | null;
+  category: string | null;
+  seller_id: string | null;
+  min_subtotal: number;
+  usage_limit: number | null;
+  per_user_limit: number | null;
+  usage_count: number;
+  starts_at: string | null;
+  expires_at: string | null;
+  active: boolean;
+}
+
+const promotionTypeLabels: Record<PromotionType, string> = {
+  percentage: 'Percentage off',
+  fixed_amount: 'Fixed amount off',
+  free_shipping: 'Free shipping',
+  buy_x_get_y: 'Buy X get Y',
+};
+
+const ANY = 'any';
+
+const emptyForm = {
+  code: '',
+  name: '',
+  description: '',
+  type: 'percentage' as PromotionType,
+  value: '10',
+  buy_quantity: '2',
+  get_quantity: '1',
+  category: ANY,
+  seller_id: ANY,
+  min_subtotal: '0',
+  usage_limit: '',
+  per_user_limit: '',
+  starts_at: '',
+  expires_at: '',
+  active: true,
+};
+
+// Datetime inputs work in local time without a zone suffix
+const toInputDate = (value: string | null) => {
+  if (!value) return '';
+  const date = new Date(value);
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+};
+
+const describeValue = (promotion: Promotion) => {
+  switch (promotion.type) {
+    case 'percentage':
+      return `${promotion.value}% off`;
+    case 'fixed_amount':
+      return `$${promotion.value.toFixed(2)} off`;
+    case 'free_shipping':
+      return 'Free shipping';
+    case 'buy_x_get_y':
+      return `Buy ${promotion.buy_quantity} get ${promotion.get_quantity}` +
+        (promotion.value && promotion.value < 100 ? ` at ${promotion.value}% off` : ' free');
+    default:
+      return promotion.type;
+  }
+};
+
+const describeStatus = (promotion: Promotion) => {
+  const now = new Date();
+  if (!promotion.active) return { label: 'Inactive', className: 'bg-gray-100 text-gray-800' };
+  if (promotion.expires_at && new Date(promotion.expires_at) <= now) return { label: 'Expired', className: 'bg-red-100 text-red-800' };
+  if (promotion.starts_at && new Date(promotion.starts_at) > now) return { label: 'Scheduled', className: 'bg-blue-100 text-blue-800' };
+  if (promotion.usage_limit !== null && promotion.usage_count >= promotion.usage_limit) return { label: 'Used up', className: 'bg-yellow-100 text-yellow-800' };
+  return { label: 'Active', className: 'bg-green-100 text-green-800' };
+};
+
+export default function AdminPromotionsPage() {
+  const { user, userRole } = useAuth();
+  const { toast } = useToast();
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [formData, setFormData] = useState(emptyForm);
+  const [saving, setSaving] = useState(false);
+  const [promotionToDelete, setPromotionToDelete] = useState<Promotion | null>(null);
+
+  const { data: promotions, isLoading, error, refetch } = useQuery({
+    queryKey: ['adminPromotions'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('promotions')
+        .select('*')
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      return data as Promotion[];
+    },
+    enabled: !!user && userRole === 'admin',
+  });
+
+  // Options for scoping a promotion to a category or seller
+  const { data: scopeOptions } = useQuery({
+    queryKey: ['adminPromotionScopes'],
+    queryFn: async () => {
+      const [{ data: categories, error: categoriesError }, { data: sellerRoles, error: sellersError }] = await Promise.all([
+        supabase.from('categories').select('id, name').order('name'),
+        supabase.from('user_roles').select('user_id').eq('role', 'seller'),
+      ]);
+
+      if (categoriesError) throw categoriesError;
+      if (sellersError) throw sellersError;
+
+      const sellerIds = (sellerRoles || []).map(role => role.user_id);
+      const { data: profiles, error: profilesError } = sellerIds.length > 0
+        ? await supabase.from('profiles').select('id, first_name, last_name').in('id', sellerIds)
+        : { data: [], error: null };
+
+      if (profilesError) throw profilesError;
+
+      return {
+        categories: categories || [],
+        sellers: sellerIds.map(id => ({
+          id,
+          name: profileName(profiles?.find(profile => profile.id === id)) || id,
+        })),
+      };
+    },
+    enabled: !!user && userRole === 'admin',
+  });
+
+  const handleChange = (field: keyof typeof emptyForm, value: string | boolean) => {
+    setFormData(prev => ({ ...prev, [field]: value }));
+  };
+
+  const openCreateDialog = () => {
+    setEditingId(null);
+    setFormData(emptyForm);
+    setDialogOpen(true);
+  };
+
+  const openEditDialog = (promotion: Promotion) => {
+    setEditingId(promotion.id);
+    setFormData({
+      code: promotion.code,
+      name: promotion.name,
+      description: promotion.description || '',
+      type: promotion.type as PromotionType,
+      value: String(promotion.value),
+      buy_quantity: String(promotion.buy_quantity ?? 2),
+      get_quantity: String(promotion.get_quantity ?? 1),
+      category: promotion.category || ANY,
+      seller_id: promotion.seller_id || ANY,
+      min_subtotal: String(promotion.min_subtotal),
+      usage_limit: promotion.usage_limit ? String(promotion.usage_limit) : '',
+      per_user_limit: promotion.per_user_limit ? String(promotion.per_user_limit) : '',
+      starts_at: toInputDate(promotion.starts_at),
+      expires_at: toInputDate(promotion.expires_at),
+      active: promotion.active,
+    });
+    setDialogOpen(true);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const code = formData.code.trim().toUpperCase();
+    if (!code || !formData.name.trim()) {
+      toast({
+        title: "Missing details",
+        description: "A promotion needs a code and a name.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const value = formData.type === 'free_shipping' ? 0 : parseFloat(formData.value);
+    if (isNaN(value) || value < 0 || (formData.type === 'percentage' && value > 100)) {
+      toast({
+        title: "Invalid value",
+        description: "Enter a positive amount (percentages can't exceed 100).",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (formData.starts_at && formData.expires_at && new Date(formData.expires_at) <= new Date(formData.starts_at)) {
+      toast({
+        title: "Invalid dates",
+        description: "The expiry date must be after the start date.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const isBuyXGetY = formData.type === 'buy_x_get_y';
+    const promotionData = {
+      code,
+      name: formData.name.trim(),
+      description: formData.description.trim() || null,
+      type: formData.type,
+      value,
+      buy_quantity: isBuyXGetY ? parseInt(formData.buy_quantity) || 1 : null,
+      get_quantity: isBuyXGetY ? parseInt(formData.get_quantity) || 1 : null,
+      category: formData.category === ANY ? null : formData.category,
+      seller_id: formData.seller_id === ANY ? null : formData.seller_id,
+      min_subtotal: parseFloat(formData.min_subtotal) || 0,
+      usage_limit: formData.usage_limit ? parseInt(formData.usage_limit) : null,
+      per_user_limit: formData.per_user_limit ? parseInt(formData.per_user_limit) : null,
+      starts_at: formData.starts_at ? new Date(formData.starts_at).toISOString() : null,
+      expires_at: formData.expires_at ? new Date(formData.expires_at).toISOString() : null,
+      active: formData.active,
+      updated_at: new Date().toISOString(),
+    };
+
+    setSaving(true);
+    try {
+      const { error } = editingId
+        ? await supabase.from('promotions').update(promotionData).eq('id', editingId)
+        : await supabase.from('promotions').insert(promotionData);
+
+      if (error) throw error;
+
+      toast({
+        title: editingId ? "Promotion Updated" : "Promotion Created",
+        description: `${code} has been saved.`,
+      });
+
+      setDialogOpen(false);
+      refetch();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save promotion",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggleActive = async (promotion: Promotion) => {
+    const { error } = await supabase
+      .from('promotions')
+      .update({ active: !promotion.active, updated_at: new Date().toISOString() })
+      .eq('id', promotion.id);
+
+    if (error) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to update promotion",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    refetch();
+  };
+
+  const handleDeletePromotion = async () => {
+    if (!promotionToDelete) return;
+
+    const { error } = await supabase
+      .from('promotions')
+      .delete()
+      .eq('id', promotionToDelete.id);
+
+    if (error) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to delete promotion",
+        variant: "destructive",
+      });
+    } else {
+      toast({
+        title: "Promotion Deleted",
+        description: `${promotionToDelete.code} has been deleted.`,
+      });
+      refetch();
+    }
+
+    setPromotionToDelete(null);
+  };
+
+  if (!user || userRole !== 'admin') {
+    return null;
+  }
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <div className="mb-8 flex flex-col md:flex-row md:items-center md:justify-between">
+        <div className="mb-4 md:mb-0">
+          <h1 className="text-3xl font-bold">Promotions</h1>
+          <p className="text-gray-600 mt-1">Create and manage coupon codes</p>
+        </div>
+        <Button onClick={openCreateDialog} className="bg-shop-purple hover:bg-shop-purple-dark">
+          <Plus className="mr-2 h-4 w-4" />
+          New Promotion
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center">
+          <div className="w-8 h-8 border-4 border-shop-purple border-t-transparent rounded-full animate-spin"></div>
+        </div>
+      ) : error ? (
+        <Card className="p-6">
+          <p className="text-red-500">Failed to load promotions: {(error as Error).message}</p>
+          <Button onClick={() => refetch()} className="mt-4">Retry</Button>
+        </Card>
+      ) : (
+        <Card>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Code</TableHead>
+                <TableHead>Offer</TableHead>
+                <TableHead>Applies To</TableHead>
+                <TableHead>Usage</TableHead>
+                <TableHead>Expires</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Active</TableHead>
+                <TableHead>Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {promotions && promotions.length > 0 ? (
+                promotions.map(promotion => {
+                  const status = describeStatus(promotion);
+                  const seller = scopeOptions?.sellers.find(s => s.id === promotion.seller_id);
+
+                  return (
+                    <TableRow key={promotion.id}>
+                      <TableCell>
+                        <div className="font-medium font-mono">{promotion.code}</div>
+                        <div className="text-xs text-gray-500">{promotion.name}</div>
+                      </TableCell>
+                      <TableCell>
+                        {describeValue(promotion)}
+                        {promotion.min_subtotal > 0 && (
+                          <div className="text-xs text-gray-500">Min. ${promotion.min_subtotal.toFixed(2)}</div>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        {promotion.category || promotion.seller_id ? (
+                          <>
+                            {promotion.category && <div>{promotion.category}</div>}
+                            {promotion.seller_id && <div className="text-gray-500">{seller?.name || 'Seller'}</div>}
+                          </>
+                        ) : 'All products'}
+                      </TableCell>
+                      <TableCell>
+                        {promotion.usage_count}{promotion.usage_limit !== null && ` / ${promotion.usage_limit}`}
+                        {promotion.per_user_limit !== null && (
+                          <div className="text-xs text-gray-500">{promotion.per_user_limit} per customer</div>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        {promotion.expires_at ? new Date(promotion.expires_at).toLocaleDateString() : 'Never'}
+                      </TableCell>
+                      <TableCell>
+                        <Badge className={status.className}>{status.label}</Badge>
+                      </TableCell>
+                      <TableCell>
+                        <Switch
+                          checked={promotion.active}
+                          onCheckedChange={() => handleToggleActive(promotion)}
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <DropdownMenu>
+                          <DropdownMenuTrigger asChild>
+                            <Button variant="ghost" className="h-8 w-8 p-0">
+                              <span className="sr-only">Open menu</span>
+                              <MoreHorizontal className="h-4 w-4" />
+                            </Button>
+                          </DropdownMenuTrigger>
+                          <DropdownMenuContent align="end">
+                            <DropdownMenuLabel>Actions</DropdownMenuLabel>
+                            <DropdownMenuSeparator />
+                            <DropdownMenuItem onClick={() => openEditDialog(promotion)}>
+                              <Edit className="mr-2 h-4 w-4" />
+                              <span>Edit Promotion</span>
+                            </DropdownMenuItem>
+                            <DropdownMenuItem onClick={() => setPromotionToDelete(promotion)}>
+                              <Trash2 className="mr-2 h-4 w-4" />
+                              <span>Delete Promotion</span>
+                            </DropdownMenuItem>
+                          </DropdownMenuContent>
+                        </DropdownMenu>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })
+              ) : (
+                <TableRow>
+                  <TableCell colSpan={8} className="text-center py-6 text-gray-500">
+                    No promotions yet
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </Card>
+      )}
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editingId ? 'Edit Promotion' : 'New Promotion'}</DialogTitle>
+          </DialogHeader>
+
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="code">Code *</Label>
+                <Input
+                  id="code"
+                  value={formData.code}
+                  onChange={(e) => handleChange('code', e.target.value.toUpperCase())}
+                  placeholder="SUMMER10"
+                  className="font-mono"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="name">Name *</Label>
+                <Input
+                  id="name"
+                  value={formData.name}
+                  onChange={(e) => handleChange('name', e.target.value)}
+                  placeholder="Summer sale"
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="description">Description</Label>
+              <Textarea
+                id="description"
+                value={formData.description}
+                onChange={(e) => handleChange('description', e.target.value)}
+                rows={2}
+              />
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Type</Label>
+                <Select
+                  value={formData.type}
+                  onValueChange={(value) => handleChange('type', value)}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(promotionTypeLabels).map(([type, label]) => (
+                      <SelectItem key={type} value={type}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              {formData.type !== 'free_shipping' && (
+                <div className="space-y-2">
+                  <Label htmlFor="value">
+                    {formData.type === 'fixed_amount' ? 'Amount off ($)' :
+                      formData.type === 'buy_x_get_y' ? 'Discount on free items (%)' : 'Percent off (%)'}
+                  </Label>
+                  <Input
+                    id="value"
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={formData.value}
+                    onChange={(e) => handleChange('value', e.target.value)}
+                  />
+                </div>
+              )}
+            </div>
+
+            {formData.type === 'buy_x_get_y' && (
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="buy_quantity">Buy</Label>
+                  <Input
+                    id="buy_quantity"
+                    type="number"
+                    min="1"
+                    value={formData.buy_quantity}
+                    onChange={(e) => handleChange('buy_quantity', e.target.value)}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="get_quantity">Get</Label>
+                  <Input
+                    id="get_quantity"
+                    type="number"
+                    min="1"
+                    value={formData.get_quantity}
+                    onChange={(e) => handleChange('get_quantity', e.target.value)}
+                  />
+                </div>
+              </div>
+            )}
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Category</Label>
+                <Select
+                  value={formData.category}
+                  onValueChange={(value) => handleChange('category', value)}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ANY}>Any category</SelectItem>
+                    {scopeOptions?.categories.map(category => (
+                      <SelectItem key={category.id} value={category.name}>{category.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Seller</Label>
+                <Select
+                  value={formData.seller_id}
+                  onValueChange={(value) => handleChange('seller_id', value)}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ANY}>Any seller</SelectItem>
+                    {scopeOptions?.sellers.map(seller => (
+                      <SelectItem key={seller.id} value={seller.id}>{seller.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="min_subtotal">Minimum subtotal ($)</Label>
+                <Input
+                  id="min_subtotal"
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={formData.min_subtotal}
+                  onChange={(e) => handleChange('min_subtotal', e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="usage_limit">Total uses</Label>
+                <Input
+                  id="usage_limit"
+                  type="number"
+                  min="1"
+                  value={formData.usage_limit}
+                  onChange={(e) => handleChange('usage_limit', e.target.value)}
+                  placeholder="Unlimited"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="per_user_limit">Uses per customer</Label>
+                <Input
+                  id="per_user_limit"
+                  type="number"
+                  min="1"
+                  value={formData.per_user_limit}
+                  onChange={(e) => handleChange('per_user_limit', e.target.value)}
+                  placeholder="Unlimited"
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="starts_at">Starts</Label>
+                <Input
+                  id="starts_at"
+                  type="datetime-local"
+                  value={formData.starts_at}
+                  onChange={(e) => handleChange('starts_at', e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="expires_at">Expires</Label>
+                <Input
+                  id="expires_at"
+                  type="datetime-local"
+                  value={formData.expires_at}
+                  onChange={(e) => handleChange('expires_at', e.target.value)}
+                />
+              </div>
+            </div>
+
+            <div className="flex items-center space-x-2">
+              <Switch
+                id="active"
+                checked={formData.active}
+                onCheckedChange={(checked) => handleChange('active', checked)}
+              />
+              <Label htmlFor="active">Active</Label>
+            </div>
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setDialogOpen(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={saving} className="bg-shop-purple hover:bg-shop-purple-dark">
+                {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                {editingId ? 'Save Changes' : 'Create Promotion'}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!promotionToDelete} onOpenChange={(open) => !open && setPromotionToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete Promotion?</AlertDialogTitle>
+            <AlertDialogDescription>
+              This will permanently delete {promotionToDelete?.code} and its redemption history.
+              Deactivate it instead if you want to keep the history.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDeletePromotion} className="bg-red-600">
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -0,0 +1,249 @@
+import React, { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { supabase } from '@/integrations/supabase/client';
+import { useQueryClient } from '@tanstack/react-query';
+import { useAuth } from '@/context/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { useQuestionnaire } from '@/hooks/use-questionnaire';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import { ArrowDown, ArrowLeft, ArrowUp, Loader2, Plus, Trash2 } from 'lucide-react';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { ApplicationRole, applicationRoleLabels } from '@/lib/applications';
+import {
+  newQuestion,
+  Question,
+  QuestionType,
+  questionTypeLabels,
+  validateQuestionnaire,
+} from '@/lib/questionnaires';
+
+export default function AdminQuestionnairesPage() {
+  const { user, userRole } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [role, setRole] = useState<ApplicationRole>('seller');
+  const [questions, setQuestions] = useState<Question[]>([]);
+  const [publishing, setPublishing] = useState(false);
+
+  const { data: questionnaire, isLoading, error } = useQuestionnaire(role);
+
+  // Start every edit from the published version
+  useEffect(() => {
+    setQuestions(questionnaire?.questions || []);
+  }, [questionnaire]);
+
+  const updateQuestion = (index: number, changes: Partial<Question>) => {
+    setQuestions(prev => prev.map((question, i) => i === index ? { ...question, ...changes } : question));
+  };
+
+  const moveQuestion = (index: number, offset: number) => {
+    setQuestions(prev => {
+      const next = [...prev];
+      [next[index], next[index + offset]] = [next[index + offset], next[index]];
+      return next;
+    });
+  };
+
+  const removeQuestion = (index: number) => {
+    setQuestions(prev => prev.filter((_, i) => i !== index));
+  };
+
+  const handlePublish = async () => {
+    // Dropdown choices are edited one per line
+    const cleaned = questions.map(({ options, ...question }) => ({
+      ...question,
+      label: question.label.trim(),
+      ...(question.type === 'select'
+        ? { options: (options || []).map(option => option.trim()).filter(Boolean) }
+        : {}),
+    }));
+
+    const problem = validateQuestionnaire(cleaned);
+    if (problem) {
+      toast({
+        title: "Cannot publish",
+        description: problem,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const version = (questionnaire?.version || 0) + 1;
+
+    setPublishing(true);
+    try {
+      const { error } = await supabase
+        .from('application_questionnaires')
+        .insert({ role, version, questions: cleaned, created_by: user?.id });
+
+      if (error) {
+        throw error.code === '23505'
+          ? new Error('Someone else published a new version. Reload to see it before publishing again.')
+          : error;
+      }
+
+      toast({
+        title: "Questionnaire Published",
+        description: `Version ${version} is now shown to new ${applicationRoleLabels[role].toLowerCase()} applicants.`,
+      });
+
+      queryClient.invalidateQueries({ queryKey: ['questionnaire'] });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message || "Failed to publish questionnaire",
+        variant: "destructive",
+      });
+    } finally {
+      setPublishing(false);
+    }
+  };
+
+  if (!user || userRole !== 'admin') {
+    return null;
+  }
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <div className="mb-8 flex flex-col md:flex-row md:items-center md:justify-between">
+        <div className="mb-4 md:mb-0">
+          <Link to="/admin/applications" className="text-sm text-gray-500 hover:text-shop-purple inline-flex items-center mb-2">
+            <ArrowLeft className="h-4 w-4 mr-1" /> Applications
+          </Link>
+          <h1 className="text-3xl font-bold">Application Questionnaires</h1>
+          <p className="text-gray-600 mt-1">
+            Publishing creates a new version. Existing applications keep the questions they answered.
+          </p>
+        </div>
+        <Select value={role} onValueChange={(value) => setRole(value as ApplicationRole)}>
+          <SelectTrigger className="w-48">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(applicationRoleLabels) as ApplicationRole[]).map(option => (
+              <SelectItem key={option} value={option}>{applicationRoleLabels[option]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center">
+          <div className="w-8 h-8 border-4 border-shop-purple border-t-transparent rounded-full animate-spin"></div>
+        </div>
+      ) : error ? (
+        <Card className="p-6">
+          <p className="text-red-500">Failed to load questionnaire: {(error as Error).message}</p>
+        </Card>
+      ) : (
+        <>
+          <p className="text-sm text-gray-500 mb-4">
+            {questionnaire
+              ? `Version ${questionnaire.version}, published ${new Date(questionnaire.created_at).toLocaleString()}`
+              : 'No questionnaire published yet'}
+          </p>
+
+          <div className="space-y-4">
+            {questions.map((question, index) => (
+              <Card key={question.id} className="p-4">
+                <div className="flex flex-col md:flex-row gap-4">
+                  <div className="flex-1 space-y-2">
+                    <Label htmlFor={`label-${question.id}`}>Question {index + 1}</Label>
+                    <Input
+                      id={`label-${question.id}`}
+                      value={question.label}
+                      onChange={(e) => updateQuestion(index, { label: e.target.value })}
+                    />
+                  </div>
+                  <div className="md:w-48 space-y-2">
+                    <Label>Type</Label>
+                    <Select
+                      value={question.type}
+                      onValueChange={(value) => updateQuestion(index, { type: value as QuestionType })}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {(Object.keys(questionTypeLabels) as QuestionType[]).map(type => (
+                          <SelectItem key={type} value={type}>{questionTypeLabels[type]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+
+                {question.type === 'select' && (
+                  <div className="mt-4 space-y-2">
+                    <Label htmlFor={`options-${question.id}`}>Choices, one per line</Label>
+                    <Textarea
+                      id={`options-${question.id}`}
+                      value={(question.options || []).join('\n')}
+                      onChange={(e) => updateQuestion(index, { options: e.target.value.split('\n') })}
+                    />
+                  </div>
+                )}
+
+                <div className="mt-4 flex items-center justify-between">
+                  <div className="flex items-center gap-2">
+                    <Switch
+                      id={`required-${question.id}`}
+                      checked={question.required}
+                      onCheckedChange={(checked) => updateQuestion(index, { required: checked })}
+                    />
+                    <Label htmlFor={`required-${question.id}`}>Required</Label>
+                  </div>
+                  <div className="flex gap-1">
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      disabled={index === 0}
+                      onClick={() => moveQuestion(index, -1)}
+                    >
+                      <ArrowUp className="h-4 w-4" />
+                      <span className="sr-only">Move up</span>
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      disabled={index === questions.length - 1}
+                      onClick={() => moveQuestion(index, 1)}
+                    >
+                      <ArrowDown className="h-4 w-4" />
+                      <span className="sr-only">Move down</span>
+                    </Button>
+                    <Button variant="ghost" size="icon" onClick={() => removeQuestion(index)}>
+                      <Trash2 className="h-4 w-4 text-red-500" />
+                      <span className="sr-only">Remove</span>
+                    </Button>
+                  </div>
+                </div>
+              </Card>
+            ))}
+          </div>
+
+          <div className="mt-6 flex justify-between">
+            <Button variant="outline" onClick={() => setQuestions(prev => [...prev, newQuestion()])}>
+              <Plus className="mr-2 h-4 w-4" /> Add Question
+            </Button>
+            <Button onClick={handlePublish} disabled={publishing}>
+              {publishing && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Publish Version {(questionnaire?.version || 0) + 1}
+            </Button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,239 @@
+import React, { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { supabase } from '@/integrations/supabase/client';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { useAuth } from '@/context/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { Card } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Star } from 'lucide-react';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { describeReviewError } from '@/lib/reviews';
+import { profileName } from '@/lib/utils';
+
+type QueueView = 'flagged' | 'hidden';
+
+interface ModerationReview {
+  id: string;
+  rating: number;
+  comment: string | null;
+  status: string;
+  created_at: string;
+  author: string;
+  product: { id: string; name: string } | null;
+  reasons: { reason: string; count: number }[];
+}
+
+// Groups open flags by reason, most reported first
+const summarizeFlags = (flags: { reason: string; resolved_at: string | null }[]) => {
+  const counts: Record<string, number> = {};
+  flags.filter(flag => !flag.resolved_at).forEach(flag => {
+    counts[flag.reason] = (counts[flag.reason] || 0) + 1;
+  });
+  return Object.entries(counts)
+    .map(([reason, count]) => ({ reason, count }))
+    .sort((a, b) => b.count - a.count);
+};
+
+export default function AdminReviewsPage() {
+  const { user, userRole } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [view, setView] = useState<QueueView>('flagged');
+
+  const { data: reviews = [], isLoading, error, refetch } = useQuery({
+    queryKey: ['adminReviews', view],
+    queryFn: async (): Promise<ModerationReview[]> => {
+      let query = supabase
+        .from('reviews')
+        .select('id, rating, comment, status, created_at, user_id, flag_count, products (id, name), review_flags (reason, resolved_at)')
+        .order('flag_count', { ascending: false })
+        .order('created_at', { ascending: false });
+
+      query = view === 'flagged' ? query.gt('flag_count', 0) : query.eq('status', 'hidden');
+
+      const { data, error } = await query;
+      if (error) throw error;
+
+      const userIds = [...new Set((data || []).map(review => review.user_id))];
+      const { data: profiles, error: profilesError } = userIds.length > 0
+        ? await supabase.from('profiles').select('id, first_name, last_name').in('id', userIds)
+        : { data: [], error: null };
+
+      if (profilesError) throw profilesError;
+
+      return (data || []).map(review => ({
+        id: review.id,
+        rating: review.rating,
+        comment: review.comment,
+        status: review.status,
+        created_at: review.created_at,
+        author: profileName(profiles?.find(profile => profile.id === review.user_id)) || review.user_id,
+        product: review.products,
+        reasons: summarizeFlags(review.review_flags || []),
+      }));
+    },
+    enabled: !!user && userRole === 'admin',
+  });
+
+  const moderateMutation = useMutation({
+    mutationFn: async ({ reviewId, remove }: { reviewId: string; remove: boolean }) => {
+      const { error } = await supabase.rpc('moderate_review', { _review_id: reviewId, _remove: remove });
+      if (error) throw error;
+      return remove;
+    },
+    onSuccess: (remove) => {
+      queryClient.invalidateQueries({ queryKey: ['adminReviews'] });
+      toast({
+        title: remove ? 'Review Removed' : 'Review Kept',
+        description: remove
+          ? 'The review is hidden from shoppers and no longer counts toward the rating'
+          : 'The reports have been dismissed',
+      });
+    },
+    onError: (error: { message?: string }) => {
+      toast({
+        title: 'Error',
+        description: describeReviewError(error),
+        variant: 'destructive',
+      });
+    },
+  });
+
+  if (!user || userRole !== 'admin') return null;
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <div className="mb-8 flex flex-col md:flex-row md:items-center md:justify-between">
+        <div className="mb-4 md:mb-0">
+          <h1 className="text-3xl font-bold">Review Moderation</h1>
+          <p className="text-gray-600 mt-1">Check reviews that shoppers have reported</p>
+        </div>
+        <Select value={view} onValueChange={(value) => setView(value as QueueView)}>
+          <SelectTrigger className="w-44">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="flagged">Reported</SelectItem>
+            <SelectItem value="hidden">Removed</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center">
+          <div className="w-8 h-8 border-4 border-shop-purple border-t-transparent rounded-full animate-spin"></div>
+        </div>
+      ) : error ? (
+        <Card className="p-6">
+          <p className="text-red-500">Failed to load reviews: {(error as Error).message}</p>
+          <Button onClick={() => refetch()} className="mt-4">Retry</Button>
+        </Card>
+      ) : reviews.length === 0 ? (
+        <Card className="p-8 text-center text-gray-500">
+          {view === 'flagged' ? 'No reported reviews. Nice and quiet.' : 'No removed reviews.'}
+        </Card>
+      ) : (
+        <Card>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Review</TableHead>
+                <TableHead>Product</TableHead>
+                <TableHead>Reports</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {reviews.map(review => (
+                <TableRow key={review.id}>
+                  <TableCell className="max-w-md">
+                    <div className="flex items-center gap-2">
+                      <div className="flex">
+                        {[1, 2, 3, 4, 5].map(star => (
+                          <Star
+                            key={star}
+                            className={`w-3 h-3 ${star <= review.rating ? 'text-yellow-400 fill-yellow-400' : 'text-gray-300'}`}
+                          />
+                        ))}
+                      </div>
+                      {review.status === 'hidden' && <Badge variant="outline">Removed</Badge>}
+                    </div>
+                    <p className="mt-1 text-sm whitespace-pre-line">{review.comment || <span className="text-gray-400">No comment</span>}</p>
+                    <p className="mt-1 text-xs text-gray-500">
+                      {review.author} · {new Date(review.created_at).toLocaleDateString()}
+                    </p>
+                  </TableCell>
+                  <TableCell>
+                    {review.product ? (
+                      <Link to={`/product/${review.product.id}`} className="text-shop-purple hover:underline">
+                        {review.product.name}
+                      </Link>
+                    ) : '—'}
+                  </TableCell>
+                  <TableCell>
+                    {review.reasons.length === 0 ? (
+                      <span className="text-gray-400">None open</span>
+                    ) : (
+                      review.reasons.map(({ reason, count }) => (
+                        <div key={reason} className="text-sm">
+                          {reason} {count > 1 && <span className="text-gray-500">×{count}</span>}
+                        </div>
+                      ))
+                    )}
+                  </TableCell>
+                  <TableCell className="text-right whitespace-nowrap">
+                    {review.status === 'hidden' ? (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        disabled={moderateMutation.isPending}
+                        onClick={() => moderateMutation.mutate({ reviewId: review.id, remove: false })}
+                      >
+                        Restore
+                      </Button>
+                    ) : (
+                      <div className="flex justify-end gap-2">
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          disabled={moderateMutation.isPending}
+                          onClick={() => moderateMutation.mutate({ reviewId: review.id, remove: false })}
+                        >
+                          Keep
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="destructive"
+                          disabled={moderateMutation.isPending}
+                          onClick={() => moderateMutation.mutate({ reviewId: review.id, remove: true })}
+                        >
+                          Remove
+                        </Button>
+                      </div>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -2,8 +2,7 @@
 import React, { useState } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/context/AuthContext';
-import { useQuery, useMutation } from '@tanstack/react-query';
-import { useNavigate } from 'react-router-dom';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { Card } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -28,55 +27,38 @@ import {
 import { Switch } from "@/components/ui/switch";
 import { Label } from "@/components/ui/label";
 import { useForm } from "react-hook-form";
-
-interface StoreSettings {
-  store_name: string;
-  contact_email: string;
-  support_phone: string;
-  address: string;
-  shipping_policy: string;
-  return_policy: string;
-  terms_conditions: string;
-  privacy_policy: string;
-  maintenance_mode: boolean;
-  enable_seller_applications: boolean;
-  enable_delivery_applications: boolean;
-}
+import { useStoreSettings } from '@/hooks/use-store-settings';
+import {
+  formatSettingValue,
+  StoreSettings,
+  StoreSettingsChange,
+  storeSettingLabels,
+} from '@/lib/settings';
 
 export default function AdminSettingsPage() {
   const { user, userRole } = useAuth();
-  const navigate = useNavigate();
+  const queryClient = useQueryClient();
   const { toast } = useToast();
   const [isEditing, setIsEditing] = useState(false);
   const [activeTab, setActiveTab] = useState("general");
   
-  const { data: settings, isLoading, error, refetch } = useQuery<StoreSettings>({
-    queryKey: ['storeSettings'],
+  const { data: settings, isLoading, error, refetch } = useStoreSettings();
+
+  const { data: history, isLoading: historyLoading } = useQuery<StoreSettingsChange[]>({
+    queryKey: ['storeSettingsHistory'],
     queryFn: async () => {
       const { data, error } = await supabase.functions.invoke('admin_functions', {
         body: {
-          action: 'get_store_settings'
+          action: 'get_store_settings_history'
         }
       });
-      
+
       if (error) throw error;
-      return data || {
-        store_name: 'E-Commerce Store',
-        contact_email: '',
-        support_phone: '',
-        address: '',
-        shipping_policy: '',
-        return_policy: '',
-        terms_conditions: '',
-        privacy_policy: '',
-        maintenance_mode: false,
-        enable_seller_applications: true,
-        enable_delivery_applications: true
-      };
+      return data || [];
     },
-    enabled: !!user && userRole === 'admin',
+    enabled: !!user && userRole === 'admin' && activeTab === 'history',
   });
-  
+
   const form = useForm<StoreSettings>({
     defaultValues: {
       store_name: '',
@@ -117,9 +99,10 @@ export default function AdminSettingsPage() {
         description: "Store settings have been successfully updated",
       });
       setIsEditing(false);
-      refetch();
+      queryClient.invalidateQueries({ queryKey: ['storeSettings'] });
+      queryClient.invalidateQueries({ queryKey: ['storeSettingsHistory'] });
     },
-    onError: (error: any) => {
+    onError: (error: Error) => {
       toast({
         title: "Error",
         description: error.message || "Failed to update settings",
@@ -181,6 +164,7 @@ export default function AdminSettingsPage() {
                 <TabsTrigger value="policies">Policies</TabsTrigger>
                 <TabsTrigger value="applications">Applications</TabsTrigger>
                 <TabsTrigger value="maintenance">Maintenance</TabsTrigger>
+                <TabsTrigger value="history">History</TabsTrigger>
               </TabsList>
               
               <TabsContent value="general">
@@ -400,10 +384,39 @@ export default function AdminSettingsPage() {
                   </div>
                 </div>
               </TabsContent>
+
+              <TabsContent value="history">
+                {historyLoading ? (
+                  <div className="flex justify-center py-8">
+                    <div className="w-8 h-8 border-4 border-shop-purple border-t-transparent rounded-full animate-spin"></div>
+                  </div>
+                ) : history && history.length > 0 ? (
+                  <div className="space-y-4">
+                    {history.map(entry => (
+                      <div key={entry.id} className="rounded-lg border p-4">
+                        <p className="text-sm text-gray-500 mb-2">
+                          {new Date(entry.changed_at).toLocaleString()} by {entry.changed_by_name || 'an admin'}
+                        </p>
+                        <ul className="space-y-1 text-sm">
+                          {(Object.keys(entry.changes) as (keyof StoreSettings)[]).map(field => (
+                            <li key={field}>
+                              <span className="font-medium">{storeSettingLabels[field] || field}:</span>{' '}
+                              <span className="text-gray-500 line-through">{formatSettingValue(entry.changes[field]?.from)}</span>{' '}
+                              → {formatSettingValue(entry.changes[field]?.to)}
+                            </li>
+                          ))}
+                        </ul>
+                      </div>
+                    ))}
+                  </div>
+                ) : (
+                  <p className="text-gray-500 text-center py-8">No changes have been made yet</p>
+                )}
+              </TabsContent>
             </Tabs>
             
             <div className="mt-8 flex justify-end">
-              {isEditing ? (
+              {activeTab === 'history' ? null : isEditing ? (
                 <>
                   <Button 
                     type="button" 
@@ -23,8 +23,10 @@ import {
   Truck
 } from 'lucide-react';
 
+// One seller's package of an order, ready for pickup
 interface Order {
   id: string;
+  fulfilment_id: string;
   created_at: string;
   shipping_address: string;
   shipping_city: string;
@@ -69,13 +71,13 @@ export default function AvailableOrdersPage() {
 
   // Mutation for accepting an order - Fixed action name from accept_delivery_order to accept_order
   const acceptOrderMutation = useMutation({
-    mutationFn: async (orderId: string) => {
-      console.log("Accepting order:", orderId);
+    mutationFn: async (fulfilmentId: string) => {
+      console.log("Accepting package:", fulfilmentId);
       // Use edge function to accept an order
       const { data, error } = await supabase.functions.invoke('delivery_functions', {
         body: { 
           action: 'accept_order',
-          orderId: orderId
+          fulfilmentId: fulfilmentId
         }
       });
       
@@ -102,9 +104,9 @@ export default function AvailableOrdersPage() {
     }
   });
 
-  const handleAcceptOrder = (orderId: string) => {
+  const handleAcceptOrder = (fulfilmentId: string) => {
     if (window.confirm('Are you sure you want to accept this delivery order?')) {
-      acceptOrderMutation.mutate(orderId);
+      acceptOrderMutation.mutate(fulfilmentId);
     }
   };
 
@@ -159,7 +161,7 @@ export default function AvailableOrdersPage() {
               </TableHeader>
               <TableBody>
                 {orders.map((order) => (
-                  <TableRow key={order.id}>
+                  <TableRow key={order.fulfilment_id}>
                     <TableCell className="font-medium">
                       {order.id.slice(0, 8)}...
                     </TableCell>
@@ -180,7 +182,7 @@ export default function AvailableOrdersPage() {
                     <TableCell>${order.total.toFixed(2)}</TableCell>
                     <TableCell className="text-right">
                       <Button 
-                        onClick={() => handleAcceptOrder(order.id)}
+                        onClick={() => handleAcceptOrder(order.fulfilment_id)}
                         disabled={acceptOrderMutation.isPending}
                       >
                         <Truck className="mr-2 h-4 w-4" />
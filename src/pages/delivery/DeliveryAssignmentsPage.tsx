@@ -22,7 +22,8 @@ import {
   AlertCircle,
   PackageCheck,
   CheckCircle2,
-  RefreshCw
+  RefreshCw,
+  Undo2
 } from 'lucide-react';
 import {
   Dialog,
@@ -39,6 +40,7 @@ import {
   SelectTrigger,
   SelectValue,
 } from '@/components/ui/select';
+import { PickupStatus, pickupStatusLabels } from '@/lib/returns';
 
 interface Order {
   id: string;
@@ -51,6 +53,8 @@ interface Order {
   status: string;
 }
 
+type ShippingAddress = Pick<Order, 'shipping_address' | 'shipping_city' | 'shipping_state' | 'shipping_postal_code'>;
+
 interface DeliveryAssignment {
   id: string;
   order_id: string;
@@ -62,6 +66,17 @@ interface DeliveryAssignment {
   order: Order;
 }
 
+interface ReturnPickup {
+  id: string;
+  order_id: string;
+  quantity: number;
+  pickup_status: PickupStatus;
+  pickup_assigned_at: string;
+  picked_up_at: string | null;
+  product_name?: string;
+  address: ShippingAddress;
+}
+
 export default function DeliveryAssignmentsPage() {
   const { user } = useAuth();
   const { toast } = useToast();
@@ -161,6 +176,46 @@ export default function DeliveryAssignmentsPage() {
     }
   });
 
+  // Returns the courier has been asked to collect from customers
+  const { data: pickups } = useQuery({
+    queryKey: ['myPickups', user?.id],
+    queryFn: async () => {
+      const { data, error } = await supabase.functions.invoke<{ pickups: ReturnPickup[] }>('returns_functions', {
+        body: { action: 'get_pickups' }
+      });
+      
+      if (error) throw error;
+      
+      return data?.pickups || [];
+    },
+    enabled: !!user?.id,
+  });
+
+  const completePickupMutation = useMutation({
+    mutationFn: async (returnId: string) => {
+      const { error } = await supabase.functions.invoke('returns_functions', {
+        body: { action: 'complete_pickup', return_id: returnId }
+      });
+      
+      if (error) throw new Error(error.message || 'Failed to complete pickup');
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['myPickups'] });
+      
+      toast({
+        title: 'Pickup Completed',
+        description: 'The return has been marked as picked up.',
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Error',
+        description: error.message,
+        variant: 'destructive',
+      });
+    }
+  });
+
   const handleOpenUpdateDialog = (assignment: DeliveryAssignment) => {
     setSelectedAssignment(assignment);
     setUpdateStatus(assignment.status);
@@ -185,7 +240,7 @@ export default function DeliveryAssignmentsPage() {
   };
 
   // Format address for display
-  const formatAddress = (order: Order) => {
+  const formatAddress = (order: ShippingAddress) => {
     return `${order.shipping_address}, ${order.shipping_city}, ${order.shipping_state} ${order.shipping_postal_code}`;
   };
 
@@ -294,6 +349,64 @@ export default function DeliveryAssignmentsPage() {
         )}
       </Card>
       
+      {pickups && pickups.length > 0 && (
+        <div className="mt-8">
+          <h2 className="text-xl font-semibold mb-4 flex items-center gap-2">
+            <Undo2 className="h-5 w-5" />
+            Return Pickups
+          </h2>
+          <Card>
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Order ID</TableHead>
+                    <TableHead>Item</TableHead>
+                    <TableHead>Pickup Address</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead className="text-right">Action</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {pickups.map((pickup) => (
+                    <TableRow key={pickup.id}>
+                      <TableCell className="font-medium">
+                        {pickup.order_id.slice(0, 8)}...
+                      </TableCell>
+                      <TableCell>
+                        {pickup.quantity}x {pickup.product_name || 'Unknown product'}
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex items-center">
+                          <MapPin className="h-4 w-4 mr-2 text-gray-400" />
+                          <span className="truncate max-w-[200px]" title={formatAddress(pickup.address)}>
+                            {formatAddress(pickup.address)}
+                          </span>
+                        </div>
+                      </TableCell>
+                      <TableCell>
+                        <span className={getStatusBadge(pickup.pickup_status === 'picked_up' ? 'delivered' : 'assigned')}>
+                          {pickupStatusLabels[pickup.pickup_status].toUpperCase()}
+                        </span>
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <Button
+                          variant="outline"
+                          onClick={() => completePickupMutation.mutate(pickup.id)}
+                          disabled={pickup.pickup_status === 'picked_up' || completePickupMutation.isPending}
+                        >
+                          Mark Picked Up
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          </Card>
+        </div>
+      )}
+      
       {/* Update Status Dialog */}
       <Dialog open={updateDialogOpen} onOpenChange={setUpdateDialogOpen}>
         <DialogContent>
@@ -0,0 +1,334 @@
+import React, { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/context/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { useCategories } from '@/hooks/use-categories';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { ArrowLeft, Download, FileCheck, Loader2, Upload } from 'lucide-react';
+import {
+  CATALOG_COLUMNS,
+  CatalogFile,
+  catalogColumnLabels,
+  ColumnMapping,
+  ExistingProduct,
+  guessColumnMapping,
+  ImportRow,
+  parseCatalogFile,
+  requiredCatalogColumns,
+  toProductRow,
+  validateCatalogRows,
+} from '@/lib/catalog';
+import { downloadFile, toCsv } from '@/lib/csv';
+
+// Rows per upsert request
+const BATCH_SIZE = 200;
+
+export default function ImportProductsPage() {
+  const navigate = useNavigate();
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const { data: categories = [] } = useCategories();
+
+  const [file, setFile] = useState<CatalogFile | null>(null);
+  const [fileName, setFileName] = useState('');
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+  const [report, setReport] = useState<ImportRow[] | null>(null);
+  const [checking, setChecking] = useState(false);
+  const [importing, setImporting] = useState(false);
+
+  const missingColumns = mapping ? requiredCatalogColumns.filter(column => !mapping[column]) : [];
+  const validRows = report?.filter(row => row.values) || [];
+  const invalidCount = (report?.length || 0) - validRows.length;
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const picked = e.target.files?.[0];
+    if (!picked) return;
+
+    try {
+      const parsed = parseCatalogFile(picked.name, await picked.text());
+      if (parsed.rows.length === 0) throw new Error('The file has no products in it.');
+
+      setFile(parsed);
+      setFileName(picked.name);
+      setMapping(guessColumnMapping(parsed.headers));
+      setReport(null);
+    } catch (error) {
+      toast({
+        title: 'Could not read file',
+        description: (error as Error).message,
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleMappingChange = (column: string, header: string) => {
+    setMapping(prev => ({ ...prev, [column]: header === 'none' ? null : header }));
+    setReport(null);
+  };
+
+  // Dry run: look up the seller's SKUs and check every row without saving
+  const handleCheck = async () => {
+    if (!user || !file || !mapping) return;
+
+    setChecking(true);
+    try {
+      const { data, error } = await supabase
+        .from('products')
+        .select('id, sku, description, discounted_price, image_url, product_variants (count)')
+        .eq('seller_id', user.id)
+        .not('sku', 'is', null);
+
+      if (error) throw error;
+
+      const existing = new Map<string, ExistingProduct>((data || []).map(product => [product.sku, {
+        id: product.id,
+        sku: product.sku,
+        description: product.description,
+        discounted_price: product.discounted_price,
+        image_url: product.image_url,
+        has_variants: (product.product_variants[0]?.count || 0) > 0,
+      }]));
+
+      setReport(validateCatalogRows(file, mapping, categories, existing));
+    } catch (error) {
+      console.error('Error checking import:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to check the file against your products',
+        variant: 'destructive',
+      });
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  // Upsert the valid rows by SKU; rows with errors are skipped
+  const handleImport = async () => {
+    if (!user || validRows.length === 0) return;
+
+    setImporting(true);
+    try {
+      for (let start = 0; start < validRows.length; start += BATCH_SIZE) {
+        const batch = validRows.slice(start, start + BATCH_SIZE);
+        const { data, error } = await supabase
+          .from('products')
+          .upsert(batch.map(row => toProductRow(row.values, categories, user.id)), { onConflict: 'seller_id,sku' })
+          .select('id, sku');
+
+        if (error) throw error;
+
+        // New products start their gallery with the linked image
+        const ids = new Map((data || []).map(product => [product.sku, product.id]));
+        const images = batch
+          .filter(row => row.action === 'create' && row.imageUrl && ids.has(row.sku))
+          .map(row => ({
+            product_id: ids.get(row.sku),
+            url: row.imageUrl,
+            thumbnail_url: row.imageUrl,
+            alt_text: row.name,
+          }));
+
+        if (images.length > 0) {
+          const { error: imageError } = await supabase.from('product_images').insert(images);
+          if (imageError) throw imageError;
+        }
+      }
+
+      const created = validRows.filter(row => row.action === 'create').length;
+      toast({
+        title: 'Import Complete',
+        description: `${created} created, ${validRows.length - created} updated${invalidCount ? `, ${invalidCount} skipped` : ''}`,
+      });
+      navigate('/seller/products');
+    } catch (error) {
+      console.error('Error importing products:', error);
+      toast({
+        title: 'Error',
+        description: 'The import stopped partway. Check your products, then import the file again.',
+        variant: 'destructive',
+      });
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const handleDownloadTemplate = () => {
+    downloadFile('products-template.csv', toCsv([...CATALOG_COLUMNS], []), 'text/csv');
+  };
+
+  return (
+    <div className="container mx-auto px-4 py-8 space-y-6">
+      <div>
+        <Button variant="outline" size="sm" onClick={() => navigate('/seller/products')}>
+          <ArrowLeft className="h-4 w-4 mr-2" />
+          Back to Products
+        </Button>
+      </div>
+
+      <div>
+        <h1 className="text-3xl font-bold">Import Products</h1>
+        <p className="text-gray-600 mt-1">
+          Add or update products from a CSV or JSON file. Products are matched to yours by SKU.
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>1. Choose a file</CardTitle>
+          <CardDescription>
+            Use the same columns as an export from your products page, or map your own below.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="flex flex-col sm:flex-row gap-4 sm:items-center">
+          <Input type="file" accept=".csv,.json,text/csv,application/json" onChange={handleFileChange} className="sm:w-80" />
+          <Button type="button" variant="ghost" onClick={handleDownloadTemplate}>
+            <Download className="h-4 w-4 mr-2" />
+            Download Template
+          </Button>
+        </CardContent>
+      </Card>
+
+      {file && mapping && (
+        <Card>
+          <CardHeader>
+            <CardTitle>2. Match columns</CardTitle>
+            <CardDescription>
+              {fileName}: {file.rows.length} row{file.rows.length === 1 ? '' : 's'}. Columns you don't import keep
+              their current values on existing products.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {CATALOG_COLUMNS.map(column => (
+                <div key={column} className="space-y-1">
+                  <Label>
+                    {catalogColumnLabels[column]}
+                    {requiredCatalogColumns.includes(column) && ' *'}
+                  </Label>
+                  <Select
+                    value={mapping[column] ?? 'none'}
+                    onValueChange={(value) => handleMappingChange(column, value)}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="none">Don't import</SelectItem>
+                      {file.headers.filter(Boolean).map(header => (
+                        <SelectItem key={header} value={header}>{header}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </div>
+
+            {missingColumns.length > 0 && (
+              <p className="text-sm text-red-600">
+                Choose a column for {missingColumns.map(column => catalogColumnLabels[column]).join(', ')}.
+              </p>
+            )}
+
+            <Button onClick={handleCheck} disabled={checking || missingColumns.length > 0}>
+              {checking ? (
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              ) : (
+                <FileCheck className="h-4 w-4 mr-2" />
+              )}
+              Check Rows
+            </Button>
+          </CardContent>
+        </Card>
+      )}
+
+      {report && (
+        <Card>
+          <CardHeader>
+            <CardTitle>3. Review and import</CardTitle>
+            <CardDescription>
+              Nothing has been saved yet. {validRows.filter(row => row.action === 'create').length} to create,{' '}
+              {validRows.filter(row => row.action === 'update').length} to update, {invalidCount} with errors
+              {invalidCount > 0 && ' (these will be skipped)'}.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="rounded-md border max-h-[480px] overflow-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-16">Row</TableHead>
+                    <TableHead>SKU</TableHead>
+                    <TableHead>Name</TableHead>
+                    <TableHead>Result</TableHead>
+                    <TableHead>Notes</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {report.map(row => (
+                    <TableRow key={row.line}>
+                      <TableCell>{row.line}</TableCell>
+                      <TableCell className="font-mono">{row.sku}</TableCell>
+                      <TableCell>{row.name}</TableCell>
+                      <TableCell>
+                        {row.values ? (
+                          <Badge variant={row.action === 'create' ? 'default' : 'secondary'}>
+                            {row.action === 'create' ? 'Create' : 'Update'}
+                          </Badge>
+                        ) : (
+                          <Badge variant="destructive">Error</Badge>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        {row.errors.map(message => (
+                          <p key={message} className="text-red-600">{message}</p>
+                        ))}
+                        {row.warnings.map(message => (
+                          <p key={message} className="text-amber-600">{message}</p>
+                        ))}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+
+            <Button onClick={handleImport} disabled={importing || validRows.length === 0}>
+              {importing ? (
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              ) : (
+                <Upload className="h-4 w-4 mr-2" />
+              )}
+              Import {validRows.length} Product{validRows.length === 1 ? '' : 's'}
+            </Button>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
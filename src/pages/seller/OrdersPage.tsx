@@ -2,6 +2,7 @@
 import React, { useState, useEffect } from 'react';
 import { useQuery } from '@tanstack/react-query';
 import { useAuth } from '@/context/AuthContext';
+import { FunctionsHttpError } from '@supabase/supabase-js';
 import { supabase } from '@/integrations/supabase/client';
 import { 
   Card, 
@@ -20,17 +21,41 @@ import {
   TableRow,
 } from "@/components/ui/table";
 import { Badge } from '@/components/ui/badge';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Label } from '@/components/ui/label';
 import { useToast } from '@/hooks/use-toast';
-import { Loader2, PackageCheck, AlertCircle, Search, RefreshCw } from 'lucide-react';
+import { Loader2, PackageCheck, AlertCircle, Search, RefreshCw, Truck } from 'lucide-react';
 import { Input } from '@/components/ui/input';
+import SellerReturns from '@/components/seller/SellerReturns';
+import {
+  fulfilmentStatusColors,
+  fulfilmentStatusLabels,
+  getOrderStatusLabel,
+  isOrderFulfillable,
+  OrderFulfilment,
+} from '@/lib/orders';
 
 interface Order {
   id: string;
   created_at: string;
   status: string;
+  payment_method: string | null;
   total: number;
   user_id: string;
   customer_email?: string;
+  shipping_address: string;
+  shipping_city: string;
+  shipping_state: string;
+  shipping_postal_code: string;
+  shipping_country: string;
+  fulfilment: Omit<OrderFulfilment, 'order_id' | 'seller_id' | 'created_at' | 'updated_at'>;
   items: OrderItem[];
 }
 
@@ -38,10 +63,35 @@ interface OrderItem {
   id: string;
   product_id: string;
   product_name?: string;
+  sku?: string | null;
   quantity: number;
   price: number;
 }
 
+interface FulfilmentUpdate {
+  status: 'packed' | 'shipped';
+  carrier?: string;
+  trackingNumber?: string;
+}
+
+// Where the seller's package of an order stands, used for the summary and filters
+type FulfilmentStage = 'awaiting_payment' | 'to_pack' | 'packed' | 'shipped' | 'closed';
+
+const getFulfilmentStage = (order: Order): FulfilmentStage => {
+  const { status } = order.fulfilment;
+  if (status === 'cancelled' || ['cancelled', 'refunded'].includes(order.status)) return 'closed';
+  if (status === 'shipped' || status === 'delivered') return 'shipped';
+  if (!isOrderFulfillable(order.status, order.payment_method)) return 'awaiting_payment';
+  return status === 'pending' ? 'to_pack' : 'packed';
+};
+
+const stageFilters: { stage: FulfilmentStage; label: string }[] = [
+  { stage: 'to_pack', label: 'To Pack' },
+  { stage: 'packed', label: 'Packed' },
+  { stage: 'shipped', label: 'Shipped' },
+  { stage: 'awaiting_payment', label: 'Awaiting Payment' },
+];
+
 interface OrdersResponse {
   orders: Order[];
 }
@@ -50,7 +100,7 @@ export default function OrdersPage() {
   const { user } = useAuth();
   const { toast } = useToast();
   const [searchTerm, setSearchTerm] = useState('');
-  const [statusFilter, setStatusFilter] = useState<string | null>(null);
+  const [statusFilter, setStatusFilter] = useState<FulfilmentStage | null>(null);
   
   // Fetch seller orders
   const { data, isLoading, error, refetch } = useQuery({
@@ -72,32 +122,40 @@ export default function OrdersPage() {
     enabled: !!user?.id,
   });
   
-  // Update order status
-  const updateOrderStatus = async (orderId: string, newStatus: string) => {
+  // Mark the seller's package packed or shipped
+  const updateOrderStatus = async (orderId: string, update: FulfilmentUpdate): Promise<boolean> => {
     try {
-      const { data, error } = await supabase.functions.invoke('seller_functions', {
+      const { error } = await supabase.functions.invoke('seller_functions', {
         body: {
           action: 'update_order_status',
           order_id: orderId,
-          status: newStatus,
-          seller_id: user?.id
+          status: update.status,
+          carrier: update.carrier,
+          tracking_number: update.trackingNumber
         }
       });
       
-      if (error) throw error;
+      if (error) {
+        const body = error instanceof FunctionsHttpError
+          ? await error.context.json().catch(() => null)
+          : null;
+        throw new Error(body?.error || error.message);
+      }
       
       toast({
         title: "Order Updated",
-        description: `Order #${orderId.substring(0, 8)} has been marked as ${newStatus}`,
+        description: `Order #${orderId.substring(0, 8)} has been marked as ${fulfilmentStatusLabels[update.status].toLowerCase()}`,
       });
       
       refetch();
-    } catch (error: any) {
+      return true;
+    } catch (error) {
       toast({
         title: "Update Failed",
-        description: error.message || "There was an error updating the order",
+        description: error instanceof Error ? error.message : "There was an error updating the order",
         variant: "destructive",
       });
+      return false;
     }
   };
   
@@ -113,17 +171,18 @@ export default function OrdersPage() {
                     order.items.some(item => item.product_name?.toLowerCase().includes(searchTerm.toLowerCase()));
     }
     
-    // Apply status filter
+    // Apply fulfilment stage filter
     if (statusFilter) {
-      matchesStatus = order.status === statusFilter;
+      matchesStatus = getFulfilmentStage(order) === statusFilter;
     }
     
     return matchesSearch && matchesStatus;
   });
   
-  // Group orders by status for the summary
-  const ordersByStatus = data?.reduce((acc: Record<string, number>, order) => {
-    acc[order.status] = (acc[order.status] || 0) + 1;
+  // Group orders by fulfilment stage for the summary
+  const ordersByStage = data?.reduce((acc: Record<string, number>, order) => {
+    const stage = getFulfilmentStage(order);
+    acc[stage] = (acc[stage] || 0) + 1;
     return acc;
   }, {}) || {};
   
@@ -180,43 +239,43 @@ export default function OrdersPage() {
           </CardContent>
         </Card>
         
-        <Card className="bg-yellow-50" onClick={() => setStatusFilter('pending')}>
+        <Card className="bg-yellow-50 cursor-pointer" onClick={() => setStatusFilter('to_pack')}>
           <CardHeader className="pb-2">
-            <CardTitle className="text-lg">Pending</CardTitle>
-            <CardDescription>Awaiting processing</CardDescription>
+            <CardTitle className="text-lg">To Pack</CardTitle>
+            <CardDescription>Ready to prepare</CardDescription>
           </CardHeader>
           <CardContent>
-            <p className="text-2xl font-bold">{ordersByStatus['pending'] || 0}</p>
+            <p className="text-2xl font-bold">{ordersByStage['to_pack'] || 0}</p>
           </CardContent>
         </Card>
         
-        <Card className="bg-purple-50" onClick={() => setStatusFilter('processing')}>
+        <Card className="bg-purple-50 cursor-pointer" onClick={() => setStatusFilter('packed')}>
           <CardHeader className="pb-2">
-            <CardTitle className="text-lg">Processing</CardTitle>
-            <CardDescription>In progress</CardDescription>
+            <CardTitle className="text-lg">Packed</CardTitle>
+            <CardDescription>Waiting for shipment</CardDescription>
           </CardHeader>
           <CardContent>
-            <p className="text-2xl font-bold">{ordersByStatus['processing'] || 0}</p>
+            <p className="text-2xl font-bold">{ordersByStage['packed'] || 0}</p>
           </CardContent>
         </Card>
         
-        <Card className="bg-green-50" onClick={() => setStatusFilter('shipped')}>
+        <Card className="bg-green-50 cursor-pointer" onClick={() => setStatusFilter('shipped')}>
           <CardHeader className="pb-2">
             <CardTitle className="text-lg">Shipped</CardTitle>
             <CardDescription>On their way</CardDescription>
           </CardHeader>
           <CardContent>
-            <p className="text-2xl font-bold">{ordersByStatus['shipped'] || 0}</p>
+            <p className="text-2xl font-bold">{ordersByStage['shipped'] || 0}</p>
           </CardContent>
         </Card>
         
-        <Card className="bg-gray-50" onClick={() => setStatusFilter('delivered')}>
+        <Card className="bg-gray-50 cursor-pointer" onClick={() => setStatusFilter('awaiting_payment')}>
           <CardHeader className="pb-2">
-            <CardTitle className="text-lg">Delivered</CardTitle>
-            <CardDescription>Completed orders</CardDescription>
+            <CardTitle className="text-lg">Awaiting Payment</CardTitle>
+            <CardDescription>Not ready to fulfil</CardDescription>
           </CardHeader>
           <CardContent>
-            <p className="text-2xl font-bold">{ordersByStatus['delivered'] || 0}</p>
+            <p className="text-2xl font-bold">{ordersByStage['awaiting_payment'] || 0}</p>
           </CardContent>
         </Card>
       </div>
@@ -240,34 +299,16 @@ export default function OrdersPage() {
           >
             All
           </Button>
-          <Button 
-            variant={statusFilter === 'pending' ? "default" : "outline"} 
-            size="sm"
-            onClick={() => setStatusFilter('pending')}
-          >
-            Pending
-          </Button>
-          <Button 
-            variant={statusFilter === 'processing' ? "default" : "outline"} 
-            size="sm"
-            onClick={() => setStatusFilter('processing')}
-          >
-            Processing
-          </Button>
-          <Button 
-            variant={statusFilter === 'shipped' ? "default" : "outline"} 
-            size="sm"
-            onClick={() => setStatusFilter('shipped')}
-          >
-            Shipped
-          </Button>
-          <Button 
-            variant={statusFilter === 'delivered' ? "default" : "outline"} 
-            size="sm"
-            onClick={() => setStatusFilter('delivered')}
-          >
-            Delivered
-          </Button>
+          {stageFilters.map(filter => (
+            <Button 
+              key={filter.stage}
+              variant={statusFilter === filter.stage ? "default" : "outline"} 
+              size="sm"
+              onClick={() => setStatusFilter(filter.stage)}
+            >
+              {filter.label}
+            </Button>
+          ))}
         </div>
       </div>
       
@@ -294,16 +335,27 @@ export default function OrdersPage() {
                     <TableCell>{new Date(order.created_at).toLocaleDateString()}</TableCell>
                     <TableCell>{order.customer_email || 'Anonymous'}</TableCell>
                     <TableCell>
-                      {order.items.map((item, i) => (
-                        <div key={i} className="text-sm">
+                      {order.items.map((item) => (
+                        <div key={item.id} className="text-sm">
                           {item.quantity}x {item.product_name || `Product #${item.product_id.substring(0, 5)}`}
-                          {i < order.items.length - 1 ? ', ' : ''}
                         </div>
                       ))}
                     </TableCell>
                     <TableCell>${order.total.toFixed(2)}</TableCell>
                     <TableCell>
-                      <StatusBadge status={order.status} />
+                      <div className="flex flex-col items-start gap-1">
+                        <Badge variant="outline" className={`border-0 ${fulfilmentStatusColors[order.fulfilment.status]}`}>
+                          {fulfilmentStatusLabels[order.fulfilment.status]}
+                        </Badge>
+                        {order.fulfilment.tracking_number && (
+                          <span className="text-xs text-gray-500">
+                            {order.fulfilment.carrier} · {order.fulfilment.tracking_number}
+                          </span>
+                        )}
+                        <span className="text-xs text-gray-500">
+                          Order: {getOrderStatusLabel(order.status)}
+                        </span>
+                      </div>
                     </TableCell>
                     <TableCell className="text-right">
                       <OrderActions 
@@ -337,95 +389,130 @@ export default function OrdersPage() {
           )}
         </Card>
       )}
+      
+      <SellerReturns />
     </div>
   );
 }
 
-// Status badge component
-function StatusBadge({ status }: { status: string }) {
-  switch (status) {
-    case 'pending':
-      return <Badge variant="outline" className="bg-yellow-50 text-yellow-700 border-yellow-200">Pending</Badge>;
-    case 'processing':
-      return <Badge variant="outline" className="bg-purple-50 text-purple-700 border-purple-200">Processing</Badge>;
-    case 'shipped':
-      return <Badge variant="outline" className="bg-blue-50 text-blue-700 border-blue-200">Shipped</Badge>;
-    case 'delivered':
-      return <Badge variant="outline" className="bg-green-50 text-green-700 border-green-200">Delivered</Badge>;
-    case 'cancelled':
-      return <Badge variant="outline" className="bg-red-50 text-red-700 border-red-200">Cancelled</Badge>;
-    default:
-      return <Badge variant="outline">{status}</Badge>;
-  }
-}
-
 // Order actions component
 function OrderActions({ order, onUpdateStatus }: { 
   order: Order, 
-  onUpdateStatus: (id: string, status: string) => Promise<void> 
+  onUpdateStatus: (id: string, update: FulfilmentUpdate) => Promise<boolean> 
 }) {
+  const [isOpen, setIsOpen] = useState(false);
   const [isUpdating, setIsUpdating] = useState(false);
+  const [carrier, setCarrier] = useState('');
+  const [trackingNumber, setTrackingNumber] = useState('');
+  
+  const stage = getFulfilmentStage(order);
+  const canShip = carrier.trim() !== '' && trackingNumber.trim() !== '';
   
-  const handleUpdateStatus = async (status: string) => {
+  const openDialog = () => {
+    setCarrier('');
+    setTrackingNumber('');
+    setIsOpen(true);
+  };
+  
+  const handleUpdate = async (status: FulfilmentUpdate['status']) => {
     setIsUpdating(true);
     try {
-      await onUpdateStatus(order.id, status);
+      const updated = await onUpdateStatus(order.id, {
+        status,
+        carrier: status === 'shipped' ? carrier : undefined,
+        trackingNumber: status === 'shipped' ? trackingNumber : undefined,
+      });
+      if (updated) {
+        setIsOpen(false);
+      }
     } finally {
       setIsUpdating(false);
     }
   };
   
-  // Define available actions based on current status
-  const getAvailableActions = () => {
-    switch (order.status) {
-      case 'pending':
-        return (
-          <Button 
-            size="sm" 
-            variant="outline" 
-            disabled={isUpdating}
-            onClick={() => handleUpdateStatus('processing')}
-          >
-            {isUpdating && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
-            Process Order
-          </Button>
-        );
-      case 'processing':
-        return (
-          <Button 
-            size="sm" 
-            variant="outline" 
-            disabled={isUpdating}
-            onClick={() => handleUpdateStatus('shipped')}
-          >
-            {isUpdating && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
-            Mark Shipped
-          </Button>
-        );
-      case 'shipped':
-        return (
-          <Button 
-            size="sm" 
-            variant="outline" 
+  if (stage !== 'to_pack' && stage !== 'packed') {
+    return (
+      <Button size="sm" variant="outline" disabled={true}>
+        {stage === 'awaiting_payment' ? 'Awaiting Payment' : stage === 'closed' ? 'Closed' : 'Complete'}
+      </Button>
+    );
+  }
+  
+  return (
+    <>
+      <div className="flex justify-end gap-2">
+        {stage === 'to_pack' && (
+          <Button
+            size="sm"
+            variant="outline"
             disabled={isUpdating}
-            onClick={() => handleUpdateStatus('delivered')}
-          >
-            {isUpdating && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
-            Mark Delivered
-          </Button>
-        );
-      default:
-        return (
-          <Button 
-            size="sm" 
-            variant="outline" 
-            disabled={true}
+            onClick={() => handleUpdate('packed')}
           >
-            Complete
+            {isUpdating ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <PackageCheck className="mr-2 h-4 w-4" />}
+            Mark Packed
           </Button>
-        );
-    }
-  };
-  
-  return getAvailableActions();
+        )}
+        <Button size="sm" variant="outline" disabled={isUpdating} onClick={openDialog}>
+          <Truck className="mr-2 h-4 w-4" />
+          Ship
+        </Button>
+      </div>
+      
+      <Dialog open={isOpen} onOpenChange={setIsOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Ship Order #{order.id.substring(0, 8)}</DialogTitle>
+            <DialogDescription>
+              Ship to {order.shipping_address}, {order.shipping_city}, {order.shipping_state} {order.shipping_postal_code}, {order.shipping_country}
+            </DialogDescription>
+          </DialogHeader>
+          
+          <div className="space-y-4">
+            <div className="text-sm space-y-1">
+              {order.items.map(item => (
+                <p key={item.id}>
+                  {item.quantity}x {item.product_name || `Product #${item.product_id.substring(0, 5)}`}
+                  {item.sku && <span className="ml-2 font-mono text-xs text-gray-500">{item.sku}</span>}
+                </p>
+              ))}
+            </div>
+            
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="carrier">Carrier</Label>
+                <Input
+                  id="carrier"
+                  placeholder="e.g. UPS"
+                  value={carrier}
+                  onChange={(e) => setCarrier(e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="tracking-number">Tracking Number</Label>
+                <Input
+                  id="tracking-number"
+                  value={trackingNumber}
+                  onChange={(e) => setTrackingNumber(e.target.value)}
+                />
+              </div>
+            </div>
+          </div>
+          
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsOpen(false)}>
+              Cancel
+            </Button>
+            <Button
+              className="bg-shop-purple hover:bg-shop-purple-dark"
+              disabled={isUpdating || !canShip}
+              onClick={() => handleUpdate('shipped')}
+            >
+              {isUpdating ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Truck className="mr-2 h-4 w-4" />}
+              Mark Shipped
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
 }
@@ -46,8 +46,12 @@ import {
   Edit, 
   Trash, 
   Loader2,
-  AlertCircle
+  AlertCircle,
+  Download,
+  Upload
 } from 'lucide-react';
+import { CATALOG_COLUMNS, CatalogRecord, toCatalogCells } from '@/lib/catalog';
+import { downloadFile, toCsv } from '@/lib/csv';
 
 interface Product {
   id: string;
@@ -136,6 +140,52 @@ export default function ProductsPage() {
     }
   };
   
+  // The whole catalogue, in the format ImportProductsPage reads
+  const handleExport = async (format: 'csv' | 'json') => {
+    try {
+      const { data, error } = await supabase
+        .from('products')
+        .select('sku, name, description, category, price, discounted_price, stock, image_url')
+        .eq('seller_id', user?.id)
+        .order('name');
+      
+      if (error) throw error;
+      
+      const records: CatalogRecord[] = (data || []).map(product => ({
+        sku: product.sku || '',
+        name: product.name,
+        description: product.description || '',
+        category: product.category,
+        price: Number(product.price),
+        discounted_price: product.discounted_price === null ? null : Number(product.discounted_price),
+        stock: product.stock,
+        image_url: product.image_url || '',
+      }));
+      
+      const date = new Date().toISOString().slice(0, 10);
+      if (format === 'csv') {
+        downloadFile(`products-${date}.csv`, toCsv([...CATALOG_COLUMNS], records.map(toCatalogCells)), 'text/csv');
+      } else {
+        downloadFile(`products-${date}.json`, JSON.stringify(records, null, 2), 'application/json');
+      }
+      
+      const withoutSku = records.filter(record => !record.sku).length;
+      if (withoutSku > 0) {
+        toast({
+          title: 'Export Complete',
+          description: `${withoutSku} product(s) have no SKU. Add one before importing the file back.`,
+        });
+      }
+    } catch (err) {
+      console.error('Error exporting products:', err);
+      toast({
+        title: 'Error',
+        description: 'Failed to export products',
+        variant: 'destructive',
+      });
+    }
+  };
+  
   const filteredProducts = products.filter(product => 
     product.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
     product.category.toLowerCase().includes(searchTerm.toLowerCase())
@@ -148,10 +198,28 @@ export default function ProductsPage() {
           <h1 className="text-3xl font-bold">Products</h1>
           <p className="text-gray-600 mt-1">Manage your product inventory</p>
         </div>
-        <Button onClick={() => navigate('/seller/products/new')}>
-          <Plus className="mr-2 h-4 w-4" />
-          Add New Product
-        </Button>
+        <div className="flex flex-wrap gap-2">
+          <Button variant="outline" onClick={() => navigate('/seller/products/import')}>
+            <Upload className="mr-2 h-4 w-4" />
+            Import
+          </Button>
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="outline" disabled={products.length === 0}>
+                <Download className="mr-2 h-4 w-4" />
+                Export
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              <DropdownMenuItem onClick={() => handleExport('csv')}>CSV</DropdownMenuItem>
+              <DropdownMenuItem onClick={() => handleExport('json')}>JSON</DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
+          <Button onClick={() => navigate('/seller/products/new')}>
+            <Plus className="mr-2 h-4 w-4" />
+            Add New Product
+          </Button>
+        </div>
       </div>
       
       <Card>
@@ -6,6 +6,7 @@ import { useToast } from '@/hooks/use-toast';
 import { useQuery } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
 import { AlertCircle, Loader2, DollarSign, ShoppingCart, TrendingUp } from 'lucide-react';
+import { getOrderStatusColor, getOrderStatusLabel } from '@/lib/orders';
 
 export default function SalesPage() {
   const { user } = useAuth();
@@ -216,13 +217,8 @@ export default function SalesPage() {
                             {new Date(order.created_at).toLocaleDateString()}
                           </td>
                           <td className="px-6 py-4">
-                            <span className={`px-2 py-1 rounded text-xs font-medium ${
-                              order.status === 'completed' ? 'bg-green-100 text-green-800' : 
-                              order.status === 'processing' ? 'bg-blue-100 text-blue-800' :
-                              order.status === 'shipped' ? 'bg-purple-100 text-purple-800' :
-                              'bg-yellow-100 text-yellow-800'
-                            }`}>
-                              {order.status.charAt(0).toUpperCase() + order.status.slice(1)}
+                            <span className={`px-2 py-1 rounded text-xs font-medium ${getOrderStatusColor(order.status)}`}>
+                              {getOrderStatusLabel(order.status)}
                             </span>
                           </td>
                           <td className="px-6 py-4 font-medium">${order.sellerTotal.toFixed(2)}</td>
@@ -2,6 +2,30 @@
 import { supabase } from "@/integrations/supabase/client";
 import { Database } from "@/integrations/supabase/types";
 
+/**
+ * The role granted by the user's most recently approved role application,
+ * or customer when there is none
+ *
+ * @param userId - The user's ID to look up
+ * @returns A promise that resolves to the role to assign
+ */
+const getApprovedRole = async (userId: string): Promise<Database["public"]["Enums"]["user_role"]> => {
+  const { data, error } = await supabase
+    .from('role_applications')
+    .select('role')
+    .eq('user_id', userId)
+    .eq('status', 'approved')
+    .order('reviewed_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    console.error("Error checking role applications:", error);
+  }
+
+  return data?.role || 'customer';
+};
+
 /**
  * Verifies if a user exists in the system and has proper role and profile
  * Will attempt to create missing entries if needed
@@ -34,23 +58,9 @@ export const verifyUserConsistency = async (userId: string): Promise<boolean> =>
     if (!roleData) {
       console.log(`No role found for user ${userId}, creating default role`);
       
-      // Try to get role from user metadata first (for SSO users)
-      let roleToAssign: Database["public"]["Enums"]["user_role"] = 'customer';
-      
-      try {
-        // Get the user's metadata to check for role_request
-        const { data: userData, error: userError } = await supabase.auth.getUser();
-        
-        if (!userError && userData?.user?.user_metadata?.role_request) {
-          const requestedRole = userData.user.user_metadata.role_request as string;
-          if (['admin', 'seller', 'customer', 'delivery'].includes(requestedRole)) {
-            roleToAssign = requestedRole as Database["public"]["Enums"]["user_role"];
-            console.log(`Using role from metadata: ${roleToAssign}`);
-          }
-        }
-      } catch (metadataError) {
-        console.error("Error getting user metadata:", metadataError);
-      }
+      // The role_request in the user's metadata is not trusted: seller and
+      // delivery roles only come from an approved role application
+      const roleToAssign = await getApprovedRole(userId);
       
       // Do a direct insert first as it's faster
       const { error: insertRoleError } = await supabase
@@ -132,13 +142,6 @@ export const repairUserEntries = async (userId: string): Promise<boolean> => {
       console.error("Error retrieving session:", sessionError);
     }
     
-    // Extract role from metadata if present
-    let roleFromMetadata: string | null = null;
-    if (sessionData?.session?.user?.user_metadata?.role_request) {
-      roleFromMetadata = sessionData.session.user.user_metadata.role_request as string;
-      console.log(`Found role in metadata: ${roleFromMetadata}`);
-    }
-    
     // Try the RPC function first
     const { data, error } = await supabase
       .rpc('repair_user_entries', { user_id: userId });
@@ -151,11 +154,8 @@ export const repairUserEntries = async (userId: string): Promise<boolean> => {
       // First delete potentially corrupted entries
       await supabase.from('user_roles').delete().eq('user_id', userId);
       
-      // Create a fresh role entry based on metadata or default to customer
-      const roleToUse = roleFromMetadata && ['admin', 'seller', 'customer', 'delivery'].includes(roleFromMetadata)
-        ? roleFromMetadata as Database["public"]["Enums"]["user_role"]
-        : 'customer';
-        
+      // Restore the role from an approved application, or default to customer
+      const roleToUse = await getApprovedRole(userId);
       console.log(`Using role for repair: ${roleToUse}`);
       
       // Insert the role
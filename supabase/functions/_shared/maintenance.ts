@@ -0,0 +1,35 @@
+// Server side of store_settings.maintenance_mode (see
+// supabase/migrations/20250619_store_settings.sql). While the store is in
+// maintenance only admins get through; everyone else gets a 503, so the API
+// can't be used to shop around the maintenance page.
+
+// A 503 response for a non-admin caller while maintenance mode is on, or
+// null when the request may go ahead. If the settings can't be read the
+// store stays open, like the maintenance gate in the app.
+export async function maintenanceResponse(supabase, userId, corsHeaders) {
+  const { data: settings, error } = await supabase
+    .from('store_settings')
+    .select('maintenance_mode')
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error reading store settings:', error);
+    return null;
+  }
+
+  if (!settings?.maintenance_mode) return null;
+
+  const { data: adminRole } = await supabase
+    .from('user_roles')
+    .select('role')
+    .eq('user_id', userId)
+    .eq('role', 'admin')
+    .maybeSingle();
+
+  if (adminRole) return null;
+
+  return new Response(
+    JSON.stringify({ error: 'The store is down for maintenance. Please try again later.', maintenance: true }),
+    { headers: { ...corsHeaders, 'Content-Type': 'application/json', 'Retry-After': '300' }, status: 503 }
+  );
+}
@@ -174,7 +174,38 @@ serve(async (req) => {
         responseData = formattedOrders;
         break;
 
-      case "assign_delivery":
+      case "update_order_status": {
+        // Move an order through its lifecycle; the database rejects invalid transitions
+        if (!params.order_id || !params.status) {
+          throw new Error("Missing order_id or status parameter");
+        }
+
+        const { data: transitionedOrder, error: transitionError } = await supabaseClient
+          .rpc("transition_order", {
+            _order_id: params.order_id,
+            _status: params.status,
+            _actor_id: user.id,
+            _note: params.note || null,
+          });
+
+        if (transitionError) {
+          if (transitionError.message === "invalid_order_transition") {
+            return new Response(
+              JSON.stringify({ error: "This order cannot move to that status", details: transitionError.details }),
+              {
+                headers: { ...corsHeaders, "Content-Type": "application/json" },
+                status: 409,
+              }
+            );
+          }
+          throw transitionError;
+        }
+
+        responseData = { message: "Order status updated", order: transitionedOrder };
+        break;
+      }
+
+      case "assign_delivery": {
         // Assign a delivery person to an order
         const { order_id } = params;
         if (!order_id) {
@@ -192,130 +223,332 @@ serve(async (req) => {
           throw new Error("No available delivery personnel found");
         }
         
-        // Assign the delivery person to the order
-        const { data: updatedOrder, error: updateOrderError } = await supabaseClient
-          .from("orders")
-          .update({ delivery_person_id: deliveryPersonnel[0].user_id, status: "processing" })
-          .eq("id", order_id)
-          .select();
-          
-        if (updateOrderError) throw updateOrderError;
+        // Couriers carry packages, so assign every packed one still waiting
+        const { data: readyFulfilments, error: fulfilmentsError } = await supabaseClient
+          .from("order_fulfilments")
+          .select("id")
+          .eq("order_id", order_id)
+          .eq("status", "packed")
+          .eq("delivery_status", "pending");
+
+        if (fulfilmentsError) throw fulfilmentsError;
+
+        if (!readyFulfilments.length) {
+          return new Response(
+            JSON.stringify({ error: "No packages of this order are packed and waiting for a courier" }),
+            {
+              headers: { ...corsHeaders, "Content-Type": "application/json" },
+              status: 409,
+            }
+          );
+        }
+
+        for (const fulfilment of readyFulfilments) {
+          const { error: updateFulfilmentError } = await supabaseClient
+            .rpc("advance_fulfilment", {
+              _fulfilment_id: fulfilment.id,
+              _delivery_status: "assigned",
+              _actor_id: user.id,
+              _note: "Courier assigned by an administrator",
+            });
+
+          if (updateFulfilmentError) throw updateFulfilmentError;
+
+          const { error: assignmentError } = await supabaseClient
+            .from("delivery_assignments")
+            .insert({
+              delivery_person_id: deliveryPersonnel[0].user_id,
+              order_id,
+              fulfilment_id: fulfilment.id,
+              status: "assigned",
+              assigned_at: new Date().toISOString(),
+            });
+
+          if (assignmentError) throw assignmentError;
+        }
         
-        responseData = { message: "Delivery assigned successfully", order: updatedOrder };
+        responseData = { message: "Delivery assigned successfully", packages: readyFulfilments.length };
         break;
+      }
 
-      case "get_role_applications":
-        // Placeholder for role applications logic
-        // In a real implementation, we would have a table for role applications
-        // For now, we'll return mock data
-        responseData = [
-          {
-            id: "1",
-            user_id: "user1",
-            user_email: "john.doe@example.com",
-            role: "seller",
-            status: "pending",
-            created_at: new Date().toISOString(),
-            question_responses: {
-              businessName: "John's Electronics",
-              businessType: "Electronics",
-              experience: "5 years in retail"
-            }
-          },
-          {
-            id: "2",
-            user_id: "user2",
-            user_email: "jane.smith@example.com",
-            role: "delivery",
-            status: "pending",
-            created_at: new Date().toISOString(),
-            question_responses: {
-              vehicleType: "Car",
-              deliveryExperience: "2 years",
-              availability: "Weekdays and weekends"
-            }
+      case "get_role_applications": {
+        // Seller and delivery applications, newest first, with applicant emails,
+        // the questionnaire version they answered and links to uploaded files
+        const { data: applications, error: applicationsError } = await supabaseClient
+          .from("role_applications")
+          .select("*, questionnaire:application_questionnaires (id, version, questions)")
+          .order("created_at", { ascending: false });
+
+        if (applicationsError) throw applicationsError;
+
+        const { data: applicants, error: applicantsError } = await supabaseClient.auth.admin.listUsers();
+        if (applicantsError) throw applicantsError;
+
+        const emails = new Map(applicants.users.map(u => [u.id, u.email]));
+
+        responseData = await Promise.all((applications || []).map(async application => {
+          const filePaths = (application.questionnaire?.questions || [])
+            .filter((question: { type: string }) => question.type === "file")
+            .map((question: { id: string }) => application.question_responses?.[question.id])
+            .filter(Boolean);
+
+          let fileUrls: Record<string, string> = {};
+          if (filePaths.length) {
+            const { data: signed } = await supabaseClient.storage
+              .from("application-files")
+              .createSignedUrls(filePaths, 60 * 60);
+            fileUrls = Object.fromEntries(
+              (signed || []).filter(file => file.signedUrl).map(file => [file.path, file.signedUrl])
+            );
           }
-        ];
+
+          return {
+            ...application,
+            user_email: emails.get(application.user_id) || application.user_id,
+            file_urls: fileUrls,
+          };
+        }));
         break;
+      }
 
       case "approve_application":
-        // Placeholder for approving application
-        responseData = { message: "Application approved successfully" };
-        break;
+      case "reject_application": {
+        // Approval grants the role in the same transaction; rejection needs a reason
+        if (!params.application_id) {
+          throw new Error("Missing application_id parameter");
+        }
+
+        const { data: reviewedApplication, error: reviewError } = await supabaseClient
+          .rpc("review_role_application", {
+            _application_id: params.application_id,
+            _approve: action === "approve_application",
+            _actor_id: user.id,
+            _reason: params.reason || null,
+          });
 
-      case "reject_application":
-        // Placeholder for rejecting application
-        responseData = { message: "Application rejected successfully" };
+        if (reviewError) {
+          const messages: Record<string, string> = {
+            application_not_pending: "This application has already been reviewed",
+            rejection_reason_required: "Give a reason for the rejection",
+          };
+          if (messages[reviewError.message]) {
+            return new Response(
+              JSON.stringify({ error: messages[reviewError.message] }),
+              {
+                headers: { ...corsHeaders, "Content-Type": "application/json" },
+                status: 409,
+              }
+            );
+          }
+          throw reviewError;
+        }
+
+        responseData = reviewedApplication;
         break;
+      }
 
-      case "get_analytics":
-        // Get analytics data for admin dashboard
-        const { timeRange } = params;
-        
-        // Mock analytics data
-        const mockAnalytics = {
-          salesData: Array(7).fill(0).map((_, i) => ({
-            day: new Date(Date.now() - (6 - i) * 86400000).toLocaleDateString('en-US', { weekday: 'short' }),
-            amount: Math.floor(Math.random() * 500) + 100,
-            orders: Math.floor(Math.random() * 10) + 1
+      case "get_analytics": {
+        // Sales over the requested range, compared with the range before it
+        const since = getRangeStart(params.timeRange);
+        const until = new Date().toISOString();
+        const previousSince = new Date(2 * Date.parse(since) - Date.parse(until)).toISOString();
+        const bucket = { "90days": "week", "1year": "month" }[params.timeRange as string] || "day";
+
+        const [currentResult, previousResult, seriesResult, categoriesResult, productsResult] = await Promise.all([
+          supabaseClient.rpc("analytics_summary", { _start: since, _end: until }),
+          supabaseClient.rpc("analytics_summary", { _start: previousSince, _end: since }),
+          supabaseClient.rpc("analytics_sales_series", { _start: since, _end: until, _bucket: bucket }),
+          supabaseClient.rpc("analytics_category_sales", { _start: since, _end: until, _limit: 8 }),
+          supabaseClient.rpc("analytics_top_products", { _start: since, _end: until, _limit: 5 }),
+        ]);
+
+        const failed = [currentResult, previousResult, seriesResult, categoriesResult, productsResult]
+          .find(result => result.error);
+        if (failed) throw failed.error;
+
+        const current = currentResult.data?.[0] || {};
+        const previous = previousResult.data?.[0] || {};
+        const labelFormat: Intl.DateTimeFormatOptions = {
+          day: { month: "short", day: "numeric" },
+          week: { month: "short", day: "numeric" },
+          month: { month: "short", year: "numeric" },
+        }[bucket];
+
+        responseData = {
+          salesData: (seriesResult.data || []).map(row => ({
+            day: new Date(row.bucket_start).toLocaleDateString("en-US", { ...labelFormat, timeZone: "UTC" }),
+            amount: Number(row.revenue),
+            orders: Number(row.orders),
+          })),
+          categorySales: (categoriesResult.data || []).map(row => ({
+            name: row.name || "Uncategorized",
+            value: Number(row.revenue),
+          })),
+          topProducts: (productsResult.data || []).map(row => ({
+            id: row.product_id,
+            name: row.name,
+            sales: Number(row.units),
+            revenue: Number(row.revenue),
           })),
-          categorySales: [
-            { name: "Electronics", value: 4000 },
-            { name: "Clothing", value: 3000 },
-            { name: "Books", value: 2000 },
-            { name: "Home", value: 2780 },
-            { name: "Beauty", value: 1890 },
-            { name: "Sports", value: 2390 }
-          ],
-          topProducts: [
-            { id: "1", name: "Smartphone X", sales: 42 },
-            { id: "2", name: "Wireless Earbuds", sales: 38 },
-            { id: "3", name: "Smart Watch", sales: 30 },
-            { id: "4", name: "Laptop Pro", sales: 25 },
-            { id: "5", name: "Gaming Console", sales: 22 }
-          ],
           metrics: {
-            totalRevenue: 12589.75,
-            totalOrders: 145,
-            totalCustomers: 78,
-            totalProducts: 250,
-            revenueTrend: 12.5,
-            ordersTrend: 8.2,
-            customersTrend: 5.7,
-            productsTrend: -2.1
-          }
+            totalRevenue: Number(current.revenue || 0),
+            totalOrders: Number(current.orders || 0),
+            totalCustomers: Number(current.customers || 0),
+            totalProducts: Number(current.products || 0),
+            revenueTrend: getTrend(current.revenue, previous.revenue),
+            ordersTrend: getTrend(current.orders, previous.orders),
+            customersTrend: getTrend(current.customers, previous.customers),
+            productsTrend: getTrend(current.products, previous.products),
+          },
+        };
+        break;
+      }
+
+      case "get_customer_reports": {
+        // Funnel, repeat purchases and order values over the requested range;
+        // cohorts always cover the last twelve months
+        const since = getRangeStart(params.timeRange);
+        const until = new Date().toISOString();
+
+        const [funnelResult, cohortsResult, repeatResult, categoriesResult] = await Promise.all([
+          supabaseClient.rpc("analytics_funnel", { _start: since, _end: until }),
+          supabaseClient.rpc("analytics_cohort_retention", { _months: 12 }),
+          supabaseClient.rpc("analytics_repeat_purchases", { _start: since, _end: until }),
+          supabaseClient.rpc("analytics_category_order_values", { _start: since, _end: until, _limit: 10 }),
+        ]);
+
+        const failed = [funnelResult, cohortsResult, repeatResult, categoriesResult].find(result => result.error);
+        if (failed) throw failed.error;
+
+        const funnel = funnelResult.data?.[0] || {};
+
+        responseData = {
+          funnel: [
+            { step: "Viewed a product", shoppers: Number(funnel.viewers || 0) },
+            { step: "Added to cart", shoppers: Number(funnel.cart_adders || 0) },
+            { step: "Checked out", shoppers: Number(funnel.checkouts || 0) },
+            { step: "Paid", shoppers: Number(funnel.buyers || 0) },
+          ],
+          cohorts: (cohortsResult.data || []).map(row => ({
+            cohort_month: row.cohort_month,
+            months_since: Number(row.months_since),
+            customers: Number(row.customers),
+          })),
+          repeatPurchases: (repeatResult.data || []).map(row => ({
+            orders_per_customer: Number(row.orders_per_customer),
+            customers: Number(row.customers),
+          })),
+          categoryOrderValues: (categoriesResult.data || []).map(row => ({
+            name: row.name || "Uncategorized",
+            orders: Number(row.orders),
+            average_order_value: Number(row.average_order_value),
+          })),
         };
-        
-        responseData = mockAnalytics;
         break;
+      }
+
+      case "get_search_insights": {
+        // What customers searched for, and what they couldn't find
+        const since = getRangeStart(params.timeRange);
+
+        const [popularResult, noResultsResult, totalsResult, zeroTotalsResult] = await Promise.all([
+          supabaseClient.rpc("search_query_stats", { _since: since, _limit: 20 }),
+          supabaseClient.rpc("search_query_stats", { _since: since, _limit: 20, _zero_results_only: true }),
+          supabaseClient
+            .from("search_queries")
+            .select("id", { count: "exact", head: true })
+            .gte("created_at", since),
+          supabaseClient
+            .from("search_queries")
+            .select("id", { count: "exact", head: true })
+            .gte("created_at", since)
+            .eq("result_count", 0),
+        ]);
+
+        const failed = [popularResult, noResultsResult, totalsResult, zeroTotalsResult].find(result => result.error);
+        if (failed) throw failed.error;
 
-      case "get_store_settings":
-        // Get store settings
         responseData = {
-          store_name: "E-Commerce Store",
-          contact_email: "support@ecommerce-store.com",
-          support_phone: "1-800-123-4567",
-          address: "123 Commerce St, Business City, ST 12345",
-          shipping_policy: "Standard shipping takes 3-5 business days. Express shipping is available for an additional fee.",
-          return_policy: "Items can be returned within 30 days of purchase for a full refund.",
-          terms_conditions: "By using our service, you agree to our terms and conditions...",
-          privacy_policy: "We value your privacy and protect your personal information...",
-          maintenance_mode: false,
-          enable_seller_applications: true,
-          enable_delivery_applications: true
+          totalSearches: totalsResult.count || 0,
+          zeroResultSearches: zeroTotalsResult.count || 0,
+          popular: popularResult.data || [],
+          noResults: noResultsResult.data || [],
         };
         break;
+      }
+
+      case "refresh_recommendations": {
+        // Rebuild recommendations now instead of waiting for the nightly job
+        const { error: refreshError } = await supabaseClient.rpc("refresh_product_recommendations");
+        if (refreshError) throw refreshError;
+
+        responseData = { success: true };
+        break;
+      }
+
+      case "get_store_settings": {
+        const { data: storeSettings, error: settingsError } = await supabaseClient
+          .from("store_settings")
+          .select("*")
+          .single();
+
+        if (settingsError) throw settingsError;
+        responseData = storeSettings;
+        break;
+      }
 
-      case "update_store_settings":
-        // Update store settings
+      case "update_store_settings": {
+        // Only known fields are written; the history trigger records what
+        // changed and who changed it
         const { settings } = params;
         if (!settings) {
           throw new Error("Missing settings parameter");
         }
-        
-        // In a real implementation, we would save these settings to a database
-        responseData = { message: "Settings updated successfully", settings };
+
+        const changes = Object.fromEntries(
+          STORE_SETTING_FIELDS.filter(field => field in settings).map(field => [field, settings[field]])
+        );
+
+        const { data: storeSettings, error: settingsError } = await supabaseClient
+          .from("store_settings")
+          .update({ ...changes, updated_by: user.id, updated_at: new Date().toISOString() })
+          .eq("id", true)
+          .select()
+          .single();
+
+        if (settingsError) throw settingsError;
+        responseData = storeSettings;
+        break;
+      }
+
+      case "get_store_settings_history": {
+        // Recent settings changes with the names of the admins who made them
+        const { data: history, error: historyError } = await supabaseClient
+          .from("store_settings_history")
+          .select("*")
+          .order("changed_at", { ascending: false })
+          .limit(params.limit || 50);
+
+        if (historyError) throw historyError;
+
+        const adminIds = [...new Set((history || []).map(entry => entry.changed_by).filter(Boolean))];
+        const { data: profiles, error: profilesError } = adminIds.length
+          ? await supabaseClient.from("profiles").select("id, first_name, last_name").in("id", adminIds)
+          : { data: [], error: null };
+
+        if (profilesError) throw profilesError;
+
+        const names = new Map((profiles || []).map(profile => [
+          profile.id,
+          [profile.first_name, profile.last_name].filter(Boolean).join(" ") || null,
+        ]));
+
+        responseData = (history || []).map(entry => ({
+          ...entry,
+          changed_by_name: names.get(entry.changed_by) || null,
+        }));
         break;
+      }
 
       default:
         throw new Error(`Unknown action: ${action}`);
@@ -341,3 +574,32 @@ serve(async (req) => {
     );
   }
 });
+
+// Editable store_settings columns
+const STORE_SETTING_FIELDS = [
+  "store_name",
+  "contact_email",
+  "support_phone",
+  "address",
+  "shipping_policy",
+  "return_policy",
+  "terms_conditions",
+  "privacy_policy",
+  "maintenance_mode",
+  "enable_seller_applications",
+  "enable_delivery_applications",
+];
+
+// Start of the reporting window for an analytics timeRange
+function getRangeStart(timeRange: string): string {
+  const days = { "7days": 7, "30days": 30, "90days": 90, "1year": 365 }[timeRange] || 7;
+  return new Date(Date.now() - days * 86400000).toISOString();
+}
+
+// Percentage change from the previous period, to one decimal place
+function getTrend(current: number | string | undefined, previous: number | string | undefined): number {
+  const now = Number(current || 0);
+  const before = Number(previous || 0);
+  if (!before) return now ? 100 : 0;
+  return Math.round(((now - before) / before) * 1000) / 10;
+}
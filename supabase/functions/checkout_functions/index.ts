@@ -0,0 +1,616 @@
+
+// Follow Deno Deploy's ES module conventions
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.43.1';
+import { serve } from 'https://deno.land/std@0.177.0/http/server.ts';
+import { maintenanceResponse } from '../_shared/maintenance.ts';
+
+// Define the allowed CORS headers
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// Keep these in sync with src/lib/checkout.ts
+const FREE_SHIPPING_THRESHOLD = 50;
+const SHIPPING_FEE = 4.99;
+const PAYMENT_METHODS = ['credit_card', 'paypal', 'cash_on_delivery'];
+
+// How long stock is held for a customer who is reviewing their order
+const RESERVATION_MINUTES = 15;
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    // Create a Supabase client with the Auth context
+    const supabaseUrl = Deno.env.get('SUPABASE_URL') as string;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') as string;
+
+    if (!supabaseUrl || !supabaseServiceKey) {
+      throw new Error('Missing Supabase credentials');
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    // Get the authorization header from the request
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      return new Response(
+        JSON.stringify({ error: 'No authorization header provided' }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 401 }
+      );
+    }
+
+    // Get the JWT token from the authorization header
+    const token = authHeader.replace('Bearer ', '');
+
+    // Verify the JWT token and get the user
+    const { data: { user }, error: userError } = await supabase.auth.getUser(token);
+
+    if (userError || !user) {
+      return new Response(
+        JSON.stringify({ error: 'Invalid JWT token or user not found' }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 401 }
+      );
+    }
+
+    const maintenance = await maintenanceResponse(supabase, user.id, corsHeaders);
+    if (maintenance) return maintenance;
+
+    // Parse the request body
+    let requestBody;
+    try {
+      requestBody = await req.json();
+    } catch (e) {
+      return new Response(
+        JSON.stringify({ error: 'Invalid JSON body' }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 400 }
+      );
+    }
+
+    const { action, ...params } = requestBody;
+
+    console.log("Checkout function called with action:", action);
+
+    // Handle different actions
+    switch (action) {
+      case 'create_order':
+        return await createOrder(supabase, user.id, params, corsHeaders);
+
+      case 'reserve_stock':
+        return await reserveStock(supabase, user.id, params.items, corsHeaders);
+
+      case 'release_stock':
+        return await releaseStock(supabase, user.id, corsHeaders);
+
+      case 'validate_promotion':
+        return await validatePromotion(supabase, user.id, params, corsHeaders);
+
+      default:
+        return new Response(
+          JSON.stringify({ error: `Unknown action: ${action}` }),
+          { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 400 }
+        );
+    }
+  } catch (error) {
+    // Handle any errors
+    console.error(`Error processing request:`, error);
+
+    return new Response(
+      JSON.stringify({ error: error.message || 'Unknown error occurred' }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 500 }
+    );
+  }
+});
+
+// Create an order from the customer's cart lines. Prices are always read from
+// the products and variants tables so the client cannot influence what gets charged.
+async function createOrder(supabase, userId, params, corsHeaders) {
+  const { items, shipping, payment_method, promotion_code } = params;
+
+  if (!Array.isArray(items) || items.length === 0) {
+    return new Response(
+      JSON.stringify({ error: 'Your cart is empty' }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 400 }
+    );
+  }
+
+  if (!shipping?.address || !shipping?.city || !shipping?.state || !shipping?.postal_code || !shipping?.country) {
+    return new Response(
+      JSON.stringify({ error: 'A complete shipping address is required' }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 400 }
+    );
+  }
+
+  if (!PAYMENT_METHODS.includes(payment_method)) {
+    return new Response(
+      JSON.stringify({ error: `Unsupported payment method: ${payment_method}` }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 400 }
+    );
+  }
+
+  try {
+    const { orderLines, problems, productsById } = await priceLines(supabase, items);
+
+    if (problems.length > 0) {
+      return new Response(
+        JSON.stringify({ error: 'Some items in your cart are no longer available', problems }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 409 }
+      );
+    }
+
+    const subtotal = roundCents(orderLines.reduce((sum, line) => sum + line.price * line.quantity, 0));
+    const shippingCost = subtotal >= FREE_SHIPPING_THRESHOLD ? 0 : SHIPPING_FEE;
+
+    let promotion = null;
+    let discount = 0;
+    let shippingDiscount = 0;
+
+    if (promotion_code) {
+      const result = await evaluatePromotion(supabase, userId, promotion_code, orderLines, subtotal, shippingCost);
+
+      if (result.error) {
+        return new Response(
+          JSON.stringify({ error: result.error }),
+          { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 400 }
+        );
+      }
+
+      ({ promotion, discount, shippingDiscount } = result);
+    }
+
+    const total = roundCents(Math.max(subtotal - discount, 0) + shippingCost - shippingDiscount);
+
+    // Hold the units atomically so nobody else can buy them while we write the order
+    const { error: reserveError } = await supabase.rpc('reserve_stock', {
+      _user_id: userId,
+      _items: orderLines.map(({ product_id, variant_id, quantity }) => ({ product_id, variant_id, quantity })),
+      _hold_minutes: RESERVATION_MINUTES,
+    });
+
+    if (reserveError) {
+      return stockErrorResponse(reserveError, productsById, corsHeaders);
+    }
+
+    const { data: order, error: orderError } = await supabase
+      .from('orders')
+      .insert({
+        user_id: userId,
+        status: 'pending',
+        delivery_status: 'pending',
+        payment_method,
+        subtotal,
+        shipping_total: roundCents(shippingCost - shippingDiscount),
+        discount_total: discount,
+        promotion_code: promotion?.code ?? null,
+        total,
+        shipping_address: shipping.address,
+        shipping_city: shipping.city,
+        shipping_state: shipping.state,
+        shipping_postal_code: shipping.postal_code,
+        shipping_country: shipping.country,
+      })
+      .select('id, created_at, total, subtotal, shipping_total, discount_total, promotion_code, status, payment_method')
+      .single();
+
+    if (orderError) {
+      console.error("Error creating order:", orderError);
+      await supabase.rpc('release_stock_reservations', { _user_id: userId });
+      throw orderError;
+    }
+
+    const { error: itemsError } = await supabase
+      .from('order_items')
+      .insert(orderLines.map(({ product_id, variant_id, variant_name, sku, quantity, price }) => ({
+        order_id: order.id,
+        product_id,
+        variant_id,
+        variant_name,
+        sku,
+        quantity,
+        price,
+      })));
+
+    if (itemsError) {
+      console.error("Error creating order items:", itemsError);
+      await discardOrder(supabase, userId, order.id);
+      throw itemsError;
+    }
+
+    // Count the redemption; this re-checks usage limits under a row lock
+    if (promotion) {
+      const { error: redeemError } = await supabase.rpc('redeem_promotion', {
+        _promotion_id: promotion.id,
+        _user_id: userId,
+        _order_id: order.id,
+        _discount: roundCents(discount + shippingDiscount),
+      });
+
+      if (redeemError) {
+        console.error("Error redeeming promotion:", redeemError);
+        await discardOrder(supabase, userId, order.id);
+
+        if (redeemError.message === 'promotion_unavailable') {
+          return new Response(
+            JSON.stringify({ error: 'This promotion is no longer available' }),
+            { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 409 }
+          );
+        }
+        throw redeemError;
+      }
+    }
+
+    // Decrement stock from the holds taken above
+    const { error: commitError } = await supabase.rpc('commit_stock_reservations', {
+      _user_id: userId,
+      _order_id: order.id,
+    });
+
+    if (commitError) {
+      console.error("Error committing stock reservations:", commitError);
+      await discardOrder(supabase, userId, order.id);
+      return stockErrorResponse(commitError, productsById, corsHeaders);
+    }
+
+    return new Response(
+      JSON.stringify({ order }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error("Error creating order:", error);
+
+    return new Response(
+      JSON.stringify({ error: error.message || 'Failed to create order' }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 500 }
+    );
+  }
+}
+
+// Check a promotion code against the cart and report the discount it gives
+async function validatePromotion(supabase, userId, params, corsHeaders) {
+  const { code, items } = params;
+
+  if (!code || !Array.isArray(items) || items.length === 0) {
+    return new Response(
+      JSON.stringify({ error: 'A promotion code and cart items are required' }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 400 }
+    );
+  }
+
+  try {
+    const { orderLines } = await priceLines(supabase, items);
+    const subtotal = roundCents(orderLines.reduce((sum, line) => sum + line.price * line.quantity, 0));
+    const shippingCost = subtotal >= FREE_SHIPPING_THRESHOLD ? 0 : SHIPPING_FEE;
+
+    const result = await evaluatePromotion(supabase, userId, code, orderLines, subtotal, shippingCost);
+
+    if (result.error) {
+      return new Response(
+        JSON.stringify({ error: result.error }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 400 }
+      );
+    }
+
+    return new Response(
+      JSON.stringify({
+        promotion: {
+          code: result.promotion.code,
+          name: result.promotion.name,
+          description: result.promotion.description,
+          type: result.promotion.type,
+        },
+        discount: result.discount,
+        shipping_discount: result.shippingDiscount,
+      }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error("Error validating promotion:", error);
+
+    return new Response(
+      JSON.stringify({ error: error.message || 'Failed to validate promotion' }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 500 }
+    );
+  }
+}
+
+// Look up current prices and stock for the requested lines. Lines for a
+// product with variants must name one of its variants.
+async function priceLines(supabase, items) {
+  const productIds = items.map(item => item.product_id);
+
+  const [
+    { data: products, error: productsError },
+    { data: variants, error: variantsError },
+  ] = await Promise.all([
+    supabase
+      .from('products')
+      .select('id, name, price, discounted_price, stock, category, seller_id')
+      .in('id', productIds),
+    supabase
+      .from('product_variants')
+      .select('id, product_id, name, sku, price, discounted_price, stock')
+      .in('product_id', productIds),
+  ]);
+
+  if (productsError || variantsError) {
+    console.error("Error fetching products for checkout:", productsError || variantsError);
+    throw productsError || variantsError;
+  }
+
+  const productsById = new Map((products || []).map(p => [p.id, p]));
+
+  // Check every line against current stock before writing anything
+  const problems = [];
+  const orderLines = [];
+
+  for (const item of items) {
+    const product = productsById.get(item.product_id);
+    const quantity = Number(item.quantity);
+
+    if (!Number.isInteger(quantity) || quantity <= 0) {
+      problems.push({ product_id: item.product_id, reason: 'invalid_quantity' });
+      continue;
+    }
+
+    if (!product) {
+      problems.push({ product_id: item.product_id, reason: 'not_found' });
+      continue;
+    }
+
+    const productVariants = (variants || []).filter(v => v.product_id === product.id);
+    const variant = item.variant_id ? productVariants.find(v => v.id === item.variant_id) : null;
+
+    if (item.variant_id && !variant) {
+      problems.push({ product_id: product.id, variant_id: item.variant_id, name: product.name, reason: 'not_found' });
+      continue;
+    }
+
+    if (!variant && productVariants.length > 0) {
+      problems.push({ product_id: product.id, name: product.name, reason: 'variant_required' });
+      continue;
+    }
+
+    // Price and stock come from the variant when there is one
+    const offer = variant || product;
+    const name = variant ? `${product.name} (${variant.name})` : product.name;
+
+    if (offer.stock < quantity) {
+      problems.push({
+        product_id: product.id,
+        variant_id: variant?.id ?? null,
+        name,
+        reason: 'insufficient_stock',
+        available: offer.stock,
+      });
+      continue;
+    }
+
+    orderLines.push({
+      product_id: product.id,
+      variant_id: variant?.id ?? null,
+      variant_name: variant?.name ?? null,
+      sku: variant?.sku ?? null,
+      quantity,
+      price: offer.discounted_price || offer.price,
+      category: product.category,
+      seller_id: product.seller_id,
+    });
+  }
+
+  return { orderLines, problems, productsById };
+}
+
+// Load a promotion by code and work out what it is worth for these lines.
+// Returns { error } when the code can't be used.
+async function evaluatePromotion(supabase, userId, code, orderLines, subtotal, shippingCost) {
+  const { data: promotion, error } = await supabase
+    .from('promotions')
+    .select('*')
+    .eq('code', String(code).trim().toUpperCase())
+    .maybeSingle();
+
+  if (error) throw error;
+
+  const now = new Date();
+
+  if (!promotion || !promotion.active) {
+    return { error: 'This promotion code is not valid' };
+  }
+
+  if (promotion.starts_at && new Date(promotion.starts_at) > now) {
+    return { error: 'This promotion has not started yet' };
+  }
+
+  if (promotion.expires_at && new Date(promotion.expires_at) <= now) {
+    return { error: 'This promotion has expired' };
+  }
+
+  if (promotion.usage_limit !== null && promotion.usage_count >= promotion.usage_limit) {
+    return { error: 'This promotion has been fully redeemed' };
+  }
+
+  if (promotion.per_user_limit !== null) {
+    const { count, error: countError } = await supabase
+      .from('promotion_redemptions')
+      .select('*', { count: 'exact', head: true })
+      .eq('promotion_id', promotion.id)
+      .eq('user_id', userId);
+
+    if (countError) throw countError;
+
+    if ((count || 0) >= promotion.per_user_limit) {
+      return { error: 'You have already used this promotion' };
+    }
+  }
+
+  if (subtotal < Number(promotion.min_subtotal)) {
+    return { error: `Spend at least $${Number(promotion.min_subtotal).toFixed(2)} to use this promotion` };
+  }
+
+  const eligibleLines = orderLines.filter(line =>
+    (!promotion.category || line.category === promotion.category) &&
+    (!promotion.seller_id || line.seller_id === promotion.seller_id)
+  );
+
+  if (eligibleLines.length === 0) {
+    return { error: 'None of the items in your cart qualify for this promotion' };
+  }
+
+  const { discount, shippingDiscount } = calculateDiscount(promotion, eligibleLines, shippingCost);
+
+  if (discount === 0 && shippingDiscount === 0) {
+    return { error: promotion.type === 'buy_x_get_y'
+      ? `Add ${promotion.buy_quantity + promotion.get_quantity} qualifying items to use this promotion`
+      : 'This promotion does not apply to your cart' };
+  }
+
+  return { promotion, discount, shippingDiscount };
+}
+
+// Work out the discount a promotion gives on the lines it applies to
+function calculateDiscount(promotion, lines, shippingCost) {
+  const eligibleSubtotal = lines.reduce((sum, line) => sum + line.price * line.quantity, 0);
+  const value = Number(promotion.value);
+  let discount = 0;
+  let shippingDiscount = 0;
+
+  switch (promotion.type) {
+    case 'percentage':
+      discount = eligibleSubtotal * Math.min(value, 100) / 100;
+      break;
+
+    case 'fixed_amount':
+      discount = Math.min(value, eligibleSubtotal);
+      break;
+
+    case 'free_shipping':
+      shippingDiscount = shippingCost;
+      break;
+
+    case 'buy_x_get_y': {
+      // For every buy + get units, the cheapest get units are discounted
+      const unitPrices = lines
+        .flatMap(line => Array(line.quantity).fill(line.price))
+        .sort((a, b) => a - b);
+      const groupSize = promotion.buy_quantity + promotion.get_quantity;
+      const discountedUnits = Math.floor(unitPrices.length / groupSize) * promotion.get_quantity;
+      const percentOff = Math.min(value || 100, 100);
+
+      discount = unitPrices
+        .slice(0, discountedUnits)
+        .reduce((sum, price) => sum + price, 0) * percentOff / 100;
+      break;
+    }
+  }
+
+  return { discount: roundCents(discount), shippingDiscount: roundCents(shippingDiscount) };
+}
+
+function roundCents(amount) {
+  return Math.round(amount * 100) / 100;
+}
+
+// Hold stock for the lines the customer is about to buy
+async function reserveStock(supabase, userId, items, corsHeaders) {
+  if (!Array.isArray(items) || items.length === 0) {
+    return new Response(
+      JSON.stringify({ error: 'Items are required' }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 400 }
+    );
+  }
+
+  try {
+    const { data: expiresAt, error } = await supabase.rpc('reserve_stock', {
+      _user_id: userId,
+      _items: items.map(item => ({
+        product_id: item.product_id,
+        variant_id: item.variant_id ?? null,
+        quantity: Number(item.quantity),
+      })),
+      _hold_minutes: RESERVATION_MINUTES,
+    });
+
+    if (error) {
+      const { data: products } = await supabase
+        .from('products')
+        .select('id, name')
+        .in('id', items.map(item => item.product_id));
+
+      return stockErrorResponse(error, new Map((products || []).map(p => [p.id, p])), corsHeaders);
+    }
+
+    return new Response(
+      JSON.stringify({ expires_at: expiresAt }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error("Error reserving stock:", error);
+
+    return new Response(
+      JSON.stringify({ error: error.message || 'Failed to reserve stock' }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 500 }
+    );
+  }
+}
+
+// Give back any stock the customer is holding without an order
+async function releaseStock(supabase, userId, corsHeaders) {
+  try {
+    const { error } = await supabase.rpc('release_stock_reservations', { _user_id: userId });
+
+    if (error) throw error;
+
+    return new Response(
+      JSON.stringify({ success: true }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error("Error releasing stock:", error);
+
+    return new Response(
+      JSON.stringify({ error: error.message || 'Failed to release stock' }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 500 }
+    );
+  }
+}
+
+// Remove a half-written order and the holds that were taken for it
+async function discardOrder(supabase, userId, orderId) {
+  await supabase.from('order_items').delete().eq('order_id', orderId);
+  await supabase.from('orders').delete().eq('id', orderId);
+  await supabase.rpc('release_stock_reservations', { _user_id: userId });
+}
+
+// Map an 'insufficient_stock' error raised by the stock functions to a 409
+function stockErrorResponse(error, productsById, corsHeaders) {
+  if (error.message !== 'insufficient_stock') {
+    throw error;
+  }
+
+  let detail = { product_id: null, variant_id: null, available: 0 };
+  try {
+    detail = JSON.parse(error.details);
+  } catch (_) {
+    // Keep the defaults
+  }
+
+  const product = productsById.get(detail.product_id);
+
+  return new Response(
+    JSON.stringify({
+      error: 'Some items in your cart are no longer available',
+      problems: [{
+        product_id: detail.product_id,
+        variant_id: detail.variant_id ?? null,
+        name: product?.name,
+        reason: 'insufficient_stock',
+        available: detail.available,
+      }],
+    }),
+    { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 409 }
+  );
+}
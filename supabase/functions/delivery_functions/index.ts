@@ -2,6 +2,7 @@
 // Follow Deno Deploy's ES module conventions
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.43.1';
 import { serve } from 'https://deno.land/std@0.177.0/http/server.ts';
+import { maintenanceResponse } from '../_shared/maintenance.ts';
 
 // Define the allowed CORS headers
 const corsHeaders = {
@@ -43,6 +44,9 @@ serve(async (req) => {
       );
     }
 
+    const maintenance = await maintenanceResponse(supabase, user.id, corsHeaders);
+    if (maintenance) return maintenance;
+
     // Parse the request body
     const { action, ...params } = await req.json();
 
@@ -56,11 +60,12 @@ serve(async (req) => {
       case 'get_available_orders':
         return await getAvailableOrders(supabase, user.id, corsHeaders);
       
+      // Couriers deliver packages (one per seller), not whole orders
       case 'accept_order':
-        return await acceptOrder(supabase, user.id, params.orderId, corsHeaders);
+        return await acceptOrder(supabase, user.id, params.fulfilmentId, corsHeaders);
       
       case 'complete_delivery':
-        return await completeDelivery(supabase, user.id, params.orderId, corsHeaders);
+        return await completeDelivery(supabase, user.id, params.fulfilmentId, corsHeaders);
       
       case 'save_schedule':
         return await saveSchedule(supabase, user.id, params.schedule, corsHeaders);
@@ -174,30 +179,37 @@ async function getDeliveryStats(supabase, userId, corsHeaders) {
   }
 }
 
-// Get available orders for delivery
+// Get packages ready for delivery. A package is ready once its seller has
+// packed it; sellers only pack paid or cash on delivery orders.
 async function getAvailableOrders(supabase, userId, corsHeaders) {
   console.log("Fetching available orders");
   
   try {
-    // Get orders that are paid and don't have delivery assignments yet
-    const { data: availableOrders, error: ordersError } = await supabase
-      .from('orders')
+    const { data: fulfilments, error: ordersError } = await supabase
+      .from('order_fulfilments')
       .select(`
         id,
-        created_at,
-        total,
-        shipping_address,
-        shipping_city,
-        shipping_state,
-        shipping_postal_code,
-        status,
-        profiles:user_id (
-          first_name,
-          last_name,
-          phone
+        order_items (
+          quantity,
+          price
+        ),
+        orders (
+          id,
+          created_at,
+          shipping_address,
+          shipping_city,
+          shipping_state,
+          shipping_postal_code,
+          status,
+          delivery_status,
+          profiles:user_id (
+            first_name,
+            last_name,
+            phone
+          )
         )
       `)
-      .eq('status', 'paid')
+      .eq('status', 'packed')
       .eq('delivery_status', 'pending');
     
     if (ordersError) {
@@ -205,10 +217,18 @@ async function getAvailableOrders(supabase, userId, corsHeaders) {
       throw ordersError;
     }
     
-    console.log(`Found ${availableOrders?.length || 0} available orders`);
+    const availableOrders = (fulfilments || [])
+      .filter(fulfilment => fulfilment.orders)
+      .map(fulfilment => ({
+        ...fulfilment.orders,
+        fulfilment_id: fulfilment.id,
+        total: fulfilment.order_items.reduce((sum, item) => sum + Number(item.price) * item.quantity, 0),
+      }));
+    
+    console.log(`Found ${availableOrders.length} available orders`);
     
     return new Response(
-      JSON.stringify({ orders: availableOrders || [] }),
+      JSON.stringify({ orders: availableOrders }),
       { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
     );
   } catch (error) {
@@ -221,80 +241,50 @@ async function getAvailableOrders(supabase, userId, corsHeaders) {
   }
 }
 
-// Accept an order for delivery
-async function acceptOrder(supabase, userId, orderId, corsHeaders) {
-  console.log("Accepting order:", orderId, "for user:", userId);
+// Accept a package for delivery
+async function acceptOrder(supabase, userId, fulfilmentId, corsHeaders) {
+  console.log("Accepting package:", fulfilmentId, "for user:", userId);
   
-  if (!orderId) {
+  if (!fulfilmentId) {
     return new Response(
-      JSON.stringify({ error: 'Order ID is required' }),
+      JSON.stringify({ error: 'Fulfilment ID is required' }),
       { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 400 }
     );
   }
   
   try {
-    // Check if the order exists and is available
-    const { data: order, error: orderError } = await supabase
-      .from('orders')
-      .select('id, status, delivery_status')
-      .eq('id', orderId)
-      .eq('status', 'paid')
-      .eq('delivery_status', 'pending')
-      .single();
-    
-    if (orderError || !order) {
-      console.error("Order not found or not available:", orderError);
-      return new Response(
-        JSON.stringify({ error: 'Order not found or not available for delivery' }),
-        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 404 }
-      );
-    }
-    
-    // Check if the order is already assigned
-    const { data: existingAssignment, error: assignmentError } = await supabase
-      .from('delivery_assignments')
-      .select('id')
-      .eq('order_id', orderId)
-      .maybeSingle();
-    
-    if (assignmentError) {
-      console.error("Error checking existing assignment:", assignmentError);
-      throw assignmentError;
-    }
-    
-    if (existingAssignment) {
-      return new Response(
-        JSON.stringify({ error: 'Order is already assigned to a delivery person' }),
-        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 400 }
-      );
-    }
-    
-    // Create a new delivery assignment
-    const { data: newAssignment, error: createError } = await supabase
-      .from('delivery_assignments')
-      .insert({
-        delivery_person_id: userId,
-        order_id: orderId,
-        status: 'assigned',
-        assigned_at: new Date().toISOString(),
-      })
-      .select()
-      .single();
-    
-    if (createError) {
-      console.error("Error creating assignment:", createError);
-      throw createError;
-    }
-    
-    // Update the order's delivery status
-    const { error: updateError } = await supabase
-      .from('orders')
-      .update({ delivery_status: 'assigned' })
-      .eq('id', orderId);
-    
-    if (updateError) {
-      console.error("Error updating order status:", updateError);
-      throw updateError;
+    // Checked, assigned and moved in one locked step so two couriers can't
+    // both take the package
+    const { data: newAssignment, error: acceptError } = await supabase.rpc('accept_fulfilment', {
+      _fulfilment_id: fulfilmentId,
+      _courier_id: userId,
+    });
+    
+    if (acceptError) {
+      if (acceptError.message === 'order_not_found') {
+        return new Response(
+          JSON.stringify({ error: 'Order not found or not available for delivery' }),
+          { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 404 }
+        );
+      }
+      
+      // Another courier took the package first
+      if (acceptError.message === 'fulfilment_already_assigned' || acceptError.code === '23505') {
+        return new Response(
+          JSON.stringify({ error: 'Order is already assigned to a delivery person' }),
+          { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 409 }
+        );
+      }
+      
+      if (acceptError.message === 'order_not_fulfillable') {
+        return new Response(
+          JSON.stringify({ error: 'This order can no longer be delivered' }),
+          { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 409 }
+        );
+      }
+      
+      console.error("Error accepting package:", acceptError);
+      throw acceptError;
     }
     
     return new Response(
@@ -312,10 +302,10 @@ async function acceptOrder(supabase, userId, orderId, corsHeaders) {
 }
 
 // Complete a delivery
-async function completeDelivery(supabase, userId, orderId, corsHeaders) {
-  if (!orderId) {
+async function completeDelivery(supabase, userId, fulfilmentId, corsHeaders) {
+  if (!fulfilmentId) {
     return new Response(
-      JSON.stringify({ error: 'Order ID is required' }),
+      JSON.stringify({ error: 'Fulfilment ID is required' }),
       { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 400 }
     );
   }
@@ -325,7 +315,7 @@ async function completeDelivery(supabase, userId, orderId, corsHeaders) {
     const { data: assignment, error: assignmentError } = await supabase
       .from('delivery_assignments')
       .select('id, status')
-      .eq('order_id', orderId)
+      .eq('fulfilment_id', fulfilmentId)
       .eq('delivery_person_id', userId)
       .single();
     
@@ -354,11 +344,14 @@ async function completeDelivery(supabase, userId, orderId, corsHeaders) {
     
     if (updateAssignmentError) throw updateAssignmentError;
     
-    // Update the order's delivery status
-    const { error: updateOrderError } = await supabase
-      .from('orders')
-      .update({ delivery_status: 'delivered', status: 'completed' })
-      .eq('id', orderId);
+    // The order follows once all of its packages are delivered
+    const { error: updateOrderError } = await supabase.rpc('advance_fulfilment', {
+      _fulfilment_id: fulfilmentId,
+      _status: 'delivered',
+      _delivery_status: 'delivered',
+      _actor_id: userId,
+      _note: 'Delivered by courier',
+    });
     
     if (updateOrderError) throw updateOrderError;
     
@@ -480,6 +473,7 @@ async function getDeliveryAssignments(supabase, userId, corsHeaders) {
       .select(`
         id, 
         order_id,
+        fulfilment_id,
         assigned_at,
         delivered_at,
         status,
@@ -507,6 +501,7 @@ async function getDeliveryAssignments(supabase, userId, corsHeaders) {
     const assignments = (data || []).map(item => ({
       id: item.id,
       order_id: item.order_id,
+      fulfilment_id: item.fulfilment_id,
       assigned_at: item.assigned_at,
       delivered_at: item.delivered_at,
       status: item.status,
@@ -0,0 +1,601 @@
+
+// Follow Deno Deploy's ES module conventions
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.43.1';
+import { serve } from 'https://deno.land/std@0.177.0/http/server.ts';
+import { maintenanceResponse } from '../_shared/maintenance.ts';
+import { getPaymentProvider } from './providers/index.ts';
+import { issueRefund, roundCents, toMinorUnits, updatePayment } from './payments.ts';
+
+// Define the allowed CORS headers
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// Payment methods that are charged through a gateway at checkout
+const GATEWAY_METHODS = ['credit_card', 'paypal'];
+const CURRENCY = 'usd';
+// Failure reasons for payments captured after their order was closed
+const ORDER_CLOSED_REASONS = ['order_closed', 'order_closed_refund_failed'];
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    // Create a Supabase client with the Auth context
+    const supabaseUrl = Deno.env.get('SUPABASE_URL') as string;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') as string;
+
+    if (!supabaseUrl || !supabaseServiceKey) {
+      throw new Error('Missing Supabase credentials');
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+    const provider = getPaymentProvider();
+
+    // Gateway callbacks carry a signature instead of a user JWT. They stay
+    // open during maintenance so payments already in flight still settle.
+    if (new URL(req.url).pathname.endsWith('/webhook')) {
+      return await handleWebhook(supabase, provider, req, corsHeaders);
+    }
+
+    // Get the authorization header from the request
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      return new Response(
+        JSON.stringify({ error: 'No authorization header provided' }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 401 }
+      );
+    }
+
+    // Get the JWT token from the authorization header
+    const token = authHeader.replace('Bearer ', '');
+
+    // Verify the JWT token and get the user
+    const { data: { user }, error: userError } = await supabase.auth.getUser(token);
+
+    if (userError || !user) {
+      return new Response(
+        JSON.stringify({ error: 'Invalid JWT token or user not found' }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 401 }
+      );
+    }
+
+    const maintenance = await maintenanceResponse(supabase, user.id, corsHeaders);
+    if (maintenance) return maintenance;
+
+    // Parse the request body
+    let requestBody;
+    try {
+      requestBody = await req.json();
+    } catch (e) {
+      return new Response(
+        JSON.stringify({ error: 'Invalid JSON body' }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 400 }
+      );
+    }
+
+    const { action, ...params } = requestBody;
+
+    console.log("Payment function called with action:", action);
+
+    // Handle different actions
+    switch (action) {
+      case 'authorize_payment':
+        return await authorizePayment(supabase, provider, user.id, params, corsHeaders);
+
+      case 'confirm_payment':
+        return await confirmPayment(supabase, provider, user.id, params, corsHeaders);
+
+      case 'capture_payment':
+        if (!(await isAdmin(supabase, user.id))) {
+          return forbidden(corsHeaders);
+        }
+        return await capturePayment(supabase, provider, params.payment_id, corsHeaders);
+
+      case 'refund_payment':
+        if (!(await isAdmin(supabase, user.id))) {
+          return forbidden(corsHeaders);
+        }
+        return await refundPayment(supabase, provider, user.id, params, corsHeaders);
+
+      default:
+        return new Response(
+          JSON.stringify({ error: `Unknown action: ${action}` }),
+          { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 400 }
+        );
+    }
+  } catch (error) {
+    // Handle any errors
+    console.error(`Error processing request:`, error);
+
+    return new Response(
+      JSON.stringify({ error: error.message || 'Unknown error occurred' }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 500 }
+    );
+  }
+});
+
+// Charge the customer for one of their pending orders. The amount always
+// comes from the stored order total.
+async function authorizePayment(supabase, provider, userId, params, corsHeaders) {
+  const { order_id, payment_method, source } = params;
+
+  if (!order_id) {
+    return new Response(
+      JSON.stringify({ error: 'Order ID is required' }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 400 }
+    );
+  }
+
+  try {
+    const { data: order, error: orderError } = await supabase
+      .from('orders')
+      .select('id, user_id, status, total, payment_method')
+      .eq('id', order_id)
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (orderError) throw orderError;
+
+    if (!order) {
+      return new Response(
+        JSON.stringify({ error: 'Order not found' }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 404 }
+      );
+    }
+
+    // Retrying after a decline must not charge twice
+    const { data: existingPayment } = await supabase
+      .from('payments')
+      .select('*')
+      .eq('order_id', order.id)
+      .in('status', ['authorized', 'captured'])
+      .maybeSingle();
+
+    if (existingPayment) {
+      return paymentResponse(existingPayment, corsHeaders);
+    }
+
+    if (order.status !== 'pending') {
+      return new Response(
+        JSON.stringify({ error: `Orders that are ${order.status} cannot be paid` }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 409 }
+      );
+    }
+
+    const method = payment_method || order.payment_method;
+    if (!GATEWAY_METHODS.includes(method)) {
+      return new Response(
+        JSON.stringify({ error: `Payment method ${method} is not charged online` }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 400 }
+      );
+    }
+
+    // The customer may switch method after a decline
+    if (method !== order.payment_method) {
+      await supabase.from('orders').update({ payment_method: method }).eq('id', order.id);
+    }
+
+    // Abandon any challenge left open by an earlier attempt
+    await supabase
+      .from('payments')
+      .update({ status: 'canceled', updated_at: new Date().toISOString() })
+      .eq('order_id', order.id)
+      .in('status', ['pending', 'requires_action']);
+
+    const { data: payment, error: paymentError } = await supabase
+      .from('payments')
+      .insert({
+        order_id: order.id,
+        user_id: userId,
+        provider: provider.name,
+        method,
+        amount: order.total,
+        currency: CURRENCY,
+      })
+      .select('*')
+      .single();
+
+    if (paymentError) throw paymentError;
+
+    const result = await provider.authorize({
+      orderId: order.id,
+      amount: toMinorUnits(order.total),
+      currency: CURRENCY,
+      method,
+      source: source || {},
+    });
+
+    const updatedPayment = await applyAuthorization(supabase, provider, payment, result);
+    return paymentResponse(updatedPayment, corsHeaders, result.challenge);
+  } catch (error) {
+    console.error("Error authorizing payment:", error);
+
+    return new Response(
+      JSON.stringify({ error: error.message || 'Failed to process payment' }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 500 }
+    );
+  }
+}
+
+// Finish a payment that needed extra authentication (e.g. 3-D Secure)
+async function confirmPayment(supabase, provider, userId, params, corsHeaders) {
+  const { payment_id, challenge_response } = params;
+
+  if (!payment_id || !challenge_response) {
+    return new Response(
+      JSON.stringify({ error: 'Payment ID and challenge response are required' }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 400 }
+    );
+  }
+
+  try {
+    const { data: payment, error: paymentError } = await supabase
+      .from('payments')
+      .select('*')
+      .eq('id', payment_id)
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (paymentError) throw paymentError;
+
+    if (!payment || payment.status !== 'requires_action') {
+      return new Response(
+        JSON.stringify({ error: 'This payment is not awaiting confirmation' }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 409 }
+      );
+    }
+
+    const result = await provider.confirm(payment.provider_payment_id, String(challenge_response));
+    const updatedPayment = await applyAuthorization(supabase, provider, payment, result);
+    return paymentResponse(updatedPayment, corsHeaders, result.challenge);
+  } catch (error) {
+    console.error("Error confirming payment:", error);
+
+    return new Response(
+      JSON.stringify({ error: error.message || 'Failed to confirm payment' }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 500 }
+    );
+  }
+}
+
+// Retry the capture of an authorized payment
+async function capturePayment(supabase, provider, paymentId, corsHeaders) {
+  if (!paymentId) {
+    return new Response(
+      JSON.stringify({ error: 'Payment ID is required' }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 400 }
+    );
+  }
+
+  try {
+    const { data: payment, error: paymentError } = await supabase
+      .from('payments')
+      .select('*')
+      .eq('id', paymentId)
+      .maybeSingle();
+
+    if (paymentError) throw paymentError;
+
+    if (!payment || payment.status !== 'authorized') {
+      return new Response(
+        JSON.stringify({ error: 'Only authorized payments can be captured' }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 409 }
+      );
+    }
+
+    const updatedPayment = await captureAndMarkPaid(supabase, provider, payment);
+    return paymentResponse(updatedPayment, corsHeaders);
+  } catch (error) {
+    console.error("Error capturing payment:", error);
+
+    return new Response(
+      JSON.stringify({ error: error.message || 'Failed to capture payment' }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 500 }
+    );
+  }
+}
+
+// Refund all or part of an order's captured payment
+async function refundPayment(supabase, provider, userId, params, corsHeaders) {
+  const { order_id, amount, reason } = params;
+
+  if (!order_id) {
+    return new Response(
+      JSON.stringify({ error: 'Order ID is required' }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 400 }
+    );
+  }
+
+  try {
+    const { refund, payment, error } = await issueRefund(supabase, provider, order_id, amount, reason, userId);
+
+    if (error) {
+      return new Response(
+        JSON.stringify({ error }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 409 }
+      );
+    }
+
+    return new Response(
+      JSON.stringify({ refund, payment }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error("Error refunding payment:", error);
+
+    return new Response(
+      JSON.stringify({ error: error.message || 'Failed to refund payment' }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 500 }
+    );
+  }
+}
+
+// Apply a signed event sent by the gateway
+async function handleWebhook(supabase, provider, req, corsHeaders) {
+  try {
+    const rawBody = await req.text();
+    const event = await provider.verifyWebhook(rawBody, req.headers);
+
+    if (!event) {
+      return new Response(
+        JSON.stringify({ error: 'Invalid webhook signature' }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 401 }
+      );
+    }
+
+    const { error: insertError } = await supabase
+      .from('payment_webhook_events')
+      .insert({
+        provider: provider.name,
+        event_id: event.id,
+        type: event.type,
+        payload: event.payload,
+      });
+
+    // Unique violation: we've already seen this event
+    if (insertError?.code === '23505') {
+      return new Response(
+        JSON.stringify({ received: true, duplicate: true }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+    if (insertError) throw insertError;
+
+    const { data: payment, error: paymentError } = await supabase
+      .from('payments')
+      .select('*')
+      .eq('provider', provider.name)
+      .eq('provider_payment_id', event.providerPaymentId)
+      .maybeSingle();
+
+    if (paymentError) throw paymentError;
+
+    if (payment) {
+      switch (event.type) {
+        case 'payment.captured':
+          if (payment.status !== 'captured') {
+            const captured = await updatePayment(supabase, payment.id, {
+              status: 'captured',
+              captured_at: new Date().toISOString(),
+            });
+            await markOrderPaid(supabase, provider, captured);
+          }
+          break;
+
+        case 'payment.failed':
+          if (['pending', 'requires_action', 'authorized'].includes(payment.status)) {
+            await updatePayment(supabase, payment.id, {
+              status: 'failed',
+              failure_reason: String(event.payload.reason || 'failed'),
+            });
+          }
+          break;
+      }
+    } else {
+      console.warn("Webhook for unknown payment:", event.providerPaymentId);
+    }
+
+    await supabase
+      .from('payment_webhook_events')
+      .update({ processed_at: new Date().toISOString() })
+      .eq('provider', provider.name)
+      .eq('event_id', event.id);
+
+    return new Response(
+      JSON.stringify({ received: true }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error("Error handling payment webhook:", error);
+
+    return new Response(
+      JSON.stringify({ error: error.message || 'Failed to handle webhook' }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 500 }
+    );
+  }
+}
+
+// Record the gateway's answer to an authorization and capture straight away
+// when it was approved
+async function applyAuthorization(supabase, provider, payment, result) {
+  switch (result.status) {
+    case 'requires_action':
+      return await updatePayment(supabase, payment.id, {
+        status: 'requires_action',
+        provider_payment_id: result.providerPaymentId,
+      });
+
+    case 'authorized':
+    case 'captured': {
+      const authorized = await updatePayment(supabase, payment.id, {
+        status: 'authorized',
+        provider_payment_id: result.providerPaymentId,
+        authorized_at: new Date().toISOString(),
+      });
+      return await captureAndMarkPaid(supabase, provider, authorized);
+    }
+
+    default:
+      return await updatePayment(supabase, payment.id, {
+        status: result.status,
+        provider_payment_id: result.providerPaymentId,
+        failure_reason: result.declineReason || null,
+      });
+  }
+}
+
+// The order only becomes 'paid' once the gateway has confirmed the capture
+async function captureAndMarkPaid(supabase, provider, payment) {
+  const result = await provider.capture(payment.provider_payment_id, toMinorUnits(payment.amount));
+
+  if (result.status !== 'captured') {
+    console.error("Capture failed for payment:", payment.id, result.declineReason);
+    return await updatePayment(supabase, payment.id, {
+      failure_reason: result.declineReason || 'capture_failed',
+    });
+  }
+
+  const captured = await updatePayment(supabase, payment.id, {
+    status: 'captured',
+    captured_at: new Date().toISOString(),
+    failure_reason: null,
+  });
+
+  return await markOrderPaid(supabase, provider, captured);
+}
+
+// Move the order to 'paid' for a captured payment and return the payment. A
+// replayed capture on an order that is already paid changes nothing. If the
+// order was closed before the money came in (e.g. cancelled for not being
+// paid in time), the capture is refunded and the payment flagged instead.
+async function markOrderPaid(supabase, provider, payment) {
+  const orderId = payment.order_id;
+  const { data: order, error: orderError } = await supabase
+    .from('orders')
+    .select('id, status')
+    .eq('id', orderId)
+    .single();
+
+  if (orderError) throw orderError;
+
+  if (order.status === 'paid') {
+    return payment;
+  }
+
+  if (order.status === 'pending') {
+    const { error } = await supabase.rpc('transition_order', {
+      _order_id: orderId,
+      _status: 'paid',
+      _note: 'Payment captured',
+    });
+
+    // The order can only have been closed since we read it
+    if (error && error.message !== 'invalid_order_transition') {
+      console.error("Error marking order as paid:", error);
+      throw error;
+    }
+
+    if (!error) {
+      await supabase
+        .from('orders')
+        .update({ paid_at: new Date().toISOString() })
+        .eq('id', orderId);
+
+      return payment;
+    }
+  }
+
+  console.warn("Payment captured for closed order, refunding:", orderId);
+  return await refundClosedOrderPayment(supabase, provider, payment);
+}
+
+// Give back a capture that arrived after its order was closed. A refund that
+// doesn't go through is flagged for someone to refund by hand.
+async function refundClosedOrderPayment(supabase, provider, payment) {
+  let failureReason = 'order_closed';
+
+  try {
+    const { error } = await issueRefund(
+      supabase,
+      provider,
+      payment.order_id,
+      null,
+      'Order was closed before the payment was captured',
+      null
+    );
+
+    if (error) {
+      console.error("Error refunding payment for closed order:", payment.id, error);
+      failureReason = 'order_closed_refund_failed';
+    }
+  } catch (error) {
+    console.error("Error refunding payment for closed order:", payment.id, error);
+    failureReason = 'order_closed_refund_failed';
+  }
+
+  return await updatePayment(supabase, payment.id, { failure_reason: failureReason });
+}
+
+// What the checkout page needs to know about a payment attempt
+function paymentResponse(payment, corsHeaders, challenge = undefined) {
+  const declined = payment.status === 'declined' || payment.status === 'failed';
+  const orderClosed = ORDER_CLOSED_REASONS.includes(payment.failure_reason);
+
+  return new Response(
+    JSON.stringify({
+      payment: {
+        id: payment.id,
+        order_id: payment.order_id,
+        status: payment.status,
+        amount: payment.amount,
+        failure_reason: payment.failure_reason,
+      },
+      challenge,
+      error: declined || orderClosed ? describeDecline(payment.failure_reason) : undefined,
+    }),
+    {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      status: declined ? 402 : orderClosed ? 409 : 200,
+    }
+  );
+}
+
+function describeDecline(reason) {
+  switch (reason) {
+    case 'insufficient_funds':
+      return 'Your card has insufficient funds.';
+    case 'invalid_number':
+      return 'The card number is not valid.';
+    case 'authentication_failed':
+      return 'Your bank could not verify this payment.';
+    case 'order_closed':
+      return 'This order was closed before your payment went through. The charge has been refunded.';
+    case 'order_closed_refund_failed':
+      return 'This order was closed before your payment went through. The charge will be refunded to you shortly.';
+    default:
+      return 'Your payment was declined. Please try another payment method.';
+  }
+}
+
+async function isAdmin(supabase, userId) {
+  const { data } = await supabase
+    .from('user_roles')
+    .select('role')
+    .eq('user_id', userId)
+    .eq('role', 'admin')
+    .maybeSingle();
+
+  return !!data;
+}
+
+function forbidden(corsHeaders) {
+  return new Response(
+    JSON.stringify({ error: 'Only admins can perform this action' }),
+    { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 403 }
+  );
+}
@@ -0,0 +1,97 @@
+// Helpers for payment records shared by the payment function and anything
+// else that has to move money, such as approved returns.
+
+// Refund through the gateway and record it against the payment. Amount
+// defaults to whatever has not been refunded yet. The refund is reserved
+// against the payment before the gateway is called, so concurrent refunds
+// can't go over the captured amount. Returns { error } when the refund is
+// not possible.
+export async function issueRefund(supabase, provider, orderId, amount, reason, createdBy) {
+  if (amount != null && !(Number(amount) > 0)) {
+    return { error: 'Refund amount must be greater than 0' };
+  }
+
+  const { data: reserved, error: reserveError } = await supabase.rpc('reserve_payment_refund', {
+    _order_id: orderId,
+    _amount: amount == null ? null : roundCents(amount),
+    _reason: reason || null,
+    _created_by: createdBy,
+  });
+
+  if (reserveError) {
+    if (reserveError.message === 'no_captured_payment') {
+      return { error: 'This order has no captured payment to refund' };
+    }
+    if (reserveError.message === 'invalid_refund_amount') {
+      return { error: `Refund amount must be between 0 and ${Number(reserveError.details).toFixed(2)}` };
+    }
+    throw reserveError;
+  }
+
+  const { provider_payment_id: providerPaymentId } = await findPayment(supabase, reserved.payment_id);
+
+  let result;
+  try {
+    result = await provider.refund(providerPaymentId, toMinorUnits(reserved.amount), reason);
+  } catch (error) {
+    // Release the reservation; the gateway never took the refund
+    await settleRefund(supabase, reserved.id, { status: 'failed', failureReason: error.message || 'gateway_error' });
+    throw error;
+  }
+
+  const refund = await settleRefund(supabase, reserved.id, result);
+
+  if (result.status !== 'succeeded') {
+    return { error: `Refund failed: ${result.failureReason || 'unknown reason'}` };
+  }
+
+  const payment = await findPayment(supabase, refund.payment_id);
+  return { refund, payment };
+}
+
+async function findPayment(supabase, paymentId) {
+  const { data, error } = await supabase
+    .from('payments')
+    .select('*')
+    .eq('id', paymentId)
+    .single();
+
+  if (error) throw error;
+  return data;
+}
+
+async function settleRefund(supabase, refundId, result) {
+  const { data, error } = await supabase.rpc('settle_payment_refund', {
+    _refund_id: refundId,
+    _status: result.status,
+    _provider_refund_id: result.providerRefundId || null,
+    _failure_reason: result.failureReason || null,
+  });
+
+  if (error) throw error;
+  return data;
+}
+
+export async function updatePayment(supabase, paymentId, changes) {
+  const { data, error } = await supabase
+    .from('payments')
+    .update({ ...changes, updated_at: new Date().toISOString() })
+    .eq('id', paymentId)
+    .select('*')
+    .single();
+
+  if (error) {
+    console.error("Error updating payment:", error);
+    throw error;
+  }
+
+  return data;
+}
+
+export function toMinorUnits(amount) {
+  return Math.round(Number(amount) * 100);
+}
+
+export function roundCents(amount) {
+  return Math.round(Number(amount) * 100) / 100;
+}
@@ -0,0 +1,17 @@
+
+import { MockPaymentProvider } from './mock.ts';
+import type { PaymentProvider } from './types.ts';
+
+export type { PaymentProvider, PaymentResult, RefundResult, WebhookEvent } from './types.ts';
+
+// Pick the gateway from PAYMENT_PROVIDER. New integrations implement
+// PaymentProvider and get a case here.
+export function getPaymentProvider(name = Deno.env.get('PAYMENT_PROVIDER') || 'mock'): PaymentProvider {
+  switch (name) {
+    case 'mock':
+      return new MockPaymentProvider(Deno.env.get('MOCK_PAYMENT_WEBHOOK_SECRET') || 'mock_webhook_secret');
+
+    default:
+      throw new Error(`Unknown payment provider: ${name}`);
+  }
+}
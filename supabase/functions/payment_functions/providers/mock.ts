@@ -0,0 +1,150 @@
+
+import type {
+  AuthorizeRequest,
+  PaymentProvider,
+  PaymentResult,
+  RefundResult,
+  WebhookEvent,
+} from './types.ts';
+
+// Local gateway for development and testing. Outcomes depend only on the
+// input, so the same card always behaves the same way:
+//
+//   4242 4242 4242 4242  approved
+//   4000 0000 0000 0002  declined (card_declined)
+//   4000 0000 0000 9995  declined (insufficient_funds)
+//   4000 0000 0000 3220  3-D Secure challenge, answer 123456 to approve
+//
+// Any other number that passes the Luhn check is approved. PayPal payments are
+// approved unless the account email contains "decline".
+
+const DECLINED_CARDS: Record<string, string> = {
+  '4000000000000002': 'card_declined',
+  '4000000000009995': 'insufficient_funds',
+};
+
+const CHALLENGE_CARD = '4000000000003220';
+const CHALLENGE_CODE = '123456';
+
+const SIGNATURE_HEADER = 'x-mock-signature';
+
+export class MockPaymentProvider implements PaymentProvider {
+  name = 'mock';
+
+  constructor(private webhookSecret: string) {}
+
+  async authorize(request: AuthorizeRequest): Promise<PaymentResult> {
+    const providerPaymentId = `mock_pay_${crypto.randomUUID()}`;
+
+    if (request.amount <= 0) {
+      return { status: 'declined', providerPaymentId, declineReason: 'invalid_amount' };
+    }
+
+    if (request.method === 'paypal') {
+      const email = String(request.source.email || '');
+      return email.includes('decline')
+        ? { status: 'declined', providerPaymentId, declineReason: 'paypal_declined' }
+        : { status: 'authorized', providerPaymentId };
+    }
+
+    const cardNumber = String(request.source.card_number || '').replace(/\D/g, '');
+
+    if (!passesLuhn(cardNumber)) {
+      return { status: 'declined', providerPaymentId, declineReason: 'invalid_number' };
+    }
+
+    if (DECLINED_CARDS[cardNumber]) {
+      return { status: 'declined', providerPaymentId, declineReason: DECLINED_CARDS[cardNumber] };
+    }
+
+    if (cardNumber === CHALLENGE_CARD) {
+      return {
+        status: 'requires_action',
+        providerPaymentId,
+        challenge: {
+          type: '3ds',
+          message: 'Your bank needs to confirm this payment.',
+          hint: `Test mode: enter ${CHALLENGE_CODE} to approve`,
+        },
+      };
+    }
+
+    return { status: 'authorized', providerPaymentId };
+  }
+
+  async confirm(providerPaymentId: string, response: string): Promise<PaymentResult> {
+    return response.trim() === CHALLENGE_CODE
+      ? { status: 'authorized', providerPaymentId }
+      : { status: 'declined', providerPaymentId, declineReason: 'authentication_failed' };
+  }
+
+  async capture(providerPaymentId: string, amount: number): Promise<PaymentResult> {
+    return amount > 0
+      ? { status: 'captured', providerPaymentId }
+      : { status: 'failed', providerPaymentId, declineReason: 'invalid_amount' };
+  }
+
+  async refund(providerPaymentId: string, amount: number): Promise<RefundResult> {
+    const providerRefundId = `mock_re_${crypto.randomUUID()}`;
+
+    return amount > 0
+      ? { status: 'succeeded', providerRefundId }
+      : { status: 'failed', providerRefundId, failureReason: 'invalid_amount' };
+  }
+
+  async verifyWebhook(rawBody: string, headers: Headers): Promise<WebhookEvent | null> {
+    const signature = headers.get(SIGNATURE_HEADER);
+    if (!signature) return null;
+
+    const expected = await hmacHex(this.webhookSecret, rawBody);
+    if (!timingSafeEqual(signature, expected)) return null;
+
+    const body = JSON.parse(rawBody);
+    return {
+      id: body.id,
+      type: body.type,
+      providerPaymentId: body.payment_id,
+      payload: body,
+    };
+  }
+}
+
+function passesLuhn(number: string): boolean {
+  if (number.length < 12 || number.length > 19) return false;
+
+  let sum = 0;
+  for (let i = 0; i < number.length; i++) {
+    let digit = Number(number[number.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+async function hmacHex(secret: string, message: string): Promise<string> {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(message));
+  return Array.from(new Uint8Array(signature))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+function timingSafeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) return false;
+
+  let mismatch = 0;
+  for (let i = 0; i < a.length; i++) {
+    mismatch |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return mismatch === 0;
+}
@@ -0,0 +1,55 @@
+
+// Contract every payment gateway integration has to fulfil. Amounts are in
+// minor units (cents) so providers never have to deal with floating point.
+
+export type PaymentStatus =
+  | 'requires_action'
+  | 'authorized'
+  | 'captured'
+  | 'declined'
+  | 'failed';
+
+export interface AuthorizeRequest {
+  orderId: string;
+  amount: number;
+  currency: string;
+  method: string;
+  // Provider specific payment details, e.g. a card token or wallet account
+  source: Record<string, unknown>;
+}
+
+export interface PaymentResult {
+  status: PaymentStatus;
+  providerPaymentId: string;
+  declineReason?: string;
+  // Present when status is 'requires_action' (e.g. a 3-D Secure challenge)
+  challenge?: {
+    type: string;
+    message: string;
+    hint?: string;
+  };
+}
+
+export interface RefundResult {
+  status: 'succeeded' | 'failed';
+  providerRefundId: string;
+  failureReason?: string;
+}
+
+export interface WebhookEvent {
+  id: string;
+  type: 'payment.captured' | 'payment.failed' | 'refund.succeeded' | 'refund.failed';
+  providerPaymentId: string;
+  payload: Record<string, unknown>;
+}
+
+export interface PaymentProvider {
+  name: string;
+  authorize(request: AuthorizeRequest): Promise<PaymentResult>;
+  // Complete a payment that came back as 'requires_action'
+  confirm(providerPaymentId: string, response: string): Promise<PaymentResult>;
+  capture(providerPaymentId: string, amount: number): Promise<PaymentResult>;
+  refund(providerPaymentId: string, amount: number, reason?: string): Promise<RefundResult>;
+  // Returns the parsed event, or null when the signature does not check out
+  verifyWebhook(rawBody: string, headers: Headers): Promise<WebhookEvent | null>;
+}
@@ -0,0 +1,594 @@
+
+// Follow Deno Deploy's ES module conventions
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.43.1';
+import { serve } from 'https://deno.land/std@0.177.0/http/server.ts';
+import { maintenanceResponse } from '../_shared/maintenance.ts';
+import { getPaymentProvider } from '../payment_functions/providers/index.ts';
+import { issueRefund } from '../payment_functions/payments.ts';
+
+// Define the allowed CORS headers
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const RETURN_REASONS = ['damaged', 'defective', 'wrong_item', 'not_as_described', 'no_longer_needed', 'other'];
+const PHOTO_BUCKET = 'return-photos';
+const MAX_PHOTOS = 5;
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    // Create a Supabase client with the Auth context
+    const supabaseUrl = Deno.env.get('SUPABASE_URL') as string;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') as string;
+
+    if (!supabaseUrl || !supabaseServiceKey) {
+      throw new Error('Missing Supabase credentials');
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    // Get the authorization header from the request
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      return new Response(
+        JSON.stringify({ error: 'No authorization header provided' }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 401 }
+      );
+    }
+
+    // Get the JWT token from the authorization header
+    const token = authHeader.replace('Bearer ', '');
+
+    // Verify the JWT token and get the user
+    const { data: { user }, error: userError } = await supabase.auth.getUser(token);
+
+    if (userError || !user) {
+      return new Response(
+        JSON.stringify({ error: 'Invalid JWT token or user not found' }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 401 }
+      );
+    }
+
+    const maintenance = await maintenanceResponse(supabase, user.id, corsHeaders);
+    if (maintenance) return maintenance;
+
+    // Parse the request body
+    let requestBody;
+    try {
+      requestBody = await req.json();
+    } catch (e) {
+      return new Response(
+        JSON.stringify({ error: 'Invalid JSON body' }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 400 }
+      );
+    }
+
+    const { action, ...params } = requestBody;
+
+    console.log("Returns function called with action:", action);
+
+    // Handle different actions
+    switch (action) {
+      case 'request_return':
+        return await requestReturn(supabase, user.id, params, corsHeaders);
+
+      case 'get_seller_returns':
+        return await getSellerReturns(supabase, user.id, corsHeaders);
+
+      case 'review_return':
+        return await reviewReturn(supabase, user.id, params, corsHeaders);
+
+      case 'retry_refund':
+        return await retryRefund(supabase, user.id, params.return_id, corsHeaders);
+
+      case 'get_couriers':
+        return await getCouriers(supabase, user.id, corsHeaders);
+
+      case 'assign_pickup':
+        return await assignPickup(supabase, user.id, params, corsHeaders);
+
+      case 'get_pickups':
+        return await getPickups(supabase, user.id, corsHeaders);
+
+      case 'complete_pickup':
+        return await completePickup(supabase, user.id, params.return_id, corsHeaders);
+
+      default:
+        return new Response(
+          JSON.stringify({ error: `Unknown action: ${action}` }),
+          { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 400 }
+        );
+    }
+  } catch (error) {
+    // Handle any errors
+    console.error(`Error processing request:`, error);
+
+    return new Response(
+      JSON.stringify({ error: error.message || 'Unknown error occurred' }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 500 }
+    );
+  }
+});
+
+// Customer asks to return some or all of a delivered line. Photos are
+// uploaded by the client to return-photos/<user id>/ beforehand.
+async function requestReturn(supabase, userId, params, corsHeaders) {
+  const { order_item_id, quantity, reason, details } = params;
+  const photoPaths = Array.isArray(params.photo_paths) ? params.photo_paths : [];
+
+  if (!order_item_id || !Number.isInteger(quantity) || !RETURN_REASONS.includes(reason)) {
+    return errorResponse('order_item_id, a whole quantity and a valid reason are required', 400, corsHeaders);
+  }
+
+  if (photoPaths.length > MAX_PHOTOS || photoPaths.some(path => !path.startsWith(`${userId}/`))) {
+    return errorResponse(`Attach up to ${MAX_PHOTOS} photos you uploaded yourself`, 400, corsHeaders);
+  }
+
+  try {
+    const { data: request, error } = await supabase.rpc('create_return_request', {
+      _user_id: userId,
+      _order_item_id: order_item_id,
+      _quantity: quantity,
+      _reason: reason,
+      _details: details?.trim() || null,
+      _photo_paths: photoPaths,
+    });
+
+    if (error) {
+      if (error.message === 'return_not_allowed') {
+        return errorResponse('Only delivered items from your own orders can be returned', 409, corsHeaders);
+      }
+      if (error.message === 'return_quantity_exceeded') {
+        let available = 0;
+        try {
+          available = JSON.parse(error.details).available;
+        } catch (_) {
+          // Fall back to the generic message
+        }
+        return errorResponse(`You can return at most ${available} of this item`, 409, corsHeaders);
+      }
+      throw error;
+    }
+
+    return new Response(
+      JSON.stringify({ return_request: request }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error("Error requesting return:", error);
+    return errorResponse(error.message || 'Failed to request return', 500, corsHeaders);
+  }
+}
+
+// Returns against the seller's products, with short-lived photo links
+async function getSellerReturns(supabase, sellerId, corsHeaders) {
+  try {
+    const { data, error } = await supabase
+      .from('return_requests')
+      .select(`
+        *,
+        order_items (
+          price,
+          quantity,
+          products ( name )
+        )
+      `)
+      .eq('seller_id', sellerId)
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+
+    const returns = await Promise.all((data || []).map(async ({ order_items: item, ...request }) => {
+      let photoUrls = [];
+      if (request.photo_paths.length) {
+        const { data: signed } = await supabase.storage
+          .from(PHOTO_BUCKET)
+          .createSignedUrls(request.photo_paths, 60 * 60);
+        photoUrls = (signed || []).map(photo => photo.signedUrl).filter(Boolean);
+      }
+
+      return {
+        ...request,
+        product_name: item?.products?.name,
+        unit_price: item ? Number(item.price) : null,
+        photo_urls: photoUrls,
+      };
+    }));
+
+    return new Response(
+      JSON.stringify({ returns }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error("Error getting seller returns:", error);
+    return errorResponse(error.message || 'Failed to get returns', 500, corsHeaders);
+  }
+}
+
+// Seller (or an admin) approves or rejects a return. Approval restocks the
+// product and refunds the customer straight away; a failed refund leaves the
+// return approved with refund_error set so it can be retried.
+async function reviewReturn(supabase, userId, params, corsHeaders) {
+  const { return_id, decision, note } = params;
+
+  if (!return_id || !['approve', 'reject'].includes(decision)) {
+    return errorResponse('return_id and a decision of approve or reject are required', 400, corsHeaders);
+  }
+
+  try {
+    const request = await findManagedReturn(supabase, userId, return_id);
+    if (!request) {
+      return errorResponse('Return not found', 404, corsHeaders);
+    }
+
+    if (request.status !== 'requested') {
+      return errorResponse('This return has already been reviewed', 409, corsHeaders);
+    }
+
+    if (decision === 'reject') {
+      if (!note?.trim()) {
+        return errorResponse('Please give the customer a reason for rejecting the return', 400, corsHeaders);
+      }
+
+      const { data: rejected, error } = await supabase
+        .from('return_requests')
+        .update({
+          status: 'rejected',
+          seller_note: note.trim(),
+          reviewed_by: userId,
+          reviewed_at: new Date().toISOString(),
+          updated_at: new Date().toISOString(),
+        })
+        .eq('id', return_id)
+        .eq('status', 'requested')
+        .select('*')
+        .single();
+
+      if (error) throw error;
+
+      return new Response(
+        JSON.stringify({ return_request: rejected }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const { data: approved, error: approveError } = await supabase.rpc('approve_return_request', {
+      _return_id: return_id,
+      _reviewer_id: userId,
+      _note: note?.trim() || null,
+    });
+
+    if (approveError) {
+      if (approveError.message === 'invalid_return_transition') {
+        return errorResponse('This return has already been reviewed', 409, corsHeaders);
+      }
+      throw approveError;
+    }
+
+    const refunded = await refundReturn(supabase, approved, userId);
+
+    return new Response(
+      JSON.stringify({ return_request: refunded }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error("Error reviewing return:", error);
+    return errorResponse(error.message || 'Failed to review return', 500, corsHeaders);
+  }
+}
+
+async function retryRefund(supabase, userId, returnId, corsHeaders) {
+  try {
+    const request = await findManagedReturn(supabase, userId, returnId);
+    if (!request) {
+      return errorResponse('Return not found', 404, corsHeaders);
+    }
+
+    // Clearing refund_error claims the retry, so a double click or a retry
+    // racing the original approval can't refund the return twice
+    const { data: claimed, error: claimError } = await supabase
+      .from('return_requests')
+      .update({ refund_error: null, updated_at: new Date().toISOString() })
+      .eq('id', request.id)
+      .eq('status', 'approved')
+      .not('refund_error', 'is', null)
+      .select('*')
+      .maybeSingle();
+
+    if (claimError) throw claimError;
+
+    if (!claimed) {
+      return errorResponse('Only approved returns whose refund failed can be retried', 409, corsHeaders);
+    }
+
+    const refunded = await refundReturn(supabase, claimed, userId);
+
+    return new Response(
+      JSON.stringify({ return_request: refunded }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error("Error retrying refund:", error);
+    return errorResponse(error.message || 'Failed to refund return', 500, corsHeaders);
+  }
+}
+
+// Couriers a seller can send for a pickup, least busy first
+async function getCouriers(supabase, userId, corsHeaders) {
+  try {
+    const { data: roles, error: rolesError } = await supabase
+      .from('user_roles')
+      .select('role')
+      .eq('user_id', userId)
+      .in('role', ['seller', 'admin']);
+
+    if (rolesError) throw rolesError;
+
+    if (!roles?.length) {
+      return errorResponse('Only sellers and admins can arrange pickups', 403, corsHeaders);
+    }
+
+    const couriers = await listCouriers(supabase);
+
+    return new Response(
+      JSON.stringify({ couriers }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error("Error getting couriers:", error);
+    return errorResponse(error.message || 'Failed to get couriers', 500, corsHeaders);
+  }
+}
+
+// Send a courier to collect the items from the customer. The seller can pick
+// the courier; otherwise it goes to whoever has the fewest open jobs.
+async function assignPickup(supabase, userId, params, corsHeaders) {
+  const { return_id: returnId, courier_id: courierId } = params;
+
+  try {
+    const request = await findManagedReturn(supabase, userId, returnId);
+    if (!request) {
+      return errorResponse('Return not found', 404, corsHeaders);
+    }
+
+    if (!['approved', 'refunded'].includes(request.status) || request.pickup_status) {
+      return errorResponse('A pickup can only be arranged once for an approved return', 409, corsHeaders);
+    }
+
+    const couriers = await listCouriers(supabase);
+    const courier = courierId
+      ? couriers.find(candidate => candidate.id === courierId)
+      : couriers[0];
+
+    if (courierId && !courier) {
+      return errorResponse('The chosen courier is not a delivery user', 400, corsHeaders);
+    }
+
+    if (!courier) {
+      return errorResponse('No available delivery personnel found', 409, corsHeaders);
+    }
+
+    const { data: updated, error } = await supabase
+      .from('return_requests')
+      .update({
+        pickup_status: 'assigned',
+        pickup_person_id: courier.id,
+        pickup_assigned_at: new Date().toISOString(),
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', returnId)
+      .is('pickup_status', null)
+      .select('*')
+      .maybeSingle();
+
+    if (error) throw error;
+
+    if (!updated) {
+      return errorResponse('A pickup has already been arranged for this return', 409, corsHeaders);
+    }
+
+    return new Response(
+      JSON.stringify({ return_request: updated }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error("Error assigning pickup:", error);
+    return errorResponse(error.message || 'Failed to assign pickup', 500, corsHeaders);
+  }
+}
+
+// Pickups assigned to a courier, with where to collect them
+async function getPickups(supabase, courierId, corsHeaders) {
+  try {
+    const { data, error } = await supabase
+      .from('return_requests')
+      .select(`
+        id,
+        order_id,
+        quantity,
+        pickup_status,
+        pickup_assigned_at,
+        picked_up_at,
+        order_items (
+          products ( name )
+        ),
+        orders (
+          shipping_address,
+          shipping_city,
+          shipping_state,
+          shipping_postal_code
+        )
+      `)
+      .eq('pickup_person_id', courierId)
+      .order('pickup_assigned_at', { ascending: false });
+
+    if (error) throw error;
+
+    const pickups = (data || []).map(({ order_items: item, orders: order, ...pickup }) => ({
+      ...pickup,
+      product_name: item?.products?.name,
+      address: order,
+    }));
+
+    return new Response(
+      JSON.stringify({ pickups }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error("Error getting pickups:", error);
+    return errorResponse(error.message || 'Failed to get pickups', 500, corsHeaders);
+  }
+}
+
+async function completePickup(supabase, courierId, returnId, corsHeaders) {
+  if (!returnId) {
+    return errorResponse('return_id is required', 400, corsHeaders);
+  }
+
+  try {
+    const { data: updated, error } = await supabase
+      .from('return_requests')
+      .update({
+        pickup_status: 'picked_up',
+        picked_up_at: new Date().toISOString(),
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', returnId)
+      .eq('pickup_person_id', courierId)
+      .eq('pickup_status', 'assigned')
+      .select('*')
+      .maybeSingle();
+
+    if (error) throw error;
+
+    if (!updated) {
+      return errorResponse('Pickup not found or already completed', 404, corsHeaders);
+    }
+
+    return new Response(
+      JSON.stringify({ return_request: updated }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error("Error completing pickup:", error);
+    return errorResponse(error.message || 'Failed to complete pickup', 500, corsHeaders);
+  }
+}
+
+// Refund an approved return through the order's payment and record the
+// outcome. Returns worth nothing, such as items from a fully discounted
+// order, are closed without touching the payment.
+async function refundReturn(supabase, request, actorId) {
+  let changes;
+
+  if (!(Number(request.refund_amount) > 0)) {
+    changes = { status: 'refunded', refund_error: null };
+  } else {
+    // Anything that goes wrong is recorded so the refund can be retried
+    try {
+      const { refund, error } = await issueRefund(
+        supabase,
+        getPaymentProvider(),
+        request.order_id,
+        request.refund_amount,
+        `Return ${request.id.substring(0, 8)}: ${request.reason}`,
+        actorId
+      );
+
+      changes = error
+        ? { refund_error: error }
+        : { status: 'refunded', payment_refund_id: refund.id, refund_error: null };
+    } catch (error) {
+      console.error("Error refunding return:", error);
+      changes = { refund_error: error.message || 'Refund failed' };
+    }
+  }
+
+  const { data, error: updateError } = await supabase
+    .from('return_requests')
+    .update({ ...changes, updated_at: new Date().toISOString() })
+    .eq('id', request.id)
+    .select('*')
+    .single();
+
+  if (updateError) throw updateError;
+  return data;
+}
+
+// Delivery users with their open deliveries and pickups, least busy first
+async function listCouriers(supabase) {
+  const { data: roles, error: rolesError } = await supabase
+    .from('user_roles')
+    .select('user_id')
+    .eq('role', 'delivery');
+
+  if (rolesError) throw rolesError;
+
+  const ids = (roles || []).map(role => role.user_id);
+  if (!ids.length) return [];
+
+  const [profiles, deliveries, pickups] = await Promise.all([
+    supabase.from('profiles').select('id, first_name, last_name').in('id', ids),
+    supabase.from('delivery_assignments').select('delivery_person_id').eq('status', 'assigned').in('delivery_person_id', ids),
+    supabase.from('return_requests').select('pickup_person_id').eq('pickup_status', 'assigned').in('pickup_person_id', ids),
+  ]);
+
+  for (const result of [profiles, deliveries, pickups]) {
+    if (result.error) throw result.error;
+  }
+
+  const openJobs = new Map();
+  for (const { delivery_person_id } of deliveries.data || []) {
+    openJobs.set(delivery_person_id, (openJobs.get(delivery_person_id) || 0) + 1);
+  }
+  for (const { pickup_person_id } of pickups.data || []) {
+    openJobs.set(pickup_person_id, (openJobs.get(pickup_person_id) || 0) + 1);
+  }
+
+  const names = new Map((profiles.data || []).map(profile => [
+    profile.id,
+    [profile.first_name, profile.last_name].filter(Boolean).join(' ') || null,
+  ]));
+
+  return ids
+    .map(id => ({ id, name: names.get(id) || null, open_jobs: openJobs.get(id) || 0 }))
+    .sort((a, b) => a.open_jobs - b.open_jobs);
+}
+
+// The return if the user is its seller or an admin
+async function findManagedReturn(supabase, userId, returnId) {
+  if (!returnId) return null;
+
+  const { data: request, error } = await supabase
+    .from('return_requests')
+    .select('*')
+    .eq('id', returnId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!request) return null;
+
+  if (request.seller_id === userId) return request;
+
+  const { data: adminRole } = await supabase
+    .from('user_roles')
+    .select('role')
+    .eq('user_id', userId)
+    .eq('role', 'admin')
+    .maybeSingle();
+
+  return adminRole ? request : null;
+}
+
+function errorResponse(message, status, corsHeaders) {
+  return new Response(
+    JSON.stringify({ error: message }),
+    { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status }
+  );
+}
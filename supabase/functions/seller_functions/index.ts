@@ -2,6 +2,7 @@
 // Follow Deno Deploy's ES module conventions
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.43.1';
 import { serve } from 'https://deno.land/std@0.177.0/http/server.ts';
+import { maintenanceResponse } from '../_shared/maintenance.ts';
 
 // Define the allowed CORS headers
 const corsHeaders = {
@@ -48,6 +49,9 @@ serve(async (req) => {
       );
     }
 
+    const maintenance = await maintenanceResponse(supabase, user.id, corsHeaders);
+    if (maintenance) return maintenance;
+
     // Parse the request body
     let requestBody;
     try {
@@ -74,6 +78,13 @@ serve(async (req) => {
       case 'get_seller_products':
         return await getSellerProducts(supabase, params.seller_id, corsHeaders);
       
+      // Order actions always act for the signed-in seller, whatever seller_id says
+      case 'get_seller_orders':
+        return await getSellerOrders(supabase, user.id, corsHeaders);
+      
+      case 'update_order_status':
+        return await updateOrderStatus(supabase, user.id, params, corsHeaders);
+      
       default:
         return new Response(
           JSON.stringify({ error: `Unknown action: ${action}` }),
@@ -220,3 +231,167 @@ async function getSellerProducts(supabase, sellerId, corsHeaders) {
     );
   }
 }
+
+// The seller's packages, each with its order and only the seller's own lines
+async function getSellerOrders(supabase, sellerId, corsHeaders) {
+  try {
+    const { data: fulfilments, error: fulfilmentsError } = await supabase
+      .from('order_fulfilments')
+      .select(`
+        id,
+        status,
+        delivery_status,
+        carrier,
+        tracking_number,
+        packed_at,
+        shipped_at,
+        delivered_at,
+        orders (
+          id,
+          created_at,
+          status,
+          payment_method,
+          user_id,
+          shipping_address,
+          shipping_city,
+          shipping_state,
+          shipping_postal_code,
+          shipping_country
+        ),
+        order_items (
+          id,
+          product_id,
+          variant_name,
+          sku,
+          quantity,
+          price,
+          products ( name )
+        )
+      `)
+      .eq('seller_id', sellerId)
+      .order('created_at', { ascending: false });
+    
+    if (fulfilmentsError) {
+      console.error("Error getting seller fulfilments:", fulfilmentsError);
+      throw fulfilmentsError;
+    }
+    
+    const orders = (fulfilments || [])
+      .filter(fulfilment => fulfilment.orders)
+      .map(({ orders: order, order_items, ...fulfilment }) => ({
+        ...order,
+        fulfilment,
+        total: roundCents(order_items.reduce((sum, item) => sum + Number(item.price) * item.quantity, 0)),
+        items: order_items.map(item => ({
+          id: item.id,
+          product_id: item.product_id,
+          product_name: item.variant_name && item.products?.name
+            ? `${item.products.name} (${item.variant_name})`
+            : item.products?.name,
+          sku: item.sku,
+          quantity: item.quantity,
+          price: Number(item.price),
+        })),
+      }));
+    
+    // Sellers see who to ship to, looked up once per customer
+    const customerIds = [...new Set(orders.map(order => order.user_id))];
+    const emails = new Map();
+    await Promise.all(customerIds.map(async (customerId) => {
+      const { data } = await supabase.auth.admin.getUserById(customerId);
+      emails.set(customerId, data?.user?.email);
+    }));
+    
+    for (const order of orders) {
+      order.customer_email = emails.get(order.user_id);
+    }
+    
+    return new Response(
+      JSON.stringify({ orders }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error("Error getting seller orders:", error);
+    
+    return new Response(
+      JSON.stringify({ error: error.message || 'Failed to get seller orders' }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 500 }
+    );
+  }
+}
+
+// Mark the seller's package of an order packed or shipped
+async function updateOrderStatus(supabase, sellerId, params, corsHeaders) {
+  const { order_id, status, carrier, tracking_number } = params;
+  
+  if (!order_id || !['packed', 'shipped'].includes(status)) {
+    return new Response(
+      JSON.stringify({ error: 'order_id and a status of packed or shipped are required' }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 400 }
+    );
+  }
+  
+  if (status === 'shipped' && (!carrier?.trim() || !tracking_number?.trim())) {
+    return new Response(
+      JSON.stringify({ error: 'A carrier and tracking number are required to ship a package' }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 400 }
+    );
+  }
+  
+  try {
+    const { data: fulfilment, error: fulfilmentError } = await supabase
+      .from('order_fulfilments')
+      .select('id')
+      .eq('order_id', order_id)
+      .eq('seller_id', sellerId)
+      .maybeSingle();
+    
+    if (fulfilmentError) throw fulfilmentError;
+    
+    if (!fulfilment) {
+      return new Response(
+        JSON.stringify({ error: 'Order not found' }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 404 }
+      );
+    }
+    
+    const { data: updated, error } = await supabase.rpc('advance_fulfilment', {
+      _fulfilment_id: fulfilment.id,
+      _status: status,
+      _carrier: status === 'shipped' ? carrier.trim() : null,
+      _tracking_number: status === 'shipped' ? tracking_number.trim() : null,
+      _actor_id: sellerId,
+      _note: status === 'shipped' ? `Shipped with ${carrier.trim()}` : 'Packed by seller',
+    });
+    
+    if (error) {
+      const fulfilmentErrors = {
+        order_not_fulfillable: [409, 'This order is not ready to be fulfilled'],
+        invalid_fulfilment_transition: [409, `This package cannot be marked as ${status}`],
+      };
+      const known = fulfilmentErrors[error.message];
+      if (!known) throw error;
+      
+      return new Response(
+        JSON.stringify({ error: known[1] }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: known[0] }
+      );
+    }
+    
+    return new Response(
+      JSON.stringify({ fulfilment: updated }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error("Error updating seller order:", error);
+    
+    return new Response(
+      JSON.stringify({ error: error.message || 'Failed to update order' }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 500 }
+    );
+  }
+}
+
+function roundCents(amount) {
+  return Math.round(amount * 100) / 100;
+}
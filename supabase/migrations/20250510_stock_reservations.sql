@@ -0,0 +1,208 @@
+
+-- Short-lived stock holds taken while a customer is checking out
+CREATE TABLE IF NOT EXISTS public.stock_reservations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL,
+  product_id UUID NOT NULL REFERENCES public.products(id) ON DELETE CASCADE,
+  quantity INTEGER NOT NULL CHECK (quantity > 0),
+  order_id UUID REFERENCES public.orders(id) ON DELETE SET NULL,
+  expires_at TIMESTAMPTZ NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS stock_reservations_product_active_idx
+  ON public.stock_reservations (product_id, expires_at)
+  WHERE order_id IS NULL;
+
+CREATE INDEX IF NOT EXISTS stock_reservations_user_idx
+  ON public.stock_reservations (user_id);
+
+ALTER TABLE public.stock_reservations ENABLE ROW LEVEL SECURITY;
+
+-- Customers can see their own holds; all writes go through the functions below
+CREATE POLICY "Users can view their own stock reservations"
+ON public.stock_reservations
+FOR SELECT
+USING (auth.uid() = user_id);
+
+-- Guards against restoring the same order's stock twice
+ALTER TABLE public.orders
+  ADD COLUMN IF NOT EXISTS stock_restored_at TIMESTAMPTZ;
+
+-- Units of a product that can still be reserved, ignoring the given user's own holds
+CREATE OR REPLACE FUNCTION public.available_stock(_product_id UUID, _exclude_user_id UUID DEFAULT NULL)
+RETURNS INTEGER
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT p.stock - COALESCE((
+    SELECT SUM(r.quantity)
+    FROM public.stock_reservations r
+    WHERE r.product_id = p.id
+      AND r.order_id IS NULL
+      AND r.expires_at > now()
+      AND (_exclude_user_id IS NULL OR r.user_id <> _exclude_user_id)
+  ), 0)::INTEGER
+  FROM public.products p
+  WHERE p.id = _product_id;
+$$;
+
+-- Replace the user's open holds with fresh ones for the given lines.
+-- _items is a JSON array of { "product_id": uuid, "quantity": int }.
+-- Raises 'insufficient_stock' (with the product id and units left in DETAIL)
+-- when any line cannot be held, in which case nothing is reserved.
+CREATE OR REPLACE FUNCTION public.reserve_stock(_user_id UUID, _items JSONB, _hold_minutes INTEGER DEFAULT 15)
+RETURNS TIMESTAMPTZ
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _item RECORD;
+  _available INTEGER;
+  _expires_at TIMESTAMPTZ := now() + make_interval(mins => _hold_minutes);
+BEGIN
+  DELETE FROM public.stock_reservations
+  WHERE user_id = _user_id AND order_id IS NULL;
+
+  -- Lock product rows in a stable order so concurrent checkouts can't deadlock
+  FOR _item IN
+    SELECT (value->>'product_id')::UUID AS product_id, SUM((value->>'quantity')::INTEGER) AS quantity
+    FROM jsonb_array_elements(_items)
+    GROUP BY 1
+    ORDER BY 1
+  LOOP
+    PERFORM 1 FROM public.products WHERE id = _item.product_id FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'insufficient_stock' USING DETAIL = json_build_object('product_id', _item.product_id, 'available', 0)::TEXT;
+    END IF;
+
+    _available := public.available_stock(_item.product_id, _user_id);
+
+    IF _available < _item.quantity THEN
+      RAISE EXCEPTION 'insufficient_stock' USING DETAIL = json_build_object('product_id', _item.product_id, 'available', GREATEST(_available, 0))::TEXT;
+    END IF;
+
+    INSERT INTO public.stock_reservations (user_id, product_id, quantity, expires_at)
+    VALUES (_user_id, _item.product_id, _item.quantity, _expires_at);
+  END LOOP;
+
+  RETURN _expires_at;
+END;
+$$;
+
+-- Turn the user's open holds into real stock decrements for an order
+CREATE OR REPLACE FUNCTION public.commit_stock_reservations(_user_id UUID, _order_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _hold RECORD;
+BEGIN
+  FOR _hold IN
+    SELECT id, product_id, quantity
+    FROM public.stock_reservations
+    WHERE user_id = _user_id AND order_id IS NULL AND expires_at > now()
+    ORDER BY product_id
+    FOR UPDATE
+  LOOP
+    UPDATE public.products
+    SET stock = stock - _hold.quantity, updated_at = now()
+    WHERE id = _hold.product_id AND stock >= _hold.quantity;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'insufficient_stock' USING DETAIL = json_build_object('product_id', _hold.product_id, 'available', public.available_stock(_hold.product_id, _user_id))::TEXT;
+    END IF;
+
+    UPDATE public.stock_reservations SET order_id = _order_id WHERE id = _hold.id;
+  END LOOP;
+END;
+$$;
+
+-- Drop the user's holds that were never turned into an order
+CREATE OR REPLACE FUNCTION public.release_stock_reservations(_user_id UUID)
+RETURNS VOID
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  DELETE FROM public.stock_reservations
+  WHERE user_id = _user_id AND order_id IS NULL;
+$$;
+
+-- Housekeeping: expired holds are already ignored by available_stock()
+CREATE OR REPLACE FUNCTION public.purge_expired_stock_reservations()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _deleted INTEGER;
+BEGIN
+  DELETE FROM public.stock_reservations
+  WHERE order_id IS NULL AND expires_at <= now();
+
+  GET DIAGNOSTICS _deleted = ROW_COUNT;
+  RETURN _deleted;
+END;
+$$;
+
+-- Put an order's units back on the shelf when it is cancelled or refunded.
+-- Only units that were actually taken through a committed reservation are returned.
+CREATE OR REPLACE FUNCTION public.restore_order_stock()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status IN ('canceled', 'cancelled', 'refunded')
+     AND OLD.status NOT IN ('canceled', 'cancelled', 'refunded')
+     AND OLD.stock_restored_at IS NULL THEN
+    UPDATE public.products p
+    SET stock = p.stock + oi.quantity, updated_at = now()
+    FROM (
+      SELECT product_id, SUM(quantity) AS quantity
+      FROM public.stock_reservations
+      WHERE order_id = NEW.id
+      GROUP BY product_id
+    ) oi
+    WHERE p.id = oi.product_id;
+
+    NEW.stock_restored_at := now();
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS restore_order_stock_on_cancel ON public.orders;
+CREATE TRIGGER restore_order_stock_on_cancel
+BEFORE UPDATE OF status ON public.orders
+FOR EACH ROW
+EXECUTE FUNCTION public.restore_order_stock();
+
+-- Clear out stale holds every 10 minutes when pg_cron is available
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+    PERFORM cron.schedule('purge-expired-stock-reservations', '*/10 * * * *', 'SELECT public.purge_expired_stock_reservations()');
+  END IF;
+END;
+$$;
+
+-- Reservations are only taken on behalf of a verified user by the checkout edge function
+REVOKE EXECUTE ON FUNCTION public.reserve_stock(UUID, JSONB, INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.commit_stock_reservations(UUID, UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.release_stock_reservations(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.purge_expired_stock_reservations() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.reserve_stock(UUID, JSONB, INTEGER) TO service_role;
+GRANT EXECUTE ON FUNCTION public.commit_stock_reservations(UUID, UUID) TO service_role;
+GRANT EXECUTE ON FUNCTION public.release_stock_reservations(UUID) TO service_role;
+GRANT EXECUTE ON FUNCTION public.purge_expired_stock_reservations() TO service_role;
@@ -0,0 +1,96 @@
+
+-- One stored cart per signed-in customer so it follows them across devices
+CREATE TABLE IF NOT EXISTS public.carts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL UNIQUE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS public.cart_items (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  cart_id UUID NOT NULL REFERENCES public.carts(id) ON DELETE CASCADE,
+  product_id UUID NOT NULL REFERENCES public.products(id) ON DELETE CASCADE,
+  quantity INTEGER NOT NULL CHECK (quantity > 0),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (cart_id, product_id)
+);
+
+ALTER TABLE public.carts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.cart_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own cart"
+ON public.carts
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own cart"
+ON public.carts
+FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can manage their own cart items"
+ON public.cart_items
+FOR ALL
+USING (
+  EXISTS (SELECT 1 FROM public.carts c WHERE c.id = cart_id AND c.user_id = auth.uid())
+)
+WITH CHECK (
+  EXISTS (SELECT 1 FROM public.carts c WHERE c.id = cart_id AND c.user_id = auth.uid())
+);
+
+-- Merge a guest cart into the caller's stored cart and return the cart id.
+-- _items is a JSON array of { "product_id": uuid, "quantity": int }.
+-- Lines present in both carts are added together; every line is capped at the
+-- product's current stock and products that are gone or sold out are skipped.
+CREATE OR REPLACE FUNCTION public.merge_cart(_items JSONB DEFAULT '[]'::JSONB)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _user_id UUID := auth.uid();
+  _cart_id UUID;
+BEGIN
+  IF _user_id IS NULL THEN
+    RAISE EXCEPTION 'not_authenticated';
+  END IF;
+
+  INSERT INTO public.carts (user_id)
+  VALUES (_user_id)
+  ON CONFLICT (user_id) DO UPDATE SET updated_at = now()
+  RETURNING id INTO _cart_id;
+
+  INSERT INTO public.cart_items (cart_id, product_id, quantity)
+  SELECT _cart_id, p.id, LEAST(g.quantity, p.stock)
+  FROM (
+    SELECT (value->>'product_id')::UUID AS product_id, SUM((value->>'quantity')::INTEGER) AS quantity
+    FROM jsonb_array_elements(COALESCE(_items, '[]'::JSONB))
+    GROUP BY 1
+  ) g
+  JOIN public.products p ON p.id = g.product_id
+  WHERE g.quantity > 0 AND p.stock > 0
+  ON CONFLICT (cart_id, product_id) DO UPDATE
+  SET quantity = LEAST(
+        public.cart_items.quantity + EXCLUDED.quantity,
+        (SELECT stock FROM public.products WHERE id = EXCLUDED.product_id)
+      ),
+      updated_at = now();
+
+  -- Stock may have dropped since lines were stored on another device
+  UPDATE public.cart_items ci
+  SET quantity = p.stock, updated_at = now()
+  FROM public.products p
+  WHERE ci.cart_id = _cart_id
+    AND ci.product_id = p.id
+    AND p.stock > 0
+    AND ci.quantity > p.stock;
+
+  RETURN _cart_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.merge_cart(JSONB) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.merge_cart(JSONB) TO authenticated;
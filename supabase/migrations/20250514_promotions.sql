@@ -0,0 +1,135 @@
+
+-- Coupon codes and automatic promotion rules
+CREATE TABLE IF NOT EXISTS public.promotions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  code TEXT NOT NULL UNIQUE CHECK (code = upper(code)),
+  name TEXT NOT NULL,
+  description TEXT,
+  type TEXT NOT NULL CHECK (type IN ('percentage', 'fixed_amount', 'free_shipping', 'buy_x_get_y')),
+  -- Percent off for 'percentage' and the free units of 'buy_x_get_y', amount off for 'fixed_amount'
+  value NUMERIC(10, 2) NOT NULL DEFAULT 0 CHECK (value >= 0),
+  buy_quantity INTEGER CHECK (buy_quantity IS NULL OR buy_quantity > 0),
+  get_quantity INTEGER CHECK (get_quantity IS NULL OR get_quantity > 0),
+  -- Optional scope: only lines in this category and/or from this seller count
+  category TEXT,
+  seller_id UUID,
+  min_subtotal NUMERIC(10, 2) NOT NULL DEFAULT 0,
+  usage_limit INTEGER CHECK (usage_limit IS NULL OR usage_limit > 0),
+  per_user_limit INTEGER CHECK (per_user_limit IS NULL OR per_user_limit > 0),
+  usage_count INTEGER NOT NULL DEFAULT 0,
+  starts_at TIMESTAMPTZ,
+  expires_at TIMESTAMPTZ,
+  active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CHECK (type <> 'buy_x_get_y' OR (buy_quantity IS NOT NULL AND get_quantity IS NOT NULL))
+);
+
+CREATE TABLE IF NOT EXISTS public.promotion_redemptions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  promotion_id UUID NOT NULL REFERENCES public.promotions(id) ON DELETE CASCADE,
+  order_id UUID NOT NULL REFERENCES public.orders(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL,
+  discount_amount NUMERIC(10, 2) NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (promotion_id, order_id)
+);
+
+CREATE INDEX IF NOT EXISTS promotion_redemptions_user_idx
+  ON public.promotion_redemptions (promotion_id, user_id);
+
+-- Break the stored total down so discounts are visible on the order
+ALTER TABLE public.orders
+  ADD COLUMN IF NOT EXISTS subtotal NUMERIC(10, 2),
+  ADD COLUMN IF NOT EXISTS shipping_total NUMERIC(10, 2) NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS discount_total NUMERIC(10, 2) NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS promotion_code TEXT;
+
+ALTER TABLE public.promotions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.promotion_redemptions ENABLE ROW LEVEL SECURITY;
+
+-- Codes are validated by the checkout edge function, so only admins read them directly
+CREATE POLICY "Admins can manage promotions"
+ON public.promotions
+FOR ALL
+USING (public.has_role(auth.uid(), 'admin'))
+WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can view promotion redemptions"
+ON public.promotion_redemptions
+FOR SELECT
+USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Users can view their own promotion redemptions"
+ON public.promotion_redemptions
+FOR SELECT
+USING (auth.uid() = user_id);
+
+-- Record a redemption, enforcing the global and per-customer limits atomically.
+-- Raises 'promotion_unavailable' when the code has been used up.
+CREATE OR REPLACE FUNCTION public.redeem_promotion(_promotion_id UUID, _user_id UUID, _order_id UUID, _discount NUMERIC)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _promotion public.promotions%ROWTYPE;
+  _user_uses INTEGER;
+BEGIN
+  SELECT * INTO _promotion FROM public.promotions WHERE id = _promotion_id FOR UPDATE;
+
+  IF NOT FOUND
+     OR NOT _promotion.active
+     OR (_promotion.starts_at IS NOT NULL AND _promotion.starts_at > now())
+     OR (_promotion.expires_at IS NOT NULL AND _promotion.expires_at <= now())
+     OR (_promotion.usage_limit IS NOT NULL AND _promotion.usage_count >= _promotion.usage_limit) THEN
+    RAISE EXCEPTION 'promotion_unavailable';
+  END IF;
+
+  IF _promotion.per_user_limit IS NOT NULL THEN
+    SELECT COUNT(*) INTO _user_uses
+    FROM public.promotion_redemptions
+    WHERE promotion_id = _promotion_id AND user_id = _user_id;
+
+    IF _user_uses >= _promotion.per_user_limit THEN
+      RAISE EXCEPTION 'promotion_unavailable';
+    END IF;
+  END IF;
+
+  INSERT INTO public.promotion_redemptions (promotion_id, order_id, user_id, discount_amount)
+  VALUES (_promotion_id, _order_id, _user_id, _discount);
+END;
+$$;
+
+-- Keep usage_count in step with the redemption rows, so a discarded order
+-- (whose redemption is removed by the cascade) gives its use back
+CREATE OR REPLACE FUNCTION public.sync_promotion_usage_count()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    UPDATE public.promotions
+    SET usage_count = usage_count + 1, updated_at = now()
+    WHERE id = NEW.promotion_id;
+    RETURN NEW;
+  END IF;
+
+  UPDATE public.promotions
+  SET usage_count = GREATEST(usage_count - 1, 0), updated_at = now()
+  WHERE id = OLD.promotion_id;
+  RETURN OLD;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS sync_promotion_usage_count ON public.promotion_redemptions;
+CREATE TRIGGER sync_promotion_usage_count
+AFTER INSERT OR DELETE ON public.promotion_redemptions
+FOR EACH ROW
+EXECUTE FUNCTION public.sync_promotion_usage_count();
+
+REVOKE EXECUTE ON FUNCTION public.redeem_promotion(UUID, UUID, UUID, NUMERIC) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.redeem_promotion(UUID, UUID, UUID, NUMERIC) TO service_role;
@@ -0,0 +1,219 @@
+
+-- One row per payment attempt against an order, whatever gateway handled it
+CREATE TABLE IF NOT EXISTS public.payments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id UUID NOT NULL REFERENCES public.orders(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL,
+  provider TEXT NOT NULL,
+  provider_payment_id TEXT,
+  method TEXT NOT NULL,
+  amount NUMERIC(10, 2) NOT NULL CHECK (amount >= 0),
+  currency TEXT NOT NULL DEFAULT 'usd',
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN (
+    'pending', 'requires_action', 'authorized', 'captured', 'declined',
+    'failed', 'canceled', 'refunded', 'partially_refunded'
+  )),
+  amount_refunded NUMERIC(10, 2) NOT NULL DEFAULT 0,
+  failure_reason TEXT,
+  authorized_at TIMESTAMPTZ,
+  captured_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (provider, provider_payment_id)
+);
+
+CREATE INDEX IF NOT EXISTS payments_order_idx ON public.payments (order_id);
+
+CREATE TABLE IF NOT EXISTS public.payment_refunds (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  payment_id UUID NOT NULL REFERENCES public.payments(id) ON DELETE CASCADE,
+  amount NUMERIC(10, 2) NOT NULL CHECK (amount > 0),
+  reason TEXT,
+  provider_refund_id TEXT,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'succeeded', 'failed')),
+  failure_reason TEXT,
+  created_by UUID,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- Every webhook we accepted, so replays from the gateway are ignored
+CREATE TABLE IF NOT EXISTS public.payment_webhook_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  provider TEXT NOT NULL,
+  event_id TEXT NOT NULL,
+  type TEXT NOT NULL,
+  payload JSONB NOT NULL,
+  processed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (provider, event_id)
+);
+
+ALTER TABLE public.orders
+  ADD COLUMN IF NOT EXISTS paid_at TIMESTAMPTZ;
+
+ALTER TABLE public.payments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.payment_refunds ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.payment_webhook_events ENABLE ROW LEVEL SECURITY;
+
+-- All writes go through the payment edge function
+CREATE POLICY "Users can view their own payments"
+ON public.payments
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can view all payments"
+ON public.payments
+FOR SELECT
+USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Users can view refunds of their payments"
+ON public.payment_refunds
+FOR SELECT
+USING (
+  EXISTS (SELECT 1 FROM public.payments p WHERE p.id = payment_id AND p.user_id = auth.uid())
+);
+
+CREATE POLICY "Admins can view all refunds"
+ON public.payment_refunds
+FOR SELECT
+USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can view payment webhook events"
+ON public.payment_webhook_events
+FOR SELECT
+USING (public.has_role(auth.uid(), 'admin'));
+
+-- Card and wallet orders that were never paid would otherwise hold their stock
+-- forever. Cancelling them fires restore_order_stock_on_cancel.
+CREATE OR REPLACE FUNCTION public.cancel_unpaid_orders(_older_than_minutes INTEGER DEFAULT 30)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _cancelled INTEGER;
+BEGIN
+  UPDATE public.orders o
+  SET status = 'cancelled', updated_at = now()
+  WHERE o.status = 'pending'
+    AND o.payment_method IS DISTINCT FROM 'cash_on_delivery'
+    AND o.created_at < now() - make_interval(mins => _older_than_minutes)
+    AND NOT EXISTS (
+      SELECT 1 FROM public.payments p
+      WHERE p.order_id = o.id AND p.status IN ('authorized', 'captured')
+    );
+
+  GET DIAGNOSTICS _cancelled = ROW_COUNT;
+  RETURN _cancelled;
+END;
+$$;
+
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+    PERFORM cron.schedule('cancel-unpaid-orders', '*/15 * * * *', 'SELECT public.cancel_unpaid_orders()');
+  END IF;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.cancel_unpaid_orders(INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.cancel_unpaid_orders(INTEGER) TO service_role;
+
+-- Refunds are reserved under a lock on the payment before the gateway is
+-- called, and pending refunds count as refunded until they are settled, so
+-- two refunds running at once can't together return more than was captured.
+-- A null amount refunds whatever is left.
+CREATE OR REPLACE FUNCTION public.reserve_payment_refund(
+  _order_id UUID,
+  _amount NUMERIC,
+  _reason TEXT,
+  _created_by UUID
+)
+RETURNS public.payment_refunds
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _payment public.payments;
+  _refundable NUMERIC;
+  _refund public.payment_refunds;
+BEGIN
+  SELECT * INTO _payment
+  FROM public.payments
+  WHERE order_id = _order_id AND status IN ('captured', 'partially_refunded')
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'no_captured_payment';
+  END IF;
+
+  _refundable := _payment.amount - _payment.amount_refunded - coalesce((
+    SELECT sum(amount) FROM public.payment_refunds
+    WHERE payment_id = _payment.id AND status = 'pending'
+  ), 0);
+
+  _amount := round(coalesce(_amount, _refundable), 2);
+
+  IF NOT (_amount > 0) OR _amount > _refundable THEN
+    RAISE EXCEPTION 'invalid_refund_amount' USING DETAIL = GREATEST(_refundable, 0)::TEXT;
+  END IF;
+
+  INSERT INTO public.payment_refunds (payment_id, amount, reason, status, created_by)
+  VALUES (_payment.id, _amount, _reason, 'pending', _created_by)
+  RETURNING * INTO _refund;
+
+  RETURN _refund;
+END;
+$$;
+
+-- Record the gateway's answer for a reserved refund and, if it went
+-- through, add it to the payment's refunded total
+CREATE OR REPLACE FUNCTION public.settle_payment_refund(
+  _refund_id UUID,
+  _status TEXT,
+  _provider_refund_id TEXT,
+  _failure_reason TEXT
+)
+RETURNS public.payment_refunds
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _refund public.payment_refunds;
+BEGIN
+  PERFORM 1
+  FROM public.payments p
+  JOIN public.payment_refunds r ON r.payment_id = p.id
+  WHERE r.id = _refund_id
+  FOR UPDATE OF p;
+
+  UPDATE public.payment_refunds
+  SET status = _status,
+      provider_refund_id = _provider_refund_id,
+      failure_reason = _failure_reason
+  WHERE id = _refund_id AND status = 'pending'
+  RETURNING * INTO _refund;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'refund_already_settled';
+  END IF;
+
+  IF _refund.status = 'succeeded' THEN
+    UPDATE public.payments
+    SET amount_refunded = amount_refunded + _refund.amount,
+        status = CASE WHEN amount_refunded + _refund.amount >= amount THEN 'refunded' ELSE 'partially_refunded' END,
+        updated_at = now()
+    WHERE id = _refund.payment_id;
+  END IF;
+
+  RETURN _refund;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.reserve_payment_refund(UUID, NUMERIC, TEXT, UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.settle_payment_refund(UUID, TEXT, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.reserve_payment_refund(UUID, NUMERIC, TEXT, UUID) TO service_role;
+GRANT EXECUTE ON FUNCTION public.settle_payment_refund(UUID, TEXT, TEXT, TEXT) TO service_role;
@@ -0,0 +1,223 @@
+
+-- Canonical order lifecycle. Keep in sync with src/lib/orders.ts.
+--
+--   status:          pending -> paid -> processing -> shipped -> delivered
+--                    (cancelled and refunded branch off along the way)
+--   delivery_status: pending -> assigned -> in_transit -> delivered
+
+-- Fold the spellings different pages used into the canonical values
+UPDATE public.orders SET status = 'cancelled' WHERE status = 'canceled';
+UPDATE public.orders SET status = 'delivered' WHERE status = 'completed';
+UPDATE public.orders SET delivery_status = 'in_transit' WHERE delivery_status IN ('in-transit', 'shipped');
+
+-- NOT VALID: enforce for every write from now on without failing on legacy rows
+ALTER TABLE public.orders
+  ADD CONSTRAINT orders_status_check
+  CHECK (status IN ('pending', 'paid', 'processing', 'shipped', 'delivered', 'cancelled', 'refunded'))
+  NOT VALID;
+
+ALTER TABLE public.orders
+  ADD CONSTRAINT orders_delivery_status_check
+  CHECK (delivery_status IS NULL OR delivery_status IN ('pending', 'assigned', 'in_transit', 'delivered'))
+  NOT VALID;
+
+-- History of every status change, newest last
+CREATE TABLE IF NOT EXISTS public.order_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id UUID NOT NULL REFERENCES public.orders(id) ON DELETE CASCADE,
+  field TEXT NOT NULL CHECK (field IN ('status', 'delivery_status')),
+  from_status TEXT,
+  to_status TEXT NOT NULL,
+  actor_id UUID,
+  note TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS order_events_order_idx ON public.order_events (order_id, created_at);
+
+ALTER TABLE public.order_events ENABLE ROW LEVEL SECURITY;
+
+-- Events are only written by the trigger below
+CREATE POLICY "Users can view events of their own orders"
+ON public.order_events
+FOR SELECT
+USING (
+  EXISTS (SELECT 1 FROM public.orders o WHERE o.id = order_id AND o.user_id = auth.uid())
+);
+
+CREATE POLICY "Admins can view all order events"
+ON public.order_events
+FOR SELECT
+USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE OR REPLACE FUNCTION public.order_status_transition_allowed(_from TEXT, _to TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT _from = _to OR CASE _from
+    WHEN 'pending' THEN _to IN ('paid', 'processing', 'cancelled')
+    WHEN 'paid' THEN _to IN ('processing', 'shipped', 'delivered', 'cancelled', 'refunded')
+    WHEN 'processing' THEN _to IN ('shipped', 'delivered', 'cancelled', 'refunded')
+    WHEN 'shipped' THEN _to IN ('delivered', 'refunded')
+    WHEN 'delivered' THEN _to IN ('refunded')
+    ELSE FALSE
+  END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.delivery_status_transition_allowed(_from TEXT, _to TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT _from IS NOT DISTINCT FROM _to OR CASE COALESCE(_from, 'pending')
+    WHEN 'pending' THEN _to IN ('assigned')
+    WHEN 'assigned' THEN _to IN ('pending', 'in_transit', 'delivered')
+    WHEN 'in_transit' THEN _to IN ('delivered')
+    ELSE FALSE
+  END;
+$$;
+
+-- Reject updates that skip or reverse the lifecycle. Raises
+-- 'invalid_order_transition' with the field and both values in DETAIL.
+CREATE OR REPLACE FUNCTION public.enforce_order_transition()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NOT public.order_status_transition_allowed(OLD.status, NEW.status)
+     -- Only cash on delivery orders go to processing without being paid
+     OR (OLD.status = 'pending' AND NEW.status = 'processing'
+         AND NEW.payment_method IS DISTINCT FROM 'cash_on_delivery') THEN
+    RAISE EXCEPTION 'invalid_order_transition'
+      USING DETAIL = json_build_object('field', 'status', 'from', OLD.status, 'to', NEW.status)::TEXT;
+  END IF;
+
+  IF NOT public.delivery_status_transition_allowed(OLD.delivery_status, NEW.delivery_status) THEN
+    RAISE EXCEPTION 'invalid_order_transition'
+      USING DETAIL = json_build_object('field', 'delivery_status', 'from', OLD.delivery_status, 'to', NEW.delivery_status)::TEXT;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS enforce_order_transition ON public.orders;
+CREATE TRIGGER enforce_order_transition
+BEFORE UPDATE OF status, delivery_status ON public.orders
+FOR EACH ROW
+EXECUTE FUNCTION public.enforce_order_transition();
+
+-- Record creation and every status change. Edge functions acting for a user
+-- go through transition_order() so the actor and note are kept.
+CREATE OR REPLACE FUNCTION public.record_order_events()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _actor_id UUID := COALESCE(NULLIF(current_setting('app.order_actor_id', true), '')::UUID, auth.uid());
+  _note TEXT := NULLIF(current_setting('app.order_event_note', true), '');
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO public.order_events (order_id, field, from_status, to_status, actor_id, note)
+    VALUES (NEW.id, 'status', NULL, NEW.status, COALESCE(_actor_id, NEW.user_id), COALESCE(_note, 'Order placed'));
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    INSERT INTO public.order_events (order_id, field, from_status, to_status, actor_id, note)
+    VALUES (NEW.id, 'status', OLD.status, NEW.status, _actor_id, _note);
+  END IF;
+
+  IF NEW.delivery_status IS DISTINCT FROM OLD.delivery_status THEN
+    INSERT INTO public.order_events (order_id, field, from_status, to_status, actor_id, note)
+    VALUES (NEW.id, 'delivery_status', OLD.delivery_status, NEW.delivery_status, _actor_id, _note);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS record_order_events ON public.orders;
+CREATE TRIGGER record_order_events
+AFTER INSERT OR UPDATE OF status, delivery_status ON public.orders
+FOR EACH ROW
+EXECUTE FUNCTION public.record_order_events();
+
+-- Move an order on behalf of a user, recording who did it and why.
+-- Pass NULL for the field that should stay as it is.
+CREATE OR REPLACE FUNCTION public.transition_order(
+  _order_id UUID,
+  _status TEXT DEFAULT NULL,
+  _delivery_status TEXT DEFAULT NULL,
+  _actor_id UUID DEFAULT NULL,
+  _note TEXT DEFAULT NULL
+)
+RETURNS public.orders
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _order public.orders;
+BEGIN
+  PERFORM set_config('app.order_actor_id', COALESCE(_actor_id::TEXT, ''), true);
+  PERFORM set_config('app.order_event_note', COALESCE(_note, ''), true);
+
+  UPDATE public.orders
+  SET status = COALESCE(_status, status),
+      delivery_status = COALESCE(_delivery_status, delivery_status),
+      updated_at = now()
+  WHERE id = _order_id
+  RETURNING * INTO _order;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'order_not_found';
+  END IF;
+
+  PERFORM set_config('app.order_actor_id', '', true);
+  PERFORM set_config('app.order_event_note', '', true);
+
+  RETURN _order;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.transition_order(UUID, TEXT, TEXT, UUID, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.transition_order(UUID, TEXT, TEXT, UUID, TEXT) TO service_role;
+
+-- Explain automatic cancellations in the order history
+CREATE OR REPLACE FUNCTION public.cancel_unpaid_orders(_older_than_minutes INTEGER DEFAULT 30)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _cancelled INTEGER;
+BEGIN
+  PERFORM set_config('app.order_event_note', 'Payment was not completed', true);
+
+  UPDATE public.orders o
+  SET status = 'cancelled', updated_at = now()
+  WHERE o.status = 'pending'
+    AND o.payment_method IS DISTINCT FROM 'cash_on_delivery'
+    AND o.created_at < now() - make_interval(mins => _older_than_minutes)
+    AND NOT EXISTS (
+      SELECT 1 FROM public.payments p
+      WHERE p.order_id = o.id AND p.status IN ('authorized', 'captured')
+    );
+
+  GET DIAGNOSTICS _cancelled = ROW_COUNT;
+
+  PERFORM set_config('app.order_event_note', '', true);
+  RETURN _cancelled;
+END;
+$$;
+
+-- Give existing orders a starting point in their history
+INSERT INTO public.order_events (order_id, field, from_status, to_status, actor_id, note, created_at)
+SELECT o.id, 'status', NULL, o.status, o.user_id, NULL, o.created_at
+FROM public.orders o
+WHERE NOT EXISTS (SELECT 1 FROM public.order_events e WHERE e.order_id = o.id);
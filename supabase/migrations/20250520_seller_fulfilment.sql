@@ -0,0 +1,138 @@
+
+-- Sellers fulfil their own lines of an order: pending -> packed -> shipped
+ALTER TABLE public.order_items
+  ADD COLUMN IF NOT EXISTS seller_id UUID,
+  ADD COLUMN IF NOT EXISTS fulfilment_status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (fulfilment_status IN ('pending', 'packed', 'shipped')),
+  ADD COLUMN IF NOT EXISTS carrier TEXT,
+  ADD COLUMN IF NOT EXISTS tracking_number TEXT,
+  ADD COLUMN IF NOT EXISTS packed_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS shipped_at TIMESTAMPTZ;
+
+-- Keep the seller of each line even if the product changes hands later
+UPDATE public.order_items oi
+SET seller_id = p.seller_id
+FROM public.products p
+WHERE p.id = oi.product_id AND oi.seller_id IS NULL;
+
+CREATE OR REPLACE FUNCTION public.set_order_item_seller()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.seller_id IS NULL THEN
+    SELECT seller_id INTO NEW.seller_id FROM public.products WHERE id = NEW.product_id;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS set_order_item_seller ON public.order_items;
+CREATE TRIGGER set_order_item_seller
+BEFORE INSERT ON public.order_items
+FOR EACH ROW
+EXECUTE FUNCTION public.set_order_item_seller();
+
+CREATE INDEX IF NOT EXISTS order_items_seller_idx ON public.order_items (seller_id, created_at);
+
+CREATE POLICY "Sellers can view order items for their products"
+ON public.order_items
+FOR SELECT
+USING (auth.uid() = seller_id);
+
+-- Mark a seller's lines of an order packed or shipped and move the order along
+-- with them: the first packed line puts it in processing, the last shipped
+-- line marks it shipped. Pass NULL _item_ids for all of the seller's lines.
+-- Raises 'order_not_fulfillable' when the order is not ready or already
+-- closed, and 'invalid_fulfilment_transition' when a line would go backwards.
+CREATE OR REPLACE FUNCTION public.fulfil_order_items(
+  _order_id UUID,
+  _seller_id UUID,
+  _status TEXT,
+  _item_ids UUID[] DEFAULT NULL,
+  _carrier TEXT DEFAULT NULL,
+  _tracking_number TEXT DEFAULT NULL
+)
+RETURNS SETOF public.order_items
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _order public.orders;
+  _updated INTEGER;
+BEGIN
+  IF _status NOT IN ('packed', 'shipped') THEN
+    RAISE EXCEPTION 'invalid_fulfilment_transition';
+  END IF;
+
+  SELECT * INTO _order FROM public.orders WHERE id = _order_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'order_not_found';
+  END IF;
+
+  -- Unpaid card orders can't be fulfilled; cash on delivery ones can
+  IF NOT (_order.status IN ('paid', 'processing', 'shipped')
+          OR (_order.status = 'pending' AND _order.payment_method = 'cash_on_delivery')) THEN
+    RAISE EXCEPTION 'order_not_fulfillable';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.order_items
+    WHERE order_id = _order_id
+      AND seller_id = _seller_id
+      AND (_item_ids IS NULL OR id = ANY(_item_ids))
+      AND (fulfilment_status = 'shipped' OR (fulfilment_status = 'packed' AND _status = 'packed'))
+  ) THEN
+    RAISE EXCEPTION 'invalid_fulfilment_transition';
+  END IF;
+
+  UPDATE public.order_items
+  SET fulfilment_status = _status,
+      packed_at = COALESCE(packed_at, now()),
+      shipped_at = CASE WHEN _status = 'shipped' THEN now() ELSE shipped_at END,
+      carrier = CASE WHEN _status = 'shipped' THEN _carrier ELSE carrier END,
+      tracking_number = CASE WHEN _status = 'shipped' THEN _tracking_number ELSE tracking_number END
+  WHERE order_id = _order_id
+    AND seller_id = _seller_id
+    AND (_item_ids IS NULL OR id = ANY(_item_ids));
+
+  GET DIAGNOSTICS _updated = ROW_COUNT;
+
+  IF _updated = 0 THEN
+    RAISE EXCEPTION 'order_not_found';
+  END IF;
+
+  PERFORM set_config('app.order_actor_id', _seller_id::TEXT, true);
+
+  IF _order.status IN ('pending', 'paid') THEN
+    PERFORM set_config('app.order_event_note', 'Seller started preparing the order', true);
+    UPDATE public.orders SET status = 'processing', updated_at = now() WHERE id = _order_id;
+  END IF;
+
+  IF _order.status <> 'shipped' AND NOT EXISTS (
+    SELECT 1 FROM public.order_items WHERE order_id = _order_id AND fulfilment_status <> 'shipped'
+  ) THEN
+    PERFORM set_config('app.order_event_note', 'All items shipped', true);
+    UPDATE public.orders
+    SET status = 'shipped',
+        tracking_number = COALESCE(_tracking_number, tracking_number),
+        updated_at = now()
+    WHERE id = _order_id;
+  END IF;
+
+  PERFORM set_config('app.order_actor_id', '', true);
+  PERFORM set_config('app.order_event_note', '', true);
+
+  RETURN QUERY
+    SELECT * FROM public.order_items
+    WHERE order_id = _order_id AND seller_id = _seller_id
+    ORDER BY created_at;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.fulfil_order_items(UUID, UUID, TEXT, UUID[], TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.fulfil_order_items(UUID, UUID, TEXT, UUID[], TEXT, TEXT) TO service_role;
@@ -0,0 +1,352 @@
+
+-- Split each order into one fulfilment (package) per seller. Packages carry
+-- their own status, shipping details and courier; the order status is rolled
+-- up from them. Replaces the per-line fulfilment columns from 20250520.
+--
+--   status:          pending -> packed -> shipped -> delivered (or cancelled)
+--   delivery_status: same values as orders.delivery_status
+CREATE TABLE IF NOT EXISTS public.order_fulfilments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id UUID NOT NULL REFERENCES public.orders(id) ON DELETE CASCADE,
+  seller_id UUID,
+  status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'packed', 'shipped', 'delivered', 'cancelled')),
+  delivery_status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (delivery_status IN ('pending', 'assigned', 'in_transit', 'delivered')),
+  carrier TEXT,
+  tracking_number TEXT,
+  packed_at TIMESTAMPTZ,
+  shipped_at TIMESTAMPTZ,
+  delivered_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE NULLS NOT DISTINCT (order_id, seller_id)
+);
+
+CREATE INDEX IF NOT EXISTS order_fulfilments_seller_idx ON public.order_fulfilments (seller_id, created_at);
+
+ALTER TABLE public.order_items
+  ADD COLUMN IF NOT EXISTS fulfilment_id UUID REFERENCES public.order_fulfilments(id) ON DELETE SET NULL;
+
+-- Couriers are assigned per package, so an order can have several assignments
+ALTER TABLE public.delivery_assignments
+  DROP CONSTRAINT IF EXISTS delivery_assignments_order_id_key,
+  ADD COLUMN IF NOT EXISTS fulfilment_id UUID UNIQUE REFERENCES public.order_fulfilments(id) ON DELETE CASCADE;
+
+-- Carry over what sellers already recorded on their lines
+INSERT INTO public.order_fulfilments (
+  order_id, seller_id, status, delivery_status, carrier, tracking_number, packed_at, shipped_at, created_at
+)
+SELECT
+  oi.order_id,
+  oi.seller_id,
+  CASE
+    WHEN o.status = 'delivered' THEN 'delivered'
+    WHEN bool_and(oi.fulfilment_status = 'shipped') THEN 'shipped'
+    WHEN o.status IN ('cancelled', 'refunded') THEN 'cancelled'
+    WHEN bool_or(oi.fulfilment_status <> 'pending') THEN 'packed'
+    ELSE 'pending'
+  END,
+  COALESCE(o.delivery_status, 'pending'),
+  max(oi.carrier),
+  max(oi.tracking_number),
+  min(oi.packed_at),
+  max(oi.shipped_at),
+  o.created_at
+FROM public.order_items oi
+JOIN public.orders o ON o.id = oi.order_id
+GROUP BY oi.order_id, oi.seller_id, o.status, o.delivery_status, o.created_at
+ON CONFLICT DO NOTHING;
+
+UPDATE public.order_items oi
+SET fulfilment_id = f.id
+FROM public.order_fulfilments f
+WHERE f.order_id = oi.order_id
+  AND f.seller_id IS NOT DISTINCT FROM oi.seller_id
+  AND oi.fulfilment_id IS NULL;
+
+UPDATE public.delivery_assignments da
+SET fulfilment_id = (
+  SELECT f.id FROM public.order_fulfilments f
+  WHERE f.order_id = da.order_id
+  ORDER BY f.created_at
+  LIMIT 1
+)
+WHERE da.fulfilment_id IS NULL;
+
+DROP FUNCTION IF EXISTS public.fulfil_order_items(UUID, UUID, TEXT, UUID[], TEXT, TEXT);
+
+ALTER TABLE public.order_items
+  DROP COLUMN IF EXISTS fulfilment_status,
+  DROP COLUMN IF EXISTS carrier,
+  DROP COLUMN IF EXISTS tracking_number,
+  DROP COLUMN IF EXISTS packed_at,
+  DROP COLUMN IF EXISTS shipped_at;
+
+-- New lines join (or open) the package of their seller
+CREATE OR REPLACE FUNCTION public.set_order_item_seller()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.seller_id IS NULL THEN
+    SELECT seller_id INTO NEW.seller_id FROM public.products WHERE id = NEW.product_id;
+  END IF;
+
+  IF NEW.fulfilment_id IS NULL THEN
+    INSERT INTO public.order_fulfilments (order_id, seller_id)
+    VALUES (NEW.order_id, NEW.seller_id)
+    ON CONFLICT (order_id, seller_id) DO UPDATE SET updated_at = now()
+    RETURNING id INTO NEW.fulfilment_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+ALTER TABLE public.order_fulfilments ENABLE ROW LEVEL SECURITY;
+
+-- All writes go through advance_fulfilment()
+CREATE POLICY "Users can view packages of their own orders"
+ON public.order_fulfilments
+FOR SELECT
+USING (
+  EXISTS (SELECT 1 FROM public.orders o WHERE o.id = order_id AND o.user_id = auth.uid())
+);
+
+CREATE POLICY "Sellers can view their own packages"
+ON public.order_fulfilments
+FOR SELECT
+USING (auth.uid() = seller_id);
+
+CREATE POLICY "Admins can view all packages"
+ON public.order_fulfilments
+FOR SELECT
+USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE OR REPLACE FUNCTION public.fulfilment_status_transition_allowed(_from TEXT, _to TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT _from = _to OR CASE _from
+    WHEN 'pending' THEN _to IN ('packed', 'shipped', 'cancelled')
+    -- Packed packages may be handed straight to a courier
+    WHEN 'packed' THEN _to IN ('shipped', 'delivered', 'cancelled')
+    WHEN 'shipped' THEN _to IN ('delivered')
+    ELSE FALSE
+  END;
+$$;
+
+-- Move a package on behalf of a seller, courier or admin. Pass NULL for the
+-- field that should stay as it is. Raises 'order_not_fulfillable' when the
+-- order is unpaid or closed, and 'invalid_fulfilment_transition' otherwise.
+CREATE OR REPLACE FUNCTION public.advance_fulfilment(
+  _fulfilment_id UUID,
+  _status TEXT DEFAULT NULL,
+  _delivery_status TEXT DEFAULT NULL,
+  _carrier TEXT DEFAULT NULL,
+  _tracking_number TEXT DEFAULT NULL,
+  _actor_id UUID DEFAULT NULL,
+  _note TEXT DEFAULT NULL
+)
+RETURNS public.order_fulfilments
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _fulfilment public.order_fulfilments;
+  _order public.orders;
+BEGIN
+  SELECT * INTO _fulfilment FROM public.order_fulfilments WHERE id = _fulfilment_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'order_not_found';
+  END IF;
+
+  SELECT * INTO _order FROM public.orders WHERE id = _fulfilment.order_id FOR UPDATE;
+
+  -- Unpaid card orders can't be fulfilled; cash on delivery ones can
+  IF NOT (_order.status IN ('paid', 'processing', 'shipped')
+          OR (_order.status = 'pending' AND _order.payment_method = 'cash_on_delivery')) THEN
+    RAISE EXCEPTION 'order_not_fulfillable';
+  END IF;
+
+  IF NOT public.fulfilment_status_transition_allowed(_fulfilment.status, COALESCE(_status, _fulfilment.status))
+     OR NOT public.delivery_status_transition_allowed(_fulfilment.delivery_status, COALESCE(_delivery_status, _fulfilment.delivery_status)) THEN
+    RAISE EXCEPTION 'invalid_fulfilment_transition';
+  END IF;
+
+  PERFORM set_config('app.order_actor_id', COALESCE(_actor_id::TEXT, ''), true);
+  PERFORM set_config('app.order_event_note', COALESCE(_note, ''), true);
+
+  UPDATE public.order_fulfilments
+  SET status = COALESCE(_status, status),
+      delivery_status = COALESCE(_delivery_status, delivery_status),
+      carrier = COALESCE(_carrier, carrier),
+      tracking_number = COALESCE(_tracking_number, tracking_number),
+      packed_at = CASE WHEN _status IS NOT NULL AND _status <> 'cancelled' THEN COALESCE(packed_at, now()) ELSE packed_at END,
+      shipped_at = CASE WHEN _status = 'shipped' THEN now() ELSE shipped_at END,
+      delivered_at = CASE WHEN _status = 'delivered' THEN now() ELSE delivered_at END,
+      updated_at = now()
+  WHERE id = _fulfilment_id
+  RETURNING * INTO _fulfilment;
+
+  PERFORM set_config('app.order_actor_id', '', true);
+  PERFORM set_config('app.order_event_note', '', true);
+
+  RETURN _fulfilment;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.advance_fulfilment(UUID, TEXT, TEXT, TEXT, TEXT, UUID, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.advance_fulfilment(UUID, TEXT, TEXT, TEXT, TEXT, UUID, TEXT) TO service_role;
+
+-- A courier takes a packed package. The package is locked while it is
+-- checked, assigned and handed over, so only one courier can win it and a
+-- failed assignment leaves the package waiting. Raises
+-- 'fulfilment_already_assigned' for the courier who lost the race.
+CREATE OR REPLACE FUNCTION public.accept_fulfilment(_fulfilment_id UUID, _courier_id UUID)
+RETURNS public.delivery_assignments
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _fulfilment public.order_fulfilments;
+  _assignment public.delivery_assignments;
+BEGIN
+  SELECT * INTO _fulfilment FROM public.order_fulfilments WHERE id = _fulfilment_id FOR UPDATE;
+
+  IF NOT FOUND OR _fulfilment.status <> 'packed' THEN
+    RAISE EXCEPTION 'order_not_found';
+  END IF;
+
+  IF _fulfilment.delivery_status <> 'pending' THEN
+    RAISE EXCEPTION 'fulfilment_already_assigned';
+  END IF;
+
+  PERFORM public.advance_fulfilment(
+    _fulfilment_id,
+    _delivery_status => 'assigned',
+    _actor_id => _courier_id,
+    _note => 'Accepted by courier'
+  );
+
+  INSERT INTO public.delivery_assignments (delivery_person_id, order_id, fulfilment_id, status, assigned_at)
+  VALUES (_courier_id, _fulfilment.order_id, _fulfilment_id, 'assigned', now())
+  RETURNING * INTO _assignment;
+
+  RETURN _assignment;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.accept_fulfilment(UUID, UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.accept_fulfilment(UUID, UUID) TO service_role;
+
+-- Roll package progress up to the order: the first package packed puts the
+-- order in processing, the last one shipped or delivered moves the order
+-- along with it. Cancelled packages are left out.
+CREATE OR REPLACE FUNCTION public.sync_order_from_fulfilments()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _order public.orders;
+  _status TEXT;
+  _delivery_status TEXT;
+  _note TEXT := current_setting('app.order_event_note', true);
+BEGIN
+  SELECT * INTO _order FROM public.orders WHERE id = NEW.order_id FOR UPDATE;
+
+  IF _order.status IN ('cancelled', 'refunded') THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT
+    CASE
+      WHEN bool_and(status = 'delivered') THEN 'delivered'
+      WHEN bool_and(status IN ('shipped', 'delivered')) THEN 'shipped'
+      WHEN bool_or(status <> 'pending') THEN 'processing'
+    END,
+    CASE
+      WHEN bool_and(delivery_status = 'delivered') THEN 'delivered'
+      WHEN bool_or(delivery_status IN ('in_transit', 'delivered')) THEN 'in_transit'
+      WHEN bool_or(delivery_status = 'assigned') THEN 'assigned'
+    END
+  INTO _status, _delivery_status
+  FROM public.order_fulfilments
+  WHERE order_id = NEW.order_id AND status <> 'cancelled';
+
+  IF _status IS NOT NULL AND _order.status IN ('pending', 'paid') THEN
+    PERFORM set_config('app.order_event_note', 'Seller started preparing the order', true);
+    UPDATE public.orders SET status = 'processing', updated_at = now() WHERE id = _order.id;
+    _order.status := 'processing';
+  END IF;
+
+  IF _status IN ('shipped', 'delivered') AND _order.status <> _status
+     AND public.order_status_transition_allowed(_order.status, _status) THEN
+    PERFORM set_config('app.order_event_note',
+      CASE _status WHEN 'shipped' THEN 'All packages shipped' ELSE 'All packages delivered' END, true);
+    UPDATE public.orders SET status = _status, updated_at = now() WHERE id = _order.id;
+  END IF;
+
+  IF _delivery_status IS NOT NULL AND _order.delivery_status IS DISTINCT FROM _delivery_status THEN
+    PERFORM set_config('app.order_event_note', COALESCE(_note, ''), true);
+
+    -- The order's courier tracking can't skip assignment
+    IF COALESCE(_order.delivery_status, 'pending') = 'pending' AND _delivery_status <> 'assigned' THEN
+      UPDATE public.orders SET delivery_status = 'assigned', updated_at = now() WHERE id = _order.id;
+      _order.delivery_status := 'assigned';
+    END IF;
+
+    IF public.delivery_status_transition_allowed(_order.delivery_status, _delivery_status) THEN
+      UPDATE public.orders SET delivery_status = _delivery_status, updated_at = now() WHERE id = _order.id;
+    END IF;
+  END IF;
+
+  PERFORM set_config('app.order_event_note', COALESCE(_note, ''), true);
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS sync_order_from_fulfilments ON public.order_fulfilments;
+CREATE TRIGGER sync_order_from_fulfilments
+AFTER UPDATE OF status, delivery_status ON public.order_fulfilments
+FOR EACH ROW
+EXECUTE FUNCTION public.sync_order_from_fulfilments();
+
+-- And the other way: cancelling an order cancels packages that haven't left,
+-- and an order marked delivered by an admin closes its open packages.
+CREATE OR REPLACE FUNCTION public.sync_fulfilments_from_order()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status = 'cancelled' THEN
+    UPDATE public.order_fulfilments
+    SET status = 'cancelled', updated_at = now()
+    WHERE order_id = NEW.id AND status IN ('pending', 'packed');
+  ELSIF NEW.status = 'delivered' THEN
+    UPDATE public.order_fulfilments
+    SET status = 'delivered', delivered_at = now(), updated_at = now()
+    WHERE order_id = NEW.id AND status IN ('pending', 'packed', 'shipped');
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS sync_fulfilments_from_order ON public.orders;
+CREATE TRIGGER sync_fulfilments_from_order
+AFTER UPDATE OF status ON public.orders
+FOR EACH ROW
+WHEN (NEW.status IS DISTINCT FROM OLD.status)
+EXECUTE FUNCTION public.sync_fulfilments_from_order();
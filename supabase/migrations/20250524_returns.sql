@@ -0,0 +1,216 @@
+
+-- Customer return requests (RMA), one per order line. The seller reviews
+-- them; approval restocks the product and refunds through the payment layer.
+--
+--   status: requested -> approved -> refunded
+--                     -> rejected
+--   pickup_status: NULL (not arranged) -> assigned -> picked_up
+CREATE TABLE IF NOT EXISTS public.return_requests (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id UUID NOT NULL REFERENCES public.orders(id) ON DELETE CASCADE,
+  order_item_id UUID NOT NULL REFERENCES public.order_items(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL,
+  seller_id UUID,
+  quantity INTEGER NOT NULL CHECK (quantity > 0),
+  reason TEXT NOT NULL CHECK (reason IN (
+    'damaged', 'defective', 'wrong_item', 'not_as_described', 'no_longer_needed', 'other'
+  )),
+  details TEXT,
+  photo_paths TEXT[] NOT NULL DEFAULT '{}',
+  status TEXT NOT NULL DEFAULT 'requested'
+    CHECK (status IN ('requested', 'approved', 'rejected', 'refunded')),
+  seller_note TEXT,
+  refund_amount NUMERIC(10, 2),
+  payment_refund_id UUID REFERENCES public.payment_refunds(id),
+  refund_error TEXT,
+  restocked_at TIMESTAMPTZ,
+  pickup_status TEXT CHECK (pickup_status IN ('assigned', 'picked_up')),
+  pickup_person_id UUID,
+  pickup_assigned_at TIMESTAMPTZ,
+  picked_up_at TIMESTAMPTZ,
+  reviewed_by UUID,
+  reviewed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS return_requests_order_idx ON public.return_requests (order_id);
+CREATE INDEX IF NOT EXISTS return_requests_seller_idx ON public.return_requests (seller_id, created_at);
+CREATE INDEX IF NOT EXISTS return_requests_pickup_idx ON public.return_requests (pickup_person_id);
+
+ALTER TABLE public.return_requests ENABLE ROW LEVEL SECURITY;
+
+-- All writes go through the returns edge function
+CREATE POLICY "Users can view their own returns"
+ON public.return_requests
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Sellers can view returns of their products"
+ON public.return_requests
+FOR SELECT
+USING (auth.uid() = seller_id);
+
+CREATE POLICY "Couriers can view their pickups"
+ON public.return_requests
+FOR SELECT
+USING (auth.uid() = pickup_person_id);
+
+CREATE POLICY "Admins can view all returns"
+ON public.return_requests
+FOR SELECT
+USING (public.has_role(auth.uid(), 'admin'));
+
+-- Photos live under return-photos/<user id>/...
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('return-photos', 'return-photos', false)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Users can upload their own return photos"
+ON storage.objects
+FOR INSERT
+WITH CHECK (
+  bucket_id = 'return-photos'
+  AND auth.uid()::TEXT = (storage.foldername(name))[1]
+);
+
+CREATE POLICY "Users can view their own return photos"
+ON storage.objects
+FOR SELECT
+USING (
+  bucket_id = 'return-photos'
+  AND auth.uid()::TEXT = (storage.foldername(name))[1]
+);
+
+-- Open a return for part or all of a delivered line. Raises
+-- 'return_not_allowed' when the line isn't the user's or hasn't been
+-- delivered, and 'return_quantity_exceeded' when more would be returned
+-- than was bought.
+CREATE OR REPLACE FUNCTION public.create_return_request(
+  _user_id UUID,
+  _order_item_id UUID,
+  _quantity INTEGER,
+  _reason TEXT,
+  _details TEXT DEFAULT NULL,
+  _photo_paths TEXT[] DEFAULT '{}'
+)
+RETURNS public.return_requests
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _item public.order_items;
+  _already_returned INTEGER;
+  _request public.return_requests;
+BEGIN
+  SELECT oi.* INTO _item
+  FROM public.order_items oi
+  JOIN public.orders o ON o.id = oi.order_id
+  LEFT JOIN public.order_fulfilments f ON f.id = oi.fulfilment_id
+  WHERE oi.id = _order_item_id
+    AND o.user_id = _user_id
+    AND (o.status = 'delivered' OR f.status = 'delivered')
+  FOR UPDATE OF oi;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'return_not_allowed';
+  END IF;
+
+  SELECT COALESCE(SUM(quantity), 0) INTO _already_returned
+  FROM public.return_requests
+  WHERE order_item_id = _order_item_id AND status <> 'rejected';
+
+  IF _quantity < 1 OR _already_returned + _quantity > _item.quantity THEN
+    RAISE EXCEPTION 'return_quantity_exceeded'
+      USING DETAIL = json_build_object('available', _item.quantity - _already_returned)::TEXT;
+  END IF;
+
+  INSERT INTO public.return_requests (
+    order_id, order_item_id, user_id, seller_id, quantity, reason, details, photo_paths
+  )
+  VALUES (
+    _item.order_id, _item.id, _user_id, _item.seller_id, _quantity, _reason, _details, COALESCE(_photo_paths, '{}')
+  )
+  RETURNING * INTO _request;
+
+  RETURN _request;
+END;
+$$;
+
+-- What a customer paid for _quantity units of an order line: the line
+-- price less the line's share of any order-level promotion discount
+CREATE OR REPLACE FUNCTION public.return_refund_amount(_item public.order_items, _quantity INTEGER)
+RETURNS NUMERIC
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT round(
+    _item.price * _quantity * CASE
+      WHEN o.discount_total > 0 AND lines.subtotal > 0
+      THEN GREATEST(1 - o.discount_total / lines.subtotal, 0)
+      ELSE 1
+    END,
+    2
+  )
+  FROM public.orders o
+  CROSS JOIN LATERAL (
+    SELECT coalesce(o.subtotal, sum(oi.price * oi.quantity)) AS subtotal
+    FROM public.order_items oi
+    WHERE oi.order_id = o.id
+  ) lines
+  WHERE o.id = _item.order_id;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.return_refund_amount(public.order_items, INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.return_refund_amount(public.order_items, INTEGER) TO service_role;
+
+-- Approve a return: puts the items back in stock once and records the
+-- refund amount. The refund itself is issued by the edge function.
+CREATE OR REPLACE FUNCTION public.approve_return_request(
+  _return_id UUID,
+  _reviewer_id UUID,
+  _note TEXT DEFAULT NULL
+)
+RETURNS public.return_requests
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _request public.return_requests;
+  _item public.order_items;
+BEGIN
+  SELECT * INTO _request FROM public.return_requests WHERE id = _return_id FOR UPDATE;
+
+  IF NOT FOUND OR _request.status <> 'requested' THEN
+    RAISE EXCEPTION 'invalid_return_transition';
+  END IF;
+
+  SELECT * INTO _item FROM public.order_items WHERE id = _request.order_item_id;
+
+  UPDATE public.products
+  SET stock = stock + _request.quantity, updated_at = now()
+  WHERE id = _item.product_id;
+
+  UPDATE public.return_requests
+  SET status = 'approved',
+      seller_note = _note,
+      refund_amount = public.return_refund_amount(_item, _request.quantity),
+      restocked_at = now(),
+      reviewed_by = _reviewer_id,
+      reviewed_at = now(),
+      updated_at = now()
+  WHERE id = _return_id
+  RETURNING * INTO _request;
+
+  RETURN _request;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.create_return_request(UUID, UUID, INTEGER, TEXT, TEXT, TEXT[]) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.create_return_request(UUID, UUID, INTEGER, TEXT, TEXT, TEXT[]) TO service_role;
+REVOKE EXECUTE ON FUNCTION public.approve_return_request(UUID, UUID, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.approve_return_request(UUID, UUID, TEXT) TO service_role;
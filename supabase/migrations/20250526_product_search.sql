@@ -0,0 +1,77 @@
+
+-- Full-text product search. Products carry a weighted tsvector over name,
+-- category and description; names also get a trigram index so misspelled
+-- queries still find something.
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+ALTER TABLE public.products
+  ADD COLUMN IF NOT EXISTS search_vector TSVECTOR GENERATED ALWAYS AS (
+    setweight(to_tsvector('english', coalesce(name, '')), 'A') ||
+    setweight(to_tsvector('english', coalesce(category, '')), 'B') ||
+    setweight(to_tsvector('english', coalesce(description, '')), 'C')
+  ) STORED;
+
+CREATE INDEX IF NOT EXISTS products_search_vector_idx ON public.products USING GIN (search_vector);
+CREATE INDEX IF NOT EXISTS products_name_trgm_idx ON public.products USING GIN (name gin_trgm_ops);
+
+-- One page of products matching _query, best first. A product matches when
+-- the text search does or when its name is close enough to the query to be
+-- a typo of it. total_count is the number of matches across all pages.
+-- Runs as the caller so the products RLS policies still apply.
+CREATE OR REPLACE FUNCTION public.search_products(
+  _query TEXT,
+  _limit INTEGER DEFAULT 24,
+  _offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+  id UUID,
+  name TEXT,
+  description TEXT,
+  price NUMERIC,
+  discounted_price NUMERIC,
+  category TEXT,
+  image_url TEXT,
+  rating NUMERIC,
+  reviews_count INTEGER,
+  stock INTEGER,
+  seller_id UUID,
+  rank REAL,
+  total_count BIGINT
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+SET pg_trgm.word_similarity_threshold = 0.4
+AS $$
+  WITH query AS (
+    SELECT websearch_to_tsquery('english', trim(_query)) AS tsq, trim(_query) AS term
+  ),
+  matches AS (
+    SELECT
+      p.*,
+      ts_rank(p.search_vector, query.tsq) + word_similarity(query.term, p.name) AS score
+    FROM public.products p, query
+    WHERE query.term <> ''
+      AND (p.search_vector @@ query.tsq OR query.term <% p.name)
+  )
+  SELECT
+    m.id,
+    m.name::TEXT,
+    m.description::TEXT,
+    m.price::NUMERIC,
+    m.discounted_price::NUMERIC,
+    m.category::TEXT,
+    m.image_url::TEXT,
+    m.rating::NUMERIC,
+    m.reviews_count::INTEGER,
+    m.stock::INTEGER,
+    m.seller_id,
+    m.score::REAL AS rank,
+    count(*) OVER () AS total_count
+  FROM matches m
+  ORDER BY m.score DESC, m.name
+  LIMIT LEAST(GREATEST(_limit, 1), 100)
+  OFFSET GREATEST(_offset, 0);
+$$;
+
+GRANT EXECUTE ON FUNCTION public.search_products(TEXT, INTEGER, INTEGER) TO anon, authenticated;
@@ -0,0 +1,227 @@
+
+-- Faceted product listings. Category pages and search share one listing
+-- function with filters and sorting, plus a companion that counts how many
+-- products each facet value would leave.
+DROP FUNCTION IF EXISTS public.search_products(TEXT, INTEGER, INTEGER);
+
+-- Products matching the text query and category, flagged with whether they
+-- pass each facet filter. Facet counts apply every filter except their own,
+-- so they need the flags rather than a filtered set. _max_price is exclusive
+-- so adjacent price ranges don't overlap.
+CREATE OR REPLACE FUNCTION public.filter_products(
+  _query TEXT DEFAULT NULL,
+  _category TEXT DEFAULT NULL,
+  _min_price NUMERIC DEFAULT NULL,
+  _max_price NUMERIC DEFAULT NULL,
+  _min_rating NUMERIC DEFAULT NULL,
+  _in_stock BOOLEAN DEFAULT false,
+  _on_sale BOOLEAN DEFAULT false,
+  _seller_ids UUID[] DEFAULT NULL
+)
+RETURNS TABLE (
+  product_id UUID,
+  score REAL,
+  effective_price NUMERIC,
+  price_ok BOOLEAN,
+  rating_ok BOOLEAN,
+  stock_ok BOOLEAN,
+  sale_ok BOOLEAN,
+  seller_ok BOOLEAN
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+SET pg_trgm.word_similarity_threshold = 0.4
+AS $$
+  WITH query AS (
+    SELECT
+      websearch_to_tsquery('english', coalesce(trim(_query), '')) AS tsq,
+      coalesce(trim(_query), '') AS term
+  )
+  SELECT
+    p.id,
+    CASE
+      WHEN query.term = '' THEN 0
+      ELSE ts_rank(p.search_vector, query.tsq) + word_similarity(query.term, p.name)
+    END::REAL,
+    coalesce(p.discounted_price, p.price)::NUMERIC,
+    (_min_price IS NULL OR coalesce(p.discounted_price, p.price) >= _min_price)
+      AND (_max_price IS NULL OR coalesce(p.discounted_price, p.price) < _max_price),
+    _min_rating IS NULL OR coalesce(p.rating, 0) >= _min_rating,
+    NOT coalesce(_in_stock, false) OR p.stock > 0,
+    NOT coalesce(_on_sale, false) OR (p.discounted_price IS NOT NULL AND p.discounted_price < p.price),
+    coalesce(cardinality(_seller_ids), 0) = 0 OR p.seller_id = ANY(_seller_ids)
+  FROM public.products p, query
+  WHERE (_category IS NULL OR p.category = _category)
+    AND (query.term = '' OR p.search_vector @@ query.tsq OR query.term <% p.name);
+$$;
+
+-- One page of listed products. _sort is one of relevance, price_asc,
+-- price_desc, rating, newest or best_selling; relevance breaks ties for the
+-- rest. Best-selling counts units on orders that were paid for, which is why
+-- this runs as definer: customers can't read other people's order items.
+CREATE OR REPLACE FUNCTION public.search_products(
+  _query TEXT DEFAULT NULL,
+  _category TEXT DEFAULT NULL,
+  _min_price NUMERIC DEFAULT NULL,
+  _max_price NUMERIC DEFAULT NULL,
+  _min_rating NUMERIC DEFAULT NULL,
+  _in_stock BOOLEAN DEFAULT false,
+  _on_sale BOOLEAN DEFAULT false,
+  _seller_ids UUID[] DEFAULT NULL,
+  _sort TEXT DEFAULT 'relevance',
+  _limit INTEGER DEFAULT 24,
+  _offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+  id UUID,
+  name TEXT,
+  description TEXT,
+  price NUMERIC,
+  discounted_price NUMERIC,
+  category TEXT,
+  image_url TEXT,
+  rating NUMERIC,
+  reviews_count INTEGER,
+  stock INTEGER,
+  seller_id UUID,
+  created_at TIMESTAMPTZ,
+  units_sold BIGINT,
+  rank REAL,
+  total_count BIGINT
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH listed AS (
+    SELECT f.product_id, f.score, f.effective_price
+    FROM public.filter_products(
+      _query, _category, _min_price, _max_price, _min_rating, _in_stock, _on_sale, _seller_ids
+    ) f
+    WHERE f.price_ok AND f.rating_ok AND f.stock_ok AND f.sale_ok AND f.seller_ok
+  ),
+  sales AS (
+    SELECT oi.product_id, sum(oi.quantity) AS units_sold
+    FROM public.order_items oi
+    JOIN public.orders o ON o.id = oi.order_id
+    WHERE oi.product_id IN (SELECT product_id FROM listed)
+      AND o.status IN ('paid', 'processing', 'shipped', 'delivered')
+    GROUP BY oi.product_id
+  )
+  SELECT
+    p.id,
+    p.name::TEXT,
+    p.description::TEXT,
+    p.price::NUMERIC,
+    p.discounted_price::NUMERIC,
+    p.category::TEXT,
+    p.image_url::TEXT,
+    p.rating::NUMERIC,
+    p.reviews_count::INTEGER,
+    p.stock::INTEGER,
+    p.seller_id,
+    p.created_at,
+    coalesce(s.units_sold, 0)::BIGINT,
+    l.score,
+    count(*) OVER ()
+  FROM listed l
+  JOIN public.products p ON p.id = l.product_id
+  LEFT JOIN sales s ON s.product_id = l.product_id
+  ORDER BY
+    CASE WHEN _sort = 'price_asc' THEN l.effective_price END ASC,
+    CASE WHEN _sort = 'price_desc' THEN l.effective_price END DESC,
+    CASE WHEN _sort = 'rating' THEN coalesce(p.rating, 0) END DESC,
+    CASE WHEN _sort = 'rating' THEN coalesce(p.reviews_count, 0) END DESC,
+    CASE WHEN _sort = 'newest' THEN p.created_at END DESC,
+    CASE WHEN _sort = 'best_selling' THEN coalesce(s.units_sold, 0) END DESC,
+    l.score DESC,
+    p.created_at DESC,
+    p.id
+  LIMIT LEAST(GREATEST(_limit, 1), 100)
+  OFFSET GREATEST(_offset, 0);
+$$;
+
+-- Counts for each facet value under the current filters, e.g.
+--   { "price_ranges": [{ "min": 0, "max": 25, "count": 3 }, ...],
+--     "ratings": [{ "min_rating": 4, "count": 5 }, ...],
+--     "in_stock": 9, "on_sale": 2,
+--     "sellers": [{ "id": "...", "name": "...", "count": 4 }, ...] }
+CREATE OR REPLACE FUNCTION public.search_product_facets(
+  _query TEXT DEFAULT NULL,
+  _category TEXT DEFAULT NULL,
+  _min_price NUMERIC DEFAULT NULL,
+  _max_price NUMERIC DEFAULT NULL,
+  _min_rating NUMERIC DEFAULT NULL,
+  _in_stock BOOLEAN DEFAULT false,
+  _on_sale BOOLEAN DEFAULT false,
+  _seller_ids UUID[] DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH flagged AS (
+    SELECT f.*, p.rating, p.seller_id, p.stock, p.price, p.discounted_price
+    FROM public.filter_products(
+      _query, _category, _min_price, _max_price, _min_rating, _in_stock, _on_sale, _seller_ids
+    ) f
+    JOIN public.products p ON p.id = f.product_id
+  )
+  SELECT jsonb_build_object(
+    'price_ranges', (
+      SELECT jsonb_agg(jsonb_build_object(
+        'min', b.lo,
+        'max', b.hi,
+        'count', (
+          SELECT count(*) FROM flagged f
+          WHERE f.rating_ok AND f.stock_ok AND f.sale_ok AND f.seller_ok
+            AND f.effective_price >= b.lo
+            AND (b.hi IS NULL OR f.effective_price < b.hi)
+        )
+      ) ORDER BY b.lo)
+      FROM (VALUES (0, 25), (25, 50), (50, 100), (100, 200), (200, NULL)) AS b(lo, hi)
+    ),
+    'ratings', (
+      SELECT jsonb_agg(jsonb_build_object(
+        'min_rating', r.min_rating,
+        'count', (
+          SELECT count(*) FROM flagged f
+          WHERE f.price_ok AND f.stock_ok AND f.sale_ok AND f.seller_ok
+            AND coalesce(f.rating, 0) >= r.min_rating
+        )
+      ) ORDER BY r.min_rating DESC)
+      FROM (VALUES (4), (3), (2), (1)) AS r(min_rating)
+    ),
+    'in_stock', (
+      SELECT count(*) FROM flagged f
+      WHERE f.price_ok AND f.rating_ok AND f.sale_ok AND f.seller_ok AND f.stock > 0
+    ),
+    'on_sale', (
+      SELECT count(*) FROM flagged f
+      WHERE f.price_ok AND f.rating_ok AND f.stock_ok AND f.seller_ok
+        AND f.discounted_price IS NOT NULL AND f.discounted_price < f.price
+    ),
+    'sellers', coalesce((
+      SELECT jsonb_agg(jsonb_build_object('id', s.seller_id, 'name', s.name, 'count', s.count) ORDER BY s.count DESC, s.name)
+      FROM (
+        SELECT
+          f.seller_id,
+          coalesce(nullif(trim(concat_ws(' ', pr.first_name, pr.last_name)), ''), 'Seller') AS name,
+          count(*) AS count
+        FROM flagged f
+        LEFT JOIN public.profiles pr ON pr.id = f.seller_id
+        WHERE f.seller_id IS NOT NULL
+          AND f.price_ok AND f.rating_ok AND f.stock_ok AND f.sale_ok
+        GROUP BY f.seller_id, pr.first_name, pr.last_name
+      ) s
+    ), '[]'::JSONB)
+  );
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.filter_products(TEXT, TEXT, NUMERIC, NUMERIC, NUMERIC, BOOLEAN, BOOLEAN, UUID[]) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.search_products(TEXT, TEXT, NUMERIC, NUMERIC, NUMERIC, BOOLEAN, BOOLEAN, UUID[], TEXT, INTEGER, INTEGER) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.search_product_facets(TEXT, TEXT, NUMERIC, NUMERIC, NUMERIC, BOOLEAN, BOOLEAN, UUID[]) TO anon, authenticated;
@@ -0,0 +1,89 @@
+
+-- Log of storefront searches, so admins can see what customers look for
+-- and which searches come back empty. Written only through log_search().
+CREATE TABLE IF NOT EXISTS public.search_queries (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  query TEXT NOT NULL,
+  normalized_query TEXT NOT NULL,
+  result_count INTEGER NOT NULL CHECK (result_count >= 0),
+  user_id UUID,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS search_queries_created_idx ON public.search_queries (created_at);
+CREATE INDEX IF NOT EXISTS search_queries_normalized_idx ON public.search_queries (normalized_query, created_at);
+
+ALTER TABLE public.search_queries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view search queries"
+ON public.search_queries
+FOR SELECT
+USING (public.has_role(auth.uid(), 'admin'));
+
+-- Record a search made from the storefront. Anyone can search, so anyone
+-- can log; queries are trimmed and capped so the log can't be stuffed.
+CREATE OR REPLACE FUNCTION public.log_search(_query TEXT, _result_count INTEGER)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _trimmed TEXT := left(trim(coalesce(_query, '')), 200);
+BEGIN
+  IF _trimmed = '' THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO public.search_queries (query, normalized_query, result_count, user_id)
+  VALUES (
+    _trimmed,
+    lower(regexp_replace(_trimmed, '\s+', ' ', 'g')),
+    GREATEST(coalesce(_result_count, 0), 0),
+    auth.uid()
+  );
+END;
+$$;
+
+-- Searches since _since grouped by normalized query, most searched first.
+-- With _zero_results_only, just the queries that came back empty at least
+-- once, most often empty first.
+CREATE OR REPLACE FUNCTION public.search_query_stats(
+  _since TIMESTAMPTZ,
+  _limit INTEGER DEFAULT 20,
+  _zero_results_only BOOLEAN DEFAULT false
+)
+RETURNS TABLE (
+  query TEXT,
+  searches BIGINT,
+  searchers BIGINT,
+  zero_result_searches BIGINT,
+  last_result_count INTEGER,
+  last_searched_at TIMESTAMPTZ
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    normalized_query,
+    count(*),
+    count(DISTINCT user_id),
+    count(*) FILTER (WHERE result_count = 0),
+    (array_agg(result_count ORDER BY created_at DESC))[1],
+    max(created_at)
+  FROM public.search_queries
+  WHERE created_at >= _since
+  GROUP BY normalized_query
+  HAVING NOT _zero_results_only OR count(*) FILTER (WHERE result_count = 0) > 0
+  ORDER BY
+    CASE WHEN _zero_results_only THEN count(*) FILTER (WHERE result_count = 0) END DESC,
+    count(*) DESC,
+    max(created_at) DESC
+  LIMIT _limit;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.log_search(TEXT, INTEGER) TO anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.search_query_stats(TIMESTAMPTZ, INTEGER, BOOLEAN) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.search_query_stats(TIMESTAMPTZ, INTEGER, BOOLEAN) TO service_role;
@@ -0,0 +1,214 @@
+
+-- Hierarchical categories. Categories get a parent, a URL slug and a sort
+-- order, and products point at their category by id. products.category is
+-- kept as a copy of the category name so existing readers keep working.
+ALTER TABLE public.categories
+  ADD COLUMN IF NOT EXISTS parent_id UUID REFERENCES public.categories(id) ON DELETE RESTRICT,
+  ADD COLUMN IF NOT EXISTS slug TEXT,
+  ADD COLUMN IF NOT EXISTS sort_order INTEGER NOT NULL DEFAULT 0;
+
+CREATE OR REPLACE FUNCTION public.slugify(_value TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT trim(BOTH '-' FROM lower(regexp_replace(coalesce(_value, ''), '[^a-zA-Z0-9]+', '-', 'g')));
+$$;
+
+-- Every category a product already uses gets a row
+INSERT INTO public.categories (name)
+SELECT DISTINCT ON (lower(trim(p.category))) trim(p.category)
+FROM public.products p
+WHERE trim(coalesce(p.category, '')) <> ''
+  AND NOT EXISTS (
+    SELECT 1 FROM public.categories c WHERE lower(c.name) = lower(trim(p.category))
+  );
+
+-- Slugs from names; a clash keeps the oldest category's slug and suffixes
+-- the rest with part of their id
+UPDATE public.categories c
+SET slug = CASE
+  WHEN ranked.position = 1 THEN ranked.base
+  ELSE ranked.base || '-' || left(c.id::TEXT, 8)
+END
+FROM (
+  SELECT
+    id,
+    coalesce(nullif(public.slugify(name), ''), 'category') AS base,
+    row_number() OVER (PARTITION BY public.slugify(name) ORDER BY created_at, id) AS position
+  FROM public.categories
+) ranked
+WHERE ranked.id = c.id AND c.slug IS NULL;
+
+ALTER TABLE public.categories
+  ALTER COLUMN slug SET NOT NULL,
+  ADD CONSTRAINT categories_slug_key UNIQUE (slug),
+  ADD CONSTRAINT categories_slug_format CHECK (slug ~ '^[a-z0-9]+(-[a-z0-9]+)*$'),
+  ADD CONSTRAINT categories_not_own_parent CHECK (parent_id IS DISTINCT FROM id);
+
+CREATE INDEX IF NOT EXISTS categories_parent_idx ON public.categories (parent_id, sort_order);
+
+-- Admins manage the tree from the category manager
+ALTER TABLE public.categories ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Anyone can view categories" ON public.categories;
+CREATE POLICY "Anyone can view categories"
+ON public.categories
+FOR SELECT
+USING (true);
+
+DROP POLICY IF EXISTS "Admins can manage categories" ON public.categories;
+CREATE POLICY "Admins can manage categories"
+ON public.categories
+FOR ALL
+USING (public.has_role(auth.uid(), 'admin'))
+WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+-- A category can't be moved under one of its own descendants
+CREATE OR REPLACE FUNCTION public.check_category_parent()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.parent_id IS NOT NULL AND EXISTS (
+    WITH RECURSIVE ancestors AS (
+      SELECT id, parent_id FROM public.categories WHERE id = NEW.parent_id
+      UNION
+      SELECT c.id, c.parent_id
+      FROM public.categories c
+      JOIN ancestors a ON c.id = a.parent_id
+    )
+    SELECT 1 FROM ancestors WHERE id = NEW.id
+  ) THEN
+    RAISE EXCEPTION 'category_cycle';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS check_category_parent ON public.categories;
+CREATE TRIGGER check_category_parent
+BEFORE INSERT OR UPDATE OF parent_id ON public.categories
+FOR EACH ROW EXECUTE FUNCTION public.check_category_parent();
+
+-- Products reference their category
+ALTER TABLE public.products
+  ADD COLUMN IF NOT EXISTS category_id UUID REFERENCES public.categories(id) ON DELETE RESTRICT;
+
+UPDATE public.products p
+SET category_id = c.id
+FROM public.categories c
+WHERE p.category_id IS NULL AND lower(c.name) = lower(trim(p.category));
+
+CREATE INDEX IF NOT EXISTS products_category_id_idx ON public.products (category_id);
+
+-- Writers may set either column: category_id wins, and a bare name is
+-- resolved to its category. Either way products.category ends up holding
+-- the category's current name.
+CREATE OR REPLACE FUNCTION public.sync_product_category()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.category_id IS NULL OR (
+    TG_OP = 'UPDATE' AND NEW.category_id = OLD.category_id AND NEW.category IS DISTINCT FROM OLD.category
+  ) THEN
+    SELECT id INTO NEW.category_id
+    FROM public.categories
+    WHERE lower(name) = lower(trim(NEW.category));
+  END IF;
+
+  IF NEW.category_id IS NOT NULL THEN
+    SELECT name INTO NEW.category FROM public.categories WHERE id = NEW.category_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS sync_product_category ON public.products;
+CREATE TRIGGER sync_product_category
+BEFORE INSERT OR UPDATE OF category, category_id ON public.products
+FOR EACH ROW EXECUTE FUNCTION public.sync_product_category();
+
+-- Renames carry over to product copies and to promotions scoped by name.
+-- Runs as definer because the admin renaming may not own those rows.
+CREATE OR REPLACE FUNCTION public.rename_product_categories()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.products SET category = NEW.name WHERE category_id = NEW.id;
+  UPDATE public.promotions SET category = NEW.name WHERE category = OLD.name;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS rename_product_categories ON public.categories;
+CREATE TRIGGER rename_product_categories
+AFTER UPDATE OF name ON public.categories
+FOR EACH ROW
+WHEN (OLD.name IS DISTINCT FROM NEW.name)
+EXECUTE FUNCTION public.rename_product_categories();
+
+-- Listings by category now take the category's slug and include products
+-- in its subcategories. Otherwise unchanged from 20250528_product_facets.sql.
+CREATE OR REPLACE FUNCTION public.filter_products(
+  _query TEXT DEFAULT NULL,
+  _category TEXT DEFAULT NULL,
+  _min_price NUMERIC DEFAULT NULL,
+  _max_price NUMERIC DEFAULT NULL,
+  _min_rating NUMERIC DEFAULT NULL,
+  _in_stock BOOLEAN DEFAULT false,
+  _on_sale BOOLEAN DEFAULT false,
+  _seller_ids UUID[] DEFAULT NULL
+)
+RETURNS TABLE (
+  product_id UUID,
+  score REAL,
+  effective_price NUMERIC,
+  price_ok BOOLEAN,
+  rating_ok BOOLEAN,
+  stock_ok BOOLEAN,
+  sale_ok BOOLEAN,
+  seller_ok BOOLEAN
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+SET pg_trgm.word_similarity_threshold = 0.4
+AS $$
+  WITH RECURSIVE query AS (
+    SELECT
+      websearch_to_tsquery('english', coalesce(trim(_query), '')) AS tsq,
+      coalesce(trim(_query), '') AS term
+  ),
+  subtree AS (
+    SELECT id FROM public.categories WHERE slug = _category
+    UNION
+    SELECT c.id FROM public.categories c JOIN subtree s ON c.parent_id = s.id
+  )
+  SELECT
+    p.id,
+    CASE
+      WHEN query.term = '' THEN 0
+      ELSE ts_rank(p.search_vector, query.tsq) + word_similarity(query.term, p.name)
+    END::REAL,
+    coalesce(p.discounted_price, p.price)::NUMERIC,
+    (_min_price IS NULL OR coalesce(p.discounted_price, p.price) >= _min_price)
+      AND (_max_price IS NULL OR coalesce(p.discounted_price, p.price) < _max_price),
+    _min_rating IS NULL OR coalesce(p.rating, 0) >= _min_rating,
+    NOT coalesce(_in_stock, false) OR p.stock > 0,
+    NOT coalesce(_on_sale, false) OR (p.discounted_price IS NOT NULL AND p.discounted_price < p.price),
+    coalesce(cardinality(_seller_ids), 0) = 0 OR p.seller_id = ANY(_seller_ids)
+  FROM public.products p, query
+  WHERE (_category IS NULL OR p.category_id IN (SELECT id FROM subtree))
+    AND (query.term = '' OR p.search_vector @@ query.tsq OR query.term <% p.name);
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.filter_products(TEXT, TEXT, NUMERIC, NUMERIC, NUMERIC, BOOLEAN, BOOLEAN, UUID[]) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,506 @@
+
+-- Product options (e.g. Size: S, M, L) and the variants built from them.
+-- Each variant has its own SKU, price, stock and image. A product with
+-- variants keeps products.price/discounted_price/stock as a roll-up (lowest
+-- price, total stock) so listings, search and facets keep working.
+CREATE TABLE IF NOT EXISTS public.product_options (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  product_id UUID NOT NULL REFERENCES public.products(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  values TEXT[] NOT NULL DEFAULT '{}',
+  position INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (product_id, name)
+);
+
+-- options maps option name to value, e.g. {"Size": "M", "Colour": "Red"};
+-- name is the values in option order, e.g. "M / Red"
+CREATE TABLE IF NOT EXISTS public.product_variants (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  product_id UUID NOT NULL REFERENCES public.products(id) ON DELETE CASCADE,
+  sku TEXT UNIQUE,
+  options JSONB NOT NULL DEFAULT '{}'::JSONB,
+  name TEXT NOT NULL DEFAULT '',
+  price NUMERIC(10, 2) NOT NULL CHECK (price >= 0),
+  discounted_price NUMERIC(10, 2) CHECK (discounted_price >= 0),
+  stock INTEGER NOT NULL DEFAULT 0 CHECK (stock >= 0),
+  image_url TEXT,
+  position INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (product_id, options)
+);
+
+CREATE INDEX IF NOT EXISTS product_variants_product_idx ON public.product_variants (product_id, position);
+
+ALTER TABLE public.product_options ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.product_variants ENABLE ROW LEVEL SECURITY;
+
+-- All writes go through save_product_variants below
+CREATE POLICY "Anyone can view product options"
+ON public.product_options
+FOR SELECT
+USING (true);
+
+CREATE POLICY "Anyone can view product variants"
+ON public.product_variants
+FOR SELECT
+USING (true);
+
+-- Keep the product's price and stock in line with its variants
+CREATE OR REPLACE FUNCTION public.rollup_product_variants()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _stock INTEGER;
+  _price NUMERIC;
+  _lowest NUMERIC;
+BEGIN
+  SELECT SUM(stock), MIN(price), MIN(COALESCE(discounted_price, price))
+  INTO _stock, _price, _lowest
+  FROM public.product_variants
+  WHERE product_id = NEW.id;
+
+  IF _price IS NOT NULL THEN
+    NEW.stock := _stock;
+    NEW.price := _price;
+    NEW.discounted_price := CASE WHEN _lowest < _price THEN _lowest END;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS rollup_product_variants ON public.products;
+CREATE TRIGGER rollup_product_variants
+BEFORE INSERT OR UPDATE ON public.products
+FOR EACH ROW EXECUTE FUNCTION public.rollup_product_variants();
+
+-- Touching the product re-runs the roll-up above
+CREATE OR REPLACE FUNCTION public.touch_variant_product()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.products
+  SET updated_at = now()
+  WHERE id = COALESCE(NEW.product_id, OLD.product_id);
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS touch_variant_product ON public.product_variants;
+CREATE TRIGGER touch_variant_product
+AFTER INSERT OR UPDATE OR DELETE ON public.product_variants
+FOR EACH ROW EXECUTE FUNCTION public.touch_variant_product();
+
+-- Replace a product's options and variants in one go. Called by the seller
+-- who owns the product (or an admin).
+-- _options is a JSON array of { "name": text, "values": [text] } in display order.
+-- _variants is a JSON array of { "id"?: uuid, "sku"?: text, "options": {name: value},
+-- "price": numeric, "discounted_price"?: numeric, "stock": int, "image_url"?: text }.
+-- Variants whose id isn't listed are deleted; an empty _variants removes them all.
+-- Raises 'not_authorized' and 'invalid_variant_options'.
+CREATE OR REPLACE FUNCTION public.save_product_variants(
+  _product_id UUID,
+  _options JSONB DEFAULT '[]'::JSONB,
+  _variants JSONB DEFAULT '[]'::JSONB
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.products
+    WHERE id = _product_id
+      AND (seller_id = auth.uid() OR public.has_role(auth.uid(), 'admin'))
+  ) THEN
+    RAISE EXCEPTION 'not_authorized';
+  END IF;
+
+  _options := COALESCE(_options, '[]'::JSONB);
+  _variants := COALESCE(_variants, '[]'::JSONB);
+
+  -- Every variant needs exactly one listed value for every option
+  IF EXISTS (
+    SELECT 1
+    FROM jsonb_array_elements(_variants) v
+    WHERE (SELECT COUNT(*) FROM jsonb_object_keys(COALESCE(v->'options', '{}'::JSONB))) <> jsonb_array_length(_options)
+       OR EXISTS (
+         SELECT 1
+         FROM jsonb_array_elements(_options) o
+         WHERE NOT COALESCE((o->'values') ? (v->'options'->>(o->>'name')), false)
+       )
+  ) THEN
+    RAISE EXCEPTION 'invalid_variant_options';
+  END IF;
+
+  DELETE FROM public.product_options WHERE product_id = _product_id;
+
+  INSERT INTO public.product_options (product_id, name, values, position)
+  SELECT
+    _product_id,
+    o.value->>'name',
+    ARRAY(SELECT jsonb_array_elements_text(o.value->'values')),
+    o.position - 1
+  FROM jsonb_array_elements(_options) WITH ORDINALITY AS o(value, position);
+
+  DELETE FROM public.product_variants
+  WHERE product_id = _product_id
+    AND id NOT IN (
+      SELECT (v->>'id')::UUID
+      FROM jsonb_array_elements(_variants) v
+      WHERE v->>'id' IS NOT NULL
+    );
+
+  -- Existing variants keep their id so carts and past orders still point at them
+  UPDATE public.product_variants pv
+  SET sku = NULLIF(trim(v.value->>'sku'), ''),
+      options = v.value->'options',
+      price = (v.value->>'price')::NUMERIC,
+      discounted_price = NULLIF(v.value->>'discounted_price', '')::NUMERIC,
+      stock = (v.value->>'stock')::INTEGER,
+      image_url = NULLIF(trim(v.value->>'image_url'), ''),
+      position = v.position - 1,
+      updated_at = now()
+  FROM jsonb_array_elements(_variants) WITH ORDINALITY AS v(value, position)
+  WHERE pv.id = (v.value->>'id')::UUID
+    AND pv.product_id = _product_id;
+
+  INSERT INTO public.product_variants (
+    product_id, sku, options, price, discounted_price, stock, image_url, position
+  )
+  SELECT
+    _product_id,
+    NULLIF(trim(v.value->>'sku'), ''),
+    v.value->'options',
+    (v.value->>'price')::NUMERIC,
+    NULLIF(v.value->>'discounted_price', '')::NUMERIC,
+    (v.value->>'stock')::INTEGER,
+    NULLIF(trim(v.value->>'image_url'), ''),
+    v.position - 1
+  FROM jsonb_array_elements(_variants) WITH ORDINALITY AS v(value, position)
+  WHERE v.value->>'id' IS NULL;
+
+  UPDATE public.product_variants pv
+  SET name = (
+    SELECT string_agg(pv.options->>o.name, ' / ' ORDER BY o.position)
+    FROM public.product_options o
+    WHERE o.product_id = _product_id
+  )
+  WHERE pv.product_id = _product_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.save_product_variants(UUID, JSONB, JSONB) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.save_product_variants(UUID, JSONB, JSONB) TO authenticated;
+
+-- Cart lines, holds and order lines can point at a variant
+ALTER TABLE public.cart_items
+  ADD COLUMN IF NOT EXISTS variant_id UUID REFERENCES public.product_variants(id) ON DELETE CASCADE,
+  DROP CONSTRAINT IF EXISTS cart_items_cart_id_product_id_key,
+  ADD CONSTRAINT cart_items_line_key UNIQUE NULLS NOT DISTINCT (cart_id, product_id, variant_id);
+
+ALTER TABLE public.stock_reservations
+  ADD COLUMN IF NOT EXISTS variant_id UUID REFERENCES public.product_variants(id) ON DELETE CASCADE;
+
+-- variant_name and sku are copied at checkout so the order still reads
+-- correctly if the variant is later changed or deleted
+ALTER TABLE public.order_items
+  ADD COLUMN IF NOT EXISTS variant_id UUID REFERENCES public.product_variants(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS variant_name TEXT,
+  ADD COLUMN IF NOT EXISTS sku TEXT;
+
+-- Units of a variant that can still be reserved, ignoring the given user's own holds
+CREATE OR REPLACE FUNCTION public.available_variant_stock(_variant_id UUID, _exclude_user_id UUID DEFAULT NULL)
+RETURNS INTEGER
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT v.stock - COALESCE((
+    SELECT SUM(r.quantity)
+    FROM public.stock_reservations r
+    WHERE r.variant_id = v.id
+      AND r.order_id IS NULL
+      AND r.expires_at > now()
+      AND (_exclude_user_id IS NULL OR r.user_id <> _exclude_user_id)
+  ), 0)::INTEGER
+  FROM public.product_variants v
+  WHERE v.id = _variant_id;
+$$;
+
+-- As in 20250512_persistent_carts.sql, with lines keyed on product and
+-- variant. _items entries may carry a "variant_id"; lines for a product
+-- with variants but no variant chosen are skipped.
+CREATE OR REPLACE FUNCTION public.merge_cart(_items JSONB DEFAULT '[]'::JSONB)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _user_id UUID := auth.uid();
+  _cart_id UUID;
+BEGIN
+  IF _user_id IS NULL THEN
+    RAISE EXCEPTION 'not_authenticated';
+  END IF;
+
+  INSERT INTO public.carts (user_id)
+  VALUES (_user_id)
+  ON CONFLICT (user_id) DO UPDATE SET updated_at = now()
+  RETURNING id INTO _cart_id;
+
+  INSERT INTO public.cart_items (cart_id, product_id, variant_id, quantity)
+  SELECT _cart_id, p.id, v.id, LEAST(g.quantity, COALESCE(v.stock, p.stock))
+  FROM (
+    SELECT
+      (value->>'product_id')::UUID AS product_id,
+      (value->>'variant_id')::UUID AS variant_id,
+      SUM((value->>'quantity')::INTEGER) AS quantity
+    FROM jsonb_array_elements(COALESCE(_items, '[]'::JSONB))
+    GROUP BY 1, 2
+  ) g
+  JOIN public.products p ON p.id = g.product_id
+  LEFT JOIN public.product_variants v ON v.id = g.variant_id AND v.product_id = p.id
+  WHERE g.quantity > 0
+    AND COALESCE(v.stock, p.stock) > 0
+    AND (
+      v.id IS NOT NULL
+      OR (g.variant_id IS NULL AND NOT EXISTS (SELECT 1 FROM public.product_variants pv WHERE pv.product_id = p.id))
+    )
+  ON CONFLICT (cart_id, product_id, variant_id) DO UPDATE
+  SET quantity = LEAST(
+        public.cart_items.quantity + EXCLUDED.quantity,
+        COALESCE(
+          (SELECT stock FROM public.product_variants WHERE id = EXCLUDED.variant_id),
+          (SELECT stock FROM public.products WHERE id = EXCLUDED.product_id)
+        )
+      ),
+      updated_at = now();
+
+  -- Stock may have dropped since lines were stored on another device
+  UPDATE public.cart_items ci
+  SET quantity = COALESCE(v.stock, p.stock), updated_at = now()
+  FROM public.products p
+  LEFT JOIN public.product_variants v ON v.product_id = p.id
+  WHERE ci.cart_id = _cart_id
+    AND ci.product_id = p.id
+    AND ci.variant_id IS NOT DISTINCT FROM v.id
+    AND COALESCE(v.stock, p.stock) > 0
+    AND ci.quantity > COALESCE(v.stock, p.stock);
+
+  RETURN _cart_id;
+END;
+$$;
+
+-- As in 20250510_stock_reservations.sql, holding variant stock for lines
+-- that carry a "variant_id". The DETAIL of 'insufficient_stock' now also
+-- includes the variant id.
+CREATE OR REPLACE FUNCTION public.reserve_stock(_user_id UUID, _items JSONB, _hold_minutes INTEGER DEFAULT 15)
+RETURNS TIMESTAMPTZ
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _item RECORD;
+  _available INTEGER;
+  _expires_at TIMESTAMPTZ := now() + make_interval(mins => _hold_minutes);
+BEGIN
+  DELETE FROM public.stock_reservations
+  WHERE user_id = _user_id AND order_id IS NULL;
+
+  -- Lock rows in a stable order so concurrent checkouts can't deadlock
+  FOR _item IN
+    SELECT
+      (value->>'product_id')::UUID AS product_id,
+      (value->>'variant_id')::UUID AS variant_id,
+      SUM((value->>'quantity')::INTEGER) AS quantity
+    FROM jsonb_array_elements(_items)
+    GROUP BY 1, 2
+    ORDER BY 1, 2
+  LOOP
+    IF _item.variant_id IS NOT NULL THEN
+      PERFORM 1 FROM public.product_variants
+      WHERE id = _item.variant_id AND product_id = _item.product_id
+      FOR UPDATE;
+    ELSE
+      -- A product with variants can only be bought as one of them
+      PERFORM 1 FROM public.products p
+      WHERE p.id = _item.product_id
+        AND NOT EXISTS (SELECT 1 FROM public.product_variants v WHERE v.product_id = p.id)
+      FOR UPDATE;
+    END IF;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'insufficient_stock' USING DETAIL = json_build_object(
+        'product_id', _item.product_id, 'variant_id', _item.variant_id, 'available', 0
+      )::TEXT;
+    END IF;
+
+    _available := CASE
+      WHEN _item.variant_id IS NOT NULL THEN public.available_variant_stock(_item.variant_id, _user_id)
+      ELSE public.available_stock(_item.product_id, _user_id)
+    END;
+
+    IF _available < _item.quantity THEN
+      RAISE EXCEPTION 'insufficient_stock' USING DETAIL = json_build_object(
+        'product_id', _item.product_id, 'variant_id', _item.variant_id, 'available', GREATEST(_available, 0)
+      )::TEXT;
+    END IF;
+
+    INSERT INTO public.stock_reservations (user_id, product_id, variant_id, quantity, expires_at)
+    VALUES (_user_id, _item.product_id, _item.variant_id, _item.quantity, _expires_at);
+  END LOOP;
+
+  RETURN _expires_at;
+END;
+$$;
+
+-- As in 20250510_stock_reservations.sql; variant holds come off the
+-- variant's stock and the product total follows through the roll-up
+CREATE OR REPLACE FUNCTION public.commit_stock_reservations(_user_id UUID, _order_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _hold RECORD;
+BEGIN
+  FOR _hold IN
+    SELECT id, product_id, variant_id, quantity
+    FROM public.stock_reservations
+    WHERE user_id = _user_id AND order_id IS NULL AND expires_at > now()
+    ORDER BY product_id, variant_id
+    FOR UPDATE
+  LOOP
+    IF _hold.variant_id IS NOT NULL THEN
+      UPDATE public.product_variants
+      SET stock = stock - _hold.quantity, updated_at = now()
+      WHERE id = _hold.variant_id AND stock >= _hold.quantity;
+    ELSE
+      UPDATE public.products
+      SET stock = stock - _hold.quantity, updated_at = now()
+      WHERE id = _hold.product_id AND stock >= _hold.quantity;
+    END IF;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'insufficient_stock' USING DETAIL = json_build_object(
+        'product_id', _hold.product_id,
+        'variant_id', _hold.variant_id,
+        'available', CASE
+          WHEN _hold.variant_id IS NOT NULL THEN public.available_variant_stock(_hold.variant_id, _user_id)
+          ELSE public.available_stock(_hold.product_id, _user_id)
+        END
+      )::TEXT;
+    END IF;
+
+    UPDATE public.stock_reservations SET order_id = _order_id WHERE id = _hold.id;
+  END LOOP;
+END;
+$$;
+
+-- As in 20250510_stock_reservations.sql, restoring variant stock for
+-- variant holds
+CREATE OR REPLACE FUNCTION public.restore_order_stock()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status IN ('canceled', 'cancelled', 'refunded')
+     AND OLD.status NOT IN ('canceled', 'cancelled', 'refunded')
+     AND OLD.stock_restored_at IS NULL THEN
+    UPDATE public.products p
+    SET stock = p.stock + oi.quantity, updated_at = now()
+    FROM (
+      SELECT product_id, SUM(quantity) AS quantity
+      FROM public.stock_reservations
+      WHERE order_id = NEW.id AND variant_id IS NULL
+      GROUP BY product_id
+    ) oi
+    WHERE p.id = oi.product_id;
+
+    UPDATE public.product_variants v
+    SET stock = v.stock + oi.quantity, updated_at = now()
+    FROM (
+      SELECT variant_id, SUM(quantity) AS quantity
+      FROM public.stock_reservations
+      WHERE order_id = NEW.id AND variant_id IS NOT NULL
+      GROUP BY variant_id
+    ) oi
+    WHERE v.id = oi.variant_id;
+
+    NEW.stock_restored_at := now();
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- As in 20250524_returns.sql, restocking the variant that was bought
+CREATE OR REPLACE FUNCTION public.approve_return_request(
+  _return_id UUID,
+  _reviewer_id UUID,
+  _note TEXT DEFAULT NULL
+)
+RETURNS public.return_requests
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _request public.return_requests;
+  _item public.order_items;
+BEGIN
+  SELECT * INTO _request FROM public.return_requests WHERE id = _return_id FOR UPDATE;
+
+  IF NOT FOUND OR _request.status <> 'requested' THEN
+    RAISE EXCEPTION 'invalid_return_transition';
+  END IF;
+
+  SELECT * INTO _item FROM public.order_items WHERE id = _request.order_item_id;
+
+  IF _item.variant_id IS NOT NULL THEN
+    UPDATE public.product_variants
+    SET stock = stock + _request.quantity, updated_at = now()
+    WHERE id = _item.variant_id;
+  ELSE
+    UPDATE public.products
+    SET stock = stock + _request.quantity, updated_at = now()
+    WHERE id = _item.product_id;
+  END IF;
+
+  UPDATE public.return_requests
+  SET status = 'approved',
+      seller_note = _note,
+      refund_amount = public.return_refund_amount(_item, _request.quantity),
+      restocked_at = now(),
+      reviewed_by = _reviewer_id,
+      reviewed_at = now(),
+      updated_at = now()
+  WHERE id = _return_id
+  RETURNING * INTO _request;
+
+  RETURN _request;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.reserve_stock(UUID, JSONB, INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.commit_stock_reservations(UUID, UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.approve_return_request(UUID, UUID, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.reserve_stock(UUID, JSONB, INTEGER) TO service_role;
+GRANT EXECUTE ON FUNCTION public.commit_stock_reservations(UUID, UUID) TO service_role;
+GRANT EXECUTE ON FUNCTION public.approve_return_request(UUID, UUID, TEXT) TO service_role;
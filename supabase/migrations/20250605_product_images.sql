@@ -0,0 +1,108 @@
+
+-- Several images per product, uploaded to the product-images bucket and
+-- shown as a gallery. The first image (lowest position) is the primary one
+-- and is copied to products.image_url so cards, search and the wishlist
+-- keep working unchanged.
+CREATE TABLE IF NOT EXISTS public.product_images (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  product_id UUID NOT NULL REFERENCES public.products(id) ON DELETE CASCADE,
+  -- Storage paths; NULL for images that were linked rather than uploaded
+  path TEXT,
+  thumbnail_path TEXT,
+  url TEXT NOT NULL,
+  thumbnail_url TEXT NOT NULL,
+  alt_text TEXT NOT NULL DEFAULT '',
+  width INTEGER,
+  height INTEGER,
+  position INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS product_images_product_idx ON public.product_images (product_id, position);
+
+-- Linked images become the first gallery image of their product
+INSERT INTO public.product_images (product_id, url, thumbnail_url, alt_text)
+SELECT p.id, p.image_url, p.image_url, p.name
+FROM public.products p
+WHERE trim(coalesce(p.image_url, '')) <> ''
+  AND NOT EXISTS (SELECT 1 FROM public.product_images i WHERE i.product_id = p.id);
+
+ALTER TABLE public.product_images ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view product images"
+ON public.product_images
+FOR SELECT
+USING (true);
+
+CREATE POLICY "Sellers can manage images of their products"
+ON public.product_images
+FOR ALL
+USING (
+  EXISTS (
+    SELECT 1 FROM public.products
+    WHERE id = product_id
+      AND (seller_id = auth.uid() OR public.has_role(auth.uid(), 'admin'))
+  )
+)
+WITH CHECK (
+  EXISTS (
+    SELECT 1 FROM public.products
+    WHERE id = product_id
+      AND (seller_id = auth.uid() OR public.has_role(auth.uid(), 'admin'))
+  )
+);
+
+-- Keep products.image_url on the primary image. Runs as definer so an
+-- admin editing someone else's gallery still updates the product.
+CREATE OR REPLACE FUNCTION public.sync_product_primary_image()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _product_id UUID := CASE WHEN TG_OP = 'DELETE' THEN OLD.product_id ELSE NEW.product_id END;
+BEGIN
+  UPDATE public.products
+  SET image_url = (
+    SELECT url FROM public.product_images
+    WHERE product_id = _product_id
+    ORDER BY position, created_at
+    LIMIT 1
+  )
+  WHERE id = _product_id;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS sync_product_primary_image ON public.product_images;
+CREATE TRIGGER sync_product_primary_image
+AFTER INSERT OR UPDATE OF url, position OR DELETE ON public.product_images
+FOR EACH ROW EXECUTE FUNCTION public.sync_product_primary_image();
+
+-- Uploads live under product-images/<seller id>/... and are public to read
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('product-images', 'product-images', true)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Sellers can upload their own product images"
+ON storage.objects
+FOR INSERT
+WITH CHECK (
+  bucket_id = 'product-images'
+  AND auth.uid()::TEXT = (storage.foldername(name))[1]
+);
+
+CREATE POLICY "Sellers can delete their own product images"
+ON storage.objects
+FOR DELETE
+USING (
+  bucket_id = 'product-images'
+  AND auth.uid()::TEXT = (storage.foldername(name))[1]
+);
+
+CREATE POLICY "Anyone can view product images"
+ON storage.objects
+FOR SELECT
+USING (bucket_id = 'product-images');
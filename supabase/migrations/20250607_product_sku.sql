@@ -0,0 +1,10 @@
+
+-- Seller-assigned SKUs on products, used to match rows when a seller
+-- imports their catalogue. Unique per seller and optional for products
+-- added by hand. Variants keep their own SKUs.
+ALTER TABLE public.products
+  ADD COLUMN IF NOT EXISTS sku TEXT;
+
+ALTER TABLE public.products
+  ADD CONSTRAINT products_seller_sku_key UNIQUE (seller_id, sku),
+  ADD CONSTRAINT products_sku_not_blank CHECK (sku IS NULL OR trim(sku) <> '');
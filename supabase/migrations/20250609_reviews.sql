@@ -0,0 +1,421 @@
+
+-- Verified-purchase reviews. Customers can review a product once they have
+-- a delivered order containing it. Other shoppers vote reviews helpful or
+-- flag them, sellers reply, and admins work through flagged reviews.
+-- products.rating and reviews_count are kept up to date by trigger.
+--
+--   status: published -> hidden (removed by an admin; still visible to its author)
+ALTER TABLE public.reviews
+  ADD COLUMN IF NOT EXISTS order_item_id UUID REFERENCES public.order_items(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS status TEXT NOT NULL DEFAULT 'published'
+    CHECK (status IN ('published', 'hidden')),
+  ADD COLUMN IF NOT EXISTS helpful_count INTEGER NOT NULL DEFAULT 0,
+  -- Open flags only; resolved flags stop counting
+  ADD COLUMN IF NOT EXISTS flag_count INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS seller_reply TEXT,
+  ADD COLUMN IF NOT EXISTS seller_replied_at TIMESTAMPTZ;
+
+-- Existing data predates these rules: keep each customer's latest review
+-- of a product and pull stray ratings into range before constraining
+DELETE FROM public.reviews r
+USING public.reviews newer
+WHERE newer.product_id = r.product_id
+  AND newer.user_id = r.user_id
+  AND (newer.updated_at, newer.created_at, newer.id) > (r.updated_at, r.created_at, r.id);
+
+UPDATE public.reviews
+SET rating = LEAST(GREATEST(rating, 1), 5)
+WHERE rating NOT BETWEEN 1 AND 5;
+
+ALTER TABLE public.reviews
+  ADD CONSTRAINT reviews_product_user_key UNIQUE (product_id, user_id),
+  ADD CONSTRAINT reviews_rating_range CHECK (rating BETWEEN 1 AND 5);
+
+CREATE INDEX IF NOT EXISTS reviews_product_idx ON public.reviews (product_id, status, created_at DESC);
+CREATE INDEX IF NOT EXISTS reviews_flagged_idx ON public.reviews (flag_count) WHERE flag_count > 0;
+
+CREATE TABLE IF NOT EXISTS public.review_votes (
+  review_id UUID NOT NULL REFERENCES public.reviews(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (review_id, user_id)
+);
+
+CREATE TABLE IF NOT EXISTS public.review_flags (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  review_id UUID NOT NULL REFERENCES public.reviews(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL,
+  reason TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  resolved_at TIMESTAMPTZ,
+  resolved_by UUID,
+  resolution TEXT CHECK (resolution IN ('kept', 'removed')),
+  UNIQUE (review_id, user_id)
+);
+
+-- Reads are public for published reviews; all writes except deleting your
+-- own review go through the functions below
+ALTER TABLE public.reviews ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.review_votes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.review_flags ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Anyone can view published reviews" ON public.reviews;
+CREATE POLICY "Anyone can view published reviews"
+ON public.reviews
+FOR SELECT
+USING (status = 'published' OR auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Admins can view all reviews" ON public.reviews;
+CREATE POLICY "Admins can view all reviews"
+ON public.reviews
+FOR SELECT
+USING (public.has_role(auth.uid(), 'admin'));
+
+DROP POLICY IF EXISTS "Users can delete their own reviews" ON public.reviews;
+CREATE POLICY "Users can delete their own reviews"
+ON public.reviews
+FOR DELETE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can view their own votes"
+ON public.review_votes
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can view review flags"
+ON public.review_flags
+FOR SELECT
+USING (public.has_role(auth.uid(), 'admin'));
+
+-- Average and count over published reviews
+CREATE OR REPLACE FUNCTION public.refresh_product_rating(_product_id UUID)
+RETURNS VOID
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE public.products p
+  SET rating = coalesce(agg.rating, 0),
+      reviews_count = agg.reviews_count
+  FROM (
+    SELECT round(avg(rating)::NUMERIC, 1) AS rating, count(*)::INTEGER AS reviews_count
+    FROM public.reviews
+    WHERE product_id = _product_id AND status = 'published'
+  ) agg
+  WHERE p.id = _product_id;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.refresh_product_rating(UUID) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.rollup_product_rating()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP IN ('UPDATE', 'DELETE') THEN
+    PERFORM public.refresh_product_rating(OLD.product_id);
+  END IF;
+  IF TG_OP IN ('INSERT', 'UPDATE') AND (TG_OP = 'INSERT' OR NEW.product_id <> OLD.product_id) THEN
+    PERFORM public.refresh_product_rating(NEW.product_id);
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS rollup_product_rating ON public.reviews;
+CREATE TRIGGER rollup_product_rating
+AFTER INSERT OR DELETE OR UPDATE OF rating, status, product_id ON public.reviews
+FOR EACH ROW EXECUTE FUNCTION public.rollup_product_rating();
+
+-- Keep helpful_count and flag_count in step with their tables
+CREATE OR REPLACE FUNCTION public.count_review_feedback()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _review_id UUID := CASE WHEN TG_OP = 'DELETE' THEN OLD.review_id ELSE NEW.review_id END;
+BEGIN
+  IF TG_TABLE_NAME = 'review_votes' THEN
+    UPDATE public.reviews
+    SET helpful_count = (SELECT count(*) FROM public.review_votes WHERE review_id = _review_id)
+    WHERE id = _review_id;
+  ELSE
+    UPDATE public.reviews
+    SET flag_count = (SELECT count(*) FROM public.review_flags WHERE review_id = _review_id AND resolved_at IS NULL)
+    WHERE id = _review_id;
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS count_review_votes ON public.review_votes;
+CREATE TRIGGER count_review_votes
+AFTER INSERT OR DELETE ON public.review_votes
+FOR EACH ROW EXECUTE FUNCTION public.count_review_feedback();
+
+DROP TRIGGER IF EXISTS count_review_flags ON public.review_flags;
+CREATE TRIGGER count_review_flags
+AFTER INSERT OR UPDATE OF resolved_at OR DELETE ON public.review_flags
+FOR EACH ROW EXECUTE FUNCTION public.count_review_feedback();
+
+-- The caller's delivered order line for a product, if any
+CREATE OR REPLACE FUNCTION public.delivered_order_item(_user_id UUID, _product_id UUID)
+RETURNS UUID
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT oi.id
+  FROM public.order_items oi
+  JOIN public.orders o ON o.id = oi.order_id
+  LEFT JOIN public.order_fulfilments f ON f.id = oi.fulfilment_id
+  WHERE oi.product_id = _product_id
+    AND o.user_id = _user_id
+    AND (o.status = 'delivered' OR f.status = 'delivered')
+  ORDER BY o.created_at DESC
+  LIMIT 1;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.delivered_order_item(UUID, UUID) FROM PUBLIC, anon, authenticated;
+
+-- Whether the caller may review a product, and their review if they have one
+CREATE OR REPLACE FUNCTION public.get_review_eligibility(_product_id UUID)
+RETURNS TABLE (can_review BOOLEAN, review_id UUID)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    public.delivered_order_item(auth.uid(), _product_id) IS NOT NULL,
+    (SELECT id FROM public.reviews WHERE product_id = _product_id AND user_id = auth.uid());
+$$;
+
+-- Write or rewrite the caller's review. Raises 'review_not_allowed' without
+-- a delivered order containing the product and 'invalid_rating' outside 1-5.
+CREATE OR REPLACE FUNCTION public.submit_review(
+  _product_id UUID,
+  _rating INTEGER,
+  _comment TEXT DEFAULT NULL
+)
+RETURNS public.reviews
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _order_item_id UUID := public.delivered_order_item(auth.uid(), _product_id);
+  _review public.reviews;
+BEGIN
+  IF _order_item_id IS NULL THEN
+    RAISE EXCEPTION 'review_not_allowed';
+  END IF;
+
+  IF _rating IS NULL OR _rating NOT BETWEEN 1 AND 5 THEN
+    RAISE EXCEPTION 'invalid_rating';
+  END IF;
+
+  INSERT INTO public.reviews (product_id, user_id, order_item_id, rating, comment)
+  VALUES (_product_id, auth.uid(), _order_item_id, _rating, nullif(trim(_comment), ''))
+  ON CONFLICT (product_id, user_id) DO UPDATE
+  SET rating = EXCLUDED.rating,
+      comment = EXCLUDED.comment,
+      order_item_id = EXCLUDED.order_item_id,
+      updated_at = now()
+  RETURNING * INTO _review;
+
+  RETURN _review;
+END;
+$$;
+
+-- Toggle the caller's helpful vote; returns whether they now have one.
+-- Raises 'cannot_vote_own_review'.
+CREATE OR REPLACE FUNCTION public.toggle_review_vote(_review_id UUID)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'not_authorized';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.reviews WHERE id = _review_id AND user_id = auth.uid()) THEN
+    RAISE EXCEPTION 'cannot_vote_own_review';
+  END IF;
+
+  DELETE FROM public.review_votes WHERE review_id = _review_id AND user_id = auth.uid();
+  IF FOUND THEN
+    RETURN false;
+  END IF;
+
+  INSERT INTO public.review_votes (review_id, user_id) VALUES (_review_id, auth.uid());
+  RETURN true;
+END;
+$$;
+
+-- Report a review to the moderators. A second report from the same user
+-- updates the reason and reopens it.
+CREATE OR REPLACE FUNCTION public.flag_review(_review_id UUID, _reason TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'not_authorized';
+  END IF;
+
+  INSERT INTO public.review_flags (review_id, user_id, reason)
+  VALUES (_review_id, auth.uid(), _reason)
+  ON CONFLICT (review_id, user_id) DO UPDATE
+  SET reason = EXCLUDED.reason,
+      created_at = now(),
+      resolved_at = NULL,
+      resolved_by = NULL,
+      resolution = NULL;
+END;
+$$;
+
+-- The product's seller (or an admin) answers a review; a blank reply
+-- removes it. Raises 'not_authorized'.
+CREATE OR REPLACE FUNCTION public.reply_to_review(_review_id UUID, _reply TEXT)
+RETURNS public.reviews
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _review public.reviews;
+BEGIN
+  UPDATE public.reviews r
+  SET seller_reply = nullif(trim(_reply), ''),
+      seller_replied_at = CASE WHEN nullif(trim(_reply), '') IS NULL THEN NULL ELSE now() END
+  FROM public.products p
+  WHERE r.id = _review_id
+    AND p.id = r.product_id
+    AND (p.seller_id = auth.uid() OR public.has_role(auth.uid(), 'admin'))
+  RETURNING r.* INTO _review;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'not_authorized';
+  END IF;
+
+  RETURN _review;
+END;
+$$;
+
+-- Close a review's open flags, keeping the review up or taking it down.
+-- Admins only; raises 'not_authorized'.
+CREATE OR REPLACE FUNCTION public.moderate_review(_review_id UUID, _remove BOOLEAN)
+RETURNS public.reviews
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _review public.reviews;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'not_authorized';
+  END IF;
+
+  UPDATE public.review_flags
+  SET resolved_at = now(),
+      resolved_by = auth.uid(),
+      resolution = CASE WHEN _remove THEN 'removed' ELSE 'kept' END
+  WHERE review_id = _review_id AND resolved_at IS NULL;
+
+  UPDATE public.reviews
+  SET status = CASE WHEN _remove THEN 'hidden' ELSE 'published' END
+  WHERE id = _review_id
+  RETURNING * INTO _review;
+
+  RETURN _review;
+END;
+$$;
+
+-- One page of a product's reviews with each author's display name, in a
+-- single query. Authors show as first name and last initial.
+--   _sort: recent | helpful | highest | lowest
+CREATE OR REPLACE FUNCTION public.get_product_reviews(
+  _product_id UUID,
+  _sort TEXT DEFAULT 'recent',
+  _limit INTEGER DEFAULT 10,
+  _offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+  id UUID,
+  rating INTEGER,
+  comment TEXT,
+  created_at TIMESTAMPTZ,
+  author_name TEXT,
+  avatar_url TEXT,
+  verified BOOLEAN,
+  status TEXT,
+  helpful_count INTEGER,
+  voted BOOLEAN,
+  is_own BOOLEAN,
+  seller_reply TEXT,
+  seller_replied_at TIMESTAMPTZ,
+  total_count BIGINT
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    r.id,
+    r.rating::INTEGER,
+    r.comment,
+    r.created_at,
+    coalesce(
+      nullif(trim(coalesce(pr.first_name, '') || ' ' || left(coalesce(pr.last_name, ''), 1)), ''),
+      'Anonymous'
+    ),
+    pr.avatar_url,
+    r.order_item_id IS NOT NULL,
+    r.status,
+    r.helpful_count,
+    EXISTS (SELECT 1 FROM public.review_votes v WHERE v.review_id = r.id AND v.user_id = auth.uid()),
+    r.user_id = auth.uid(),
+    r.seller_reply,
+    r.seller_replied_at,
+    count(*) OVER ()
+  FROM public.reviews r
+  LEFT JOIN public.profiles pr ON pr.id = r.user_id
+  WHERE r.product_id = _product_id
+    AND (r.status = 'published' OR r.user_id = auth.uid())
+  ORDER BY
+    r.user_id = auth.uid() DESC,
+    CASE WHEN _sort = 'helpful' THEN r.helpful_count END DESC,
+    CASE WHEN _sort = 'highest' THEN r.rating END DESC,
+    CASE WHEN _sort = 'lowest' THEN r.rating END ASC,
+    r.created_at DESC
+  LIMIT _limit OFFSET _offset;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_product_reviews(UUID, TEXT, INTEGER, INTEGER) TO anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.get_review_eligibility(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.get_review_eligibility(UUID) TO authenticated;
+REVOKE EXECUTE ON FUNCTION public.submit_review(UUID, INTEGER, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.submit_review(UUID, INTEGER, TEXT) TO authenticated;
+REVOKE EXECUTE ON FUNCTION public.toggle_review_vote(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.toggle_review_vote(UUID) TO authenticated;
+REVOKE EXECUTE ON FUNCTION public.flag_review(UUID, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.flag_review(UUID, TEXT) TO authenticated;
+REVOKE EXECUTE ON FUNCTION public.reply_to_review(UUID, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.reply_to_review(UUID, TEXT) TO authenticated;
+REVOKE EXECUTE ON FUNCTION public.moderate_review(UUID, BOOLEAN) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.moderate_review(UUID, BOOLEAN) TO authenticated;
+
+-- Recompute every product once, replacing whatever was stored before
+SELECT public.refresh_product_rating(id) FROM public.products;
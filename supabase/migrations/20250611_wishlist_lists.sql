@@ -0,0 +1,233 @@
+
+-- Named wishlists that can be shared by link, per-item price-drop and
+-- back-in-stock alerts, and an in-app notification feed the alerts land in.
+-- Every existing wishlist row moves into a default list for its user.
+CREATE TABLE IF NOT EXISTS public.wishlist_lists (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL,
+  name TEXT NOT NULL CHECK (trim(name) <> ''),
+  is_default BOOLEAN NOT NULL DEFAULT false,
+  -- Anyone with the link can view a public list
+  is_public BOOLEAN NOT NULL DEFAULT false,
+  share_token TEXT NOT NULL UNIQUE DEFAULT replace(gen_random_uuid()::TEXT, '-', ''),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (user_id, name)
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS wishlist_lists_one_default_idx
+  ON public.wishlist_lists (user_id) WHERE is_default;
+
+INSERT INTO public.wishlist_lists (user_id, name, is_default)
+SELECT DISTINCT user_id, 'My Wishlist', true
+FROM public.wishlists
+ON CONFLICT DO NOTHING;
+
+ALTER TABLE public.wishlists
+  ADD COLUMN IF NOT EXISTS list_id UUID REFERENCES public.wishlist_lists(id) ON DELETE CASCADE,
+  ADD COLUMN IF NOT EXISTS notify_price_drop BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS notify_back_in_stock BOOLEAN NOT NULL DEFAULT false;
+
+UPDATE public.wishlists w
+SET list_id = l.id
+FROM public.wishlist_lists l
+WHERE w.list_id IS NULL AND l.user_id = w.user_id AND l.is_default;
+
+ALTER TABLE public.wishlists
+  ALTER COLUMN list_id SET NOT NULL,
+  ADD CONSTRAINT wishlists_list_product_key UNIQUE (list_id, product_id);
+
+CREATE INDEX IF NOT EXISTS wishlists_product_alerts_idx
+  ON public.wishlists (product_id) WHERE notify_price_drop OR notify_back_in_stock;
+
+ALTER TABLE public.wishlist_lists ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.wishlists ENABLE ROW LEVEL SECURITY;
+
+-- Shared lists are read through get_shared_wishlist, not these policies
+CREATE POLICY "Users can manage their own wishlist lists"
+ON public.wishlist_lists
+FOR ALL
+USING (auth.uid() = user_id)
+WITH CHECK (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can manage their own wishlist items" ON public.wishlists;
+CREATE POLICY "Users can manage their own wishlist items"
+ON public.wishlists
+FOR ALL
+USING (auth.uid() = user_id)
+WITH CHECK (
+  auth.uid() = user_id
+  AND EXISTS (SELECT 1 FROM public.wishlist_lists WHERE id = list_id AND user_id = auth.uid())
+);
+
+-- Add a product to one of the caller's lists, or to their default list
+-- (created on first use). Adding a product twice is a no-op. Returns the
+-- list id; raises 'not_authorized' for someone else's list.
+CREATE OR REPLACE FUNCTION public.add_to_wishlist(_product_id UUID, _list_id UUID DEFAULT NULL)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _target UUID := _list_id;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'not_authorized';
+  END IF;
+
+  IF _target IS NULL THEN
+    SELECT id INTO _target FROM public.wishlist_lists WHERE user_id = auth.uid() AND is_default;
+    IF _target IS NULL THEN
+      INSERT INTO public.wishlist_lists (user_id, name, is_default)
+      VALUES (auth.uid(), 'My Wishlist', true)
+      RETURNING id INTO _target;
+    END IF;
+  ELSIF NOT EXISTS (SELECT 1 FROM public.wishlist_lists WHERE id = _target AND user_id = auth.uid()) THEN
+    RAISE EXCEPTION 'not_authorized';
+  END IF;
+
+  INSERT INTO public.wishlists (user_id, list_id, product_id)
+  VALUES (auth.uid(), _target, _product_id)
+  ON CONFLICT (list_id, product_id) DO NOTHING;
+
+  RETURN _target;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.add_to_wishlist(UUID, UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.add_to_wishlist(UUID, UUID) TO authenticated;
+
+-- A public list by its share token, with the owner's first name. Returns
+-- no rows for unknown tokens and private lists.
+CREATE OR REPLACE FUNCTION public.get_shared_wishlist(_share_token TEXT)
+RETURNS TABLE (
+  list_name TEXT,
+  owner_name TEXT,
+  product_id UUID,
+  name TEXT,
+  price NUMERIC,
+  discounted_price NUMERIC,
+  image_url TEXT,
+  rating NUMERIC,
+  reviews_count INTEGER,
+  category TEXT,
+  description TEXT,
+  stock INTEGER
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    l.name,
+    coalesce(nullif(trim(pr.first_name), ''), 'Someone'),
+    p.id,
+    p.name,
+    p.price,
+    p.discounted_price,
+    p.image_url,
+    p.rating,
+    p.reviews_count::INTEGER,
+    p.category,
+    p.description,
+    p.stock
+  FROM public.wishlist_lists l
+  LEFT JOIN public.profiles pr ON pr.id = l.user_id
+  LEFT JOIN public.wishlists w ON w.list_id = l.id
+  LEFT JOIN public.products p ON p.id = w.product_id
+  WHERE l.share_token = _share_token AND l.is_public
+  ORDER BY w.created_at DESC;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_shared_wishlist(TEXT) TO anon, authenticated;
+
+-- In-app notifications, newest first. link is an app path to open.
+CREATE TABLE IF NOT EXISTS public.notifications (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL,
+  type TEXT NOT NULL,
+  title TEXT NOT NULL,
+  body TEXT,
+  link TEXT,
+  product_id UUID REFERENCES public.products(id) ON DELETE CASCADE,
+  read_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS notifications_user_idx ON public.notifications (user_id, created_at DESC);
+
+ALTER TABLE public.notifications ENABLE ROW LEVEL SECURITY;
+
+-- Notifications are created by triggers; users read, mark and clear their own
+CREATE POLICY "Users can view their own notifications"
+ON public.notifications
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can mark their own notifications read"
+ON public.notifications
+FOR UPDATE
+USING (auth.uid() = user_id)
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own notifications"
+ON public.notifications
+FOR DELETE
+USING (auth.uid() = user_id);
+
+-- Alert everyone watching a product when its price drops or it comes back
+-- into stock. Someone with the product on several lists is told once.
+CREATE OR REPLACE FUNCTION public.notify_wishlist_watchers()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _old_price NUMERIC := coalesce(OLD.discounted_price, OLD.price);
+  _new_price NUMERIC := coalesce(NEW.discounted_price, NEW.price);
+BEGIN
+  IF _new_price < _old_price THEN
+    INSERT INTO public.notifications (user_id, type, title, body, link, product_id)
+    SELECT DISTINCT
+      w.user_id,
+      'price_drop',
+      'Price drop: ' || NEW.name,
+      format('Now $%s, down from $%s.', to_char(_new_price, 'FM999999990.00'), to_char(_old_price, 'FM999999990.00')),
+      '/product/' || NEW.id,
+      NEW.id
+    FROM public.wishlists w
+    WHERE w.product_id = NEW.id AND w.notify_price_drop;
+  END IF;
+
+  IF OLD.stock = 0 AND NEW.stock > 0 THEN
+    INSERT INTO public.notifications (user_id, type, title, body, link, product_id)
+    SELECT DISTINCT
+      w.user_id,
+      'back_in_stock',
+      'Back in stock: ' || NEW.name,
+      'An item on your wishlist is available again.',
+      '/product/' || NEW.id,
+      NEW.id
+    FROM public.wishlists w
+    WHERE w.product_id = NEW.id AND w.notify_back_in_stock;
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+-- Not UPDATE OF: products with variants get their price and stock from a
+-- BEFORE trigger rolling up the variants, which UPDATE OF never sees
+DROP TRIGGER IF EXISTS notify_wishlist_watchers ON public.products;
+CREATE TRIGGER notify_wishlist_watchers
+AFTER UPDATE ON public.products
+FOR EACH ROW
+WHEN (
+  OLD.stock IS DISTINCT FROM NEW.stock
+  OR OLD.price IS DISTINCT FROM NEW.price
+  OR OLD.discounted_price IS DISTINCT FROM NEW.discounted_price
+)
+EXECUTE FUNCTION public.notify_wishlist_watchers();
@@ -0,0 +1,189 @@
+
+-- Product recommendations: frequently bought together (order_items),
+-- viewed together (product_views) and also wishlisted (wishlists). Pairs
+-- are precomputed into product_recommendations by a nightly job so product
+-- pages only read a small indexed table.
+
+-- One row per product page view. session_id is a random id the browser
+-- keeps in localStorage; user_id is set when the viewer is signed in.
+CREATE TABLE IF NOT EXISTS public.product_views (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  product_id UUID NOT NULL REFERENCES public.products(id) ON DELETE CASCADE,
+  user_id UUID,
+  session_id TEXT NOT NULL,
+  viewed_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS product_views_viewed_at_idx ON public.product_views (viewed_at);
+CREATE INDEX IF NOT EXISTS product_views_session_idx ON public.product_views (session_id, product_id, viewed_at DESC);
+
+-- Views are written by record_product_view and only read by definer functions
+ALTER TABLE public.product_views ENABLE ROW LEVEL SECURITY;
+
+-- Record a product page view. Reloading the same page within half an hour
+-- counts once.
+CREATE OR REPLACE FUNCTION public.record_product_view(_product_id UUID, _session_id TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF _session_id IS NULL OR length(_session_id) > 64 THEN
+    RETURN;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.product_views
+    WHERE session_id = _session_id
+      AND product_id = _product_id
+      AND viewed_at > now() - INTERVAL '30 minutes'
+  ) THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO public.product_views (product_id, user_id, session_id)
+  SELECT _product_id, auth.uid(), _session_id
+  WHERE EXISTS (SELECT 1 FROM public.products WHERE id = _product_id);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.record_product_view(UUID, TEXT) TO anon, authenticated;
+
+CREATE TABLE IF NOT EXISTS public.product_recommendations (
+  product_id UUID NOT NULL REFERENCES public.products(id) ON DELETE CASCADE,
+  recommended_product_id UUID NOT NULL REFERENCES public.products(id) ON DELETE CASCADE,
+  kind TEXT NOT NULL CHECK (kind IN ('bought_together', 'viewed_together', 'also_wishlisted')),
+  -- Number of orders, viewers or wishlisters the two products share
+  score NUMERIC NOT NULL,
+  computed_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (product_id, kind, recommended_product_id)
+);
+
+ALTER TABLE public.product_recommendations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view product recommendations"
+ON public.product_recommendations
+FOR SELECT
+USING (true);
+
+-- Rebuild every recommendation. Keeps the _per_product highest scoring
+-- pairs of each kind; co-views only look at the last _view_days days.
+CREATE OR REPLACE FUNCTION public.refresh_product_recommendations(
+  _per_product INTEGER DEFAULT 12,
+  _view_days INTEGER DEFAULT 90
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- WHERE true keeps pg_safeupdate happy when called through the API;
+  -- unlike TRUNCATE, product pages keep reading the old rows until commit
+  DELETE FROM public.product_recommendations WHERE true;
+
+  INSERT INTO public.product_recommendations (product_id, recommended_product_id, kind, score)
+  WITH purchases AS (
+    SELECT DISTINCT oi.order_id, oi.product_id
+    FROM public.order_items oi
+    JOIN public.orders o ON o.id = oi.order_id
+    WHERE o.status IN ('paid', 'processing', 'shipped', 'delivered')
+  ),
+  viewers AS (
+    SELECT DISTINCT coalesce(user_id::TEXT, session_id) AS viewer, product_id
+    FROM public.product_views
+    WHERE viewed_at > now() - make_interval(days => _view_days)
+  ),
+  savers AS (
+    SELECT DISTINCT user_id, product_id
+    FROM public.wishlists
+  ),
+  pairs AS (
+    SELECT a.product_id, b.product_id AS recommended_product_id, 'bought_together' AS kind, count(*) AS score
+    FROM purchases a
+    JOIN purchases b ON b.order_id = a.order_id AND b.product_id <> a.product_id
+    GROUP BY a.product_id, b.product_id
+    UNION ALL
+    SELECT a.product_id, b.product_id, 'viewed_together', count(*)
+    FROM viewers a
+    JOIN viewers b ON b.viewer = a.viewer AND b.product_id <> a.product_id
+    GROUP BY a.product_id, b.product_id
+    UNION ALL
+    SELECT a.product_id, b.product_id, 'also_wishlisted', count(*)
+    FROM savers a
+    JOIN savers b ON b.user_id = a.user_id AND b.product_id <> a.product_id
+    GROUP BY a.product_id, b.product_id
+  ),
+  ranked AS (
+    SELECT *, row_number() OVER (
+      PARTITION BY product_id, kind
+      ORDER BY score DESC, recommended_product_id
+    ) AS position
+    FROM pairs
+  )
+  SELECT product_id, recommended_product_id, kind, score
+  FROM ranked
+  WHERE position <= _per_product;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.refresh_product_recommendations(INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.refresh_product_recommendations(INTEGER, INTEGER) TO service_role;
+
+-- Recommendations for a product page, up to _limit in-stock products of
+-- each kind, best first
+CREATE OR REPLACE FUNCTION public.get_product_recommendations(_product_id UUID, _limit INTEGER DEFAULT 4)
+RETURNS TABLE (
+  kind TEXT,
+  id UUID,
+  name TEXT,
+  price NUMERIC,
+  discounted_price NUMERIC,
+  image_url TEXT,
+  rating NUMERIC,
+  reviews_count INTEGER,
+  category TEXT,
+  description TEXT,
+  stock INTEGER
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT kind, id, name, price, discounted_price, image_url, rating, reviews_count, category, description, stock
+  FROM (
+    SELECT
+      r.kind,
+      p.id,
+      p.name,
+      p.price,
+      p.discounted_price,
+      p.image_url,
+      p.rating,
+      p.reviews_count::INTEGER AS reviews_count,
+      p.category,
+      p.description,
+      p.stock,
+      r.score,
+      row_number() OVER (PARTITION BY r.kind ORDER BY r.score DESC, p.id) AS position
+    FROM public.product_recommendations r
+    JOIN public.products p ON p.id = r.recommended_product_id
+    WHERE r.product_id = _product_id AND p.stock > 0
+  ) recommended
+  WHERE position <= LEAST(GREATEST(_limit, 1), 12)
+  ORDER BY kind, position;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_product_recommendations(UUID, INTEGER) TO anon, authenticated;
+
+-- Rebuild nightly when pg_cron is available
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+    PERFORM cron.schedule('refresh-product-recommendations', '30 3 * * *', 'SELECT public.refresh_product_recommendations()');
+  END IF;
+END;
+$$;
+
+SELECT public.refresh_product_recommendations();
@@ -0,0 +1,131 @@
+
+-- Seller and delivery sign-ups become applications that an admin approves
+-- or rejects. Applicants stay customers until approved; approval swaps
+-- their user_roles row in the same transaction.
+CREATE TABLE IF NOT EXISTS public.role_applications (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  role public.user_role NOT NULL CHECK (role IN ('seller', 'delivery')),
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'rejected')),
+  question_responses JSONB NOT NULL DEFAULT '{}'::JSONB,
+  rejection_reason TEXT,
+  reviewed_by UUID,
+  reviewed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CHECK (status <> 'rejected' OR nullif(trim(rejection_reason), '') IS NOT NULL)
+);
+
+-- At most one open application per user
+CREATE UNIQUE INDEX IF NOT EXISTS role_applications_one_pending_idx
+  ON public.role_applications (user_id) WHERE status = 'pending';
+
+CREATE INDEX IF NOT EXISTS role_applications_status_idx ON public.role_applications (status, created_at DESC);
+
+ALTER TABLE public.role_applications ENABLE ROW LEVEL SECURITY;
+
+-- Applications are created at sign-up and reviewed through
+-- review_role_application; applicants can only read their own
+CREATE POLICY "Users can view their own role applications"
+ON public.role_applications
+FOR SELECT
+USING (auth.uid() = user_id OR public.has_role(auth.uid(), 'admin'));
+
+-- Open an application when someone signs up as a seller or courier. The
+-- role and answers come from the sign-up metadata.
+CREATE OR REPLACE FUNCTION public.create_role_application()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.raw_user_meta_data->>'role_request' IN ('seller', 'delivery') THEN
+    INSERT INTO public.role_applications (user_id, role, question_responses)
+    VALUES (
+      NEW.id,
+      (NEW.raw_user_meta_data->>'role_request')::public.user_role,
+      CASE
+        WHEN jsonb_typeof(NEW.raw_user_meta_data->'question_responses') = 'object'
+        THEN NEW.raw_user_meta_data->'question_responses'
+        ELSE '{}'::JSONB
+      END
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS create_role_application ON auth.users;
+CREATE TRIGGER create_role_application
+AFTER INSERT ON auth.users
+FOR EACH ROW EXECUTE FUNCTION public.create_role_application();
+
+-- Approve or reject a pending application. Approval replaces the
+-- applicant's role; rejection needs a reason the applicant will see.
+-- Raises 'application_not_pending' if someone else got there first.
+CREATE OR REPLACE FUNCTION public.review_role_application(
+  _application_id UUID,
+  _approve BOOLEAN,
+  _actor_id UUID,
+  _reason TEXT DEFAULT NULL
+)
+RETURNS public.role_applications
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _application public.role_applications;
+BEGIN
+  SELECT * INTO _application
+  FROM public.role_applications
+  WHERE id = _application_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR _application.status <> 'pending' THEN
+    RAISE EXCEPTION 'application_not_pending';
+  END IF;
+
+  IF NOT _approve AND nullif(trim(_reason), '') IS NULL THEN
+    RAISE EXCEPTION 'rejection_reason_required';
+  END IF;
+
+  IF _approve THEN
+    INSERT INTO public.user_roles (user_id, role)
+    VALUES (_application.user_id, _application.role)
+    ON CONFLICT (user_id) DO UPDATE SET role = EXCLUDED.role;
+  END IF;
+
+  UPDATE public.role_applications
+  SET
+    status = CASE WHEN _approve THEN 'approved' ELSE 'rejected' END,
+    rejection_reason = CASE WHEN _approve THEN NULL ELSE trim(_reason) END,
+    reviewed_by = _actor_id,
+    reviewed_at = now()
+  WHERE id = _application_id
+  RETURNING * INTO _application;
+
+  RETURN _application;
+END;
+$$;
+
+-- Only the admin edge function reviews applications, after checking the caller
+REVOKE EXECUTE ON FUNCTION public.review_role_application(UUID, BOOLEAN, UUID, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.review_role_application(UUID, BOOLEAN, UUID, TEXT) TO service_role;
+
+-- Earlier seller and delivery sign-ups: already granted roles count as
+-- approved, the rest wait for review
+INSERT INTO public.role_applications (user_id, role, status, question_responses, reviewed_at, created_at)
+SELECT
+  u.id,
+  (u.raw_user_meta_data->>'role_request')::public.user_role,
+  CASE WHEN r.user_id IS NULL THEN 'pending' ELSE 'approved' END,
+  CASE WHEN jsonb_typeof(p.question_responses::JSONB) = 'object' THEN p.question_responses::JSONB ELSE '{}'::JSONB END,
+  CASE WHEN r.user_id IS NULL THEN NULL ELSE now() END,
+  u.created_at
+FROM auth.users u
+LEFT JOIN public.profiles p ON p.id = u.id
+LEFT JOIN public.user_roles r ON r.user_id = u.id AND r.role::TEXT = u.raw_user_meta_data->>'role_request'
+WHERE u.raw_user_meta_data->>'role_request' IN ('seller', 'delivery')
+  AND NOT EXISTS (SELECT 1 FROM public.role_applications a WHERE a.user_id = u.id);
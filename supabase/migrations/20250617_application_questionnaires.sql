@@ -0,0 +1,119 @@
+
+-- Questionnaires for seller and delivery applications, edited by admins.
+-- Every save publishes a new version and old versions are never changed,
+-- so each application keeps pointing at the questions it answered. The
+-- latest version of a role is the one shown at sign-up.
+CREATE TABLE IF NOT EXISTS public.application_questionnaires (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  role public.user_role NOT NULL CHECK (role IN ('seller', 'delivery')),
+  version INTEGER NOT NULL CHECK (version > 0),
+  -- Ordered list of { id, label, type, required, options }; type is one of
+  -- text, textarea, select, yes_no or file. Answers are keyed by id.
+  questions JSONB NOT NULL CHECK (jsonb_typeof(questions) = 'array'),
+  created_by UUID,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (role, version)
+);
+
+ALTER TABLE public.application_questionnaires ENABLE ROW LEVEL SECURITY;
+
+-- Sign-up happens before there is a session, so anyone can read them
+CREATE POLICY "Anyone can view application questionnaires"
+ON public.application_questionnaires
+FOR SELECT
+USING (true);
+
+CREATE POLICY "Admins can publish application questionnaires"
+ON public.application_questionnaires
+FOR INSERT
+WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+-- Version 1 is the questions sign-up used to ask
+INSERT INTO public.application_questionnaires (role, version, questions)
+VALUES
+  ('seller', 1, '[
+    {"id": "products", "label": "What products do you plan to sell?", "type": "textarea", "required": true},
+    {"id": "existing_business", "label": "Do you have an existing business?", "type": "text", "required": false}
+  ]'::JSONB),
+  ('delivery', 1, '[
+    {"id": "areas", "label": "What areas can you deliver to?", "type": "textarea", "required": true},
+    {"id": "transport", "label": "Do you have your own transportation?", "type": "text", "required": true}
+  ]'::JSONB)
+ON CONFLICT (role, version) DO NOTHING;
+
+ALTER TABLE public.role_applications
+  ADD COLUMN IF NOT EXISTS questionnaire_id UUID REFERENCES public.application_questionnaires(id);
+
+-- Applications from before questionnaires were versioned keyed answers by
+-- question text; match them up with version 1 where the text still fits
+UPDATE public.role_applications a
+SET
+  questionnaire_id = q.id,
+  question_responses = (
+    SELECT coalesce(jsonb_object_agg(question->>'id', a.question_responses->(question->>'label')), '{}'::JSONB)
+    FROM jsonb_array_elements(q.questions) question
+    WHERE a.question_responses ? (question->>'label')
+  )
+FROM public.application_questionnaires q
+WHERE a.questionnaire_id IS NULL
+  AND q.role = a.role
+  AND q.version = 1
+  AND EXISTS (
+    SELECT 1 FROM jsonb_array_elements(q.questions) question
+    WHERE a.question_responses ? (question->>'label')
+  );
+
+-- File answers are uploaded before the account exists, into pending/.
+-- Only the admin edge function reads them back, through signed URLs.
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'application-files',
+  'application-files',
+  false,
+  10485760,
+  ARRAY['application/pdf', 'image/jpeg', 'image/png', 'image/webp']
+)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Applicants can upload application files"
+ON storage.objects
+FOR INSERT
+WITH CHECK (
+  bucket_id = 'application-files'
+  AND (storage.foldername(name))[1] = 'pending'
+);
+
+-- Record which questionnaire version the sign-up answered. An unknown id,
+-- or one for another role, leaves the application unversioned.
+CREATE OR REPLACE FUNCTION public.create_role_application()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _role TEXT := NEW.raw_user_meta_data->>'role_request';
+  _questionnaire_id UUID;
+BEGIN
+  IF _role IN ('seller', 'delivery') THEN
+    SELECT id INTO _questionnaire_id
+    FROM public.application_questionnaires
+    WHERE id::TEXT = NEW.raw_user_meta_data->>'questionnaire_id'
+      AND role::TEXT = _role;
+
+    INSERT INTO public.role_applications (user_id, role, questionnaire_id, question_responses)
+    VALUES (
+      NEW.id,
+      _role::public.user_role,
+      _questionnaire_id,
+      CASE
+        WHEN jsonb_typeof(NEW.raw_user_meta_data->'question_responses') = 'object'
+        THEN NEW.raw_user_meta_data->'question_responses'
+        ELSE '{}'::JSONB
+      END
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
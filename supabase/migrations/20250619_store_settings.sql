@@ -0,0 +1,144 @@
+
+-- Store-wide settings. There is exactly one row; every change to it is
+-- recorded in store_settings_history with the admin who made it.
+CREATE TABLE IF NOT EXISTS public.store_settings (
+  id BOOLEAN PRIMARY KEY DEFAULT true CHECK (id),
+  store_name TEXT NOT NULL DEFAULT 'E-Commerce Store',
+  contact_email TEXT NOT NULL DEFAULT '',
+  support_phone TEXT NOT NULL DEFAULT '',
+  address TEXT NOT NULL DEFAULT '',
+  shipping_policy TEXT NOT NULL DEFAULT '',
+  return_policy TEXT NOT NULL DEFAULT '',
+  terms_conditions TEXT NOT NULL DEFAULT '',
+  privacy_policy TEXT NOT NULL DEFAULT '',
+  maintenance_mode BOOLEAN NOT NULL DEFAULT false,
+  enable_seller_applications BOOLEAN NOT NULL DEFAULT true,
+  enable_delivery_applications BOOLEAN NOT NULL DEFAULT true,
+  updated_by UUID,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+INSERT INTO public.store_settings (id) VALUES (true) ON CONFLICT (id) DO NOTHING;
+
+ALTER TABLE public.store_settings ENABLE ROW LEVEL SECURITY;
+
+-- Shoppers need the maintenance flag and application toggles before they
+-- sign in, and the rest is shown publicly anyway
+CREATE POLICY "Anyone can view store settings"
+ON public.store_settings
+FOR SELECT
+USING (true);
+
+CREATE POLICY "Admins can update store settings"
+ON public.store_settings
+FOR UPDATE
+USING (public.has_role(auth.uid(), 'admin'))
+WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE TABLE IF NOT EXISTS public.store_settings_history (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  -- Changed fields as { field: { "from": old, "to": new } }
+  changes JSONB NOT NULL,
+  changed_by UUID,
+  changed_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS store_settings_history_changed_at_idx
+  ON public.store_settings_history (changed_at DESC);
+
+ALTER TABLE public.store_settings_history ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view store settings history"
+ON public.store_settings_history
+FOR SELECT
+USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE OR REPLACE FUNCTION public.record_store_settings_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _changes JSONB;
+BEGIN
+  SELECT jsonb_object_agg(n.key, jsonb_build_object('from', o.value, 'to', n.value))
+  INTO _changes
+  FROM jsonb_each(to_jsonb(NEW)) n
+  JOIN jsonb_each(to_jsonb(OLD)) o ON o.key = n.key
+  WHERE n.key NOT IN ('id', 'updated_by', 'updated_at')
+    AND n.value IS DISTINCT FROM o.value;
+
+  IF _changes IS NOT NULL THEN
+    INSERT INTO public.store_settings_history (changes, changed_by)
+    VALUES (_changes, NEW.updated_by);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS store_settings_history_trigger ON public.store_settings;
+CREATE TRIGGER store_settings_history_trigger
+AFTER UPDATE ON public.store_settings
+FOR EACH ROW
+EXECUTE FUNCTION public.record_store_settings_change();
+
+CREATE OR REPLACE FUNCTION public.store_in_maintenance()
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT coalesce((SELECT maintenance_mode FROM public.store_settings), false);
+$$;
+
+-- Sign-ups asking for a role whose applications are closed become plain
+-- customer accounts; RegisterPage hides those roles, this covers stale tabs
+-- and direct API calls. Applications can't be opened at all during
+-- maintenance, when sign-up is behind the maintenance page.
+CREATE OR REPLACE FUNCTION public.create_role_application()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _role TEXT := NEW.raw_user_meta_data->>'role_request';
+  _questionnaire_id UUID;
+BEGIN
+  IF _role IN ('seller', 'delivery') AND public.store_in_maintenance() THEN
+    RAISE EXCEPTION 'store_in_maintenance';
+  END IF;
+
+  IF _role = 'seller' AND NOT (SELECT enable_seller_applications FROM public.store_settings) THEN
+    RETURN NEW;
+  END IF;
+
+  IF _role = 'delivery' AND NOT (SELECT enable_delivery_applications FROM public.store_settings) THEN
+    RETURN NEW;
+  END IF;
+
+  IF _role IN ('seller', 'delivery') THEN
+    SELECT id INTO _questionnaire_id
+    FROM public.application_questionnaires
+    WHERE id::TEXT = NEW.raw_user_meta_data->>'questionnaire_id'
+      AND role::TEXT = _role;
+
+    INSERT INTO public.role_applications (user_id, role, questionnaire_id, question_responses)
+    VALUES (
+      NEW.id,
+      _role::public.user_role,
+      _questionnaire_id,
+      CASE
+        WHEN jsonb_typeof(NEW.raw_user_meta_data->'question_responses') = 'object'
+        THEN NEW.raw_user_meta_data->'question_responses'
+        ELSE '{}'::JSONB
+      END
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,154 @@
+
+-- Reporting for the admin analytics page. Only orders that were paid for
+-- count as sales; revenue is the order total, so it includes shipping and
+-- discounts. Everything here is read by the admin edge function with the
+-- service role and is not exposed to clients.
+
+-- One row per sold order line, with the product's category
+CREATE OR REPLACE VIEW public.analytics_order_lines
+WITH (security_invoker = true)
+AS
+SELECT
+  o.id AS order_id,
+  o.user_id,
+  o.created_at AS ordered_at,
+  oi.product_id,
+  p.name AS product_name,
+  p.category_id,
+  coalesce(c.name, p.category) AS category_name,
+  oi.quantity,
+  oi.price * oi.quantity AS revenue
+FROM public.order_items oi
+JOIN public.orders o ON o.id = oi.order_id
+JOIN public.products p ON p.id = oi.product_id
+LEFT JOIN public.categories c ON c.id = p.category_id
+WHERE o.status IN ('paid', 'processing', 'shipped', 'delivered');
+
+REVOKE ALL ON public.analytics_order_lines FROM PUBLIC, anon, authenticated;
+GRANT SELECT ON public.analytics_order_lines TO service_role;
+
+-- Headline numbers for [_start, _end). Revenue and orders are for the
+-- window; customers and products are totals as of _end, so comparing with
+-- the previous window gives growth over the period.
+CREATE OR REPLACE FUNCTION public.analytics_summary(_start TIMESTAMPTZ, _end TIMESTAMPTZ)
+RETURNS TABLE (
+  revenue NUMERIC,
+  orders BIGINT,
+  customers BIGINT,
+  products BIGINT
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    (SELECT coalesce(sum(total), 0) FROM public.orders
+      WHERE status IN ('paid', 'processing', 'shipped', 'delivered')
+        AND created_at >= _start AND created_at < _end),
+    (SELECT count(*) FROM public.orders
+      WHERE status IN ('paid', 'processing', 'shipped', 'delivered')
+        AND created_at >= _start AND created_at < _end),
+    (SELECT count(*) FROM public.user_roles
+      WHERE role = 'customer' AND created_at < _end),
+    (SELECT count(*) FROM public.products
+      WHERE created_at < _end);
+$$;
+
+-- Revenue and orders per day, week or month, with empty buckets as zero
+CREATE OR REPLACE FUNCTION public.analytics_sales_series(
+  _start TIMESTAMPTZ,
+  _end TIMESTAMPTZ,
+  _bucket TEXT DEFAULT 'day'
+)
+RETURNS TABLE (
+  bucket_start TIMESTAMPTZ,
+  revenue NUMERIC,
+  orders BIGINT
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF _bucket NOT IN ('day', 'week', 'month') THEN
+    RAISE EXCEPTION 'invalid_bucket';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    b.bucket_start,
+    coalesce(sum(o.total), 0),
+    count(o.id)
+  FROM generate_series(
+    date_trunc(_bucket, _start),
+    _end,
+    ('1 ' || _bucket)::INTERVAL
+  ) AS b(bucket_start)
+  LEFT JOIN public.orders o
+    ON date_trunc(_bucket, o.created_at) = b.bucket_start
+    AND o.created_at >= _start AND o.created_at < _end
+    AND o.status IN ('paid', 'processing', 'shipped', 'delivered')
+  GROUP BY b.bucket_start
+  ORDER BY b.bucket_start;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.analytics_category_sales(
+  _start TIMESTAMPTZ,
+  _end TIMESTAMPTZ,
+  _limit INTEGER DEFAULT 8
+)
+RETURNS TABLE (
+  name TEXT,
+  revenue NUMERIC,
+  units BIGINT
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT category_name, sum(revenue), sum(quantity)
+  FROM public.analytics_order_lines
+  WHERE ordered_at >= _start AND ordered_at < _end
+  GROUP BY category_name
+  ORDER BY sum(revenue) DESC
+  LIMIT LEAST(GREATEST(_limit, 1), 50);
+$$;
+
+CREATE OR REPLACE FUNCTION public.analytics_top_products(
+  _start TIMESTAMPTZ,
+  _end TIMESTAMPTZ,
+  _limit INTEGER DEFAULT 5
+)
+RETURNS TABLE (
+  product_id UUID,
+  name TEXT,
+  units BIGINT,
+  revenue NUMERIC
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT product_id, product_name, sum(quantity), sum(revenue)
+  FROM public.analytics_order_lines
+  WHERE ordered_at >= _start AND ordered_at < _end
+  GROUP BY product_id, product_name
+  ORDER BY sum(quantity) DESC, sum(revenue) DESC
+  LIMIT LEAST(GREATEST(_limit, 1), 50);
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.analytics_summary(TIMESTAMPTZ, TIMESTAMPTZ) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.analytics_sales_series(TIMESTAMPTZ, TIMESTAMPTZ, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.analytics_category_sales(TIMESTAMPTZ, TIMESTAMPTZ, INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.analytics_top_products(TIMESTAMPTZ, TIMESTAMPTZ, INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.analytics_summary(TIMESTAMPTZ, TIMESTAMPTZ) TO service_role;
+GRANT EXECUTE ON FUNCTION public.analytics_sales_series(TIMESTAMPTZ, TIMESTAMPTZ, TEXT) TO service_role;
+GRANT EXECUTE ON FUNCTION public.analytics_category_sales(TIMESTAMPTZ, TIMESTAMPTZ, INTEGER) TO service_role;
+GRANT EXECUTE ON FUNCTION public.analytics_top_products(TIMESTAMPTZ, TIMESTAMPTZ, INTEGER) TO service_role;
+
+CREATE INDEX IF NOT EXISTS orders_created_at_idx ON public.orders (created_at);
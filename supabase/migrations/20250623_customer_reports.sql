@@ -0,0 +1,170 @@
+
+-- Customer reports for admins: conversion funnel, cohort retention, repeat
+-- purchases and average order value by category. Product views come from
+-- product_views; add-to-cart events are recorded here.
+
+-- One row per add-to-cart. session_id is the same browser id product_views
+-- uses, so guests can be followed from view to cart.
+CREATE TABLE IF NOT EXISTS public.cart_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  product_id UUID NOT NULL REFERENCES public.products(id) ON DELETE CASCADE,
+  variant_id UUID REFERENCES public.product_variants(id) ON DELETE SET NULL,
+  quantity INTEGER NOT NULL CHECK (quantity > 0),
+  user_id UUID,
+  session_id TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS cart_events_created_at_idx ON public.cart_events (created_at);
+
+-- Events are written by record_cart_event and only read by definer functions
+ALTER TABLE public.cart_events ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION public.record_cart_event(
+  _product_id UUID,
+  _session_id TEXT,
+  _quantity INTEGER DEFAULT 1,
+  _variant_id UUID DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF _session_id IS NULL OR length(_session_id) > 64 OR _quantity IS NULL OR _quantity < 1 THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO public.cart_events (product_id, variant_id, quantity, user_id, session_id)
+  SELECT _product_id, _variant_id, LEAST(_quantity, 1000), auth.uid(), _session_id
+  WHERE EXISTS (SELECT 1 FROM public.products WHERE id = _product_id);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.record_cart_event(UUID, TEXT, INTEGER, UUID) TO anon, authenticated;
+
+-- Distinct shoppers reaching each step in [_start, _end). Guests are
+-- counted by browser session until they sign in; checkouts are orders
+-- placed in any status and purchases are orders that were paid for.
+CREATE OR REPLACE FUNCTION public.analytics_funnel(_start TIMESTAMPTZ, _end TIMESTAMPTZ)
+RETURNS TABLE (
+  viewers BIGINT,
+  cart_adders BIGINT,
+  checkouts BIGINT,
+  buyers BIGINT
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    (SELECT count(DISTINCT coalesce(user_id::TEXT, session_id)) FROM public.product_views
+      WHERE viewed_at >= _start AND viewed_at < _end),
+    (SELECT count(DISTINCT coalesce(user_id::TEXT, session_id)) FROM public.cart_events
+      WHERE created_at >= _start AND created_at < _end),
+    (SELECT count(DISTINCT user_id) FROM public.orders
+      WHERE created_at >= _start AND created_at < _end),
+    (SELECT count(DISTINCT user_id) FROM public.orders
+      WHERE status IN ('paid', 'processing', 'shipped', 'delivered')
+        AND created_at >= _start AND created_at < _end);
+$$;
+
+-- Customers grouped by the month of their first paid order, and how many
+-- of each cohort ordered again n months later. Covers the last _months
+-- cohorts; months_since 0 is the cohort size.
+CREATE OR REPLACE FUNCTION public.analytics_cohort_retention(_months INTEGER DEFAULT 12)
+RETURNS TABLE (
+  cohort_month DATE,
+  months_since INTEGER,
+  customers BIGINT
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH paid AS (
+    SELECT user_id, date_trunc('month', created_at)::DATE AS order_month
+    FROM public.orders
+    WHERE status IN ('paid', 'processing', 'shipped', 'delivered')
+  ),
+  cohorts AS (
+    SELECT user_id, min(order_month) AS cohort_month
+    FROM paid
+    GROUP BY user_id
+  )
+  SELECT
+    c.cohort_month,
+    ((extract(YEAR FROM age(p.order_month, c.cohort_month)) * 12)
+      + extract(MONTH FROM age(p.order_month, c.cohort_month)))::INTEGER,
+    count(DISTINCT p.user_id)
+  FROM cohorts c
+  JOIN paid p ON p.user_id = c.user_id
+  WHERE c.cohort_month >= date_trunc('month', now()) - make_interval(months => LEAST(GREATEST(_months, 1), 36) - 1)
+  GROUP BY 1, 2
+  ORDER BY 1, 2;
+$$;
+
+-- How many customers placed one, two, three or four-plus paid orders in
+-- [_start, _end)
+CREATE OR REPLACE FUNCTION public.analytics_repeat_purchases(_start TIMESTAMPTZ, _end TIMESTAMPTZ)
+RETURNS TABLE (
+  orders_per_customer INTEGER,
+  customers BIGINT
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT LEAST(order_count, 4)::INTEGER, count(*)
+  FROM (
+    SELECT user_id, count(*) AS order_count
+    FROM public.orders
+    WHERE status IN ('paid', 'processing', 'shipped', 'delivered')
+      AND created_at >= _start AND created_at < _end
+    GROUP BY user_id
+  ) per_customer
+  GROUP BY 1
+  ORDER BY 1;
+$$;
+
+-- Average total of the orders that included each category. An order with
+-- items from two categories counts towards both.
+CREATE OR REPLACE FUNCTION public.analytics_category_order_values(
+  _start TIMESTAMPTZ,
+  _end TIMESTAMPTZ,
+  _limit INTEGER DEFAULT 10
+)
+RETURNS TABLE (
+  name TEXT,
+  orders BIGINT,
+  average_order_value NUMERIC
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT l.category_name, count(*), round(avg(o.total), 2)
+  FROM (
+    SELECT DISTINCT order_id, category_name
+    FROM public.analytics_order_lines
+    WHERE ordered_at >= _start AND ordered_at < _end
+  ) l
+  JOIN public.orders o ON o.id = l.order_id
+  GROUP BY l.category_name
+  ORDER BY avg(o.total) DESC
+  LIMIT LEAST(GREATEST(_limit, 1), 50);
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.analytics_funnel(TIMESTAMPTZ, TIMESTAMPTZ) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.analytics_cohort_retention(INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.analytics_repeat_purchases(TIMESTAMPTZ, TIMESTAMPTZ) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.analytics_category_order_values(TIMESTAMPTZ, TIMESTAMPTZ, INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.analytics_funnel(TIMESTAMPTZ, TIMESTAMPTZ) TO service_role;
+GRANT EXECUTE ON FUNCTION public.analytics_cohort_retention(INTEGER) TO service_role;
+GRANT EXECUTE ON FUNCTION public.analytics_repeat_purchases(TIMESTAMPTZ, TIMESTAMPTZ) TO service_role;
+GRANT EXECUTE ON FUNCTION public.analytics_category_order_values(TIMESTAMPTZ, TIMESTAMPTZ, INTEGER) TO service_role;